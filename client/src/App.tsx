@@ -10,6 +10,9 @@ import { Home } from './pages/Home';
 import { Accounts } from './pages/Accounts';
 import { Transactions } from './pages/Transactions';
 import { Categories } from './pages/Categories';
+import { Rules } from './pages/Rules';
+import { Review } from './pages/Review';
+import { Tuning } from './pages/Tuning';
 import { Logs } from './pages/Logs';
 import { theme } from './theme';
 
@@ -32,6 +35,9 @@ const App: React.FC = () => {
               <Route index element={<Home />} />
               <Route path="accounts" element={<Accounts />} />
               <Route path="categories" element={<Categories />} />
+              <Route path="rules" element={<Rules />} />
+              <Route path="review" element={<Review />} />
+              <Route path="tuning" element={<Tuning />} />
               <Route path="transactions" element={<Transactions />} />
               <Route path="logs" element={<Logs />} />
             </Route>
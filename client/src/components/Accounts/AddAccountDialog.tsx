@@ -33,12 +33,15 @@ export const AddAccountDialog: React.FC<AddAccountDialogProps> = ({
   const [password, setPassword] = useState('');
   const [card6Digits, setCard6Digits] = useState('');
   const [id, setId] = useState(''); // For Isracard user identification number
+  const [phoneNumber, setPhoneNumber] = useState(''); // For One Zero SMS one-time passwords
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
 
   const isCreditCard = ['visaCal', 'max', 'isracard', 'amex'].includes(companyId);
+  const isManual = companyId === 'manual';
   const requiresCard6Digits = ['isracard', 'amex'].includes(companyId);
   const requiresId = companyId === 'isracard';
+  const requiresPhone = companyId === 'oneZero';
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -55,7 +58,8 @@ export const AddAccountDialog: React.FC<AddAccountDialogProps> = ({
         username, 
         password,
         requiresCard6Digits ? card6Digits : undefined,
-        requiresId ? id : undefined
+        requiresId ? id : undefined,
+        requiresPhone ? phoneNumber : undefined
       );
       onAccountAdded();
       handleClose();
@@ -74,6 +78,7 @@ export const AddAccountDialog: React.FC<AddAccountDialogProps> = ({
     setPassword('');
     setCard6Digits('');
     setId('');
+    setPhoneNumber('');
     setError('');
     onClose();
   };
@@ -100,21 +105,25 @@ export const AddAccountDialog: React.FC<AddAccountDialogProps> = ({
           >
             {companyOptions.map((option) => (
               <MenuItem key={option.value} value={option.value}>
-                {option.label} ({option.type === 'bank' ? 'Bank' : 'Credit Card'})
+                {option.type === 'manual'
+                  ? option.label
+                  : `${option.label} (${option.type === 'bank' ? 'Bank' : 'Credit Card'})`}
               </MenuItem>
             ))}
           </TextField>
 
           <TextField
             fullWidth
-            label={isCreditCard ? "Card/Account Identifier" : "Account Number"}
+            label={isCreditCard ? "Card/Account Identifier" : isManual ? "Reference (optional)" : "Account Number"}
             value={accountNumber}
             onChange={(e) => setAccountNumber(e.target.value)}
             margin="normal"
-            required
+            required={!isManual}
             helperText={isCreditCard 
               ? "Identifier for this card (e.g., last 4 digits or card nickname). This will also be used as the account name. Not used for authentication."
-              : "Your bank account number"}
+              : isManual
+                ? "Optional account or loan number, for your own reference"
+                : "Your bank account number"}
           />
 
           {!isCreditCard && (
@@ -125,65 +134,89 @@ export const AddAccountDialog: React.FC<AddAccountDialogProps> = ({
               onChange={(e) => setAlias(e.target.value)}
               margin="normal"
               required
-              helperText="Give this account a friendly name"
+              helperText={isManual ? "For example Cash Wallet or Car Loan" : "Give this account a friendly name"}
             />
           )}
 
-          {requiresId && (
-            <TextField
-              fullWidth
-              label="User Identification Number (ID)"
-              value={id}
-              onChange={(e) => setId(e.target.value)}
-              margin="normal"
-              required
-              autoComplete="off"
-              helperText="Your Isracard user identification number"
-            />
-          )}
+          {isManual ? (
+            <Box sx={{ mt: 1 }}>
+              <Alert severity="info">
+                Manual accounts are never scraped. Add their transactions from the Transactions page or
+                import a statement file.
+              </Alert>
+            </Box>
+          ) : (
+            <>
+              {requiresId && (
+                <TextField
+                  fullWidth
+                  label="User Identification Number (ID)"
+                  value={id}
+                  onChange={(e) => setId(e.target.value)}
+                  margin="normal"
+                  required
+                  autoComplete="off"
+                  helperText="Your Isracard user identification number"
+                />
+              )}
 
-          <TextField
-            fullWidth
-            label={requiresId ? "Username (optional)" : "Username"}
-            value={username}
-            onChange={(e) => setUsername(e.target.value)}
-            margin="normal"
-            required={!requiresId}
-            autoComplete="off"
-            helperText={requiresId ? "Optional - ID is used for authentication" : undefined}
-          />
+              <TextField
+                fullWidth
+                label={requiresId ? "Username (optional)" : requiresPhone ? "Email" : "Username"}
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                margin="normal"
+                required={!requiresId}
+                autoComplete="off"
+                helperText={requiresId ? "Optional - ID is used for authentication" : undefined}
+              />
 
-          {requiresCard6Digits && (
-            <TextField
-              fullWidth
-              label="Last 6 Digits of Card"
-              value={card6Digits}
-              onChange={(e) => setCard6Digits(e.target.value.replace(/\D/g, '').slice(0, 6))}
-              margin="normal"
-              required
-              autoComplete="off"
-              inputProps={{ maxLength: 6 }}
-              helperText="Enter the last 6 digits of your credit card"
-            />
-          )}
+              {requiresPhone && (
+                <TextField
+                  fullWidth
+                  label="Phone Number"
+                  value={phoneNumber}
+                  onChange={(e) => setPhoneNumber(e.target.value)}
+                  margin="normal"
+                  required
+                  autoComplete="off"
+                  helperText="One-time passwords are sent to this phone. You'll enter the first code when you scrape this account."
+                />
+              )}
 
-          <TextField
-            fullWidth
-            label="Password"
-            type="password"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            margin="normal"
-            required
-            autoComplete="new-password"
-          />
+              {requiresCard6Digits && (
+                <TextField
+                  fullWidth
+                  label="Last 6 Digits of Card"
+                  value={card6Digits}
+                  onChange={(e) => setCard6Digits(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                  margin="normal"
+                  required
+                  autoComplete="off"
+                  inputProps={{ maxLength: 6 }}
+                  helperText="Enter the last 6 digits of your credit card"
+                />
+              )}
 
-          <Box sx={{ mt: 1 }}>
-            <Alert severity="info">
-              Your credentials are encrypted and stored securely. They are only used to fetch your
-              transaction data.
-            </Alert>
-          </Box>
+              <TextField
+                fullWidth
+                label="Password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                margin="normal"
+                required
+                autoComplete="new-password"
+              />
+
+              <Box sx={{ mt: 1 }}>
+                <Alert severity="info">
+                  Your credentials are encrypted and stored securely. They are only used to fetch your
+                  transaction data.
+                </Alert>
+              </Box>
+            </>
+          )}
         </DialogContent>
         <DialogActions>
           <Button onClick={handleClose} disabled={loading}>
@@ -39,6 +39,7 @@ export const EditAccountDialog: React.FC<EditAccountDialogProps> = ({
   const [password, setPassword] = useState(PASSWORD_PLACEHOLDER);
   const [card6Digits, setCard6Digits] = useState('');
   const [userIdNumber, setUserIdNumber] = useState('');
+  const [phoneNumber, setPhoneNumber] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [passwordChanged, setPasswordChanged] = useState(false);
   const [error, setError] = useState('');
@@ -51,6 +52,7 @@ export const EditAccountDialog: React.FC<EditAccountDialogProps> = ({
       setUsername(account.username || '');
       setCard6Digits(account.card6Digits || '');
       setUserIdNumber(account.userIdNumber || '');
+      setPhoneNumber(account.phoneNumber || '');
       setPassword(PASSWORD_PLACEHOLDER);
       setPasswordChanged(false);
       setShowPassword(false);
@@ -60,6 +62,8 @@ export const EditAccountDialog: React.FC<EditAccountDialogProps> = ({
   const isCreditCard = account && ['visaCal', 'max', 'isracard', 'amex'].includes(account.companyId);
   const requiresCard6Digits = account && ['isracard', 'amex'].includes(account.companyId);
   const requiresId = account?.companyId === 'isracard';
+  const requiresPhone = account?.companyId === 'oneZero';
+  const isManual = account?.accountType === 'manual';
 
   const handlePasswordChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newPassword = e.target.value;
@@ -108,6 +112,11 @@ export const EditAccountDialog: React.FC<EditAccountDialogProps> = ({
         }
       }
 
+      // Changing the email, password or phone number makes the server drop the stored one-time password token
+      if (requiresPhone && phoneNumber.trim() !== '') {
+        updates.phoneNumber = phoneNumber.trim();
+      }
+
       await apiClient.updateAccount(account.id, updates);
       onAccountUpdated();
       handleClose();
@@ -149,67 +158,84 @@ export const EditAccountDialog: React.FC<EditAccountDialogProps> = ({
             required
           />
 
-          {requiresId && (
-            <TextField
-              fullWidth
-              label="User Identification Number (ID)"
-              value={userIdNumber}
-              onChange={(e) => setUserIdNumber(e.target.value)}
-              margin="normal"
-              required
-              autoComplete="off"
-              helperText="Your Isracard user identification number"
-            />
-          )}
+          {!isManual && (
+            <>
+              {requiresId && (
+                <TextField
+                  fullWidth
+                  label="User Identification Number (ID)"
+                  value={userIdNumber}
+                  onChange={(e) => setUserIdNumber(e.target.value)}
+                  margin="normal"
+                  required
+                  autoComplete="off"
+                  helperText="Your Isracard user identification number"
+                />
+              )}
 
-          <TextField
-            fullWidth
-            label={requiresId ? "Username (optional)" : "Username"}
-            value={username}
-            onChange={(e) => setUsername(e.target.value)}
-            margin="normal"
-            required={!requiresId}
-            autoComplete="off"
-            helperText={requiresId ? "Optional - ID is used for authentication" : undefined}
-          />
+              <TextField
+                fullWidth
+                label={requiresId ? "Username (optional)" : requiresPhone ? "Email" : "Username"}
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                margin="normal"
+                required={!requiresId}
+                autoComplete="off"
+                helperText={requiresId ? "Optional - ID is used for authentication" : undefined}
+              />
 
-          {requiresCard6Digits && (
-            <TextField
-              fullWidth
-              label="Last 6 Digits of Card"
-              value={card6Digits}
-              onChange={(e) => setCard6Digits(e.target.value.replace(/\D/g, '').slice(0, 6))}
-              margin="normal"
-              required
-              autoComplete="off"
-              inputProps={{ maxLength: 6 }}
-              helperText="Enter the last 6 digits of your credit card"
-            />
-          )}
+              {requiresPhone && (
+                <TextField
+                  fullWidth
+                  label="Phone Number"
+                  value={phoneNumber}
+                  onChange={(e) => setPhoneNumber(e.target.value)}
+                  margin="normal"
+                  required
+                  autoComplete="off"
+                  helperText="Changing the login details requires entering a new one-time password on the next scrape"
+                />
+              )}
 
-          <TextField
-            fullWidth
-            label="Password"
-            type={showPassword ? 'text' : 'password'}
-            value={password}
-            onChange={handlePasswordChange}
-            margin="normal"
-            autoComplete="new-password"
-            helperText={passwordChanged ? "Password will be updated" : "Leave as is to keep current password"}
-            InputProps={{
-              endAdornment: (
-                <InputAdornment position="end">
-                  <IconButton
-                    aria-label="toggle password visibility"
-                    onClick={togglePasswordVisibility}
-                    edge="end"
-                  >
-                    {showPassword ? <VisibilityOff /> : <Visibility />}
-                  </IconButton>
-                </InputAdornment>
-              ),
-            }}
-          />
+              {requiresCard6Digits && (
+                <TextField
+                  fullWidth
+                  label="Last 6 Digits of Card"
+                  value={card6Digits}
+                  onChange={(e) => setCard6Digits(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                  margin="normal"
+                  required
+                  autoComplete="off"
+                  inputProps={{ maxLength: 6 }}
+                  helperText="Enter the last 6 digits of your credit card"
+                />
+              )}
+
+              <TextField
+                fullWidth
+                label="Password"
+                type={showPassword ? 'text' : 'password'}
+                value={password}
+                onChange={handlePasswordChange}
+                margin="normal"
+                autoComplete="new-password"
+                helperText={passwordChanged ? "Password will be updated" : "Leave as is to keep current password"}
+                InputProps={{
+                  endAdornment: (
+                    <InputAdornment position="end">
+                      <IconButton
+                        aria-label="toggle password visibility"
+                        onClick={togglePasswordVisibility}
+                        edge="end"
+                      >
+                        {showPassword ? <VisibilityOff /> : <Visibility />}
+                      </IconButton>
+                    </InputAdornment>
+                  ),
+                }}
+              />
+            </>
+          )}
 
           <FormControlLabel
             control={<Switch checked={active} onChange={(e) => setActive(e.target.checked)} />}
@@ -219,9 +245,11 @@ export const EditAccountDialog: React.FC<EditAccountDialogProps> = ({
 
           <Box sx={{ mt: 1 }}>
             <Alert severity="info">
-              {passwordChanged 
-                ? "Your credentials will be encrypted and stored securely."
-                : "Inactive accounts will not be scraped for new transactions. Leave password unchanged to keep current password."}
+              {isManual
+                ? "Manual accounts are never scraped. Add their transactions from the Transactions page."
+                : passwordChanged
+                  ? "Your credentials will be encrypted and stored securely."
+                  : "Inactive accounts will not be scraped for new transactions. Leave password unchanged to keep current password."}
             </Alert>
           </Box>
         </DialogContent>
@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Alert,
+  CircularProgress,
+  MenuItem,
+  Typography,
+  Box,
+} from '@mui/material';
+import { UploadFile as UploadFileIcon } from '@mui/icons-material';
+import type { Account, ImportPreset, StatementImportResult } from '../../types';
+import { apiClient, getApiErrorMessage } from '../../services/api';
+
+interface ImportDialogProps {
+  open: boolean;
+  account: Account | null;
+  onClose: () => void;
+  onImportComplete: () => void;
+}
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ open, account, onClose, onImportComplete }) => {
+  const [presets, setPresets] = useState<ImportPreset[]>([]);
+  const [preset, setPreset] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<StatementImportResult | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open || !account) return;
+
+    setFile(null);
+    setResult(null);
+    setError('');
+
+    const fetchPresets = async () => {
+      try {
+        const list = await apiClient.getImportPresets();
+        setPresets(list);
+        // Presets are named after the institution, so most accounts have a matching one
+        const match = list.find((p) => p.id === account.companyId);
+        setPreset(match ? match.id : list[0]?.id || '');
+      } catch (err: unknown) {
+        setError(getApiErrorMessage(err, 'Failed to fetch import presets'));
+      }
+    };
+
+    fetchPresets();
+  }, [open, account]);
+
+  // OFX/QFX and QIF files carry their own field names, so only spreadsheets need a format
+  const needsPreset = !!file && !/\.(ofx|qfx|qif)$/i.test(file.name);
+
+  const handleImport = async () => {
+    if (!account || !file) return;
+
+    setError('');
+    setLoading(true);
+
+    try {
+      const summary = await apiClient.importStatement(account.id, file, needsPreset ? preset : undefined);
+      setResult(summary);
+      onImportComplete();
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to import statement'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!account) return null;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Import Statement - {account.alias}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {result && (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            Imported {result.imported} of {result.total} transactions
+            {result.duplicates > 0 && ` (${result.duplicates} already stored)`}
+            {result.skippedRows > 0 && `, ${result.skippedRows} rows skipped`}
+          </Alert>
+        )}
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Upload a CSV or Excel (.xlsx) export from the bank or card company website, or an OFX, QFX or
+          QIF file from a finance app. Transactions that were already scraped or imported are skipped.
+        </Typography>
+
+        <TextField
+          select
+          fullWidth
+          disabled={!!file && !needsPreset}
+          label="File Format"
+          value={preset}
+          onChange={(e) => setPreset(e.target.value)}
+          margin="normal"
+        >
+          {presets.map((p) => (
+            <MenuItem key={p.id} value={p.id}>
+              {p.label}
+            </MenuItem>
+          ))}
+        </TextField>
+
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 2 }}>
+          <Button variant="outlined" component="label" startIcon={<UploadFileIcon />}>
+            Choose File
+            <input
+              type="file"
+              hidden
+              accept=".csv,.xlsx,.ofx,.qfx,.qif"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null);
+                setResult(null);
+              }}
+            />
+          </Button>
+          <Typography variant="body2" color="text.secondary" noWrap>
+            {file ? file.name : 'No file selected'}
+          </Typography>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={loading}>
+          {result ? 'Close' : 'Cancel'}
+        </Button>
+        <Button onClick={handleImport} variant="contained" disabled={loading || !file || (needsPreset && !preset)}>
+          {loading ? <CircularProgress size={24} /> : 'Import'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Alert,
+  CircularProgress,
+  FormControlLabel,
+  Switch,
+  MenuItem,
+  Typography,
+} from '@mui/material';
+import type { Account, ScrapeSchedule } from '../../types';
+import { apiClient, getApiErrorMessage } from '../../services/api';
+
+interface ScheduleDialogProps {
+  open: boolean;
+  account: Account | null;
+  schedule: ScrapeSchedule | null;
+  onClose: () => void;
+  onScheduleChanged: () => void;
+}
+
+const PRESETS = [
+  { value: '0 6 * * *', label: 'Daily at 06:00' },
+  { value: '0 6 * * 0', label: 'Weekly on Sunday at 06:00' },
+  { value: '0 6 1 * *', label: 'Monthly on the 1st at 06:00' },
+];
+
+const CUSTOM = 'custom';
+
+export const ScheduleDialog: React.FC<ScheduleDialogProps> = ({
+  open,
+  account,
+  schedule,
+  onClose,
+  onScheduleChanged,
+}) => {
+  const [preset, setPreset] = useState(PRESETS[0].value);
+  const [customCron, setCustomCron] = useState('');
+  const [overlapDays, setOverlapDays] = useState('');
+  const [enabled, setEnabled] = useState(true);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!account) return;
+
+    // Same defaults as the server: daily for banks, weekly for credit cards
+    const cron = schedule?.cronExpression || (account.accountType === 'credit' ? '0 6 * * 0' : '0 6 * * *');
+    const isPreset = PRESETS.some((p) => p.value === cron);
+    setPreset(isPreset ? cron : CUSTOM);
+    setCustomCron(isPreset ? '' : cron);
+    setOverlapDays(schedule?.overlapDays != null ? String(schedule.overlapDays) : '');
+    setEnabled(schedule?.enabled ?? true);
+    setError('');
+  }, [account, schedule]);
+
+  const handleSave = async () => {
+    if (!account) return;
+
+    const cronExpression = preset === CUSTOM ? customCron.trim() : preset;
+    if (!cronExpression) {
+      setError('Cron expression is required');
+      return;
+    }
+
+    setError('');
+    setLoading(true);
+
+    try {
+      const overlap = overlapDays.trim() === '' ? null : parseInt(overlapDays, 10);
+      if (schedule) {
+        await apiClient.updateSchedule(schedule.id, { cronExpression, overlapDays: overlap, enabled });
+      } else {
+        await apiClient.createSchedule(account.id, cronExpression, overlap, enabled);
+      }
+      onScheduleChanged();
+      onClose();
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to save schedule'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!schedule) return;
+
+    setError('');
+    setLoading(true);
+
+    try {
+      await apiClient.deleteSchedule(schedule.id);
+      onScheduleChanged();
+      onClose();
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to remove schedule'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!account) return null;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Scrape Schedule - {account.alias}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Scheduled scrapes fetch transactions since the last scrape, re-checking a few days before it
+          to catch transactions that posted late.
+        </Typography>
+
+        <TextField
+          select
+          fullWidth
+          label="Frequency"
+          value={preset}
+          onChange={(e) => setPreset(e.target.value)}
+          margin="normal"
+        >
+          {PRESETS.map((p) => (
+            <MenuItem key={p.value} value={p.value}>
+              {p.label}
+            </MenuItem>
+          ))}
+          <MenuItem value={CUSTOM}>Custom (cron expression)</MenuItem>
+        </TextField>
+
+        {preset === CUSTOM && (
+          <TextField
+            fullWidth
+            label="Cron Expression"
+            value={customCron}
+            onChange={(e) => setCustomCron(e.target.value)}
+            margin="normal"
+            placeholder="0 6 * * 1-5"
+            helperText="minute hour day-of-month month day-of-week"
+          />
+        )}
+
+        <TextField
+          fullWidth
+          type="number"
+          label="Overlap Days"
+          value={overlapDays}
+          onChange={(e) => setOverlapDays(e.target.value)}
+          margin="normal"
+          inputProps={{ min: 0, max: 60 }}
+          helperText="Days before the last scrape to fetch again. Leave empty for the institution default"
+        />
+
+        <FormControlLabel
+          control={<Switch checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />}
+          label="Enabled"
+          sx={{ mt: 1 }}
+        />
+      </DialogContent>
+      <DialogActions>
+        {schedule && (
+          <Button onClick={handleRemove} color="error" disabled={loading} sx={{ mr: 'auto' }}>
+            Remove Schedule
+          </Button>
+        )}
+        <Button onClick={onClose} disabled={loading}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} variant="contained" disabled={loading}>
+          {loading ? <CircularProgress size={24} /> : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -12,10 +12,13 @@ import {
   ToggleButton,
   Box,
   LinearProgress,
+  TextField,
 } from '@mui/material';
 import { apiClient } from '../../services/api';
 import { formatDateForApi } from '../../utils/dateUtils';
+import { format } from 'date-fns';
 import { subDays, subMonths } from 'date-fns';
+import type { ScrapeErrorClass, ScrapeJob, ScrapeJobEvent } from '../../types';
 
 interface ScrapeDialogProps {
   open: boolean;
@@ -24,7 +27,99 @@ interface ScrapeDialogProps {
   accountIds?: string[];
 }
 
-type ScrapeRange = 'last_month' | 'all_data';
+type ScrapeRange = 'since_last_sync' | 'last_month' | 'all_data';
+
+const POLL_INTERVAL_MS = 2000;
+
+// Stages come from israeli-bank-scrapers progress events plus the orchestrator's own
+const STAGE_LABELS: Record<string, string> = {
+  QUEUED: 'Waiting to start',
+  INITIALIZING: 'Opening browser',
+  START_SCRAPING: 'Starting',
+  LOGGING_IN: 'Logging in',
+  WAITING_FOR_OTP: 'Waiting for one-time password',
+  LOGIN_SUCCESS: 'Logged in, fetching transactions',
+  LOGIN_FAILED: 'Login failed',
+  CHANGE_PASSWORD: 'Password change required',
+  END_SCRAPING: 'Fetched transactions',
+  TERMINATING: 'Closing browser',
+  RETRY_WAIT: 'Failed, waiting to retry',
+  SAVING: 'Saving transactions',
+  DONE: 'Done',
+  FAILED: 'Failed',
+};
+
+// Cause and suggested action shown for each class of failure
+const ERROR_CLASS_HINTS: Record<ScrapeErrorClass, { cause: string; action: string }> = {
+  invalid_credentials: {
+    cause: 'Login rejected',
+    action: 'Check the username and password in the account settings.',
+  },
+  change_password: {
+    cause: 'Password change required',
+    action: "Log in on the institution's website, set a new password, then update it here.",
+  },
+  rate_limited: {
+    cause: 'Blocked for too many requests',
+    action: 'Wait a while before scraping again, or use a shorter date range.',
+  },
+  timeout: {
+    cause: 'The site took too long to respond',
+    action: 'Try again later.',
+  },
+  otp_required: {
+    cause: 'One-time password needed',
+    action: 'Start the scrape manually and enter the SMS code when asked.',
+  },
+  generic: {
+    cause: 'Unexpected error',
+    action: 'Try again. If it keeps failing, check the logs.',
+  },
+};
+
+interface TimelineEntry {
+  label: string;
+  timestamp: number;
+  isError: boolean;
+}
+
+interface AccountTimeline {
+  accountName: string;
+  companyId: string;
+  entries: TimelineEntry[];
+}
+
+interface PendingOtp {
+  jobId: string;
+  accountId: string;
+  accountName: string;
+}
+
+const isErrorStage = (stage: string) => stage === 'FAILED' || stage === 'LOGIN_FAILED';
+
+// A job that is already waiting when the stream opens only reports it through the progress stages
+const findPendingOtp = (job: ScrapeJob): PendingOtp | null => {
+  const waiting = job.progress.find((p) => p.stage === 'WAITING_FOR_OTP');
+  return waiting ? { jobId: job.id, accountId: waiting.accountId, accountName: waiting.accountName } : null;
+};
+
+const buildTimeline = (job: ScrapeJob): Record<string, AccountTimeline> => {
+  const timeline: Record<string, AccountTimeline> = {};
+  for (const p of job.progress) {
+    timeline[p.accountId] = {
+      accountName: p.accountName,
+      companyId: p.companyId,
+      entries: [
+        {
+          label: STAGE_LABELS[p.stage] || p.stage,
+          timestamp: p.updatedAt,
+          isError: isErrorStage(p.stage),
+        },
+      ],
+    };
+  }
+  return timeline;
+};
 
 export const ScrapeDialog: React.FC<ScrapeDialogProps> = ({
   open,
@@ -32,55 +127,217 @@ export const ScrapeDialog: React.FC<ScrapeDialogProps> = ({
   onScrapeComplete,
   accountIds,
 }) => {
-  const [range, setRange] = useState<ScrapeRange>('last_month');
+  const [range, setRange] = useState<ScrapeRange>('since_last_sync');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
-  const [result, setResult] = useState<any>(null);
+  const [result, setResult] = useState<ScrapeJob | null>(null);
+  const [activeJob, setActiveJob] = useState<ScrapeJob | null>(null);
+  const [timeline, setTimeline] = useState<Record<string, AccountTimeline>>({});
+  const [pollingFallback, setPollingFallback] = useState(false);
+  const [pendingOtp, setPendingOtp] = useState<PendingOtp | null>(null);
+  const [otpCode, setOtpCode] = useState('');
+  const [otpSubmitting, setOtpSubmitting] = useState(false);
+  const streamAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => streamAbortRef.current?.abort();
+  }, []);
+
+  const finishJob = useCallback(
+    (job: ScrapeJob) => {
+      setActiveJob(null);
+      setPendingOtp(null);
+      setResult(job);
+      setLoading(false);
+      if (job.results.some((r) => r.success)) {
+        onScrapeComplete();
+      }
+    },
+    [onScrapeComplete]
+  );
+
+  const handleJobEvent = (event: ScrapeJobEvent) => {
+    if (event.type === 'snapshot') {
+      setActiveJob(event.job);
+      setTimeline(buildTimeline(event.job));
+      setPendingOtp(findPendingOtp(event.job));
+      return;
+    }
+
+    if (event.type === 'otp') {
+      setPendingOtp({ jobId: event.jobId, accountId: event.accountId, accountName: event.accountName });
+      setOtpCode('');
+      return;
+    }
+
+    if (event.type === 'stage') {
+      if (event.stage !== 'WAITING_FOR_OTP') {
+        setPendingOtp((prev) => (prev?.accountId === event.accountId ? null : prev));
+      }
+      setTimeline((prev) => {
+        const account = prev[event.accountId] || {
+          accountName: event.accountName,
+          companyId: event.companyId,
+          entries: [],
+        };
+        return {
+          ...prev,
+          [event.accountId]: {
+            ...account,
+            entries: [
+              ...account.entries,
+              {
+                label: STAGE_LABELS[event.stage] || event.stage,
+                timestamp: event.timestamp,
+                isError: isErrorStage(event.stage),
+              },
+            ],
+          },
+        };
+      });
+      return;
+    }
+
+    if (event.type === 'result') {
+      const r = event.result;
+      setTimeline((prev) => {
+        const account = prev[r.accountId] || {
+          accountName: r.accountName,
+          companyId: r.companyId,
+          entries: [],
+        };
+        return {
+          ...prev,
+          [r.accountId]: {
+            ...account,
+            entries: [
+              ...account.entries,
+              {
+                label: r.success ? `${r.transactionsCount} new transactions saved` : r.error || 'Failed',
+                timestamp: event.timestamp,
+                isError: !r.success,
+              },
+            ],
+          },
+        };
+      });
+    }
+  };
+
+  const followJob = async (job: ScrapeJob) => {
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+
+    try {
+      await apiClient.streamScrapeJobEvents(job.id, handleJobEvent, controller.signal);
+      if (controller.signal.aborted) return;
+      const latest = await apiClient.getScrapeJob(job.id);
+      if (latest.status === 'completed' || latest.status === 'failed') {
+        finishJob(latest);
+      } else {
+        // The stream ended before the job did - keep following it by polling
+        setActiveJob(latest);
+        setPollingFallback(true);
+      }
+    } catch {
+      if (controller.signal.aborted) return;
+      // The stream could not be opened or dropped midway - fall back to polling
+      setPollingFallback(true);
+    }
+  };
+
+  // Poll the running job until it reaches a final status (only if the event stream failed)
+  useEffect(() => {
+    if (
+      !pollingFallback ||
+      !activeJob ||
+      activeJob.status === 'completed' ||
+      activeJob.status === 'failed'
+    ) {
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const job = await apiClient.getScrapeJob(activeJob.id);
+        if (job.status === 'completed' || job.status === 'failed') {
+          setPollingFallback(false);
+          finishJob(job);
+        } else {
+          setActiveJob(job);
+          setTimeline(buildTimeline(job));
+          setPendingOtp(findPendingOtp(job));
+        }
+      } catch (err: any) {
+        setActiveJob(null);
+        setPollingFallback(false);
+        setLoading(false);
+        setError(err.response?.data?.error || 'Failed to fetch scraping progress');
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [pollingFallback, activeJob, finishJob]);
 
   const handleScrape = async () => {
     setError('');
     setResult(null);
+    setTimeline({});
     setLoading(true);
 
     try {
       const endDate = new Date();
-      const startDate = range === 'last_month' ? subMonths(endDate, 1) : subDays(endDate, 365);
+      let startDate: Date | undefined;
+      if (range === 'last_month') startDate = subMonths(endDate, 1);
+      if (range === 'all_data') startDate = subDays(endDate, 365);
 
       const response = await apiClient.scrapeAccounts(
-        formatDateForApi(startDate),
+        startDate ? formatDateForApi(startDate) : undefined,
         formatDateForApi(endDate),
         accountIds
       );
 
-      setResult(response.job);
-      
-      if (response.job.status === 'completed') {
-        onScrapeComplete();
-      }
+      setActiveJob(response.job);
+      followJob(response.job);
     } catch (err: any) {
       setError(err.response?.data?.error || 'Scraping failed');
-    } finally {
       setLoading(false);
     }
   };
 
+  const handleSubmitOtp = async () => {
+    if (!pendingOtp || !otpCode.trim()) return;
+
+    setOtpSubmitting(true);
+    try {
+      await apiClient.submitScrapeOtp(pendingOtp.jobId, otpCode.trim(), pendingOtp.accountId);
+      setPendingOtp(null);
+      setOtpCode('');
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to submit one-time password');
+    } finally {
+      setOtpSubmitting(false);
+    }
+  };
+
   const handleClose = () => {
     if (!loading) {
-      setRange('last_month');
+      setRange('since_last_sync');
       setError('');
       setResult(null);
+      setTimeline({});
       onClose();
     }
   };
 
   const getSuccessCount = () => {
     if (!result?.results) return 0;
-    return result.results.filter((r: any) => r.success).length;
+    return result.results.filter((r) => r.success).length;
   };
 
   const getFailureCount = () => {
     if (!result?.results) return 0;
-    return result.results.filter((r: any) => !r.success).length;
+    return result.results.filter((r) => !r.success).length;
   };
 
   return (
@@ -109,6 +366,16 @@ export const ScrapeDialog: React.FC<ScrapeDialogProps> = ({
               fullWidth
               sx={{ mb: 2 }}
             >
+              <ToggleButton value="since_last_sync">
+                <Box>
+                  <Typography variant="body2" fontWeight={600}>
+                    Since Last Sync
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    New transactions only
+                  </Typography>
+                </Box>
+              </ToggleButton>
               <ToggleButton value="last_month">
                 <Box>
                   <Typography variant="body2" fontWeight={600}>
@@ -132,9 +399,11 @@ export const ScrapeDialog: React.FC<ScrapeDialogProps> = ({
             </ToggleButtonGroup>
 
             <Alert severity="info" sx={{ mb: 2 }}>
-              {range === 'last_month'
-                ? 'Fetches transactions from the last 30 days. Quick and reliable.'
-                : 'Fetches up to 365 days of history. May take longer. Note: Isracard/Amex accounts are limited to 6 months maximum to avoid rate limits.'}
+              {range === 'since_last_sync' &&
+                'Fetches transactions since each account was last scraped, re-checking a few days before it. Accounts never scraped fetch the last 30 days.'}
+              {range === 'last_month' && 'Fetches transactions from the last 30 days. Quick and reliable.'}
+              {range === 'all_data' &&
+                'Fetches up to 365 days of history. May take longer. Note: Isracard/Amex accounts are limited to 6 months maximum to avoid rate limits.'}
             </Alert>
           </>
         )}
@@ -152,6 +421,66 @@ export const ScrapeDialog: React.FC<ScrapeDialogProps> = ({
               Scraping accounts... This may take a few moments.
             </Typography>
             <LinearProgress sx={{ mt: 2 }} />
+            {pendingOtp && (
+              <Box sx={{ mt: 2, textAlign: 'left' }}>
+                <Alert severity="warning" sx={{ mb: 1 }}>
+                  Enter the one-time password sent by SMS for {pendingOtp.accountName}
+                </Alert>
+                <Box sx={{ display: 'flex', gap: 1 }}>
+                  <TextField
+                    size="small"
+                    fullWidth
+                    label="One-time password"
+                    value={otpCode}
+                    onChange={(e) => setOtpCode(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSubmitOtp()}
+                    autoComplete="one-time-code"
+                    autoFocus
+                  />
+                  <Button
+                    variant="contained"
+                    onClick={handleSubmitOtp}
+                    disabled={otpSubmitting || !otpCode.trim()}
+                  >
+                    Submit
+                  </Button>
+                </Box>
+              </Box>
+            )}
+            {Object.keys(timeline).length > 0 && (
+              <Box sx={{ mt: 2, textAlign: 'left' }}>
+                {Object.entries(timeline).map(([accountId, account]) => (
+                  <Box key={accountId} sx={{ mb: 1.5 }}>
+                    <Typography variant="body2" fontWeight={600}>
+                      {account.accountName} ({account.companyId})
+                    </Typography>
+                    {account.entries.map((entry, idx) => (
+                      <Box
+                        key={idx}
+                        sx={{
+                          display: 'flex',
+                          gap: 1,
+                          pl: 1.5,
+                          borderLeft: 2,
+                          borderColor: entry.isError ? 'error.main' : 'divider',
+                          opacity: idx === account.entries.length - 1 ? 1 : 0.6,
+                        }}
+                      >
+                        <Typography variant="caption" color="text.secondary" sx={{ minWidth: 60 }}>
+                          {format(new Date(entry.timestamp), 'HH:mm:ss')}
+                        </Typography>
+                        <Typography
+                          variant="caption"
+                          color={entry.isError ? 'error' : 'text.primary'}
+                        >
+                          {entry.label}
+                        </Typography>
+                      </Box>
+                    ))}
+                  </Box>
+                ))}
+              </Box>
+            )}
           </Box>
         )}
 
@@ -183,7 +512,7 @@ export const ScrapeDialog: React.FC<ScrapeDialogProps> = ({
                 <Typography variant="subtitle2" gutterBottom>
                   Account Details
                 </Typography>
-                {result.results.map((r: any, idx: number) => (
+                {result.results.map((r, idx) => (
                   <Box
                     key={idx}
                     sx={{
@@ -201,9 +530,18 @@ export const ScrapeDialog: React.FC<ScrapeDialogProps> = ({
                         ✓ {r.transactionsCount} transactions imported
                       </Typography>
                     ) : (
-                      <Typography variant="caption" color="error.dark">
-                        ✗ {r.error}
-                      </Typography>
+                      <>
+                        <Typography variant="caption" color="error.dark" component="div">
+                          ✗ {r.errorClass ? `${ERROR_CLASS_HINTS[r.errorClass].cause}: ` : ''}
+                          {r.error}
+                          {r.attempts > 1 && ` (after ${r.attempts} attempts)`}
+                        </Typography>
+                        {r.errorClass && (
+                          <Typography variant="caption" color="text.secondary" component="div">
+                            {ERROR_CLASS_HINTS[r.errorClass].action}
+                          </Typography>
+                        )}
+                      </>
                     )}
                   </Box>
                 ))}
@@ -8,31 +8,46 @@ import {
   TextField,
   Chip,
   Box,
+  MenuItem,
 } from '@mui/material';
 
 interface Props {
   open: boolean;
-  category: { id: string; name: string; keywords: string[] } | null;
+  category: { id: string; name: string; keywords: string[]; parentCategory?: string | null } | null;
+  categories?: Array<{ id: string; name: string; parentCategory?: string | null }>; // Candidates for the parent
   onClose: () => void;
   onSaved: () => void;
   onShowTransactions?: (categoryId: string) => void;
 }
 
-export const EditCategoryDialog: React.FC<Props> = ({ open, category, onClose, onSaved }) => {
+export const EditCategoryDialog: React.FC<Props> = ({ open, category, categories = [], onClose, onSaved }) => {
   const [name, setName] = useState('');
   const [keywordInput, setKeywordInput] = useState('');
   const [keywords, setKeywords] = useState<string[]>([]);
+  const [parentCategory, setParentCategory] = useState('');
 
   useEffect(() => {
     if (category) {
       setName(category.name);
       setKeywords(category.keywords || []);
+      setParentCategory(category.parentCategory || '');
     } else {
       setName('');
       setKeywords([]);
+      setParentCategory('');
     }
   }, [category]);
 
+  // A category cannot sit under itself or under one of its own subcategories
+  const parentOptions = categories.filter((c) => {
+    if (!category?.id) return true;
+    for (let current: string | null | undefined = c.id, depth = 0; current && depth <= categories.length; depth++) {
+      if (current === category.id) return false;
+      current = categories.find((x) => x.id === current)?.parentCategory;
+    }
+    return true;
+  });
+
   const addKeyword = () => {
     const val = keywordInput.trim();
     if (val && !keywords.includes(val)) {
@@ -50,6 +65,7 @@ export const EditCategoryDialog: React.FC<Props> = ({ open, category, onClose, o
     try {
       (category as any).name = name;
       (category as any).keywords = keywords;
+      (category as any).parentCategory = parentCategory || null;
       onSaved();
     } finally {
       onClose();
@@ -71,6 +87,24 @@ export const EditCategoryDialog: React.FC<Props> = ({ open, category, onClose, o
           sx={{ mb: 2 }}
         />
 
+        <TextField
+          select
+          label="Parent category"
+          value={parentCategory}
+          onChange={(e) => setParentCategory(e.target.value)}
+          fullWidth
+          sx={{ mb: 2 }}
+        >
+          <MenuItem value="">
+            <em>None (top level)</em>
+          </MenuItem>
+          {parentOptions.map((c) => (
+            <MenuItem key={c.id} value={c.id}>
+              {c.name}
+            </MenuItem>
+          ))}
+        </TextField>
+
         <Box sx={{ mb: 1 }}>
           <TextField
             label="Add keyword"
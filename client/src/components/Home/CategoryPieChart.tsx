@@ -1,12 +1,32 @@
 import React from 'react';
-import { Card, CardContent, Typography, Box, Table, TableBody, TableCell, TableRow } from '@mui/material';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow,
+  Breadcrumbs,
+  Link,
+} from '@mui/material';
+import { ChevronRight as ChevronRightIcon } from '@mui/icons-material';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
 import type { CategoryDistribution } from '../../types';
 import { formatCurrency } from '../../utils/dateUtils';
 
+export interface CategoryPathEntry {
+  id: string;
+  name: string;
+}
+
 interface CategoryPieChartProps {
   data: CategoryDistribution[];
   loading?: boolean;
+  path?: CategoryPathEntry[]; // Parent categories expanded so far, outermost first
+  onExpand?: (item: CategoryDistribution) => void;
+  onNavigate?: (depth: number) => void; // Go back up to `depth` expanded levels (0 = all categories)
 }
 
 const COLORS = [
@@ -20,14 +40,44 @@ const COLORS = [
   '#ff7c7c',
 ];
 
-export const CategoryPieChart: React.FC<CategoryPieChartProps> = ({ data, loading }) => {
+export const CategoryPieChart: React.FC<CategoryPieChartProps> = ({
+  data,
+  loading,
+  path = [],
+  onExpand,
+  onNavigate,
+}) => {
+  const header = (
+    <>
+      <Typography variant="h6" gutterBottom>
+        Expenses by Category
+      </Typography>
+      {path.length > 0 && (
+        <Breadcrumbs sx={{ mb: 1 }}>
+          <Link component="button" variant="body2" onClick={() => onNavigate?.(0)}>
+            All categories
+          </Link>
+          {path.map((entry, index) =>
+            index === path.length - 1 ? (
+              <Typography key={entry.id} variant="body2" color="text.primary">
+                {entry.name}
+              </Typography>
+            ) : (
+              <Link key={entry.id} component="button" variant="body2" onClick={() => onNavigate?.(index + 1)}>
+                {entry.name}
+              </Link>
+            )
+          )}
+        </Breadcrumbs>
+      )}
+    </>
+  );
+
   if (loading) {
     return (
       <Card>
         <CardContent>
-          <Typography variant="h6" gutterBottom>
-            Expenses by Category
-          </Typography>
+          {header}
           <Box sx={{ height: 300, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
             <Typography color="text.secondary">Loading...</Typography>
           </Box>
@@ -40,9 +90,7 @@ export const CategoryPieChart: React.FC<CategoryPieChartProps> = ({ data, loadin
     return (
       <Card>
         <CardContent>
-          <Typography variant="h6" gutterBottom>
-            Expenses by Category
-          </Typography>
+          {header}
           <Box sx={{ height: 300, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
             <Typography color="text.secondary">No data available</Typography>
           </Box>
@@ -56,14 +104,17 @@ export const CategoryPieChart: React.FC<CategoryPieChartProps> = ({ data, loadin
     value: Math.abs(item.totalAmount),
     percentage: item.percentage,
     color: COLORS[index % COLORS.length],
+    expandable: item.hasChildren && !!onExpand,
   }));
 
+  const expand = (index: number) => {
+    if (chartData[index]?.expandable) onExpand?.(data[index]);
+  };
+
   return (
     <Card>
       <CardContent>
-        <Typography variant="h6" gutterBottom>
-          Expenses by Category
-        </Typography>
+        {header}
         <Box 
           sx={{ 
             display: 'flex', 
@@ -96,9 +147,14 @@ export const CategoryPieChart: React.FC<CategoryPieChartProps> = ({ data, loadin
                   innerRadius={0}
                   fill="#8884d8"
                   dataKey="value"
+                  onClick={(_, index) => expand(index)}
                 >
                   {chartData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={entry.color} />
+                    <Cell
+                      key={`cell-${index}`}
+                      fill={entry.color}
+                      cursor={entry.expandable ? 'pointer' : undefined}
+                    />
                   ))}
                 </Pie>
                 <Tooltip formatter={(value: number) => formatCurrency(value)} />
@@ -122,7 +178,12 @@ export const CategoryPieChart: React.FC<CategoryPieChartProps> = ({ data, loadin
             <Table size="small">
               <TableBody>
                 {chartData.map((entry, index) => (
-                  <TableRow key={index} hover>
+                  <TableRow
+                    key={index}
+                    hover
+                    onClick={() => expand(index)}
+                    sx={{ cursor: entry.expandable ? 'pointer' : undefined }}
+                  >
                     <TableCell sx={{ width: 24, padding: '8px 4px' }}>
                       <Box
                         sx={{
@@ -144,6 +205,9 @@ export const CategoryPieChart: React.FC<CategoryPieChartProps> = ({ data, loadin
                         {entry.percentage.toFixed(1)}%
                       </Typography>
                     </TableCell>
+                    <TableCell sx={{ width: 24, padding: '8px 4px' }}>
+                      {entry.expandable && <ChevronRightIcon fontSize="small" color="action" />}
+                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
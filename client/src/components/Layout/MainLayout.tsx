@@ -22,12 +22,17 @@ import {
   Receipt as ReceiptIcon,
   Description as DescriptionIcon,
   Category as CategoryIcon,
+  Rule as RuleIcon,
+  Inbox as InboxIcon,
+  Tune as TuneIcon,
   Menu as MenuIcon,
   AccountCircle,
   Logout,
+  Backup as BackupIcon,
 } from '@mui/icons-material';
 import { useNavigate, useLocation, Outlet } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
+import { UserDataDialog } from './UserDataDialog';
 
 const drawerWidth = 240;
 
@@ -42,12 +47,16 @@ const navItems: NavItem[] = [
   { label: 'Accounts', icon: <AccountBalanceIcon />, path: '/accounts' },
   { label: 'Transactions', icon: <ReceiptIcon />, path: '/transactions' },
   { label: 'Categories', icon: <CategoryIcon />, path: '/categories' },
+  { label: 'Rules', icon: <RuleIcon />, path: '/rules' },
+  { label: 'Review', icon: <InboxIcon />, path: '/review' },
+  { label: 'Tuning', icon: <TuneIcon />, path: '/tuning' },
   { label: 'Logs', icon: <DescriptionIcon />, path: '/logs' },
 ];
 
 export const MainLayout: React.FC = () => {
   const [mobileOpen, setMobileOpen] = useState(false);
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const [userDataOpen, setUserDataOpen] = useState(false);
 
   const navigate = useNavigate();
   const location = useLocation();
@@ -135,6 +144,15 @@ export const MainLayout: React.FC = () => {
               {username}
             </MenuItem>
             <Divider />
+            <MenuItem
+              onClick={() => {
+                handleMenuClose();
+                setUserDataOpen(true);
+              }}
+            >
+              <BackupIcon sx={{ mr: 1 }} />
+              Backup & Restore
+            </MenuItem>
             <MenuItem onClick={handleLogout}>
               <Logout sx={{ mr: 1 }} />
               Logout
@@ -184,6 +202,8 @@ export const MainLayout: React.FC = () => {
         <Toolbar />
         <Outlet />
       </Box>
+
+      <UserDataDialog open={userDataOpen} onClose={() => setUserDataOpen(false)} />
     </Box>
   );
 };
\ No newline at end of file
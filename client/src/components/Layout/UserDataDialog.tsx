@@ -0,0 +1,140 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Alert,
+  CircularProgress,
+  Typography,
+  Box,
+  Divider,
+} from '@mui/material';
+import { Download as DownloadIcon, UploadFile as UploadFileIcon } from '@mui/icons-material';
+import type { UserDataImportResult } from '../../types';
+import { apiClient, getApiErrorMessage } from '../../services/api';
+import { formatDateForApi } from '../../utils/dateUtils';
+
+interface UserDataDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export const UserDataDialog: React.FC<UserDataDialogProps> = ({ open, onClose }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<UserDataImportResult | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setFile(null);
+    setResult(null);
+    setError('');
+  }, [open]);
+
+  const handleExport = async (format: 'json' | 'zip') => {
+    setError('');
+    try {
+      const blob = await apiClient.exportUserData(format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `funds-bundle-${formatDateForApi(new Date())}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to export data'));
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    setError('');
+    setLoading(true);
+
+    try {
+      setResult(await apiClient.importUserData(file));
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to import data'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Backup & Restore</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Typography variant="subtitle2" gutterBottom>
+          Export
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Download your accounts, transactions, categories and category corrections. Bank passwords are
+          never included.
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1, mb: 3 }}>
+          <Button variant="outlined" startIcon={<DownloadIcon />} onClick={() => handleExport('zip')}>
+            ZIP
+          </Button>
+          <Button variant="outlined" startIcon={<DownloadIcon />} onClick={() => handleExport('json')}>
+            JSON
+          </Button>
+        </Box>
+
+        <Divider sx={{ mb: 2 }} />
+
+        <Typography variant="subtitle2" gutterBottom>
+          Restore
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Restore a bundle from this or another installation. Transactions you already have are skipped, so
+          restoring the same bundle twice is safe. Add your bank logins first to have restored transactions
+          land in those accounts.
+        </Typography>
+
+        {result && (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            Restored {result.transactionsImported} transactions
+            {result.transactionsSkipped > 0 && ` (${result.transactionsSkipped} already stored)`}, created{' '}
+            {result.accountsCreated} accounts and {result.categoriesCreated} categories
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Button variant="outlined" component="label" startIcon={<UploadFileIcon />}>
+            Choose File
+            <input
+              type="file"
+              hidden
+              accept=".json,.zip"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null);
+                setResult(null);
+              }}
+            />
+          </Button>
+          <Typography variant="body2" color="text.secondary" noWrap>
+            {file ? file.name : 'No file selected'}
+          </Typography>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={loading}>
+          Close
+        </Button>
+        <Button onClick={handleImport} variant="contained" disabled={loading || !file}>
+          {loading ? <CircularProgress size={24} /> : 'Restore'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
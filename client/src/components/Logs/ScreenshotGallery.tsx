@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  CardActionArea,
+  Typography,
+  TextField,
+  MenuItem,
+  Alert,
+  CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+} from '@mui/material';
+import type { ScrapeJob, ScrapeScreenshot } from '../../types';
+import { apiClient, getApiErrorMessage } from '../../services/api';
+import { formatDateTime } from '../../utils/dateUtils';
+
+interface LoadedScreenshot extends ScrapeScreenshot {
+  objectUrl: string;
+}
+
+const JOB_HISTORY_LIMIT = 50;
+
+const countScreenshots = (job: ScrapeJob) =>
+  job.results.reduce((sum, r) => sum + (r.screenshots?.length || 0), 0);
+
+export const ScreenshotGallery: React.FC = () => {
+  const [jobs, setJobs] = useState<ScrapeJob[]>([]);
+  const [selectedJobId, setSelectedJobId] = useState('');
+  const [screenshots, setScreenshots] = useState<LoadedScreenshot[]>([]);
+  const [viewing, setViewing] = useState<LoadedScreenshot | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchJobs = async () => {
+      try {
+        const allJobs = await apiClient.getScrapeJobs(JOB_HISTORY_LIMIT);
+        const withScreenshots = allJobs.filter((job) => countScreenshots(job) > 0);
+        setJobs(withScreenshots);
+        if (withScreenshots.length > 0) {
+          setSelectedJobId(withScreenshots[0].id);
+        }
+      } catch (err: unknown) {
+        setError(getApiErrorMessage(err, 'Failed to fetch scraper jobs'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchJobs();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedJobId) return;
+
+    let cancelled = false;
+    let loaded: LoadedScreenshot[] = [];
+
+    const fetchScreenshots = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const list = await apiClient.getScrapeJobScreenshots(selectedJobId);
+        loaded = await Promise.all(
+          list.map(async (shot) => ({ ...shot, objectUrl: await apiClient.getScrapeScreenshotUrl(shot.url) }))
+        );
+        if (cancelled) {
+          loaded.forEach((shot) => URL.revokeObjectURL(shot.objectUrl));
+          return;
+        }
+        setScreenshots(loaded);
+      } catch (err: unknown) {
+        if (!cancelled) {
+          setError(getApiErrorMessage(err, 'Failed to load screenshots'));
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchScreenshots();
+
+    return () => {
+      cancelled = true;
+      loaded.forEach((shot) => URL.revokeObjectURL(shot.objectUrl));
+    };
+  }, [selectedJobId]);
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2 }}>
+          <Typography variant="h6" fontWeight={600}>
+            Scraper Screenshots
+          </Typography>
+          {jobs.length > 0 && (
+            <TextField
+              select
+              size="small"
+              label="Scrape job"
+              value={selectedJobId}
+              onChange={(e) => setSelectedJobId(e.target.value)}
+              sx={{ minWidth: 280 }}
+            >
+              {jobs.map((job) => (
+                <MenuItem key={job.id} value={job.id}>
+                  {formatDateTime(job.createdAt)} - {job.status} ({countScreenshots(job)})
+                </MenuItem>
+              ))}
+            </TextField>
+          )}
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+            <CircularProgress size={32} />
+          </Box>
+        ) : jobs.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No screenshots yet. They are captured when an account fails to scrape.
+          </Typography>
+        ) : (
+          <Box
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: 'repeat(auto-fill, minmax(220px, 1fr))',
+              gap: 2,
+            }}
+          >
+            {screenshots.map((shot) => (
+              <Card key={shot.fileName} variant="outlined">
+                <CardActionArea onClick={() => setViewing(shot)}>
+                  <Box
+                    component="img"
+                    src={shot.objectUrl}
+                    alt={`${shot.accountName} - ${shot.stage}`}
+                    sx={{ width: '100%', height: 140, objectFit: 'cover', objectPosition: 'top' }}
+                  />
+                  <Box sx={{ p: 1 }}>
+                    <Typography variant="body2" fontWeight={600} noWrap>
+                      {shot.accountName}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {shot.stage} · {formatDateTime(shot.takenAt)}
+                    </Typography>
+                  </Box>
+                </CardActionArea>
+              </Card>
+            ))}
+          </Box>
+        )}
+      </CardContent>
+
+      <Dialog open={!!viewing} onClose={() => setViewing(null)} maxWidth="lg" fullWidth>
+        {viewing && (
+          <>
+            <DialogTitle>
+              {viewing.accountName} - {viewing.stage}
+            </DialogTitle>
+            <DialogContent>
+              <Box component="img" src={viewing.objectUrl} alt={viewing.stage} sx={{ width: '100%' }} />
+            </DialogContent>
+          </>
+        )}
+      </Dialog>
+    </Card>
+  );
+};
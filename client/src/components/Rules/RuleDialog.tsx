@@ -0,0 +1,283 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Alert,
+  CircularProgress,
+  FormControlLabel,
+  Switch,
+  MenuItem,
+  Typography,
+  Box,
+  IconButton,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import type { Account, Category, CategorizationRule, CategorizationRuleCondition } from '../../types';
+import { apiClient, getApiErrorMessage } from '../../services/api';
+
+interface RuleDialogProps {
+  open: boolean;
+  rule: CategorizationRule | null; // null to create a new rule
+  categories: Category[];
+  accounts: Account[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const FIELDS: Array<{ value: CategorizationRuleCondition['field']; label: string }> = [
+  { value: 'description', label: 'Description' },
+  { value: 'amount', label: 'Amount' },
+  { value: 'account', label: 'Account' },
+  { value: 'merchantId', label: 'Merchant ID' },
+];
+
+const emptyCondition = (field: CategorizationRuleCondition['field']): CategorizationRuleCondition => {
+  switch (field) {
+    case 'description':
+      return { field, operator: 'contains', value: '' };
+    case 'amount':
+      return { field };
+    case 'account':
+      return { field, accountIds: [] };
+    case 'merchantId':
+      return { field, value: '' };
+  }
+};
+
+const parseAmount = (value: string): number | undefined => (value.trim() === '' ? undefined : Number(value));
+
+export const RuleDialog: React.FC<RuleDialogProps> = ({ open, rule, categories, accounts, onClose, onSaved }) => {
+  const [name, setName] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [priority, setPriority] = useState('0');
+  const [enabled, setEnabled] = useState(true);
+  const [conditions, setConditions] = useState<CategorizationRuleCondition[]>([]);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(rule?.name || '');
+    setCategoryId(rule?.categoryId || '');
+    setPriority(String(rule?.priority ?? 0));
+    setEnabled(rule?.enabled ?? true);
+    setConditions(rule?.conditions || [emptyCondition('description')]);
+    setError('');
+  }, [open, rule]);
+
+  const updateCondition = (index: number, condition: CategorizationRuleCondition) => {
+    setConditions((current) => current.map((c, i) => (i === index ? condition : c)));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim() || !categoryId) {
+      setError('Name and category are required');
+      return;
+    }
+    if (conditions.length === 0) {
+      setError('Add at least one condition');
+      return;
+    }
+
+    setError('');
+    setLoading(true);
+
+    try {
+      const input = { name: name.trim(), categoryId, conditions, priority: parseInt(priority, 10) || 0, enabled };
+      if (rule) {
+        await apiClient.updateCategorizationRule(rule.id, input);
+      } else {
+        await apiClient.createCategorizationRule(input);
+      }
+      onSaved();
+      onClose();
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to save rule'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderConditionInputs = (condition: CategorizationRuleCondition, index: number) => {
+    switch (condition.field) {
+      case 'description':
+        return (
+          <>
+            <TextField
+              select
+              size="small"
+              value={condition.operator}
+              onChange={(e) =>
+                updateCondition(index, { ...condition, operator: e.target.value as typeof condition.operator })
+              }
+              sx={{ minWidth: 120 }}
+            >
+              <MenuItem value="contains">contains</MenuItem>
+              <MenuItem value="equals">equals</MenuItem>
+              <MenuItem value="regex">matches regex</MenuItem>
+            </TextField>
+            <TextField
+              size="small"
+              placeholder={condition.operator === 'regex' ? '^shufersal' : 'shufersal'}
+              value={condition.value}
+              onChange={(e) => updateCondition(index, { ...condition, value: e.target.value })}
+              sx={{ flex: 1 }}
+            />
+          </>
+        );
+      case 'amount':
+        return (
+          <>
+            <TextField
+              size="small"
+              type="number"
+              label="From"
+              value={condition.min ?? ''}
+              onChange={(e) => updateCondition(index, { ...condition, min: parseAmount(e.target.value) })}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              size="small"
+              type="number"
+              label="To"
+              value={condition.max ?? ''}
+              onChange={(e) => updateCondition(index, { ...condition, max: parseAmount(e.target.value) })}
+              sx={{ flex: 1 }}
+            />
+          </>
+        );
+      case 'account':
+        return (
+          <TextField
+            select
+            size="small"
+            value={condition.accountIds}
+            onChange={(e) => {
+              const value = e.target.value as unknown as string[] | string;
+              updateCondition(index, { ...condition, accountIds: typeof value === 'string' ? value.split(',') : value });
+            }}
+            slotProps={{ select: { multiple: true } }}
+            sx={{ flex: 1 }}
+          >
+            {accounts.map((account) => (
+              <MenuItem key={account.id} value={account.id}>
+                {account.alias}
+              </MenuItem>
+            ))}
+          </TextField>
+        );
+      case 'merchantId':
+        return (
+          <TextField
+            size="small"
+            placeholder="123456"
+            value={condition.value}
+            onChange={(e) => updateCondition(index, { ...condition, value: e.target.value })}
+            sx={{ flex: 1 }}
+          />
+        );
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{rule ? 'Edit Rule' : 'Add Rule'}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', gap: 2, mt: 1, mb: 2 }}>
+          <TextField label="Name" value={name} onChange={(e) => setName(e.target.value)} sx={{ flex: 2 }} />
+          <TextField
+            select
+            label="Category"
+            value={categoryId}
+            onChange={(e) => setCategoryId(e.target.value)}
+            sx={{ flex: 2 }}
+          >
+            {categories.map((category) => (
+              <MenuItem key={category.id} value={category.id}>
+                {category.name}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            label="Priority"
+            type="number"
+            value={priority}
+            onChange={(e) => setPriority(e.target.value)}
+            helperText="Higher runs first"
+            sx={{ flex: 1 }}
+          />
+        </Box>
+
+        <Typography variant="subtitle2" gutterBottom>
+          When all of these match
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Text comparisons ignore case. Amounts are compared without their sign.
+        </Typography>
+
+        {conditions.map((condition, index) => (
+          <Box key={index} sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 1.5 }}>
+            <TextField
+              select
+              size="small"
+              value={condition.field}
+              onChange={(e) =>
+                updateCondition(index, emptyCondition(e.target.value as CategorizationRuleCondition['field']))
+              }
+              sx={{ minWidth: 140 }}
+            >
+              {FIELDS.map((field) => (
+                <MenuItem key={field.value} value={field.value}>
+                  {field.label}
+                </MenuItem>
+              ))}
+            </TextField>
+            {renderConditionInputs(condition, index)}
+            <IconButton
+              size="small"
+              onClick={() => setConditions((current) => current.filter((_, i) => i !== index))}
+              disabled={conditions.length === 1}
+            >
+              <DeleteIcon />
+            </IconButton>
+          </Box>
+        ))}
+
+        <Button
+          size="small"
+          startIcon={<AddIcon />}
+          onClick={() => setConditions((current) => [...current, emptyCondition('description')])}
+        >
+          Add condition
+        </Button>
+
+        <Box sx={{ mt: 2 }}>
+          <FormControlLabel
+            control={<Switch checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />}
+            label="Enabled"
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={loading}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} variant="contained" disabled={loading}>
+          {loading ? <CircularProgress size={20} /> : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RuleDialog;
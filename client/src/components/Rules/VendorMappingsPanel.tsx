@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Table,
+  TableHead,
+  TableRow,
+  TableCell,
+  TableBody,
+  TextField,
+  MenuItem,
+  Button,
+  IconButton,
+  Chip,
+  Alert,
+  CircularProgress,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { apiClient, getApiErrorMessage } from '../../services/api';
+import type { Category, VendorCategoryMapping, VendorCodeSource } from '../../types';
+
+const VENDOR_LABELS: Record<VendorCodeSource, string> = {
+  isracard: 'Isracard / Amex',
+  max: 'Max',
+  visaCal: 'Cal',
+};
+
+interface VendorMappingsPanelProps {
+  categories: Category[];
+}
+
+export const VendorMappingsPanel: React.FC<VendorMappingsPanelProps> = ({ categories }) => {
+  const [mappings, setMappings] = useState<VendorCategoryMapping[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [vendor, setVendor] = useState<VendorCodeSource>('isracard');
+  const [code, setCode] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+
+  const fetchMappings = async () => {
+    try {
+      setMappings(await apiClient.getVendorCategoryMappings());
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to fetch card company mappings'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchMappings();
+  }, []);
+
+  const handleSet = async (mapping: { vendor: VendorCodeSource; code: string; categoryId: string }) => {
+    setError(null);
+    try {
+      await apiClient.setVendorCategoryMapping(mapping);
+      await fetchMappings();
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to save mapping'));
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!code.trim() || !categoryId) {
+      setError('Code and category are required');
+      return;
+    }
+    await handleSet({ vendor, code, categoryId });
+    setCode('');
+    setCategoryId('');
+  };
+
+  const handleDelete = async (mapping: VendorCategoryMapping) => {
+    if (!mapping.id) return;
+    setError(null);
+    try {
+      await apiClient.deleteVendorCategoryMapping(mapping.id);
+      await fetchMappings();
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to delete mapping'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mb: 2 }}>
+          <TextField
+            select
+            size="small"
+            label="Card company"
+            value={vendor}
+            onChange={(e) => setVendor(e.target.value as VendorCodeSource)}
+            sx={{ minWidth: 160 }}
+          >
+            {Object.entries(VENDOR_LABELS).map(([value, label]) => (
+              <MenuItem key={value} value={value}>
+                {label}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            size="small"
+            label="Code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            helperText="Sector, category ID or branch code"
+          />
+          <TextField
+            select
+            size="small"
+            label="Category"
+            value={categoryId}
+            onChange={(e) => setCategoryId(e.target.value)}
+            sx={{ minWidth: 200 }}
+          >
+            {categories.map((c) => (
+              <MenuItem key={c.id} value={c.id}>
+                {c.name}
+              </MenuItem>
+            ))}
+          </TextField>
+          <Box>
+            <Button variant="outlined" startIcon={<AddIcon />} onClick={handleAdd}>
+              Map
+            </Button>
+          </Box>
+        </Box>
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Card company</TableCell>
+                <TableCell>Code</TableCell>
+                <TableCell>Category</TableCell>
+                <TableCell>Source</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {mappings.map((mapping) => (
+                <TableRow key={`${mapping.vendor}:${mapping.code}`} hover>
+                  <TableCell>{VENDOR_LABELS[mapping.vendor]}</TableCell>
+                  <TableCell>{mapping.code}</TableCell>
+                  <TableCell>
+                    <TextField
+                      select
+                      size="small"
+                      variant="standard"
+                      value={mapping.categoryId ?? ''}
+                      onChange={(e) =>
+                        handleSet({ vendor: mapping.vendor, code: mapping.code, categoryId: e.target.value })
+                      }
+                      SelectProps={{ displayEmpty: true }}
+                      sx={{ minWidth: 180 }}
+                    >
+                      <MenuItem value="" disabled>
+                        <Typography variant="body2" color="text.secondary">
+                          No matching category
+                        </Typography>
+                      </MenuItem>
+                      {categories.map((c) => (
+                        <MenuItem key={c.id} value={c.id}>
+                          {c.name}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                  </TableCell>
+                  <TableCell>
+                    <Chip
+                      size="small"
+                      label={mapping.source === 'user' ? 'Yours' : 'Built-in'}
+                      color={mapping.source === 'user' ? 'primary' : 'default'}
+                    />
+                  </TableCell>
+                  <TableCell align="right">
+                    {mapping.id && (
+                      <IconButton size="small" color="error" onClick={() => handleDelete(mapping)}>
+                        <DeleteIcon />
+                      </IconButton>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VendorMappingsPanel;
@@ -0,0 +1,277 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  MenuItem,
+  Alert,
+  CircularProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+  Stack,
+} from '@mui/material';
+import type { Account, Category, Transaction } from '../../types';
+import { apiClient, getApiErrorMessage } from '../../services/api';
+import { formatDateForApi } from '../../utils/dateUtils';
+
+interface ManualTransactionDialogProps {
+  open: boolean;
+  transaction: Transaction | null; // Set when editing an existing manual transaction
+  accounts: Account[];
+  categories: Category[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export const ManualTransactionDialog: React.FC<ManualTransactionDialogProps> = ({
+  open,
+  transaction,
+  accounts,
+  categories,
+  onClose,
+  onSaved,
+}) => {
+  const [accountId, setAccountId] = useState('');
+  const [date, setDate] = useState('');
+  const [direction, setDirection] = useState<'expense' | 'income'>('expense');
+  const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState('ILS');
+  const [description, setDescription] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [status, setStatus] = useState<'completed' | 'pending'>('completed');
+  const [memo, setMemo] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const manualAccounts = accounts.filter((a) => a.companyId === 'manual');
+
+  useEffect(() => {
+    if (!open) return;
+
+    setError('');
+    setMemo('');
+
+    if (transaction) {
+      setAccountId(transaction.accountId);
+      setDate(formatDateForApi(new Date(transaction.date)));
+      setDirection(transaction.amount < 0 ? 'expense' : 'income');
+      setAmount(String(Math.abs(transaction.amount)));
+      setCurrency(transaction.currency);
+      setDescription(transaction.description);
+      setCategoryId(transaction.mainCategoryId || '');
+      setStatus(transaction.status);
+    } else {
+      setAccountId(manualAccounts[0]?.id || '');
+      setDate(formatDateForApi(new Date()));
+      setDirection('expense');
+      setAmount('');
+      setCurrency('ILS');
+      setDescription('');
+      setCategoryId('');
+      setStatus('completed');
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, transaction]);
+
+  const handleDelete = async () => {
+    if (!transaction) return;
+
+    setError('');
+    setLoading(true);
+
+    try {
+      await apiClient.deleteTransaction(transaction.id);
+      onSaved();
+      onClose();
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to delete transaction'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = Number(amount);
+    if (!Number.isFinite(value) || value <= 0) {
+      setError('Enter an amount greater than zero');
+      return;
+    }
+
+    setError('');
+    setLoading(true);
+
+    const input = {
+      date,
+      amount: direction === 'expense' ? -value : value,
+      description,
+      currency,
+      status,
+      ...(categoryId && { categoryId }),
+    };
+
+    try {
+      if (transaction) {
+        await apiClient.updateTransaction(transaction.id, input);
+      } else {
+        await apiClient.createTransaction(accountId, { ...input, ...(memo && { memo }) });
+      }
+      onSaved();
+      onClose();
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to save transaction'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{transaction ? 'Edit Transaction' : 'Add Transaction'}</DialogTitle>
+      <form onSubmit={handleSubmit}>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          {!transaction && manualAccounts.length === 0 && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              Add a manual account on the Accounts page first, for example a cash wallet or a loan.
+            </Alert>
+          )}
+
+          <TextField
+            select
+            fullWidth
+            label="Account"
+            value={accountId}
+            onChange={(e) => setAccountId(e.target.value)}
+            margin="normal"
+            required
+            disabled={!!transaction}
+          >
+            {manualAccounts.map((account) => (
+              <MenuItem key={account.id} value={account.id}>
+                {account.alias}
+              </MenuItem>
+            ))}
+          </TextField>
+
+          <ToggleButtonGroup
+            exclusive
+            fullWidth
+            size="small"
+            value={direction}
+            onChange={(_e, value) => value && setDirection(value)}
+            sx={{ mt: 2 }}
+          >
+            <ToggleButton value="expense">Expense</ToggleButton>
+            <ToggleButton value="income">Income</ToggleButton>
+          </ToggleButtonGroup>
+
+          <Stack direction="row" spacing={2}>
+            <TextField
+              type="date"
+              label="Date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              margin="normal"
+              required
+              InputLabelProps={{ shrink: true }}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              type="number"
+              label="Amount"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              margin="normal"
+              required
+              inputProps={{ min: 0, step: '0.01' }}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              label="Currency"
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value.toUpperCase().slice(0, 3))}
+              margin="normal"
+              required
+              sx={{ width: 100 }}
+            />
+          </Stack>
+
+          <TextField
+            fullWidth
+            label="Description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            margin="normal"
+            required
+          />
+
+          <TextField
+            select
+            fullWidth
+            label="Category"
+            value={categoryId}
+            onChange={(e) => setCategoryId(e.target.value)}
+            margin="normal"
+            helperText={transaction ? undefined : 'Leave empty to categorize by the description'}
+          >
+            <MenuItem value="">
+              <em>{transaction ? 'Keep current category' : 'Automatic'}</em>
+            </MenuItem>
+            {categories.map((category) => (
+              <MenuItem key={category.id} value={category.id}>
+                {category.name}
+              </MenuItem>
+            ))}
+          </TextField>
+
+          <TextField
+            select
+            fullWidth
+            label="Status"
+            value={status}
+            onChange={(e) => setStatus(e.target.value as 'completed' | 'pending')}
+            margin="normal"
+          >
+            <MenuItem value="completed">Completed</MenuItem>
+            <MenuItem value="pending">Pending</MenuItem>
+          </TextField>
+
+          {!transaction && (
+            <TextField
+              fullWidth
+              label="Notes (optional)"
+              value={memo}
+              onChange={(e) => setMemo(e.target.value)}
+              margin="normal"
+              multiline
+              minRows={2}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          {transaction && (
+            <Button color="error" onClick={handleDelete} disabled={loading} sx={{ mr: 'auto' }}>
+              Delete
+            </Button>
+          )}
+          <Button onClick={onClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="contained" disabled={loading || !accountId}>
+            {loading ? <CircularProgress size={24} /> : transaction ? 'Save Changes' : 'Add Transaction'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
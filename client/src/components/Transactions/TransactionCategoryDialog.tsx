@@ -10,7 +10,23 @@ import {
   Button,
   Typography,
   Chip,
+  Alert,
+  Checkbox,
+  Table,
+  TableHead,
+  TableRow,
+  TableCell,
+  TableBody,
 } from '@mui/material';
+import { apiClient, getApiErrorMessage } from '../../services/api';
+import { formatDate, formatCurrency } from '../../utils/dateUtils';
+import type { CategoryPropagationPreview } from '../../types';
+
+const MATCH_LABELS: Record<CategoryPropagationPreview['candidates'][number]['matchedBy'], string> = {
+  merchantId: 'Same merchant',
+  description: 'Same description',
+  fuzzy: 'Similar description',
+};
 
 interface TransactionCategoryDialogProps {
   open: boolean;
@@ -23,6 +39,7 @@ interface TransactionCategoryDialogProps {
     categoryName: string,
     keyword: string
   ) => Promise<void>;
+  onPropagated: () => void;
 }
 
 export const TransactionCategoryDialog: React.FC<TransactionCategoryDialogProps> = ({
@@ -32,23 +49,64 @@ export const TransactionCategoryDialog: React.FC<TransactionCategoryDialogProps>
   onClose,
   onAssignExisting,
   onCreateAndAssign,
+  onPropagated,
 }) => {
   const [selectedCategory, setSelectedCategory] = useState<any | null>(null);
   const [createMode, setCreateMode] = useState(false);
   const [newCategoryName, setNewCategoryName] = useState('');
   const [loading, setLoading] = useState(false);
+  const [preview, setPreview] = useState<CategoryPropagationPreview | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [error, setError] = useState('');
 
   const handleAssignExisting = async () => {
     if (!selectedCategory || !transaction) return;
     setLoading(true);
     try {
       await onAssignExisting(transaction.id, selectedCategory.id);
+    } catch {
+      // The page shows why assigning failed
+      setLoading(false);
+      handleClose();
+      return;
+    }
+
+    // Offer to fix the transactions that look the same
+    try {
+      const result = await apiClient.previewCategoryPropagation(transaction.id, selectedCategory.id);
+      if (result.candidates.length === 0) {
+        handleClose();
+      } else {
+        setPreview(result);
+        setSelectedIds(result.candidates.map((c) => c.transactionId));
+      }
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to find similar transactions'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApplyToSimilar = async () => {
+    if (!preview || !transaction) return;
+    setLoading(true);
+    try {
+      await apiClient.applyCategoryPropagation(transaction.id, preview.categoryId, selectedIds);
+      onPropagated();
       handleClose();
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to update similar transactions'));
     } finally {
       setLoading(false);
     }
   };
 
+  const toggleSelected = (transactionId: string) => {
+    setSelectedIds((current) =>
+      current.includes(transactionId) ? current.filter((id) => id !== transactionId) : [...current, transactionId]
+    );
+  };
+
   const handleCreateAndAssign = async () => {
     if (!newCategoryName || !transaction) return;
     setLoading(true);
@@ -68,15 +126,98 @@ export const TransactionCategoryDialog: React.FC<TransactionCategoryDialogProps>
     setSelectedCategory(null);
     setCreateMode(false);
     setNewCategoryName('');
+    setPreview(null);
+    setSelectedIds([]);
+    setError('');
     onClose();
   };
 
   if (!transaction) return null;
 
+  if (preview) {
+    return (
+      <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+        <DialogTitle>Apply to Similar Transactions</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Found {preview.candidates.length} transaction{preview.candidates.length === 1 ? '' : 's'} like "
+            {transaction.description}". Choose which ones should also be in{' '}
+            <strong>{selectedCategory?.name}</strong>.
+            {preview.skippedManual > 0 &&
+              ` ${preview.skippedManual} more you categorized by hand will be left alone.`}
+          </Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    checked={selectedIds.length === preview.candidates.length}
+                    indeterminate={selectedIds.length > 0 && selectedIds.length < preview.candidates.length}
+                    onChange={(e) =>
+                      setSelectedIds(e.target.checked ? preview.candidates.map((c) => c.transactionId) : [])
+                    }
+                  />
+                </TableCell>
+                <TableCell>Date</TableCell>
+                <TableCell>Description</TableCell>
+                <TableCell align="right">Amount</TableCell>
+                <TableCell>Change</TableCell>
+                <TableCell>Match</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {preview.candidates.map((c) => (
+                <TableRow key={c.transactionId} hover onClick={() => toggleSelected(c.transactionId)}>
+                  <TableCell padding="checkbox">
+                    <Checkbox checked={selectedIds.includes(c.transactionId)} />
+                  </TableCell>
+                  <TableCell>{formatDate(c.date)}</TableCell>
+                  <TableCell>{c.description}</TableCell>
+                  <TableCell align="right">{formatCurrency(c.amount, c.currency)}</TableCell>
+                  <TableCell>
+                    <Chip label={c.currentCategoryName || 'Unknown'} size="small" /> →{' '}
+                    <Chip label={selectedCategory?.name} size="small" color="primary" />
+                  </TableCell>
+                  <TableCell>
+                    {MATCH_LABELS[c.matchedBy]}
+                    {c.matchedBy === 'fuzzy' && ` (${c.score}%)`}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleClose} disabled={loading}>
+            Skip
+          </Button>
+          <Button
+            onClick={handleApplyToSimilar}
+            disabled={selectedIds.length === 0 || loading}
+            color="primary"
+            variant="contained"
+          >
+            {loading ? 'Applying...' : `Apply to ${selectedIds.length}`}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    );
+  }
+
   return (
     <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
       <DialogTitle>Assign Category to Transaction</DialogTitle>
       <DialogContent sx={{ pt: 3 }}>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
         <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
           <strong>Transaction:</strong> {transaction.description}
         </Typography>
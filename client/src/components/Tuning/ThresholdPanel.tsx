@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Button,
+  Alert,
+  Table,
+  TableHead,
+  TableRow,
+  TableCell,
+  TableBody,
+  CircularProgress,
+} from '@mui/material';
+import { apiClient, getApiErrorMessage } from '../../services/api';
+import type { CategorizationThresholds, Category, ThresholdSimulation } from '../../types';
+
+const FIELDS: Array<{ key: keyof CategorizationThresholds; label: string; helperText: string; step: number }> = [
+  {
+    key: 'descriptionThreshold',
+    label: 'Description threshold',
+    helperText: 'Minimum description match score (0–100)',
+    step: 1,
+  },
+  {
+    key: 'vendorThreshold',
+    label: 'Vendor threshold',
+    helperText: "Minimum score for the card company's category (0–100)",
+    step: 1,
+  },
+  {
+    key: 'descriptionAdvantage',
+    label: 'Description advantage',
+    helperText: 'How many times the vendor score the description must beat (1–3)',
+    step: 0.05,
+  },
+];
+
+interface ThresholdPanelProps {
+  categories: Category[];
+}
+
+const ThresholdPanel: React.FC<ThresholdPanelProps> = ({ categories }) => {
+  const [current, setCurrent] = useState<CategorizationThresholds | null>(null);
+  const [proposed, setProposed] = useState<CategorizationThresholds | null>(null);
+  const [simulation, setSimulation] = useState<ThresholdSimulation | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiClient
+      .getCategorizationThresholds()
+      .then((thresholds) => {
+        setCurrent(thresholds);
+        setProposed(thresholds);
+      })
+      .catch((err: unknown) => setError(getApiErrorMessage(err, 'Failed to fetch thresholds')));
+  }, []);
+
+  const categoryName = (id: string | null) =>
+    id ? categories.find((c) => c.id === id)?.name || 'Deleted category' : 'Unknown';
+
+  const handleChange = (key: keyof CategorizationThresholds, value: string) => {
+    if (!proposed) return;
+    setProposed({ ...proposed, [key]: Number(value) });
+    setSimulation(null);
+    setSuccess(null);
+  };
+
+  const handleSimulate = async () => {
+    if (!proposed) return;
+    setBusy(true);
+    setError(null);
+    try {
+      setSimulation(await apiClient.simulateCategorizationThresholds(proposed));
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to simulate thresholds'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!proposed) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const applied = await apiClient.updateCategorizationThresholds(proposed);
+      setCurrent(applied);
+      setProposed(applied);
+      setSimulation(null);
+      setSuccess('Thresholds applied. They are used for new and re-categorized transactions.');
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to apply thresholds'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const unchanged =
+    !!current && !!proposed && FIELDS.every(({ key }) => current[key] === proposed[key]);
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6" fontWeight={600} sx={{ mb: 1 }}>
+          Thresholds
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Simulate first to see how many of your past decisions would change. Thresholds apply to your transactions
+          only.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        {success && (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            {success}
+          </Alert>
+        )}
+
+        {!proposed ? (
+          !error && (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+              <CircularProgress />
+            </Box>
+          )
+        ) : (
+          <>
+            <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mb: 2 }}>
+              {FIELDS.map(({ key, label, helperText, step }) => (
+                <TextField
+                  key={key}
+                  type="number"
+                  size="small"
+                  label={label}
+                  value={proposed[key]}
+                  onChange={(e) => handleChange(key, e.target.value)}
+                  helperText={current && current[key] !== proposed[key] ? `Now ${current[key]}` : helperText}
+                  inputProps={{ step }}
+                  sx={{ flex: '1 1 200px' }}
+                />
+              ))}
+            </Box>
+            <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+              <Button onClick={handleSimulate} disabled={busy}>
+                Simulate
+              </Button>
+              <Button variant="contained" onClick={handleApply} disabled={busy || unchanged}>
+                Apply
+              </Button>
+            </Box>
+          </>
+        )}
+
+        {simulation && (
+          <Box sx={{ mt: 3 }}>
+            <Typography variant="subtitle1" fontWeight={600}>
+              {simulation.changed} of {simulation.evaluated} past decisions would change
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              {simulation.toUnknown} to Unknown, {simulation.fromUnknown} out of Unknown, {simulation.switched} to
+              another category
+            </Typography>
+            {simulation.changes.length > 0 && (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Description</TableCell>
+                    <TableCell>Now</TableCell>
+                    <TableCell>Would be</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {simulation.changes.map((change) => (
+                    <TableRow key={change.transactionId}>
+                      <TableCell>{change.description}</TableCell>
+                      <TableCell>{categoryName(change.fromCategoryId)}</TableCell>
+                      <TableCell>{categoryName(change.toCategoryId)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {simulation.changes.length < simulation.changed && (
+              <Typography variant="caption" color="text.secondary">
+                Showing the first {simulation.changes.length} changes
+              </Typography>
+            )}
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ThresholdPanel;
@@ -16,18 +16,21 @@ import {
   Alert,
   CircularProgress,
 } from '@mui/material';
-import { Add as AddIcon, Edit as EditIcon, Delete as DeleteIcon, Sync as SyncIcon, Refresh as RefreshIcon } from '@mui/icons-material';
-import type { Account } from '../types';
+import { Add as AddIcon, Edit as EditIcon, Delete as DeleteIcon, Sync as SyncIcon, Refresh as RefreshIcon, Schedule as ScheduleIcon, UploadFile as UploadFileIcon } from '@mui/icons-material';
+import type { Account, ScrapeSchedule } from '../types';
 import { apiClient } from '../services/api';
 import { AddAccountDialog } from '../components/Accounts/AddAccountDialog';
 import { EditAccountDialog } from '../components/Accounts/EditAccountDialog';
 import { DeleteAccountDialog } from '../components/Accounts/DeleteAccountDialog';
 import { ScrapeDialog } from '../components/Accounts/ScrapeDialog';
+import { ScheduleDialog } from '../components/Accounts/ScheduleDialog';
+import { ImportDialog } from '../components/Accounts/ImportDialog';
 import { getCompanyIcon, getCompanyName, getAccountType } from '../utils/companyIcons';
 import { formatDate, formatDateTime } from '../utils/dateUtils';
 
 export const Accounts: React.FC = () => {
   const [accounts, setAccounts] = useState<Account[]>([]);
+  const [schedules, setSchedules] = useState<Record<string, ScrapeSchedule>>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -35,6 +38,8 @@ export const Accounts: React.FC = () => {
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [scrapeDialogOpen, setScrapeDialogOpen] = useState(false);
+  const [scheduleDialogOpen, setScheduleDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [selectedAccount, setSelectedAccount] = useState<Account | null>(null);
   const [scrapeAccountIds, setScrapeAccountIds] = useState<string[] | undefined>(undefined);
 
@@ -47,12 +52,16 @@ export const Accounts: React.FC = () => {
     setError(null);
 
     try {
-      const data = await apiClient.getAccounts();
+      const [data, scheduleList] = await Promise.all([
+        apiClient.getAccounts(),
+        apiClient.getSchedules(),
+      ]);
       const accountsWithType = data.map((account) => ({
         ...account,
         accountType: getAccountType(account.companyId),
       }));
       setAccounts(accountsWithType);
+      setSchedules(Object.fromEntries(scheduleList.map((s) => [s.accountId, s])));
     } catch (err: any) {
       setError(err.response?.data?.error || 'Failed to fetch accounts');
     } finally {
@@ -70,6 +79,29 @@ export const Accounts: React.FC = () => {
     setDeleteDialogOpen(true);
   };
 
+  const handleSchedule = (account: Account) => {
+    setSelectedAccount(account);
+    setScheduleDialogOpen(true);
+  };
+
+  const handleImport = (account: Account) => {
+    setSelectedAccount(account);
+    setImportDialogOpen(true);
+  };
+
+  // Cards and sub-accounts are listed right below the login account they were scraped under
+  const orderedAccounts = accounts
+    .filter((a) => !a.parentAccountId)
+    .flatMap((parent) => [parent, ...accounts.filter((a) => a.parentAccountId === parent.id)]);
+
+  const getNextRunLabel = (account: Account) => {
+    if (account.accountType === 'manual') return '-';
+    const schedule = schedules[account.parentAccountId || account.id];
+    if (!schedule) return 'Not scheduled';
+    if (!schedule.enabled || !schedule.nextRunAt) return 'Paused';
+    return formatDateTime(schedule.nextRunAt);
+  };
+
   const handleScrapeAccount = (account: Account) => {
     setScrapeAccountIds([account.id]);
     setScrapeDialogOpen(true);
@@ -136,17 +168,20 @@ export const Accounts: React.FC = () => {
                     )}
                     <TableCell>Status</TableCell>
                     <TableCell>Last Scraped</TableCell>
+                    <TableCell>Next Run</TableCell>
                     <TableCell>Created</TableCell>
                     <TableCell>Updated</TableCell>
                     <TableCell align="right">Actions</TableCell>
                   </TableRow>
                 </TableHead>
                 <TableBody>
-                  {accounts.map((account) => (
+                  {orderedAccounts.map((account) => (
                     <TableRow key={account.id}>
                       <TableCell>{getCompanyIcon(account.companyId, account.accountType)}</TableCell>
                       <TableCell>{getCompanyName(account.companyId)}</TableCell>
-                      <TableCell>{account.alias}</TableCell>
+                      <TableCell sx={account.parentAccountId ? { pl: 4 } : undefined}>
+                        {account.alias}
+                      </TableCell>
                       <TableCell>{account.accountNumber}</TableCell>
                       {accounts.some(a => a.accountType === 'credit' && a.card6Digits) && (
                         <TableCell>
@@ -163,8 +198,11 @@ export const Accounts: React.FC = () => {
                         />
                       </TableCell>
                       <TableCell>
-                        {account.lastScrapedAt ? formatDate(account.lastScrapedAt) : 'Never'}
+                        {account.accountType === 'manual'
+                          ? '-'
+                          : account.lastScrapedAt ? formatDate(account.lastScrapedAt) : 'Never'}
                       </TableCell>
+                      <TableCell>{getNextRunLabel(account)}</TableCell>
                       <TableCell>
                         {account.createdAt ? formatDateTime(account.createdAt) : '-'}
                       </TableCell>
@@ -172,13 +210,23 @@ export const Accounts: React.FC = () => {
                         {account.updatedAt ? formatDateTime(account.updatedAt) : '-'}
                       </TableCell>
                       <TableCell align="right">
-                        <IconButton
-                          size="small"
-                          onClick={() => handleScrapeAccount(account)}
-                          title="Scrape this account"
-                          color="primary"
-                        >
-                          <RefreshIcon />
+                        {account.accountType !== 'manual' && (
+                          <IconButton
+                            size="small"
+                            onClick={() => handleScrapeAccount(account)}
+                            title="Scrape this account"
+                            color="primary"
+                          >
+                            <RefreshIcon />
+                          </IconButton>
+                        )}
+                        {!account.parentAccountId && account.accountType !== 'manual' && (
+                          <IconButton size="small" onClick={() => handleSchedule(account)} title="Scrape schedule">
+                            <ScheduleIcon />
+                          </IconButton>
+                        )}
+                        <IconButton size="small" onClick={() => handleImport(account)} title="Import statement file">
+                          <UploadFileIcon />
                         </IconButton>
                         <IconButton size="small" onClick={() => handleEdit(account)} title="Edit account">
                           <EditIcon />
@@ -227,6 +275,27 @@ export const Accounts: React.FC = () => {
         onAccountDeleted={fetchAccounts}
       />
 
+      <ScheduleDialog
+        open={scheduleDialogOpen}
+        account={selectedAccount}
+        schedule={selectedAccount ? schedules[selectedAccount.id] || null : null}
+        onClose={() => {
+          setScheduleDialogOpen(false);
+          setSelectedAccount(null);
+        }}
+        onScheduleChanged={fetchAccounts}
+      />
+
+      <ImportDialog
+        open={importDialogOpen}
+        account={selectedAccount}
+        onClose={() => {
+          setImportDialogOpen(false);
+          setSelectedAccount(null);
+        }}
+        onImportComplete={fetchAccounts}
+      />
+
       <ScrapeDialog
         open={scrapeDialogOpen}
         onClose={() => {
@@ -66,16 +66,21 @@ export const Categories: React.FC = () => {
     try {
       if (!selectedCategory.id) {
         // create new
-        await categoriesApi.createCategory(selectedCategory.name, selectedCategory.keywords || []);
+        await categoriesApi.createCategory(
+          selectedCategory.name,
+          selectedCategory.keywords || [],
+          selectedCategory.parentCategory || null
+        );
       } else {
         await categoriesApi.updateCategory(selectedCategory.id, {
           name: selectedCategory.name,
           keywords: selectedCategory.keywords,
+          parentCategory: selectedCategory.parentCategory || null,
         });
       }
       await fetchCategories();
     } catch (err: any) {
-      // ignore; fetch will show latest
+      setError(err.response?.data?.error || 'Failed to save category');
     }
   };
 
@@ -108,7 +113,7 @@ export const Categories: React.FC = () => {
           variant="contained"
           startIcon={<AddIcon />}
           onClick={() => {
-            setSelectedCategory({ id: '', name: '', keywords: [] });
+            setSelectedCategory({ id: '', name: '', keywords: [], parentCategory: null });
             setEditOpen(true);
           }}
         >
@@ -133,6 +138,7 @@ export const Categories: React.FC = () => {
               <TableHead>
                 <TableRow>
                   <TableCell>Name</TableCell>
+                  <TableCell>Parent</TableCell>
                   <TableCell>Keywords</TableCell>
                   <TableCell>Created At</TableCell>
                   <TableCell align="right">Actions</TableCell>
@@ -142,6 +148,7 @@ export const Categories: React.FC = () => {
                 {categories.map((c) => (
                   <TableRow key={c.id} hover>
                     <TableCell>{c.name}</TableCell>
+                    <TableCell>{categories.find((p) => p.id === c.parentCategory)?.name || '-'}</TableCell>
                     <TableCell>{(c.keywords || []).join(', ')}</TableCell>
                     <TableCell>{new Date(c.createdAt).toLocaleString()}</TableCell>
                     <TableCell align="right">
@@ -166,6 +173,7 @@ export const Categories: React.FC = () => {
       <EditCategoryDialog
         open={editOpen}
         category={selectedCategory}
+        categories={categories}
         onClose={() => {
           setEditOpen(false);
           setSelectedCategory(null);
@@ -8,11 +8,12 @@ import {
 import { TimeframeFilter } from '../components/Home/TimeframeFilter';
 import { SummaryCard } from '../components/Home/SummaryCard';
 import { CategoryPieChart } from '../components/Home/CategoryPieChart';
+import type { CategoryPathEntry } from '../components/Home/CategoryPieChart';
 import { TrendChart } from '../components/Home/TrendChart';
 import { RecurringPaymentsTable } from '../components/Home/RecurringPaymentsTable';
 import { LastUpdateInfo } from '../components/Home/LastUpdateInfo';
 import { AccountFilter } from '../components/Home/AccountFilter';
-import { apiClient } from '../services/api';
+import { apiClient, getApiErrorMessage } from '../services/api';
 import { getQuickFilterDates, formatDateForApi } from '../utils/dateUtils';
 import type {
   TimeframeFilter as TimeframeFilterType,
@@ -29,6 +30,8 @@ export const Home: React.FC = () => {
   );
   const [summary, setSummary] = useState<AnalyticsSummary | null>(null);
   const [categories, setCategories] = useState<CategoryDistribution[]>([]);
+  const [categoryPath, setCategoryPath] = useState<CategoryPathEntry[]>([]);
+  const [categoriesLoading, setCategoriesLoading] = useState(true);
   const [trends, setTrends] = useState<TrendData[]>([]);
   const [recurring, setRecurring] = useState<RecurringPayment[]>([]);
   const [accounts, setAccounts] = useState<Account[]>([]);
@@ -47,6 +50,11 @@ export const Home: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [timeframe, selectedAccountIds]);
 
+  useEffect(() => {
+    fetchCategoryDistribution();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [timeframe, selectedAccountIds, categoryPath]);
+
   const fetchAccounts = async () => {
     try {
       const data = await apiClient.getAccounts();
@@ -66,15 +74,13 @@ export const Home: React.FC = () => {
 
       const accountIdsToFetch = selectedAccountIds.length > 0 ? selectedAccountIds : undefined;
 
-      const [summaryData, categoriesData, trendsData, recurringData] = await Promise.all([
+      const [summaryData, trendsData, recurringData] = await Promise.all([
         apiClient.getSummary(startDate, endDate, accountIdsToFetch),
-        apiClient.getCategoryDistribution(startDate, endDate, accountIdsToFetch),
         apiClient.getTrends(startDate, endDate, 'month', accountIdsToFetch),
         apiClient.getRecurringPayments(startDate, endDate, accountIdsToFetch),
       ]);
 
       setSummary(summaryData);
-      setCategories(categoriesData);
       setTrends(trendsData);
       setRecurring(recurringData);
     } catch (err: any) {
@@ -84,6 +90,27 @@ export const Home: React.FC = () => {
     }
   };
 
+  // Fetched on its own so expanding a slice does not reload the rest of the dashboard
+  const fetchCategoryDistribution = async () => {
+    setCategoriesLoading(true);
+
+    try {
+      const parentId = categoryPath.length > 0 ? categoryPath[categoryPath.length - 1].id : undefined;
+      const data = await apiClient.getCategoryDistribution(
+        formatDateForApi(timeframe.startDate),
+        formatDateForApi(timeframe.endDate),
+        selectedAccountIds.length > 0 ? selectedAccountIds : undefined,
+        'parent',
+        parentId
+      );
+      setCategories(data);
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to fetch category distribution'));
+    } finally {
+      setCategoriesLoading(false);
+    }
+  };
+
   return (
     <Box>
       {error && (
@@ -133,7 +160,13 @@ export const Home: React.FC = () => {
         </Grid>
 
         <Grid size={{ xs: 12, md: 6 }}>
-          <CategoryPieChart data={categories} loading={loading} />
+          <CategoryPieChart
+            data={categories}
+            loading={categoriesLoading}
+            path={categoryPath}
+            onExpand={(item) => setCategoryPath([...categoryPath, { id: item.categoryId, name: item.category }])}
+            onNavigate={(depth) => setCategoryPath(categoryPath.slice(0, depth))}
+          />
         </Grid>
 
         <Grid size={{ xs: 12, md: 6 }}>
@@ -21,6 +21,7 @@ import {
 import type { LogEntry } from '../types';
 import { formatDateTime } from '../utils/dateUtils';
 import { apiClient } from '../services/api';
+import { ScreenshotGallery } from '../components/Logs/ScreenshotGallery';
 
 const POLL_INTERVAL = 3000;
 
@@ -207,6 +208,8 @@ export const Logs: React.FC = () => {
           : 'Real-time updates are disabled. Enable to see new logs automatically.'}
       </Alert>
 
+      <ScreenshotGallery />
+
       <Card>
         <CardContent>
           <Stack direction="row" spacing={2} sx={{ mb: 3 }}>
@@ -0,0 +1,366 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Table,
+  TableHead,
+  TableRow,
+  TableCell,
+  TableBody,
+  IconButton,
+  CircularProgress,
+  Alert,
+  Chip,
+  TextField,
+  MenuItem,
+  Tooltip,
+  Stack,
+} from '@mui/material';
+import { Check as CheckIcon, Close as CloseIcon, Refresh as RefreshIcon } from '@mui/icons-material';
+import { endOfMonth, format, parse, startOfMonth } from 'date-fns';
+import { apiClient, getApiErrorMessage } from '../services/api';
+import { formatCurrency, formatDate, formatDateForApi } from '../utils/dateUtils';
+import type { CategorizationReviewItem, CategorizationReviewReason, Category } from '../types';
+
+const PAGE_SIZE = 100;
+
+const REASON_LABELS: Record<CategorizationReviewReason, string> = {
+  unknown: 'Unknown',
+  low_confidence: 'Low confidence',
+  disagreement: 'Vendor disagrees',
+};
+
+const SHORTCUTS: Array<[string, string]> = [
+  ['j / ↓', 'Next'],
+  ['k / ↑', 'Previous'],
+  ['a / Enter', 'Accept suggestion'],
+  ['1–3', 'Accept that candidate'],
+  ['r / x', 'Reject'],
+];
+
+export const Review: React.FC = () => {
+  const [items, setItems] = useState<CategorizationReviewItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [month, setMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const rowRefs = useRef<Map<string, HTMLTableRowElement>>(new Map());
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const monthStart = month ? parse(month, 'yyyy-MM', new Date()) : null;
+      const queue = await apiClient.getCategorizationReviewQueue({
+        startDate: monthStart ? formatDateForApi(startOfMonth(monthStart)) : undefined,
+        endDate: monthStart ? formatDateForApi(endOfMonth(monthStart)) : undefined,
+        limit: PAGE_SIZE,
+      });
+      setItems(queue.items);
+      setTotal(queue.total);
+      setSelectedIndex(0);
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to fetch review queue'));
+    } finally {
+      setLoading(false);
+    }
+  }, [month]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  useEffect(() => {
+    apiClient
+      .getCategories()
+      .then(setCategories)
+      .catch(() => setCategories([]));
+  }, []);
+
+  const selected = items[selectedIndex];
+
+  useEffect(() => {
+    if (selected) {
+      rowRefs.current.get(selected.transactionId)?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [selected]);
+
+  // Drop a reviewed item and keep the selection on the row that takes its place
+  const removeItem = useCallback(
+    (transactionId: string) => {
+      const remaining = items.filter((item) => item.transactionId !== transactionId);
+      setItems(remaining);
+      setTotal((count) => count - 1);
+      setSelectedIndex((index) => Math.min(index, Math.max(remaining.length - 1, 0)));
+      if (remaining.length === 0 && total - 1 > 0) {
+        fetchQueue();
+      }
+    },
+    [items, total, fetchQueue]
+  );
+
+  const handleAccept = useCallback(
+    async (item: CategorizationReviewItem, categoryId?: string) => {
+      if (busy) return;
+      if (!categoryId && !item.suggestedCategoryId) {
+        setError('There is no suggestion for this transaction; pick a category');
+        return;
+      }
+      setBusy(true);
+      setError(null);
+      try {
+        await apiClient.acceptCategorizationReview(item.transactionId, categoryId);
+        removeItem(item.transactionId);
+      } catch (err: unknown) {
+        setError(getApiErrorMessage(err, 'Failed to accept categorization'));
+      } finally {
+        setBusy(false);
+      }
+    },
+    [busy, removeItem]
+  );
+
+  const handleReject = useCallback(
+    async (item: CategorizationReviewItem) => {
+      if (busy) return;
+      setBusy(true);
+      setError(null);
+      try {
+        await apiClient.rejectCategorizationReview(item.transactionId);
+        removeItem(item.transactionId);
+      } catch (err: unknown) {
+        setError(getApiErrorMessage(err, 'Failed to reject categorization'));
+      } finally {
+        setBusy(false);
+      }
+    },
+    [busy, removeItem]
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.closest('input, textarea, select, [role="listbox"], [role="dialog"]')) return;
+      if (event.ctrlKey || event.metaKey || event.altKey || items.length === 0) return;
+      // Enter on a focused button already clicks it
+      if (event.key === 'Enter' && target.closest('button, [role="button"]')) return;
+
+      switch (event.key) {
+        case 'j':
+        case 'ArrowDown':
+          setSelectedIndex((index) => Math.min(index + 1, items.length - 1));
+          break;
+        case 'k':
+        case 'ArrowUp':
+          setSelectedIndex((index) => Math.max(index - 1, 0));
+          break;
+        case 'a':
+        case 'Enter':
+          if (selected) handleAccept(selected);
+          break;
+        case 'r':
+        case 'x':
+          if (selected) handleReject(selected);
+          break;
+        case '1':
+        case '2':
+        case '3': {
+          const candidate = selected?.candidates[Number(event.key) - 1];
+          if (candidate) handleAccept(selected, candidate.categoryId);
+          break;
+        }
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [items, selected, handleAccept, handleReject]);
+
+  const categoryName = (id: string | null) => (id ? categories.find((c) => c.id === id)?.name || '-' : '-');
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4" fontWeight={600}>
+          Review
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+          <TextField
+            type="month"
+            size="small"
+            label="Month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            helperText={month ? undefined : 'All months'}
+          />
+          <Tooltip title="Refresh">
+            <IconButton onClick={fetchQueue} disabled={loading}>
+              <RefreshIcon />
+            </IconButton>
+          </Tooltip>
+        </Box>
+      </Box>
+
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+        Transactions left in Unknown, categorized with low confidence, or where the card company's category disagrees
+        with the description. Accepting keeps the suggested category as if you chose it; rejecting moves the transaction
+        to Unknown.
+      </Typography>
+      <Stack direction="row" spacing={2} sx={{ mb: 3, flexWrap: 'wrap' }}>
+        {SHORTCUTS.map(([keys, action]) => (
+          <Typography key={keys} variant="caption" color="text.secondary">
+            <strong>{keys}</strong> {action}
+          </Typography>
+        ))}
+      </Stack>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent>
+          {loading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+              <CircularProgress />
+            </Box>
+          ) : items.length === 0 ? (
+            <Typography color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+              Nothing to review
+            </Typography>
+          ) : (
+            <>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                {total > items.length ? `${items.length} of ${total} to review; the rest load as you go` : `${total} to review`}
+              </Typography>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Date</TableCell>
+                    <TableCell>Description</TableCell>
+                    <TableCell align="right">Amount</TableCell>
+                    <TableCell>Why</TableCell>
+                    <TableCell>Current</TableCell>
+                    <TableCell>Candidates</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {items.map((item, index) => (
+                    <TableRow
+                      key={item.transactionId}
+                      ref={(el) => {
+                        if (el) rowRefs.current.set(item.transactionId, el);
+                        else rowRefs.current.delete(item.transactionId);
+                      }}
+                      hover
+                      selected={index === selectedIndex}
+                      onClick={() => setSelectedIndex(index)}
+                      sx={{ cursor: 'pointer' }}
+                    >
+                      <TableCell>{formatDate(item.date)}</TableCell>
+                      <TableCell>
+                        {item.description}
+                        {item.decisionReason && (
+                          <Typography variant="caption" color="text.secondary" display="block">
+                            {item.decisionReason}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell align="right">{formatCurrency(item.amount, item.currency)}</TableCell>
+                      <TableCell>
+                        <Stack direction="row" spacing={0.5}>
+                          {item.reasons.map((reason) => (
+                            <Chip key={reason} size="small" variant="outlined" label={REASON_LABELS[reason]} />
+                          ))}
+                        </Stack>
+                      </TableCell>
+                      <TableCell>{item.currentCategoryName || '-'}</TableCell>
+                      <TableCell>
+                        <Stack direction="row" spacing={0.5} sx={{ flexWrap: 'wrap' }}>
+                          {item.candidates.slice(0, 3).map((candidate, position) => (
+                            <Chip
+                              key={candidate.categoryId}
+                              size="small"
+                              label={`${position + 1}. ${candidate.categoryName} (${Math.round(candidate.score)})`}
+                              color={candidate.categoryId === item.suggestedCategoryId ? 'primary' : 'default'}
+                              variant={candidate.source === 'vendor' ? 'outlined' : 'filled'}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleAccept(item, candidate.categoryId);
+                              }}
+                            />
+                          ))}
+                        </Stack>
+                      </TableCell>
+                      <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                        <TextField
+                          select
+                          size="small"
+                          value=""
+                          label="Other"
+                          sx={{ minWidth: 120, mr: 1 }}
+                          onClick={(e) => e.stopPropagation()}
+                          onChange={(e) => handleAccept(item, e.target.value)}
+                        >
+                          {categories.map((category) => (
+                            <MenuItem key={category.id} value={category.id}>
+                              {category.name}
+                            </MenuItem>
+                          ))}
+                        </TextField>
+                        <Tooltip title={`Accept ${categoryName(item.suggestedCategoryId)}`}>
+                          <span>
+                            <IconButton
+                              size="small"
+                              color="success"
+                              disabled={busy || !item.suggestedCategoryId}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleAccept(item);
+                              }}
+                            >
+                              <CheckIcon />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                        <Tooltip title="Reject">
+                          <span>
+                            <IconButton
+                              size="small"
+                              color="error"
+                              disabled={busy}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleReject(item);
+                              }}
+                            >
+                              <CloseIcon />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default Review;
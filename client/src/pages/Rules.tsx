@@ -0,0 +1,308 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Table,
+  TableHead,
+  TableRow,
+  TableCell,
+  TableBody,
+  IconButton,
+  Button,
+  CircularProgress,
+  Alert,
+  Switch,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import { Edit as EditIcon, Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { apiClient, getApiErrorMessage } from '../services/api';
+import RuleDialog from '../components/Rules/RuleDialog';
+import VendorMappingsPanel from '../components/Rules/VendorMappingsPanel';
+import type {
+  Account,
+  Category,
+  CategorizationRule,
+  CategorizationRuleCondition,
+  LearnedCategoryMapping,
+} from '../types';
+
+const CONFIDENCE_COLORS: Record<LearnedCategoryMapping['confidence'], 'success' | 'warning' | 'default'> = {
+  high: 'success',
+  medium: 'warning',
+  low: 'default',
+};
+
+export const Rules: React.FC = () => {
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [learnedMappings, setLearnedMappings] = useState<LearnedCategoryMapping[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [editOpen, setEditOpen] = useState(false);
+  const [selectedRule, setSelectedRule] = useState<CategorizationRule | null>(null);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [ruleToDelete, setRuleToDelete] = useState<CategorizationRule | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [rulesData, categoriesData, accountsData, learnedData] = await Promise.all([
+        apiClient.getCategorizationRules(),
+        apiClient.getCategories(),
+        apiClient.getAccounts(),
+        apiClient.getLearnedCategoryMappings(),
+      ]);
+      setRules(rulesData);
+      setCategories(categoriesData);
+      setAccounts(accountsData);
+      setLearnedMappings(learnedData);
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to fetch rules'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchRules = async () => {
+    try {
+      setRules(await apiClient.getCategorizationRules());
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to fetch rules'));
+    }
+  };
+
+  const handleToggle = async (rule: CategorizationRule) => {
+    try {
+      await apiClient.updateCategorizationRule(rule.id, { enabled: !rule.enabled });
+      await fetchRules();
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to update rule'));
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!ruleToDelete) return;
+    try {
+      await apiClient.deleteCategorizationRule(ruleToDelete.id);
+      await fetchRules();
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to delete rule'));
+    } finally {
+      setDeleteOpen(false);
+      setRuleToDelete(null);
+    }
+  };
+
+  const describeCondition = (condition: CategorizationRuleCondition): string => {
+    switch (condition.field) {
+      case 'description':
+        return `Description ${condition.operator === 'regex' ? 'matches' : condition.operator} "${condition.value}"`;
+      case 'amount':
+        if (condition.min !== undefined && condition.max !== undefined) {
+          return `Amount ${condition.min}–${condition.max}`;
+        }
+        return condition.min !== undefined ? `Amount ≥ ${condition.min}` : `Amount ≤ ${condition.max}`;
+      case 'account':
+        return `Account is ${condition.accountIds
+          .map((id) => accounts.find((a) => a.id === id)?.alias || id)
+          .join(' or ')}`;
+      case 'merchantId':
+        return `Merchant ID ${condition.value}`;
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4" fontWeight={600}>
+          Rules
+        </Typography>
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={() => {
+            setSelectedRule(null);
+            setEditOpen(true);
+          }}
+        >
+          Add Rule
+        </Button>
+      </Box>
+
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Rules run before automatic matching, highest priority first. The first rule whose conditions all match sets the
+        category; transactions you categorized manually are left alone.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent>
+          {loading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+              <CircularProgress />
+            </Box>
+          ) : rules.length === 0 ? (
+            <Typography color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+              No rules yet
+            </Typography>
+          ) : (
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Priority</TableCell>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Conditions</TableCell>
+                  <TableCell>Category</TableCell>
+                  <TableCell>Enabled</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id} hover>
+                    <TableCell>{rule.priority}</TableCell>
+                    <TableCell>{rule.name}</TableCell>
+                    <TableCell>{rule.conditions.map(describeCondition).join(' and ')}</TableCell>
+                    <TableCell>{categories.find((c) => c.id === rule.categoryId)?.name || '-'}</TableCell>
+                    <TableCell>
+                      <Switch size="small" checked={rule.enabled} onChange={() => handleToggle(rule)} />
+                    </TableCell>
+                    <TableCell align="right">
+                      <IconButton
+                        size="small"
+                        onClick={() => {
+                          setSelectedRule(rule);
+                          setEditOpen(true);
+                        }}
+                      >
+                        <EditIcon />
+                      </IconButton>
+                      <IconButton
+                        size="small"
+                        onClick={() => {
+                          setRuleToDelete(rule);
+                          setDeleteOpen(true);
+                        }}
+                        color="error"
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Typography variant="h6" fontWeight={600} sx={{ mt: 4, mb: 1 }}>
+        Learned from your changes
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        When you change a transaction's category, new transactions from the same merchant or with the same
+        description get that category when no rule matches. Confidence grows with every transaction you confirm.
+      </Typography>
+
+      <Card>
+        <CardContent>
+          {loading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+              <CircularProgress />
+            </Box>
+          ) : learnedMappings.length === 0 ? (
+            <Typography color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+              Nothing learned yet
+            </Typography>
+          ) : (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Match</TableCell>
+                  <TableCell>Category</TableCell>
+                  <TableCell align="right">Confirmations</TableCell>
+                  <TableCell>Confidence</TableCell>
+                  <TableCell>Last Confirmed</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {learnedMappings.map((mapping) => (
+                  <TableRow key={`${mapping.matchType}:${mapping.key}`} hover>
+                    <TableCell>
+                      {mapping.matchType === 'merchantId' ? `Merchant ID ${mapping.key}` : `"${mapping.key}"`}
+                    </TableCell>
+                    <TableCell>{categories.find((c) => c.id === mapping.categoryId)?.name || '-'}</TableCell>
+                    <TableCell align="right">{mapping.confirmations}</TableCell>
+                    <TableCell>
+                      <Chip size="small" label={mapping.confidence} color={CONFIDENCE_COLORS[mapping.confidence]} />
+                    </TableCell>
+                    <TableCell>{new Date(mapping.lastConfirmedAt).toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Typography variant="h6" fontWeight={600} sx={{ mt: 4, mb: 1 }}>
+        Card company categories
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Isracard, Max and Cal send their own category with each transaction. Mapped codes are used when no rule or
+        learned mapping matches, unless the description clearly points to another category. Your mappings replace the
+        built-in ones; deleting yours restores the built-in mapping.
+      </Typography>
+
+      <VendorMappingsPanel categories={categories} />
+
+      <RuleDialog
+        open={editOpen}
+        rule={selectedRule}
+        categories={categories}
+        accounts={accounts}
+        onClose={() => {
+          setEditOpen(false);
+          setSelectedRule(null);
+        }}
+        onSaved={fetchRules}
+      />
+
+      <Dialog open={deleteOpen} onClose={() => setDeleteOpen(false)}>
+        <DialogTitle>Delete Rule</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Are you sure you want to delete the rule <strong>{ruleToDelete?.name}</strong>? Transactions keep the
+            category it gave them.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleteOpen(false)}>Cancel</Button>
+          <Button onClick={handleConfirmDelete} color="error" variant="contained">
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default Rules;
@@ -17,12 +17,18 @@ import {
   CircularProgress,
   Alert,
   Stack,
+  Button,
+  IconButton,
+  Menu,
+  MenuItem,
 } from '@mui/material';
-import { apiClient } from '../services/api';
+import { Add as AddIcon, Download as DownloadIcon, Edit as EditIcon } from '@mui/icons-material';
+import { apiClient, getApiErrorMessage } from '../services/api';
 import * as categoriesApi from '../services/categories';
 import TransactionCategoryDialog from '../components/Transactions/TransactionCategoryDialog';
+import { ManualTransactionDialog } from '../components/Transactions/ManualTransactionDialog';
 import { formatDate, formatCurrency, getQuickFilterDates, formatDateForApi } from '../utils/dateUtils';
-import type { Transaction, TimeframeFilter as TimeframeFilterType } from '../types';
+import type { Transaction, TransactionExportFormat, TimeframeFilter as TimeframeFilterType } from '../types';
 import { useLocation, useNavigate } from 'react-router-dom';
 
 export const Transactions: React.FC = () => {
@@ -39,6 +45,11 @@ export const Transactions: React.FC = () => {
   const [categoryDialogOpen, setCategoryDialogOpen] = useState(false);
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
 
+  const [exportMenuAnchor, setExportMenuAnchor] = useState<null | HTMLElement>(null);
+
+  const [manualDialogOpen, setManualDialogOpen] = useState(false);
+  const [editedTransaction, setEditedTransaction] = useState<Transaction | null>(null);
+
   const location = useLocation();
   const navigate = useNavigate();
 
@@ -85,6 +96,25 @@ export const Transactions: React.FC = () => {
     }
   };
 
+  const handleExport = async (format: TransactionExportFormat) => {
+    setExportMenuAnchor(null);
+    try {
+      const blob = await apiClient.exportTransactions(format, {
+        startDate: formatDateForApi(timeframe.startDate),
+        endDate: formatDateForApi(timeframe.endDate),
+        categories: selectedCategories.length ? selectedCategories : undefined,
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `transactions-${formatDateForApi(new Date())}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to export transactions'));
+    }
+  };
+
   const handleCategoryChange = (selected: any[]) => {
     const ids = selected.map((s) => s.id);
     setSelectedCategories(ids);
@@ -126,15 +156,24 @@ export const Transactions: React.FC = () => {
     setCategoryDialogOpen(true);
   };
 
+  const handleAddTransaction = () => {
+    setEditedTransaction(null);
+    setManualDialogOpen(true);
+  };
+
+  const handleEditTransaction = (transaction: Transaction) => {
+    setEditedTransaction(transaction);
+    setManualDialogOpen(true);
+  };
+
   const handleAssignExistingCategory = async (transactionId: string, categoryId: string) => {
     try {
       await apiClient.updateTransactionCategory(transactionId, categoryId);
-      setCategoryDialogOpen(false);
-      setSelectedTransaction(null);
-      // Refresh transactions to show updated category
+      // Refresh transactions to show updated category; the dialog goes on to offer similar transactions
       fetchData();
     } catch (err: any) {
       setError(err.response?.data?.error || 'Failed to assign category');
+      throw err;
     }
   };
 
@@ -180,9 +219,28 @@ export const Transactions: React.FC = () => {
         <Typography variant="h4" fontWeight={600}>
           Transactions
         </Typography>
-        <Typography variant="body2" color="text.secondary">
-          Total: {transactions.length} transactions
-        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Typography variant="body2" color="text.secondary" sx={{ mr: 1 }}>
+            Total: {transactions.length} transactions
+          </Typography>
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<DownloadIcon />}
+            onClick={(e) => setExportMenuAnchor(e.currentTarget)}
+          >
+            Export
+          </Button>
+          <Menu anchorEl={exportMenuAnchor} open={Boolean(exportMenuAnchor)} onClose={() => setExportMenuAnchor(null)}>
+            <MenuItem onClick={() => handleExport('csv')}>CSV</MenuItem>
+            <MenuItem onClick={() => handleExport('xlsx')}>Excel (.xlsx)</MenuItem>
+            <MenuItem onClick={() => handleExport('ofx')}>OFX</MenuItem>
+            <MenuItem onClick={() => handleExport('qif')}>QIF</MenuItem>
+          </Menu>
+          <Button size="small" variant="contained" startIcon={<AddIcon />} onClick={handleAddTransaction}>
+            Add Transaction
+          </Button>
+        </Box>
       </Box>
 
       <Stack direction="row" spacing={2} sx={{ mb: 2, alignItems: 'flex-start' }}>
@@ -241,7 +299,7 @@ export const Transactions: React.FC = () => {
           {transactions.length === 0 ? (
             <Box sx={{ textAlign: 'center', py: 4 }}>
               <Typography variant="body1" color="text.secondary">
-                No transactions found. Scrape your accounts to import transaction data.
+                No transactions found. Scrape your accounts to import transaction data, or add one by hand.
               </Typography>
             </Box>
           ) : (
@@ -256,6 +314,7 @@ export const Transactions: React.FC = () => {
                       <TableCell>Category</TableCell>
                       <TableCell align="right">Amount</TableCell>
                       <TableCell>Status</TableCell>
+                      <TableCell />
                     </TableRow>
                   </TableHead>
                   <TableBody>
@@ -275,6 +334,9 @@ export const Transactions: React.FC = () => {
                           <Typography variant="body2" sx={{ maxWidth: 300 }}>
                             {transaction.description}
                           </Typography>
+                          {transaction.isManual && (
+                            <Chip label="Manual" size="small" variant="outlined" sx={{ mt: 0.5 }} />
+                          )}
                         </TableCell>
                         <TableCell>
                           {(() => {
@@ -315,6 +377,17 @@ export const Transactions: React.FC = () => {
                             color={transaction.status === 'completed' ? 'success' : 'warning'}
                           />
                         </TableCell>
+                        <TableCell align="right">
+                          {transaction.isManual && (
+                            <IconButton
+                              size="small"
+                              onClick={() => handleEditTransaction(transaction)}
+                              title="Edit transaction"
+                            >
+                              <EditIcon fontSize="small" />
+                            </IconButton>
+                          )}
+                        </TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
@@ -352,6 +425,19 @@ export const Transactions: React.FC = () => {
         }}
         onAssignExisting={handleAssignExistingCategory}
         onCreateAndAssign={handleCreateAndAssignCategory}
+        onPropagated={fetchData}
+      />
+
+      <ManualTransactionDialog
+        open={manualDialogOpen}
+        transaction={editedTransaction}
+        accounts={accounts}
+        categories={categories}
+        onClose={() => {
+          setManualDialogOpen(false);
+          setEditedTransaction(null);
+        }}
+        onSaved={fetchData}
       />
     </Box>
   );
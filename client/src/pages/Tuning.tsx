@@ -0,0 +1,151 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Table,
+  TableHead,
+  TableRow,
+  TableCell,
+  TableBody,
+  CircularProgress,
+  Alert,
+  Chip,
+  Stack,
+} from '@mui/material';
+import { apiClient, getApiErrorMessage } from '../services/api';
+import ThresholdPanel from '../components/Tuning/ThresholdPanel';
+import type { CategorizationAnalytics, Category } from '../types';
+
+const SOURCE_LABELS: Record<string, string> = {
+  rule: 'Rule',
+  user: 'Learned',
+  description: 'Description',
+  vendor: 'Vendor',
+  unknown: 'Unknown',
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export const Tuning: React.FC = () => {
+  const [analytics, setAnalytics] = useState<CategorizationAnalytics | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [analyticsData, categoriesData] = await Promise.all([
+        apiClient.getCategorizationAnalytics(),
+        apiClient.getCategories(),
+      ]);
+      setAnalytics(analyticsData);
+      setCategories(categoriesData);
+    } catch (err: unknown) {
+      setError(getApiErrorMessage(err, 'Failed to fetch categorization analytics'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const share = (count: number) => (analytics && analytics.total > 0 ? formatPercent(count / analytics.total) : '-');
+
+  return (
+    <Box>
+      <Typography variant="h4" fontWeight={600} sx={{ mb: 1 }}>
+        Tuning
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        How your transactions were categorized, going by the latest categorization of each, and how often you changed
+        the result.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        analytics && (
+          <Box sx={{ display: 'grid', gap: 3, gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, mb: 3 }}>
+            <Card>
+              <CardContent>
+                <Typography variant="h6" fontWeight={600} sx={{ mb: 2 }}>
+                  {analytics.total} categorized transactions
+                </Typography>
+                <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                  By source
+                </Typography>
+                <Stack direction="row" spacing={1} sx={{ mb: 2, flexWrap: 'wrap' }}>
+                  {analytics.bySource.map(({ source, count }) => (
+                    <Chip key={source} label={`${SOURCE_LABELS[source] || source}: ${count} (${share(count)})`} />
+                  ))}
+                </Stack>
+                <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                  By confidence
+                </Typography>
+                <Stack direction="row" spacing={1} sx={{ flexWrap: 'wrap' }}>
+                  {analytics.byConfidence.map(({ confidence, count }) => (
+                    <Chip key={confidence} variant="outlined" label={`${confidence}: ${count} (${share(count)})`} />
+                  ))}
+                </Stack>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent>
+                <Typography variant="h6" fontWeight={600} sx={{ mb: 2 }}>
+                  Changed by you
+                </Typography>
+                {analytics.overridesByCategory.length === 0 ? (
+                  <Typography color="text.secondary">Nothing categorized yet</Typography>
+                ) : (
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Categorized as</TableCell>
+                        <TableCell align="right">Transactions</TableCell>
+                        <TableCell align="right">Changed</TableCell>
+                        <TableCell align="right">Rate</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {analytics.overridesByCategory.map((row) => (
+                        <TableRow key={row.categoryId ?? 'unknown'}>
+                          <TableCell>
+                            {row.categoryId
+                              ? categories.find((c) => c.id === row.categoryId)?.name || 'Deleted category'
+                              : 'Unknown'}
+                          </TableCell>
+                          <TableCell align="right">{row.decided}</TableCell>
+                          <TableCell align="right">{row.overridden}</TableCell>
+                          <TableCell align="right">{formatPercent(row.overrideRate)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </Box>
+        )
+      )}
+
+      <ThresholdPanel categories={categories} />
+    </Box>
+  );
+};
+
+export default Tuning;
@@ -92,9 +92,12 @@ describe('API Contract Tests', () => {
         expect(category).toHaveProperty('totalAmount');
         expect(category).toHaveProperty('transactionCount');
         expect(category).toHaveProperty('percentage');
+        expect(category).toHaveProperty('categoryId');
+        expect(category).toHaveProperty('hasChildren');
 
         // Verify types
         expect(typeof category.category).toBe('string');
+        expect(typeof category.hasChildren).toBe('boolean');
         expect(typeof category.totalAmount).toBe('number');
         expect(typeof category.transactionCount).toBe('number');
         expect(typeof category.percentage).toBe('number');
@@ -6,11 +6,31 @@ import type {
   Transaction,
   AnalyticsSummary,
   CategoryDistribution,
+  CategoryDistributionLevel,
   TrendData,
   RecurringPayment,
   CompanyId,
   ApiError,
   LogEntry,
+  ScrapeJob,
+  ScrapeJobEvent,
+  ScrapeSchedule,
+  CategorizationRule,
+  CategorizationRuleInput,
+  LearnedCategoryMapping,
+  VendorCategoryMapping,
+  VendorCodeSource,
+  CategoryPropagationPreview,
+  CategorizationReviewQueue,
+  CategorizationAnalytics,
+  CategorizationThresholds,
+  ThresholdSimulation,
+  ScrapeScreenshot,
+  ImportPreset,
+  StatementImportResult,
+  ManualTransactionInput,
+  TransactionExportFormat,
+  UserDataImportResult,
 } from '../types';
 
 const BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
@@ -153,7 +173,8 @@ class ApiClient {
     username: string,
     password: string,
     card6Digits?: string,
-    id?: string
+    id?: string,
+    phoneNumber?: string
   ): Promise<Account> {
     const response = await this.client.post<{ account: Account; message: string }>(
       `/api/accounts/${companyId}`,
@@ -164,6 +185,7 @@ class ApiClient {
         password,
         ...(card6Digits && { card6Digits }),
         ...(id && { id }),
+        ...(phoneNumber && { phoneNumber }),
       }
     );
     return response.data.account;
@@ -178,6 +200,7 @@ class ApiClient {
       password?: string;
       card6Digits?: string;
       userIdNumber?: string;
+      phoneNumber?: string;
     }
   ): Promise<void> {
     await this.client.put(`/api/accounts/${id}`, updates);
@@ -209,10 +232,60 @@ class ApiClient {
     return response.data.transactions;
   }
 
+  /**
+   * Download the filtered transactions as a spreadsheet, or as an OFX or QIF file for desktop finance tools.
+   */
+  async exportTransactions(
+    format: TransactionExportFormat,
+    filters?: { startDate?: string; endDate?: string; accountId?: string; categories?: string[] }
+  ): Promise<Blob> {
+    const params: any = { ...filters, format };
+    if (filters?.categories) {
+      params.categories = filters.categories.join(',');
+    }
+
+    const response = await this.client.get<Blob>('/api/transactions/export', { params, responseType: 'blob' });
+    return response.data;
+  }
+
   async updateTransactionCategory(id: string, categoryId: string): Promise<void> {
     await this.client.put(`/api/transactions/${id}/category`, { categoryId });
   }
 
+  async previewCategoryPropagation(id: string, categoryId: string): Promise<CategoryPropagationPreview> {
+    const response = await this.client.post<CategoryPropagationPreview>(
+      `/api/transactions/${id}/category/propagate`,
+      { categoryId }
+    );
+    return response.data;
+  }
+
+  async applyCategoryPropagation(
+    id: string,
+    categoryId: string,
+    transactionIds: string[]
+  ): Promise<CategoryPropagationPreview> {
+    const response = await this.client.post<CategoryPropagationPreview>(
+      `/api/transactions/${id}/category/propagate`,
+      { categoryId, transactionIds, apply: true }
+    );
+    return response.data;
+  }
+
+  async createTransaction(accountId: string, input: ManualTransactionInput): Promise<Transaction> {
+    const response = await this.client.post<Transaction>('/api/transactions', { accountId, ...input });
+    return response.data;
+  }
+
+  async updateTransaction(id: string, updates: Partial<ManualTransactionInput>): Promise<Transaction> {
+    const response = await this.client.put<Transaction>(`/api/transactions/${id}`, updates);
+    return response.data;
+  }
+
+  async deleteTransaction(id: string): Promise<void> {
+    await this.client.delete(`/api/transactions/${id}`);
+  }
+
   async getSummary(startDate: string, endDate: string, accountIds?: string[]): Promise<AnalyticsSummary> {
     const response = await this.client.get<AnalyticsSummary>('/api/analytics/summary', {
       params: { startDate, endDate, accountIds: accountIds?.join(',') },
@@ -223,11 +296,13 @@ class ApiClient {
   async getCategoryDistribution(
     startDate: string,
     endDate: string,
-    accountIds?: string[]
+    accountIds?: string[],
+    level: CategoryDistributionLevel = 'leaf',
+    parentId?: string
   ): Promise<CategoryDistribution[]> {
     const response = await this.client.get<{ categories: CategoryDistribution[] }>(
       '/api/analytics/category-distribution',
-      { params: { startDate, endDate, accountIds: accountIds?.join(',') } }
+      { params: { startDate, endDate, accountIds: accountIds?.join(','), level, parentId } }
     );
     return response.data.categories;
   }
@@ -258,11 +333,11 @@ class ApiClient {
   }
 
   async scrapeAccounts(
-    startDate: string,
+    startDate?: string, // Omit to scrape each account since its last sync
     endDate?: string,
     accountIds?: string[]
-  ): Promise<any> {
-    const response = await this.client.post('/api/scrape', {
+  ): Promise<{ message: string; job: ScrapeJob }> {
+    const response = await this.client.post<{ message: string; job: ScrapeJob }>('/api/scrape', {
       startDate,
       endDate,
       accountIds,
@@ -270,6 +345,278 @@ class ApiClient {
     return response.data;
   }
 
+  async getScrapeJob(id: string): Promise<ScrapeJob> {
+    const response = await this.client.get<{ job: ScrapeJob }>(`/api/scrape/jobs/${id}`);
+    return response.data.job;
+  }
+
+  /**
+   * Follow a scraper job's Server-Sent Events stream until the server closes it.
+   * Uses fetch rather than EventSource so the session header can be sent.
+   */
+  async streamScrapeJobEvents(
+    id: string,
+    onEvent: (event: ScrapeJobEvent) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const response = await fetch(`${BASE_URL}/api/scrape/jobs/${id}/events`, {
+      headers: {
+        Accept: 'text/event-stream',
+        ...(this.sessionId ? { 'X-Session-ID': this.sessionId } : {}),
+      },
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to open progress stream (${response.status})`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        let type = '';
+        let data = '';
+        for (const line of block.split('\n')) {
+          if (line.startsWith('event: ')) type = line.slice(7);
+          else if (line.startsWith('data: ')) data += line.slice(6);
+        }
+        // Lines starting with ':' are heartbeats and carry no event
+        if (type && data) {
+          onEvent({ type, ...JSON.parse(data) } as ScrapeJobEvent);
+        }
+      }
+    }
+  }
+
+  /**
+   * Answer a job's one-time password prompt with the code the user received.
+   */
+  async submitScrapeOtp(jobId: string, code: string, accountId?: string): Promise<void> {
+    await this.client.post(`/api/scrape/jobs/${jobId}/otp`, {
+      code,
+      ...(accountId && { accountId }),
+    });
+  }
+
+  async getScrapeJobScreenshots(jobId: string): Promise<ScrapeScreenshot[]> {
+    const response = await this.client.get<{ screenshots: ScrapeScreenshot[]; count: number }>(
+      `/api/scrape/jobs/${jobId}/screenshots`
+    );
+    return response.data.screenshots;
+  }
+
+  /**
+   * Download a screenshot as an object URL. Images need the session header, so they
+   * cannot be loaded with a plain img src. Revoke the URL when done with it.
+   */
+  async getScrapeScreenshotUrl(url: string): Promise<string> {
+    const response = await this.client.get<Blob>(url, { responseType: 'blob' });
+    return URL.createObjectURL(response.data);
+  }
+
+  async getScrapeJobs(limit?: number, offset?: number): Promise<ScrapeJob[]> {
+    const response = await this.client.get<{ jobs: ScrapeJob[]; count: number }>(
+      '/api/scrape/jobs',
+      { params: { limit, offset } }
+    );
+    return response.data.jobs;
+  }
+
+  async getImportPresets(): Promise<ImportPreset[]> {
+    const response = await this.client.get<{ presets: ImportPreset[] }>('/api/import/presets');
+    return response.data.presets;
+  }
+
+  async importStatement(accountId: string, file: File, preset?: string): Promise<StatementImportResult> {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (preset) {
+      formData.append('preset', preset);
+    }
+    // The client defaults to JSON, which would make axios serialize the form data
+    const response = await this.client.post<StatementImportResult>(`/api/accounts/${accountId}/import`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data;
+  }
+
+  /**
+   * Download all of the user's data as a portable bundle, for moving to another instance.
+   */
+  async exportUserData(format: 'json' | 'zip'): Promise<Blob> {
+    const response = await this.client.get<Blob>('/api/me/export', { params: { format }, responseType: 'blob' });
+    return response.data;
+  }
+
+  async importUserData(file: File): Promise<UserDataImportResult> {
+    const formData = new FormData();
+    formData.append('file', file);
+    const response = await this.client.post<UserDataImportResult>('/api/me/import', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data;
+  }
+
+  async getSchedules(): Promise<ScrapeSchedule[]> {
+    const response = await this.client.get<{ schedules: ScrapeSchedule[]; count: number }>(
+      '/api/schedules'
+    );
+    return response.data.schedules;
+  }
+
+  async createSchedule(
+    accountId: string,
+    cronExpression?: string,
+    overlapDays?: number | null,
+    enabled?: boolean
+  ): Promise<ScrapeSchedule> {
+    const response = await this.client.post<{ schedule: ScrapeSchedule }>('/api/schedules', {
+      accountId,
+      cronExpression,
+      overlapDays,
+      enabled,
+    });
+    return response.data.schedule;
+  }
+
+  async updateSchedule(
+    id: string,
+    updates: { cronExpression?: string; overlapDays?: number | null; enabled?: boolean }
+  ): Promise<ScrapeSchedule> {
+    const response = await this.client.put<{ schedule: ScrapeSchedule }>(
+      `/api/schedules/${id}`,
+      updates
+    );
+    return response.data.schedule;
+  }
+
+  async deleteSchedule(id: string): Promise<void> {
+    await this.client.delete(`/api/schedules/${id}`);
+  }
+
+  async getCategorizationRules(): Promise<CategorizationRule[]> {
+    const response = await this.client.get<{ rules: CategorizationRule[]; count: number }>(
+      '/api/categorization-rules'
+    );
+    return response.data.rules;
+  }
+
+  async createCategorizationRule(rule: CategorizationRuleInput): Promise<CategorizationRule> {
+    const response = await this.client.post<{ rule: CategorizationRule }>('/api/categorization-rules', rule);
+    return response.data.rule;
+  }
+
+  async updateCategorizationRule(
+    id: string,
+    updates: Partial<CategorizationRuleInput>
+  ): Promise<CategorizationRule> {
+    const response = await this.client.put<{ rule: CategorizationRule }>(
+      `/api/categorization-rules/${id}`,
+      updates
+    );
+    return response.data.rule;
+  }
+
+  async deleteCategorizationRule(id: string): Promise<void> {
+    await this.client.delete(`/api/categorization-rules/${id}`);
+  }
+
+  async getLearnedCategoryMappings(): Promise<LearnedCategoryMapping[]> {
+    const response = await this.client.get<{ mappings: LearnedCategoryMapping[]; count: number }>(
+      '/api/categorization-rules/learned'
+    );
+    return response.data.mappings;
+  }
+
+  async getVendorCategoryMappings(): Promise<VendorCategoryMapping[]> {
+    const response = await this.client.get<{ mappings: VendorCategoryMapping[]; count: number }>(
+      '/api/vendor-mappings'
+    );
+    return response.data.mappings;
+  }
+
+  async setVendorCategoryMapping(mapping: {
+    vendor: VendorCodeSource;
+    code: string;
+    categoryId: string;
+  }): Promise<VendorCategoryMapping> {
+    const response = await this.client.put<{ mapping: VendorCategoryMapping }>('/api/vendor-mappings', mapping);
+    return response.data.mapping;
+  }
+
+  async deleteVendorCategoryMapping(id: string): Promise<void> {
+    await this.client.delete(`/api/vendor-mappings/${id}`);
+  }
+
+  async getCategorizationReviewQueue(filters?: {
+    startDate?: string;
+    endDate?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<CategorizationReviewQueue> {
+    const response = await this.client.get<CategorizationReviewQueue>('/api/categorization/review', {
+      params: filters,
+    });
+    return response.data;
+  }
+
+  async acceptCategorizationReview(transactionId: string, categoryId?: string): Promise<void> {
+    await this.client.post(`/api/categorization/review/${transactionId}/accept`, { categoryId });
+  }
+
+  async rejectCategorizationReview(transactionId: string): Promise<void> {
+    await this.client.post(`/api/categorization/review/${transactionId}/reject`);
+  }
+
+  async getCategorizationAnalytics(filters?: {
+    startDate?: string;
+    endDate?: string;
+  }): Promise<CategorizationAnalytics> {
+    const response = await this.client.get<CategorizationAnalytics>('/api/categorization/analytics', {
+      params: filters,
+    });
+    return response.data;
+  }
+
+  async getCategorizationThresholds(): Promise<CategorizationThresholds> {
+    const response = await this.client.get<{ thresholds: CategorizationThresholds }>(
+      '/api/categorization/thresholds'
+    );
+    return response.data.thresholds;
+  }
+
+  async simulateCategorizationThresholds(
+    thresholds: Partial<CategorizationThresholds>
+  ): Promise<ThresholdSimulation> {
+    const response = await this.client.post<ThresholdSimulation>(
+      '/api/categorization/thresholds/simulate',
+      thresholds
+    );
+    return response.data;
+  }
+
+  async updateCategorizationThresholds(
+    thresholds: Partial<CategorizationThresholds>
+  ): Promise<CategorizationThresholds> {
+    const response = await this.client.put<{ thresholds: CategorizationThresholds }>(
+      '/api/categorization/thresholds',
+      thresholds
+    );
+    return response.data.thresholds;
+  }
+
   async getLogs(limit?: number, level?: string, since?: string): Promise<LogEntry[]> {
     const response = await this.client.get<{ logs: LogEntry[]; count: number }>(
       '/api/logs',
@@ -279,4 +626,9 @@ class ApiClient {
   }
 }
 
-export const apiClient = new ApiClient();
\ No newline at end of file
+export const apiClient = new ApiClient();
+/**
+ * Message to show for a failed request: the server's error when it sent one, else the fallback.
+ */
+export const getApiErrorMessage = (err: unknown, fallback: string): string =>
+  (axios.isAxiosError<ApiError>(err) && err.response?.data?.error) || fallback;
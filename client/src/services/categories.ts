@@ -4,12 +4,12 @@ export async function getCategories() {
   return apiClient.getCategories();
 }
 
-export async function createCategory(name: string, keywords: string[] = []) {
-  const response = await (apiClient as any).client.post('/api/categories', { name, keywords });
+export async function createCategory(name: string, keywords: string[] = [], parentCategory: string | null = null) {
+  const response = await (apiClient as any).client.post('/api/categories', { name, keywords, parentCategory });
   return response.data.category;
 }
 
-export async function updateCategory(id: string, updates: { name?: string; keywords?: string[] }) {
+export async function updateCategory(id: string, updates: { name?: string; keywords?: string[]; parentCategory?: string | null }) {
   const response = await (apiClient as any).client.put(`/api/categories/${id}`, updates);
   return response.data;
 }
@@ -12,10 +12,12 @@ export interface Account {
   companyId: CompanyId;
   alias: string;
   active: boolean;
-  accountType: 'bank' | 'credit';
+  accountType: 'bank' | 'credit' | 'manual';
   card6Digits?: string | null;
+  parentAccountId?: string | null; // Set for cards / sub-accounts scraped under another account's login
   username?: string; // For display in edit dialog (never includes password)
   userIdNumber?: string; // For Isracard user identification number (for display in edit dialog)
+  phoneNumber?: string; // For One Zero SMS one-time passwords (for display in edit dialog)
   lastScrapedAt?: number;
   createdAt: number;
   updatedAt?: number;
@@ -28,10 +30,12 @@ export type CompanyId =
   | 'mizrahi'
   | 'union'
   | 'massad'
+  | 'oneZero'
   | 'visaCal'
   | 'max'
   | 'isracard'
-  | 'amex';
+  | 'amex'
+  | 'manual';
 
 export interface Transaction {
   id: string;
@@ -47,6 +51,7 @@ export interface Transaction {
   status: 'completed' | 'pending';
   installmentNumber?: number;
   installmentTotal?: number;
+  isManual?: boolean; // Entered by hand rather than scraped or imported
   createdAt: number;
 }
 
@@ -62,7 +67,7 @@ export interface TransactionCategory {
 export interface Category {
   id: string;
   name: string;
-  parentCategory?: string;
+  parentCategory?: string | null; // Parent category ID
   keywords: string[];
   createdAt: number;
 }
@@ -79,12 +84,16 @@ export interface AnalyticsSummary {
 }
 
 export interface CategoryDistribution {
+  categoryId: string;
   category: string;
   totalAmount: number;
   transactionCount: number;
   percentage: number;
+  hasChildren: boolean;
 }
 
+export type CategoryDistributionLevel = 'parent' | 'leaf';
+
 export interface TrendData {
   period: string;
   totalIncome: number;
@@ -104,6 +113,261 @@ export interface RecurringPayment {
   transactionCount: number;
 }
 
+export type ScrapeJobStatus = 'pending' | 'running' | 'waiting_for_otp' | 'completed' | 'failed';
+
+export type ScrapeErrorClass =
+  | 'invalid_credentials'
+  | 'change_password'
+  | 'rate_limited'
+  | 'timeout'
+  | 'otp_required'
+  | 'generic';
+
+export interface ScrapeJobResult {
+  accountId: string;
+  accountName: string;
+  companyId: string;
+  success: boolean;
+  transactionsCount: number;
+  error: string | null;
+  errorClass: ScrapeErrorClass | null;
+  attempts: number;
+  duration: number;
+  screenshots: Array<{ fileName: string; stage: string; takenAt: number }>;
+}
+
+export interface ScrapeScreenshot {
+  accountId: string;
+  accountName: string;
+  companyId: string;
+  fileName: string;
+  stage: string;
+  takenAt: number;
+  url: string;
+}
+
+export interface ScrapeAccountProgress {
+  accountId: string;
+  accountName: string;
+  companyId: string;
+  stage: string;
+  updatedAt: number;
+}
+
+export interface ScrapeJob {
+  id: string;
+  status: ScrapeJobStatus;
+  accountsToScrape: string[];
+  results: ScrapeJobResult[];
+  progress: ScrapeAccountProgress[];
+  error: string | null;
+  startedAt: number | null;
+  completedAt: number | null;
+  createdAt: number;
+  duration: number;
+}
+
+export interface ScrapeSchedule {
+  id: string;
+  accountId: string;
+  cronExpression: string;
+  enabled: boolean;
+  overlapDays: number | null;
+  lastRunAt: number | null;
+  nextRunAt: number | null;
+  lastJobId: string | null;
+  createdAt: number;
+}
+
+export type CategorizationRuleCondition =
+  | { field: 'description'; operator: 'contains' | 'equals' | 'regex'; value: string }
+  | { field: 'amount'; min?: number; max?: number } // Compared with the absolute amount
+  | { field: 'account'; accountIds: string[] }
+  | { field: 'merchantId'; value: string };
+
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  categoryId: string;
+  conditions: CategorizationRuleCondition[];
+  priority: number; // Higher priorities are evaluated first
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type CategorizationRuleInput = Pick<
+  CategorizationRule,
+  'name' | 'categoryId' | 'conditions' | 'priority' | 'enabled'
+>;
+
+// Merchant→category mapping learned from manual category changes
+export interface LearnedCategoryMapping {
+  matchType: 'merchantId' | 'description';
+  key: string; // Merchant ID, or the normalized description
+  categoryId: string;
+  confirmations: number;
+  confidence: 'high' | 'medium' | 'low';
+  lastConfirmedAt: number;
+}
+
+export type VendorCodeSource = 'isracard' | 'max' | 'visaCal';
+
+// Card company category code → category; defaults are built in and have no ID
+export interface VendorCategoryMapping {
+  id: string | null;
+  vendor: VendorCodeSource;
+  code: string;
+  categoryId: string | null; // Null for a default whose category the user does not have
+  source: 'user' | 'default';
+}
+
+export interface CategoryPropagationCandidate {
+  transactionId: string;
+  accountId: string;
+  date: number;
+  description: string;
+  amount: number;
+  currency: string;
+  currentCategoryId: string | null;
+  currentCategoryName: string | null;
+  matchedBy: 'merchantId' | 'description' | 'fuzzy';
+  score: number;
+}
+
+export interface CategoryPropagationPreview {
+  sourceTransactionId: string;
+  categoryId: string;
+  threshold: number;
+  count: number;
+  skippedManual: number; // Similar transactions whose main category was set by hand
+  candidates: CategoryPropagationCandidate[];
+  updated?: number; // Set when applied
+}
+
+export type CategorizationReviewReason = 'unknown' | 'low_confidence' | 'disagreement';
+
+export interface CategorizationReviewCandidate {
+  categoryId: string;
+  categoryName: string;
+  score: number;
+  source: 'description' | 'vendor';
+}
+
+export interface CategorizationReviewItem {
+  transactionId: string;
+  accountId: string;
+  date: number;
+  description: string;
+  amount: number;
+  currency: string;
+  currentCategoryId: string | null;
+  currentCategoryName: string | null;
+  suggestedCategoryId: string | null; // What accepting applies when no category is chosen
+  confidence: 'high' | 'medium' | 'low' | null;
+  source: string | null;
+  decisionReason: string | null;
+  reasons: CategorizationReviewReason[];
+  candidates: CategorizationReviewCandidate[];
+}
+
+export interface CategorizationReviewQueue {
+  total: number;
+  count: number;
+  items: CategorizationReviewItem[];
+}
+
+export interface CategorizationThresholds {
+  descriptionThreshold: number;
+  vendorThreshold: number;
+  descriptionAdvantage: number;
+}
+
+export interface CategorizationAnalytics {
+  total: number;
+  bySource: Array<{ source: string; count: number }>;
+  byConfidence: Array<{ confidence: string; count: number }>;
+  overridesByCategory: Array<{
+    categoryId: string | null; // null for Unknown
+    decided: number;
+    overridden: number;
+    overrideRate: number;
+  }>;
+}
+
+export interface ThresholdSimulation {
+  current: CategorizationThresholds;
+  proposed: CategorizationThresholds;
+  evaluated: number;
+  changed: number;
+  toUnknown: number;
+  fromUnknown: number;
+  switched: number;
+  changes: Array<{
+    transactionId: string;
+    description: string;
+    fromCategoryId: string | null;
+    fromSource: string;
+    toCategoryId: string | null;
+    toSource: string;
+  }>;
+}
+
+export interface ImportPreset {
+  id: string;
+  label: string;
+}
+
+export interface StatementImportResult {
+  total: number;
+  imported: number;
+  duplicates: number;
+  skippedRows: number;
+}
+
+export interface UserDataImportResult {
+  accountsCreated: number;
+  accountsMatched: number;
+  categoriesCreated: number;
+  transactionsImported: number;
+  transactionsSkipped: number;
+  overridesImported: number;
+}
+
+export type TransactionExportFormat = 'csv' | 'xlsx' | 'ofx' | 'qif';
+
+export interface ManualTransactionInput {
+  date: string; // YYYY-MM-DD
+  amount: number; // Negative for expenses
+  description: string;
+  currency?: string;
+  status?: 'completed' | 'pending';
+  memo?: string;
+  categoryId?: string;
+}
+
+export type ScrapeJobEvent =
+  | { type: 'snapshot'; job: ScrapeJob }
+  | {
+      type: 'stage';
+      jobId: string;
+      accountId: string;
+      accountName: string;
+      companyId: string;
+      stage: string;
+      timestamp: number;
+    }
+  | {
+      type: 'otp';
+      jobId: string;
+      accountId: string;
+      accountName: string;
+      otpType: 'SMS' | 'APP';
+      timestamp: number;
+    }
+  | { type: 'result'; jobId: string; result: ScrapeJobResult; timestamp: number }
+  | { type: 'job'; jobId: string; status: ScrapeJobStatus; error: string | null; timestamp: number };
+
 export interface TimeframeFilter {
   startDate: Date;
   endDate: Date;
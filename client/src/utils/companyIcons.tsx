@@ -1,7 +1,10 @@
-import { AccountBalance, CreditCard } from '@mui/icons-material';
-import type { CompanyId } from '../types';
+import { AccountBalance, AccountBalanceWallet, CreditCard } from '@mui/icons-material';
+import type { Account, CompanyId } from '../types';
 
-export const getCompanyIcon = (_companyId: CompanyId, accountType: 'bank' | 'credit') => {
+export const getCompanyIcon = (_companyId: CompanyId, accountType: Account['accountType']) => {
+  if (accountType === 'manual') {
+    return <AccountBalanceWallet />;
+  }
   if (accountType === 'credit') {
     return <CreditCard />;
   }
@@ -16,20 +19,23 @@ export const getCompanyName = (companyId: CompanyId): string => {
     mizrahi: 'Mizrahi Tefahot',
     union: 'Union Bank',
     massad: 'Massad Bank',
+    oneZero: 'One Zero',
     visaCal: 'VisaCal',
     max: 'Max',
     isracard: 'Isracard',
     amex: 'American Express',
+    manual: 'Manual',
   };
   return names[companyId] || companyId;
 };
 
-export const getAccountType = (companyId: CompanyId): 'bank' | 'credit' => {
+export const getAccountType = (companyId: CompanyId): Account['accountType'] => {
+  if (companyId === 'manual') return 'manual';
   const creditCompanies: CompanyId[] = ['visaCal', 'max', 'isracard', 'amex'];
   return creditCompanies.includes(companyId) ? 'credit' : 'bank';
 };
 
-export const companyOptions: Array<{ value: CompanyId; label: string; type: 'bank' | 'credit' }> =
+export const companyOptions: Array<{ value: CompanyId; label: string; type: Account['accountType'] }> =
   [
     { value: 'hapoalim', label: 'Bank Hapoalim', type: 'bank' },
     { value: 'leumi', label: 'Bank Leumi', type: 'bank' },
@@ -37,8 +43,10 @@ export const companyOptions: Array<{ value: CompanyId; label: string; type: 'ban
     { value: 'mizrahi', label: 'Mizrahi Tefahot', type: 'bank' },
     { value: 'union', label: 'Union Bank', type: 'bank' },
     { value: 'massad', label: 'Massad Bank', type: 'bank' },
+    { value: 'oneZero', label: 'One Zero', type: 'bank' },
     { value: 'visaCal', label: 'VisaCal', type: 'credit' },
     { value: 'max', label: 'Max', type: 'credit' },
     { value: 'isracard', label: 'Isracard', type: 'credit' },
     { value: 'amex', label: 'American Express', type: 'credit' },
+    { value: 'manual', label: 'Manual (cash, loans, other institutions)', type: 'manual' },
   ];
\ No newline at end of file
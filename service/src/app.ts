@@ -16,6 +16,13 @@ import { TransactionRepository } from './repositories/transaction.repository';
 import { CategoryRepository } from './repositories/category.repository';
 import { TransactionCategoryRepository } from './repositories/transaction-category.repository';
 import { CategoryScoreRepository } from './repositories/category-score.repository';
+import { ScraperJobRepository } from './repositories/scraper-job.repository';
+import { ScrapeScheduleRepository } from './repositories/scrape-schedule.repository';
+import { BalanceSnapshotRepository } from './repositories/balance-snapshot.repository';
+import { CategorizationRuleRepository } from './repositories/categorization-rule.repository';
+import { CategorizationReviewRepository } from './repositories/categorization-review.repository';
+import { CategorizationThresholdRepository } from './repositories/categorization-threshold.repository';
+import { VendorCategoryMappingRepository } from './repositories/vendor-category-mapping.repository';
 
 import { AuthService } from './services/auth.service';
 import { CredentialService } from './services/credential.service';
@@ -23,8 +30,18 @@ import { TransactionService } from './services/transaction.service';
 import { AnalyticsService } from './services/analytics.service';
 import { ScraperService } from './services/scraper.service';
 import { ScraperOrchestratorService } from './services/scraper-orchestrator.service';
+import { ScraperSchedulerService } from './services/scraper-scheduler.service';
 import { LogReaderService } from './services/log-reader.service';
 import { CategorizationService } from './services/categorization.service';
+import { StatementImportService } from './services/statement-import.service';
+import { FinancialFileService } from './services/financial-file.service';
+import { SpreadsheetExportService } from './services/spreadsheet-export.service';
+import { UserDataService } from './services/user-data.service';
+import { CategoryPropagationService } from './services/category-propagation.service';
+import { CategorizationReviewService } from './services/categorization-review.service';
+import { CategorizationTuningService } from './services/categorization-tuning.service';
+import { BackupService } from './services/backup.service';
+import { BackupSchedulerService } from './services/backup-scheduler.service';
 
 import { AuthController } from './controllers/auth.controller';
 import { AccountController } from './controllers/account.controller';
@@ -33,14 +50,27 @@ import { AnalyticsController } from './controllers/analytics.controller';
 import { ScraperController } from './controllers/scraper.controller';
 import { LogsController } from './controllers/logs.controller';
 import { CategoryController } from './controllers/category.controller';
+import { CategorizationRuleController } from './controllers/categorization-rule.controller';
+import { CategorizationReviewController } from './controllers/categorization-review.controller';
+import { CategorizationTuningController } from './controllers/categorization-tuning.controller';
+import { VendorCategoryMappingController } from './controllers/vendor-category-mapping.controller';
+import { ScheduleController } from './controllers/schedule.controller';
+import { ImportController } from './controllers/import.controller';
+import { UserDataController } from './controllers/user-data.controller';
 
 import { createAuthMiddleware } from './middleware/auth.middleware';
+import { createUploadMiddleware } from './middleware/upload.middleware';
+
+const MAX_STATEMENT_FILE_BYTES = 10 * 1024 * 1024;
+const MAX_BUNDLE_FILE_BYTES = 100 * 1024 * 1024;
 
 export class App {
   public app: Application;
   private logger: Logger;
   private dbService: DatabaseService;
   private config: ConfigService;
+  private scheduler!: ScraperSchedulerService;
+  private backupScheduler: BackupSchedulerService;
 
   constructor(configPath?: string) {
     this.config = new ConfigService(configPath);
@@ -50,6 +80,12 @@ export class App {
       this.config.database.enableWAL,
       this.config.database.enableForeignKeys
     );
+    this.backupScheduler = new BackupSchedulerService(
+      new BackupService(this.config.backup, this.config.security.encryptionKey, this.logger),
+      this.dbService,
+      this.config.backup,
+      this.logger
+    );
 
     this.app = express();
     this.setupMiddleware();
@@ -94,10 +130,21 @@ export class App {
     const categoryRepo = new CategoryRepository(db);
     const transactionCategoryRepo = new TransactionCategoryRepository(db);
     const transactionRepo = new TransactionRepository(db, transactionCategoryRepo);
+    const scraperJobRepo = new ScraperJobRepository(db);
+    const scheduleRepo = new ScrapeScheduleRepository(db);
+    const balanceSnapshotRepo = new BalanceSnapshotRepository(db);
+    const categorizationRuleRepo = new CategorizationRuleRepository(db);
+    const categorizationThresholdRepo = new CategorizationThresholdRepository(db);
+    const vendorCategoryMappingRepo = new VendorCategoryMappingRepository(db);
 
-    const authService = new AuthService(this.logger, userRepo);
+    const authService = new AuthService(this.logger, userRepo, categoryRepo, this.config.categories);
     const credentialService = new CredentialService(this.config.security.encryptionKey);
-    const analyticsService = new AnalyticsService(this.logger, transactionRepo, accountRepo);
+    const analyticsService = new AnalyticsService(
+      this.logger,
+      transactionRepo,
+      accountRepo,
+      balanceSnapshotRepo
+    );
     const scraperService = new ScraperService(this.logger, this.config.scraping.screenshotPath);
     const categoryScoreRepo = new CategoryScoreRepository(db, this.logger);
     const categorizationService = new CategorizationService(
@@ -105,13 +152,17 @@ export class App {
       transactionRepo,
       categoryScoreRepo,
       transactionCategoryRepo,
+      categorizationRuleRepo,
+      vendorCategoryMappingRepo,
+      categorizationThresholdRepo,
       this.logger
     );
     const transactionService = new TransactionService(
       this.logger,
       transactionRepo,
       transactionCategoryRepo,
-      categoryRepo
+      categoryRepo,
+      categoryScoreRepo
     );
     const scraperOrchestrator = new ScraperOrchestratorService(
       scraperService,
@@ -120,9 +171,18 @@ export class App {
       credentialRepo,
       transactionRepo,
       transactionService,
-      categoryRepo,
-      categoryScoreRepo,
-      transactionCategoryRepo,
+      categorizationService,
+      scraperJobRepo,
+      balanceSnapshotRepo,
+      this.config.scraping,
+      this.logger
+    );
+    scraperOrchestrator.recoverInterruptedJobs();
+    this.scheduler = new ScraperSchedulerService(
+      scheduleRepo,
+      accountRepo,
+      scraperOrchestrator,
+      this.config.scraping,
       this.logger
     );
 
@@ -132,22 +192,82 @@ export class App {
       credentialRepo,
       credentialService,
       categoryScoreRepo,
+      balanceSnapshotRepo,
       this.logger
     );
+    const financialFileService = new FinancialFileService();
     const transactionController = new TransactionController(
       transactionRepo,
       transactionService,
       accountRepo,
       categoryRepo,
+      financialFileService,
+      new SpreadsheetExportService(),
+      categorizationService,
+      new CategoryPropagationService(this.dbService, transactionRepo, transactionService, this.logger),
       this.logger
     );
-    const analyticsController = new AnalyticsController(analyticsService, accountRepo, this.logger);
+    const analyticsController = new AnalyticsController(analyticsService, accountRepo, categoryRepo, this.logger);
     const scraperController = new ScraperController(scraperOrchestrator, this.logger);
     const categoryController = new CategoryController(categoryRepo, categorizationService, this.logger);
+    const categorizationRuleController = new CategorizationRuleController(
+      categorizationRuleRepo,
+      categoryRepo,
+      accountRepo,
+      categorizationService,
+      this.logger
+    );
+    const categorizationReviewController = new CategorizationReviewController(
+      new CategorizationReviewService(
+        this.dbService,
+        new CategorizationReviewRepository(db),
+        categoryRepo,
+        transactionService,
+        this.logger
+      ),
+      categoryRepo,
+      this.logger
+    );
+    const categorizationTuningController = new CategorizationTuningController(
+      new CategorizationTuningService(categoryScoreRepo, categorizationThresholdRepo, categorizationService, this.logger),
+      this.logger
+    );
+    const vendorCategoryMappingController = new VendorCategoryMappingController(
+      vendorCategoryMappingRepo,
+      categoryRepo,
+      categorizationService,
+      this.logger
+    );
+    const scheduleController = new ScheduleController(
+      scheduleRepo,
+      accountRepo,
+      this.scheduler,
+      this.logger
+    );
+    const importController = new ImportController(
+      new StatementImportService(financialFileService, this.logger),
+      scraperOrchestrator,
+      accountRepo,
+      this.logger
+    );
+    const userDataController = new UserDataController(
+      new UserDataService(
+        this.dbService,
+        accountRepo,
+        transactionRepo,
+        transactionCategoryRepo,
+        categoryRepo,
+        categoryScoreRepo,
+        this.logger
+      ),
+      this.logger
+    );
     const logReaderService = new LogReaderService(this.config.logging.filePath);
     const logsController = new LogsController(logReaderService, this.logger);
 
     const authMiddleware = createAuthMiddleware(authService, this.logger);
+    const statementUpload = createUploadMiddleware('file', MAX_STATEMENT_FILE_BYTES);
+    const bundleUpload = createUploadMiddleware('file', MAX_BUNDLE_FILE_BYTES);
 
     this.app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec));
 
@@ -178,15 +298,26 @@ export class App {
     this.app.post('/api/auth/logout', authController.logout);
     this.app.post('/api/auth/change-password', authMiddleware, authController.changePassword);
 
+    this.app.get('/api/me/export', authMiddleware, userDataController.exportData);
+    this.app.post('/api/me/import', authMiddleware, bundleUpload, userDataController.importData);
+
     this.app.get('/api/accounts', authMiddleware, accountController.getAccounts);
     this.app.post('/api/accounts/:companyId', authMiddleware, accountController.createAccount);
     this.app.put('/api/accounts/:id', authMiddleware, accountController.updateAccount);
     this.app.delete('/api/accounts/:id', authMiddleware, accountController.deleteAccount);
+    this.app.get('/api/accounts/:id/balances', authMiddleware, accountController.getBalances);
+    this.app.post('/api/accounts/:id/import', authMiddleware, statementUpload, importController.importStatement);
+    this.app.get('/api/import/presets', authMiddleware, importController.getPresets);
 
     this.app.get('/api/transactions', authMiddleware, transactionController.getTransactions);
+    this.app.get('/api/transactions/export', authMiddleware, transactionController.exportTransactions);
     this.app.get('/api/transactions/:id', authMiddleware, transactionController.getTransaction);
+    this.app.post('/api/transactions', authMiddleware, transactionController.createTransaction);
+    this.app.put('/api/transactions/:id', authMiddleware, transactionController.updateTransaction);
+    this.app.delete('/api/transactions/:id', authMiddleware, transactionController.deleteTransaction);
     this.app.post('/api/transactions/:id/set-main-category', authMiddleware, transactionController.setMainCategory);
     this.app.put('/api/transactions/:id/category', authMiddleware, transactionController.setMainCategory);
+    this.app.post('/api/transactions/:id/category/propagate', authMiddleware, transactionController.propagateCategory);
 
     this.app.get('/api/analytics/summary', authMiddleware, analyticsController.getSummary);
     this.app.get(
@@ -205,14 +336,49 @@ export class App {
       authMiddleware,
       analyticsController.getCategoryDistribution
     );
+    this.app.get('/api/analytics/net-worth', authMiddleware, analyticsController.getNetWorth);
 
     this.app.post('/api/scrape', authMiddleware, scraperController.scrapeAccounts);
+    this.app.get('/api/scrape/jobs', authMiddleware, scraperController.getJobs);
+    this.app.get('/api/scrape/jobs/:id', authMiddleware, scraperController.getJob);
+    this.app.get('/api/scrape/jobs/:id/events', authMiddleware, scraperController.streamJobEvents);
+    this.app.post('/api/scrape/jobs/:id/otp', authMiddleware, scraperController.submitOtp);
+    this.app.get('/api/scrape/jobs/:id/screenshots', authMiddleware, scraperController.getJobScreenshots);
+    this.app.get('/api/scrape/jobs/:id/screenshots/:fileName', authMiddleware, scraperController.getJobScreenshot);
+
+    this.app.get('/api/schedules', authMiddleware, scheduleController.getSchedules);
+    this.app.post('/api/schedules', authMiddleware, scheduleController.createSchedule);
+    this.app.put('/api/schedules/:id', authMiddleware, scheduleController.updateSchedule);
+    this.app.delete('/api/schedules/:id', authMiddleware, scheduleController.deleteSchedule);
 
     this.app.get('/api/categories', authMiddleware, categoryController.listCategories);
     this.app.post('/api/categories', authMiddleware, categoryController.createCategory);
     this.app.put('/api/categories/:id', authMiddleware, categoryController.updateCategory);
     this.app.delete('/api/categories/:id', authMiddleware, categoryController.deleteCategory);
 
+    this.app.get('/api/categorization-rules', authMiddleware, categorizationRuleController.listRules);
+    this.app.get('/api/categorization-rules/learned', authMiddleware, categorizationRuleController.listLearnedMappings);
+    this.app.post('/api/categorization-rules', authMiddleware, categorizationRuleController.createRule);
+    this.app.put('/api/categorization-rules/:id', authMiddleware, categorizationRuleController.updateRule);
+    this.app.delete('/api/categorization-rules/:id', authMiddleware, categorizationRuleController.deleteRule);
+
+    this.app.get('/api/categorization/review', authMiddleware, categorizationReviewController.getQueue);
+    this.app.post('/api/categorization/review/:transactionId/accept', authMiddleware, categorizationReviewController.accept);
+    this.app.post('/api/categorization/review/:transactionId/reject', authMiddleware, categorizationReviewController.reject);
+
+    this.app.get('/api/categorization/analytics', authMiddleware, categorizationTuningController.getAnalytics);
+    this.app.get('/api/categorization/thresholds', authMiddleware, categorizationTuningController.getThresholds);
+    this.app.put('/api/categorization/thresholds', authMiddleware, categorizationTuningController.updateThresholds);
+    this.app.post(
+      '/api/categorization/thresholds/simulate',
+      authMiddleware,
+      categorizationTuningController.simulateThresholds
+    );
+
+    this.app.get('/api/vendor-mappings', authMiddleware, vendorCategoryMappingController.listMappings);
+    this.app.put('/api/vendor-mappings', authMiddleware, vendorCategoryMappingController.setMapping);
+    this.app.delete('/api/vendor-mappings/:id', authMiddleware, vendorCategoryMappingController.deleteMapping);
+
     this.app.get('/api/logs', authMiddleware, logsController.getLogs);
     this.app.get('/api/logs/stats', authMiddleware, logsController.getLogStats);
 
@@ -247,10 +413,20 @@ export class App {
         port,
         env: this.config.server.env,
       });
+
+      if (this.config.scraping.schedulerEnabled) {
+        this.scheduler.start();
+      }
+
+      if (this.config.backup.enabled) {
+        this.backupScheduler.start();
+      }
     });
   }
 
   public close(): void {
+    this.scheduler.stop();
+    this.backupScheduler.stop();
     this.dbService.close();
     this.logger.info('Application shut down');
   }
@@ -0,0 +1,71 @@
+import dotenv from 'dotenv';
+import { ConfigService } from '../config/config.service';
+import { DatabaseService } from '../database/database.service';
+import { BackupService } from '../services/backup.service';
+import { Logger } from '../utils/logger';
+
+dotenv.config();
+
+const USAGE = `Usage: npm run backup -- <command>
+
+Commands:
+  list              List backups, newest first
+  create            Take a backup now
+  restore <file>    Replace the database with a backup (stop the server first)`;
+
+async function main(args: string[]): Promise<void> {
+  const [command, fileName] = args;
+  const config = new ConfigService();
+  const logger = new Logger({ ...config.logging, console: false });
+  const backupService = new BackupService(config.backup, config.security.encryptionKey, logger);
+
+  switch (command) {
+    case 'list': {
+      const backups = backupService.listBackups();
+      if (backups.length === 0) {
+        console.log(`No backups in ${config.backup.directory}`);
+        return;
+      }
+      for (const backup of backups) {
+        console.log(`${backup.fileName}\t${backup.createdAt.toISOString()}\t${backup.size} bytes`);
+      }
+      return;
+    }
+
+    case 'create': {
+      const dbService = new DatabaseService(
+        config.database.path,
+        config.database.enableWAL,
+        config.database.enableForeignKeys
+      );
+      try {
+        const backup = await backupService.createBackup(dbService);
+        console.log(`Created ${backup.path}`);
+      } finally {
+        dbService.close();
+      }
+      return;
+    }
+
+    case 'restore': {
+      if (!fileName) {
+        throw new Error('restore needs a backup file name or path');
+      }
+      const result = await backupService.restoreBackup(fileName, config.database.path);
+      console.log(`Restored ${config.database.path} from ${result.restoredFrom}`);
+      if (result.previousDatabasePath) {
+        console.log(`The previous database was moved to ${result.previousDatabasePath}`);
+      }
+      return;
+    }
+
+    default:
+      console.log(USAGE);
+      process.exitCode = command ? 1 : 0;
+  }
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
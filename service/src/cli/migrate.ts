@@ -0,0 +1,75 @@
+import dotenv from 'dotenv';
+import Database from 'better-sqlite3';
+import { ConfigService } from '../config/config.service';
+import { Migrator } from '../database/migrator';
+import { MIGRATIONS } from '../database/migrations';
+
+dotenv.config();
+
+const USAGE = `Usage: npm run migrate -- <command>
+
+Commands:
+  status            Show the schema version and pending migrations
+  up [version]      Apply migrations up to a version (the latest by default)
+  down <version>    Revert migrations down to a version (0 reverts everything; stop the server first)`;
+
+function parseVersion(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error(`Invalid version: ${value}`);
+  }
+  return version;
+}
+
+function main(args: string[]): void {
+  const [command, versionArg] = args;
+  const config = new ConfigService();
+
+  if (command !== 'status' && command !== 'up' && command !== 'down') {
+    console.log(USAGE);
+    process.exitCode = command ? 1 : 0;
+    return;
+  }
+
+  // Opened directly: DatabaseService would migrate to the latest version on open
+  const db = new Database(config.database.path, { fileMustExist: command === 'down' });
+  if (config.database.enableForeignKeys) {
+    db.pragma('foreign_keys = ON');
+  }
+
+  try {
+    const migrator = new Migrator(db, MIGRATIONS);
+
+    if (command === 'status') {
+      console.log(`Schema version ${migrator.getCurrentVersion()} (latest ${migrator.getLatestVersion()})`);
+      for (const migration of migrator.getApplied()) {
+        console.log(`  applied  ${migration.version} ${migration.name}\t${migration.appliedAt.toISOString()}`);
+      }
+      for (const migration of migrator.getPending()) {
+        console.log(`  pending  ${migration.version} ${migration.name}`);
+      }
+      return;
+    }
+
+    const target = parseVersion(versionArg);
+    if (command === 'down' && target === undefined) {
+      throw new Error('down needs a target version');
+    }
+
+    const ran = migrator.migrateTo(target);
+    for (const migration of ran) {
+      console.log(`${command === 'up' ? 'Applied' : 'Reverted'} ${migration.version} ${migration.name}`);
+    }
+    console.log(`Schema version ${migrator.getCurrentVersion()}`);
+  } finally {
+    db.close();
+  }
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
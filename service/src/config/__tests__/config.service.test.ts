@@ -161,6 +161,7 @@ describe('ConfigService', () => {
       expect(configService.security).toBeDefined();
       expect(configService.logging).toBeDefined();
       expect(configService.scraping).toBeDefined();
+      expect(configService.backup).toBeDefined();
       expect(configService.accounts).toBeDefined();
       expect(configService.categories).toBeDefined();
       
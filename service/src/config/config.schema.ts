@@ -15,12 +15,26 @@ export const ScrapingOptionsSchema = z.object({
   combineInstallments: z.boolean().default(false),
   showBrowser: z.boolean().default(false),
   screenshotOnError: z.boolean().default(true),
+  screenshotOnProgress: z.boolean().default(false),
   screenshotPath: z.string().default('./screenshots'),
+  schedulerEnabled: z.boolean().default(true),
+  schedulerIntervalMs: z.number().int().positive().default(60000),
+  syncOverlapDays: z.record(z.string(), z.number().int().min(0).max(60)).default({}),
+  otpTimeoutMs: z.number().int().positive().default(300000),
+  retryPolicies: z
+    .record(
+      z.string(),
+      z.object({
+        maxRetries: z.number().int().min(0).max(5),
+        baseDelayMs: z.number().int().min(0),
+      })
+    )
+    .default({}),
 });
 
 export const CategoryMappingSchema = z.object({
   name: z.string().min(1),
-  parentCategory: z.string().optional(),
+  parentCategory: z.string().optional(), // Name of another default category
   keywords: z.array(z.string()).default([]),
 });
 
@@ -53,12 +67,22 @@ export const LoggingConfigSchema = z.object({
   file: z.boolean().default(true),
 });
 
+export const BackupConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  directory: z.string().default('./backups'),
+  cron: z.string().default('0 3 * * *'),
+  keepDaily: z.number().int().min(1).default(7),
+  keepWeekly: z.number().int().min(0).default(4),
+  checkIntervalMs: z.number().int().positive().default(60000),
+});
+
 export const AppConfigSchema = z.object({
   server: ServerConfigSchema,
   database: DatabaseConfigSchema,
   security: SecurityConfigSchema,
   logging: LoggingConfigSchema,
   scraping: ScrapingOptionsSchema,
+  backup: BackupConfigSchema,
   accounts: z.array(AccountConfigSchema).default([]),
   categories: z.array(CategoryMappingSchema).default([]),
 });
@@ -70,4 +94,5 @@ export type ServerConfig = z.infer<typeof ServerConfigSchema>;
 export type DatabaseConfig = z.infer<typeof DatabaseConfigSchema>;
 export type SecurityConfig = z.infer<typeof SecurityConfigSchema>;
 export type LoggingConfig = z.infer<typeof LoggingConfigSchema>;
+export type BackupConfig = z.infer<typeof BackupConfigSchema>;
 export type AppConfig = z.infer<typeof AppConfigSchema>;
\ No newline at end of file
@@ -93,6 +93,16 @@ export class ConfigService {
         screenshotOnError: process.env.SCREENSHOT_ON_ERROR
           ? process.env.SCREENSHOT_ON_ERROR === 'true'
           : fileConfig.scraping?.screenshotOnError,
+        schedulerEnabled: process.env.SCHEDULER_ENABLED
+          ? process.env.SCHEDULER_ENABLED === 'true'
+          : fileConfig.scraping?.schedulerEnabled,
+      } as any,
+      backup: {
+        ...fileConfig.backup,
+        enabled: process.env.BACKUP_ENABLED
+          ? process.env.BACKUP_ENABLED === 'true'
+          : fileConfig.backup?.enabled,
+        directory: process.env.BACKUP_DIR || fileConfig.backup?.directory,
       } as any,
       accounts: fileConfig.accounts || [],
       categories: fileConfig.categories || [],
@@ -142,7 +152,21 @@ export class ConfigService {
         combineInstallments: false,
         showBrowser: false,
         screenshotOnError: true,
+        screenshotOnProgress: false,
         screenshotPath: './screenshots',
+        schedulerEnabled: true,
+        schedulerIntervalMs: 60000,
+        syncOverlapDays: {},
+        otpTimeoutMs: 300000,
+        retryPolicies: {},
+      },
+      backup: {
+        enabled: true,
+        directory: './backups',
+        cron: '0 3 * * *',
+        keepDaily: 7,
+        keepWeekly: 4,
+        checkIntervalMs: 60000,
       },
       accounts: [],
       categories: [],
@@ -177,6 +201,10 @@ export class ConfigService {
     return this.config.scraping;
   }
 
+  public get backup() {
+    return this.config.backup;
+  }
+
   public get accounts() {
     return this.config.accounts;
   }
@@ -40,6 +40,7 @@ const options: swaggerJsdoc.Options = {
             'max',
             'isracard',
             'amex',
+            'oneZero',
           ],
           description: 'Financial institution identifier - includes both banks and credit card companies',
         },
@@ -60,6 +61,12 @@ const options: swaggerJsdoc.Options = {
             companyId: { type: 'string' },
             alias: { type: 'string' },
             active: { type: 'boolean' },
+            parentAccountId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Login account this card or sub-account was scraped under',
+            },
             lastScrapedAt: { type: 'number', nullable: true },
             createdAt: { type: 'number' },
           },
@@ -87,7 +94,7 @@ const options: swaggerJsdoc.Options = {
           properties: {
             id: { type: 'string', format: 'uuid' },
             name: { type: 'string' },
-            parentCategory: { type: 'string', nullable: true },
+            parentCategory: { type: 'string', format: 'uuid', nullable: true, description: 'Parent category ID' },
             keywords: { type: 'array', items: { type: 'string' } },
             createdAt: { type: 'number' },
           },
@@ -107,6 +114,13 @@ const options: swaggerJsdoc.Options = {
       { name: 'Transactions', description: 'Transaction queries and updates' },
       { name: 'Analytics', description: 'Financial analytics and statistics' },
       { name: 'Scraping', description: 'Bank scraping operations' },
+      { name: 'Schedules', description: 'Automatic per-account scrape schedules' },
+      { name: 'Categorization Rules', description: 'User-defined rules that categorize transactions before fuzzy matching' },
+      { name: 'Categorization Review', description: 'Queue of questionable categorizations to accept or reject' },
+      { name: 'Categorization Tuning', description: 'Categorization quality analytics and decision threshold tuning' },
+      { name: 'Vendor Category Mappings', description: 'Mappings from card company category codes to categories' },
+      { name: 'Import', description: 'Statement file imports' },
+      { name: 'User Data', description: 'Portable export and import of all of a user\'s data' },
       { name: 'Logs', description: 'Application logs and monitoring' },
     ],
   },
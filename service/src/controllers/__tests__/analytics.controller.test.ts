@@ -1,12 +1,17 @@
 import path from 'path';
 import fs from 'fs';
 import Database from 'better-sqlite3';
+import { Response } from 'express';
 import { DatabaseService } from '../../database/database.service';
 import { TransactionRepository } from '../../repositories/transaction.repository';
 import { TransactionCategoryRepository } from '../../repositories/transaction-category.repository';
 import { CategoryRepository } from '../../repositories/category.repository';
 import { AccountRepository } from '../../repositories/account.repository';
 import { UserRepository } from '../../repositories/user.repository';
+import { AnalyticsController } from '../analytics.controller';
+import { AnalyticsService } from '../../services/analytics.service';
+import { AuthRequest } from '../../middleware/auth.middleware';
+import { Logger } from '../../utils/logger';
 
 describe('AnalyticsController - Category Distribution (Pie Chart)', () => {
   const testDbPath = path.join(process.cwd(), 'test-data', 'analytics-controller-test.db');
@@ -16,6 +21,7 @@ describe('AnalyticsController - Category Distribution (Pie Chart)', () => {
   let transactionCategoryRepo: TransactionCategoryRepository;
   let categoryRepo: CategoryRepository;
   let accountRepo: AccountRepository;
+  let testUserId: string;
   let testAccountId: string;
   let categoryGroceryId: string;
   let categoryRestaurantId: string;
@@ -58,17 +64,17 @@ describe('AnalyticsController - Category Distribution (Pie Chart)', () => {
     // Create test user first
     const userRepo = new UserRepository(db);
     const user = userRepo.create('testuser', 'password-hash');
-    const testUserId = user.id;
+    testUserId = user.id;
 
     // Create test account
     const account = accountRepo.create(testUserId, '12345', 'hapoalim', 'Test Account');
     testAccountId = account.id;
 
     // Create test categories
-    const groceryCategory = categoryRepo.create('Grocery', null, ['supermarket', 'market']);
+    const groceryCategory = categoryRepo.create(testUserId, 'Grocery', null, ['supermarket', 'market']);
     categoryGroceryId = groceryCategory.id;
 
-    const restaurantCategory = categoryRepo.create('Restaurant', null, ['pizza', 'burger']);
+    const restaurantCategory = categoryRepo.create(testUserId, 'Restaurant', null, ['pizza', 'burger']);
     categoryRestaurantId = restaurantCategory.id;
   });
 
@@ -187,9 +193,9 @@ describe('AnalyticsController - Category Distribution (Pie Chart)', () => {
 
     it('should handle transactions with no categories (Unknown category)', () => {
       // Create Unknown category if not exists
-      let unknownCategory = categoryRepo.findByName('Unknown');
+      let unknownCategory = categoryRepo.findByName(testUserId, 'Unknown');
       if (!unknownCategory) {
-        unknownCategory = categoryRepo.create('Unknown', null, []);
+        unknownCategory = categoryRepo.create(testUserId, 'Unknown', null, []);
       }
 
       // Create a transaction with no matched categories
@@ -316,3 +322,41 @@ describe('AnalyticsController - Category Distribution (Pie Chart)', () => {
   });
 });
 
+describe('AnalyticsController - net worth', () => {
+  const testDir = path.join(process.cwd(), 'test-data');
+  const logger = new Logger({ level: 'error', filePath: testDir, console: false, file: false });
+  const calculateNetWorthSeries = jest.fn().mockReturnValue([]);
+  const controller = new AnalyticsController(
+    { calculateNetWorthSeries } as unknown as AnalyticsService,
+    { findByUserId: () => [] } as unknown as AccountRepository,
+    {} as CategoryRepository,
+    logger
+  );
+
+  const getNetWorth = async (query: Record<string, string>) => {
+    const res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+    const req = { session: { userId: 'user-1' }, query } as unknown as AuthRequest;
+    await controller.getNetWorth(req, res as unknown as Response);
+    return res;
+  };
+
+  beforeEach(() => calculateNetWorthSeries.mockClear());
+
+  it('should return the series for a valid range', async () => {
+    const res = await getNetWorth({ startDate: '2025-01-01', endDate: '2025-01-31' });
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(calculateNetWorthSeries).toHaveBeenCalled();
+  });
+
+  it.each([
+    { startDate: 'not-a-date', endDate: '2025-01-31' },
+    { startDate: '2025-01-01', endDate: '2025-13-45' },
+    { startDate: '2025-02-01', endDate: '2025-01-31' },
+  ])('should reject %p with 400', async (query) => {
+    const res = await getNetWorth(query);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(calculateNetWorthSeries).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,253 @@
+import path from 'path';
+import { EventEmitter } from 'events';
+import { Response } from 'express';
+import { ScraperController } from '../scraper.controller';
+import { ScraperOrchestratorService, ScraperJob, ScraperJobEvent } from '../../services/scraper-orchestrator.service';
+import { AuthRequest } from '../../middleware/auth.middleware';
+import { Logger } from '../../utils/logger';
+
+const testDir = path.join(process.cwd(), 'test-data');
+const logger = new Logger({ level: 'error', filePath: testDir, console: false, file: false });
+
+const createJob = (overrides: Partial<ScraperJob> = {}): ScraperJob => ({
+  id: 'job-1',
+  userId: 'user-1',
+  status: 'pending',
+  startedAt: null,
+  completedAt: null,
+  accountsToScrape: ['account-1'],
+  results: [],
+  error: null,
+  progress: [],
+  createdAt: new Date(1000),
+  ...overrides,
+});
+
+describe('ScraperController - job history', () => {
+  const listJobs = jest.fn().mockReturnValue([]);
+  const controller = new ScraperController({ listJobs } as unknown as ScraperOrchestratorService, logger);
+
+  const getJobs = async (query: Record<string, string | undefined>) => {
+    const res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+    const req = { session: { userId: 'user-1' }, query } as unknown as AuthRequest;
+    await controller.getJobs(req, res as unknown as Response);
+    return res;
+  };
+
+  beforeEach(() => listJobs.mockClear());
+
+  it('should default the page size and pass valid limits through', async () => {
+    expect((await getJobs({})).status).toHaveBeenCalledWith(200);
+    expect(listJobs).toHaveBeenLastCalledWith('user-1', 50, undefined);
+
+    await getJobs({ limit: '10', offset: '20' });
+    expect(listJobs).toHaveBeenLastCalledWith('user-1', 10, 20);
+  });
+
+  it.each([{ limit: 'abc' }, { limit: '0' }, { limit: '201' }, { limit: '2.5' }, { offset: '-1' }])(
+    'should reject %p with 400',
+    async (query) => {
+      const res = await getJobs(query);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(listJobs).not.toHaveBeenCalled();
+    }
+  );
+});
+
+describe('ScraperController - background jobs', () => {
+  const respond = () => ({ status: jest.fn().mockReturnThis(), json: jest.fn() });
+
+  it('should answer a scrape request with the queued job and start it in the background', async () => {
+    const job = createJob();
+    const orchestrator = {
+      createJob: jest.fn().mockResolvedValue(job),
+      startJob: jest.fn(),
+    };
+    const controller = new ScraperController(orchestrator as unknown as ScraperOrchestratorService, logger);
+    const res = respond();
+    const req = { session: { userId: 'user-1' }, body: { accountIds: ['account-1'] } } as unknown as AuthRequest;
+
+    await controller.scrapeAccounts(req, res as unknown as Response);
+
+    expect(orchestrator.createJob).toHaveBeenCalledWith('user-1', ['account-1']);
+    expect(orchestrator.startJob).toHaveBeenCalledWith(job, expect.objectContaining({ interactive: true }));
+    expect(res.status).toHaveBeenCalledWith(202);
+    expect(res.json.mock.calls[0][0].job).toMatchObject({ id: 'job-1', status: 'pending', createdAt: 1000 });
+  });
+
+  it('should serve a job with its live progress', async () => {
+    const job = createJob({
+      status: 'running',
+      startedAt: new Date(2000),
+      progress: [
+        {
+          accountId: 'account-1',
+          accountName: 'Max',
+          companyId: 'max',
+          stage: 'LOGGING_IN',
+          updatedAt: new Date(3000),
+        },
+      ],
+    });
+    const getJob = jest.fn().mockReturnValue(job);
+    const controller = new ScraperController({ getJob } as unknown as ScraperOrchestratorService, logger);
+    const res = respond();
+    const req = { session: { userId: 'user-1' }, params: { id: 'job-1' } } as unknown as AuthRequest;
+
+    await controller.getJob(req, res as unknown as Response);
+
+    expect(getJob).toHaveBeenCalledWith('user-1', 'job-1');
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json.mock.calls[0][0].job).toMatchObject({
+      status: 'running',
+      startedAt: 2000,
+      progress: [{ accountId: 'account-1', stage: 'LOGGING_IN', updatedAt: 3000 }],
+    });
+  });
+
+  it("should return 404 for unknown jobs and other users' jobs", async () => {
+    const getJob = jest.fn().mockReturnValue(null);
+    const controller = new ScraperController({ getJob } as unknown as ScraperOrchestratorService, logger);
+    const res = respond();
+    const req = { session: { userId: 'user-2' }, params: { id: 'job-1' } } as unknown as AuthRequest;
+
+    await controller.getJob(req, res as unknown as Response);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+});
+
+describe('ScraperController - job event stream', () => {
+  const jobEvents = new EventEmitter();
+  const getJob = jest.fn();
+  const unsubscribe = jest.fn();
+  const subscribeToJob = jest.fn((jobId: string, listener: (event: ScraperJobEvent) => void) => {
+    jobEvents.on(jobId, listener);
+    return () => {
+      unsubscribe();
+      jobEvents.off(jobId, listener);
+    };
+  });
+  const controller = new ScraperController(
+    { getJob, subscribeToJob } as unknown as ScraperOrchestratorService,
+    logger
+  );
+
+  const openStream = async (job: ScraperJob | null, userId: string | null = 'user-1') => {
+    getJob.mockReturnValue(job);
+    const req = Object.assign(new EventEmitter(), {
+      session: userId ? { userId } : undefined,
+      params: { id: 'job-1' },
+    });
+    const res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+      setHeader: jest.fn(),
+      flushHeaders: jest.fn(),
+      write: jest.fn(),
+      end: jest.fn(),
+    };
+    await controller.streamJobEvents(req as unknown as AuthRequest, res as unknown as Response);
+
+    const events = () =>
+      res.write.mock.calls
+        .map(([chunk]) => /^event: (\w+)\ndata: (.*)\n\n$/.exec(chunk))
+        .filter((match): match is RegExpExecArray => match !== null)
+        .map(([, event, data]) => ({ event, data: JSON.parse(data) }));
+    return { req, res, events };
+  };
+
+  const emit = (event: ScraperJobEvent) => jobEvents.emit(event.jobId, event);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jobEvents.removeAllListeners();
+  });
+
+  it('should send a snapshot, relay stage, otp and result events and end with the job', async () => {
+    const job = createJob({ status: 'running' });
+    const { res, events } = await openStream(job);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'text/event-stream');
+    expect(events()).toEqual([{ event: 'snapshot', data: { job: expect.objectContaining({ id: 'job-1' }) } }]);
+
+    const timestamp = new Date(5000);
+    const account = { accountId: 'account-1', accountName: 'Max' };
+    emit({ type: 'stage', jobId: 'job-1', ...account, companyId: 'max', stage: 'LOGGING_IN', timestamp });
+    emit({ type: 'otp', jobId: 'job-1', ...account, otpType: 'SMS', timestamp });
+    emit({
+      type: 'result',
+      jobId: 'job-1',
+      result: {
+        ...account,
+        companyId: 'max',
+        success: true,
+        transactionsCount: 3,
+        error: null,
+        errorClass: null,
+        attempts: 1,
+        duration: 10,
+        screenshots: [],
+      },
+      timestamp,
+    });
+    expect(res.end).not.toHaveBeenCalled();
+
+    emit({ type: 'job', jobId: 'job-1', status: 'completed', error: null, timestamp });
+
+    expect(events().map((e) => e.event)).toEqual(['snapshot', 'stage', 'otp', 'result', 'job']);
+    expect(events()[1].data).toMatchObject({ stage: 'LOGGING_IN', timestamp: 5000 });
+    expect(events()[3].data.result).toMatchObject({ transactionsCount: 3 });
+    expect(res.end).toHaveBeenCalledTimes(1);
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it('should end the stream after the snapshot when the job is already finished', async () => {
+    const { res, events } = await openStream(createJob({ status: 'failed', error: 'Login failed' }));
+
+    expect(events()).toEqual([
+      { event: 'snapshot', data: { job: expect.objectContaining({ status: 'failed' }) } },
+      { event: 'job', data: expect.objectContaining({ jobId: 'job-1', status: 'failed', error: 'Login failed' }) },
+    ]);
+    expect(res.end).toHaveBeenCalledTimes(1);
+    expect(subscribeToJob).not.toHaveBeenCalled();
+  });
+
+  it('should unsubscribe and stop the heartbeat when the client disconnects', async () => {
+    jest.useFakeTimers();
+    try {
+      const { req, res, events } = await openStream(createJob({ status: 'running' }));
+
+      jest.advanceTimersByTime(15000);
+      expect(res.write).toHaveBeenLastCalledWith(': heartbeat\n\n');
+
+      req.emit('close');
+      expect(unsubscribe).toHaveBeenCalledTimes(1);
+
+      const writes = res.write.mock.calls.length;
+      emit({ type: 'job', jobId: 'job-1', status: 'completed', error: null, timestamp: new Date() });
+      jest.advanceTimersByTime(60000);
+      expect(res.write).toHaveBeenCalledTimes(writes);
+      expect(events().map((e) => e.event)).toEqual(['snapshot']);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("should return 404 for unknown jobs and other users' jobs", async () => {
+    const { res } = await openStream(null);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(res.setHeader).not.toHaveBeenCalled();
+    expect(subscribeToJob).not.toHaveBeenCalled();
+  });
+
+  it('should require a session', async () => {
+    const { res } = await openStream(createJob(), null);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(getJob).not.toHaveBeenCalled();
+  });
+});
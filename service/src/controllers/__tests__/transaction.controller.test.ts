@@ -0,0 +1,341 @@
+import path from 'path';
+import fs from 'fs';
+import { Response } from 'express';
+import { TransactionController } from '../transaction.controller';
+import { DatabaseService } from '../../database/database.service';
+import { TransactionService } from '../../services/transaction.service';
+import { CategorizationService } from '../../services/categorization.service';
+import { CategoryPropagationService } from '../../services/category-propagation.service';
+import { FinancialFileService } from '../../services/financial-file.service';
+import { SpreadsheetExportService } from '../../services/spreadsheet-export.service';
+import { AccountRepository } from '../../repositories/account.repository';
+import { TransactionRepository } from '../../repositories/transaction.repository';
+import { TransactionCategoryRepository } from '../../repositories/transaction-category.repository';
+import { CategoryRepository } from '../../repositories/category.repository';
+import { CategoryScoreRepository } from '../../repositories/category-score.repository';
+import { CategorizationRuleRepository } from '../../repositories/categorization-rule.repository';
+import { UserRepository } from '../../repositories/user.repository';
+import { AuthRequest } from '../../middleware/auth.middleware';
+import { Logger } from '../../utils/logger';
+
+describe('TransactionController - manual transactions', () => {
+  const testDir = path.join(process.cwd(), 'test-data');
+  const dbPath = path.join(testDir, 'transaction-controller-test.db');
+  const logger = new Logger({ level: 'error', filePath: testDir, console: false, file: false });
+
+  let dbService: DatabaseService;
+  let transactionRepo: TransactionRepository;
+  let transactionCategoryRepo: TransactionCategoryRepository;
+  let controller: TransactionController;
+  let userId: string;
+  let accountId: string;
+  let diningId: string;
+  let groceriesId: string;
+
+  type Handler = (req: AuthRequest, res: Response) => Promise<void>;
+
+  const call = async (
+    handler: Handler,
+    { params = {}, body = {}, asUserId = userId }: { params?: object; body?: object; asUserId?: string }
+  ) => {
+    const res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+    const req = { session: { userId: asUserId }, params, body, query: {} } as unknown as AuthRequest;
+    await handler(req, res as unknown as Response);
+    return { status: res.status.mock.calls[0][0] as number, body: res.json.mock.calls[0][0] };
+  };
+
+  const create = (body: object) => call(controller.createTransaction, { body: { accountId, ...body } });
+
+  const mainCategoryOf = (transactionId: string) =>
+    transactionCategoryRepo.getMainCategory(transactionId)?.categoryId;
+
+  beforeEach(() => {
+    if (!fs.existsSync(testDir)) fs.mkdirSync(testDir, { recursive: true });
+    if (fs.existsSync(dbPath)) fs.unlinkSync(dbPath);
+
+    dbService = new DatabaseService(dbPath);
+    const db = dbService.getDatabase();
+    transactionCategoryRepo = new TransactionCategoryRepository(db);
+    transactionRepo = new TransactionRepository(db, transactionCategoryRepo);
+    const accountRepo = new AccountRepository(db);
+    const categoryRepo = new CategoryRepository(db);
+    const scoreRepo = new CategoryScoreRepository(db, logger);
+    const ruleRepo = new CategorizationRuleRepository(db);
+    const transactionService = new TransactionService(
+      logger,
+      transactionRepo,
+      transactionCategoryRepo,
+      categoryRepo,
+      scoreRepo
+    );
+    const categorizationService = new CategorizationService(
+      categoryRepo,
+      transactionRepo,
+      scoreRepo,
+      transactionCategoryRepo,
+      ruleRepo,
+      undefined,
+      undefined,
+      logger
+    );
+    controller = new TransactionController(
+      transactionRepo,
+      transactionService,
+      accountRepo,
+      categoryRepo,
+      {} as FinancialFileService,
+      {} as SpreadsheetExportService,
+      categorizationService,
+      {} as CategoryPropagationService,
+      logger
+    );
+
+    userId = new UserRepository(db).create('testuser', 'hash').id;
+    accountId = accountRepo.create(userId, 'cash', 'manual', 'Cash').id;
+    diningId = categoryRepo.create(userId, 'Dining', null, []).id;
+    groceriesId = categoryRepo.create(userId, 'Groceries', null, []).id;
+    ruleRepo.create(userId, {
+      name: 'Pizza',
+      categoryId: diningId,
+      conditions: [{ field: 'description', operator: 'contains', value: 'pizza' }],
+      priority: 0,
+      enabled: true,
+    });
+    ruleRepo.create(userId, {
+      name: 'Market',
+      categoryId: groceriesId,
+      conditions: [{ field: 'description', operator: 'contains', value: 'market' }],
+      priority: 0,
+      enabled: true,
+    });
+  });
+
+  afterEach(() => {
+    dbService.close();
+    if (fs.existsSync(dbPath)) fs.unlinkSync(dbPath);
+  });
+
+  const createScraped = () =>
+    transactionRepo.create(
+      accountId,
+      'scraped-hash',
+      new Date('2025-03-01'),
+      new Date('2025-03-01'),
+      -40,
+      'ILS',
+      'Pizza night',
+      'completed',
+      null,
+      '{}'
+    );
+
+  const createOtherUser = () => {
+    const db = dbService.getDatabase();
+    const otherUserId = new UserRepository(db).create('otheruser', 'hash').id;
+    const otherAccountId = new AccountRepository(db).create(otherUserId, 'cash', 'manual', 'Cash').id;
+    return { otherUserId, otherAccountId };
+  };
+
+  describe('createTransaction', () => {
+    it('should create a manual transaction and categorize it', async () => {
+      const created = await create({
+        date: '2025-03-01',
+        amount: -40.5,
+        description: ' Pizza night ',
+        currency: 'usd',
+        status: 'pending',
+      });
+
+      expect(created.status).toBe(201);
+      expect(created.body).toMatchObject({
+        description: 'Pizza night',
+        amount: -40.5,
+        currency: 'USD',
+        status: 'pending',
+        isManual: true,
+      });
+      expect(transactionCategoryRepo.getMainCategory(created.body.id)).toMatchObject({
+        categoryId: diningId,
+        isManual: false,
+      });
+    });
+
+    it('should assign the given category as a manual choice', async () => {
+      const created = await create({
+        date: '2025-03-01',
+        amount: -40,
+        description: 'Pizza night',
+        categoryId: groceriesId,
+      });
+
+      expect(transactionCategoryRepo.getMainCategory(created.body.id)).toMatchObject({
+        categoryId: groceriesId,
+        isManual: true,
+      });
+    });
+
+    it.each([
+      [{ date: '2025-02-30', amount: -40, description: 'x' }, 'date'],
+      [{ date: '01/03/2025', amount: -40, description: 'x' }, 'date'],
+      [{ amount: -40, description: 'x' }, 'date'],
+      [{ date: '2025-03-01', amount: 0, description: 'x' }, 'amount'],
+      [{ date: '2025-03-01', amount: '40', description: 'x' }, 'amount'],
+      [{ date: '2025-03-01', amount: -40, description: '  ' }, 'description'],
+      [{ date: '2025-03-01', amount: -40, description: 'x', currency: 'shekel' }, 'currency'],
+      [{ date: '2025-03-01', amount: -40, description: 'x', status: 'cleared' }, 'status'],
+    ])('should reject %p with 400', async (body, field) => {
+      const created = await create(body);
+
+      expect(created.status).toBe(400);
+      expect(created.body.error).toContain(field);
+      expect(transactionRepo.findByAccountId(accountId)).toHaveLength(0);
+    });
+
+    it('should return 404 for an unknown category', async () => {
+      const created = await create({ date: '2025-03-01', amount: -40, description: 'x', categoryId: 'missing' });
+
+      expect(created.status).toBe(404);
+    });
+
+    it("should not add transactions to another user's account", async () => {
+      const { otherAccountId } = createOtherUser();
+
+      const created = await create({ accountId: otherAccountId, date: '2025-03-01', amount: -40, description: 'x' });
+
+      expect(created.status).toBe(404);
+      expect(transactionRepo.findByAccountId(otherAccountId)).toHaveLength(0);
+    });
+  });
+
+  describe('updateTransaction', () => {
+    it.each([
+      [{ date: 'yesterday' }, 'date'],
+      [{ amount: Number.NaN }, 'amount'],
+      [{ description: '' }, 'description'],
+      [{ currency: 'US' }, 'currency'],
+      [{ status: 'done' }, 'status'],
+    ])('should reject %p with 400', async (body, field) => {
+      const created = await create({ date: '2025-03-01', amount: -40, description: 'Pizza night' });
+
+      const updated = await call(controller.updateTransaction, { params: { id: created.body.id }, body });
+
+      expect(updated.status).toBe(400);
+      expect(updated.body.error).toContain(field);
+      expect(transactionRepo.findById(created.body.id)).toMatchObject({ description: 'Pizza night', amount: -40 });
+    });
+
+    it('should refuse to edit a scraped transaction', async () => {
+      const scraped = createScraped();
+
+      const updated = await call(controller.updateTransaction, {
+        params: { id: scraped.id },
+        body: { description: 'Corner market' },
+      });
+
+      expect(updated.status).toBe(400);
+      expect(transactionRepo.findById(scraped.id)!.description).toBe('Pizza night');
+    });
+
+    it("should deny access to another user's transaction", async () => {
+      const created = await create({ date: '2025-03-01', amount: -40, description: 'Pizza night' });
+      const { otherUserId } = createOtherUser();
+
+      const updated = await call(controller.updateTransaction, {
+        params: { id: created.body.id },
+        body: { description: 'Corner market' },
+        asUserId: otherUserId,
+      });
+
+      expect(updated.status).toBe(403);
+      expect(transactionRepo.findById(created.body.id)!.description).toBe('Pizza night');
+    });
+
+    it('should re-categorize when the description changes', async () => {
+      const created = await create({ date: '2025-03-01', amount: -40, description: 'Pizza night' });
+      expect(mainCategoryOf(created.body.id)).toBe(diningId);
+
+      const updated = await call(controller.updateTransaction, {
+        params: { id: created.body.id },
+        body: { description: 'Corner market' },
+      });
+
+      expect(updated.status).toBe(200);
+      expect(updated.body.description).toBe('Corner market');
+      expect(mainCategoryOf(created.body.id)).toBe(groceriesId);
+    });
+
+    it('should keep the category when only the amount changes', async () => {
+      const created = await create({ date: '2025-03-01', amount: -40, description: 'Pizza night' });
+
+      await call(controller.updateTransaction, { params: { id: created.body.id }, body: { amount: -55 } });
+
+      expect(transactionRepo.findById(created.body.id)!.amount).toBe(-55);
+      expect(mainCategoryOf(created.body.id)).toBe(diningId);
+    });
+
+    it('should keep a category chosen by hand when the description changes', async () => {
+      const created = await create({
+        date: '2025-03-01',
+        amount: -40,
+        description: 'Pizza night',
+        categoryId: diningId,
+      });
+
+      await call(controller.updateTransaction, {
+        params: { id: created.body.id },
+        body: { description: 'Corner market' },
+      });
+
+      expect(mainCategoryOf(created.body.id)).toBe(diningId);
+    });
+
+    it('should use an explicit category instead of re-categorizing', async () => {
+      const created = await create({ date: '2025-03-01', amount: -40, description: 'Corner market' });
+
+      await call(controller.updateTransaction, {
+        params: { id: created.body.id },
+        body: { description: 'Pizza night', categoryId: groceriesId },
+      });
+
+      const main = transactionCategoryRepo.getMainCategory(created.body.id);
+      expect(main).toMatchObject({ categoryId: groceriesId, isManual: true });
+    });
+  });
+
+  describe('deleteTransaction', () => {
+    it('should delete a manual transaction', async () => {
+      const created = await create({ date: '2025-03-01', amount: -40, description: 'Pizza night' });
+
+      const deleted = await call(controller.deleteTransaction, { params: { id: created.body.id } });
+
+      expect(deleted.status).toBe(200);
+      expect(transactionRepo.findById(created.body.id)).toBeNull();
+    });
+
+    it('should refuse to delete a scraped transaction', async () => {
+      const scraped = createScraped();
+
+      const deleted = await call(controller.deleteTransaction, { params: { id: scraped.id } });
+
+      expect(deleted.status).toBe(400);
+      expect(transactionRepo.findById(scraped.id)).not.toBeNull();
+    });
+
+    it("should deny access to another user's transaction", async () => {
+      const created = await create({ date: '2025-03-01', amount: -40, description: 'Pizza night' });
+      const { otherUserId } = createOtherUser();
+
+      const deleted = await call(controller.deleteTransaction, {
+        params: { id: created.body.id },
+        asUserId: otherUserId,
+      });
+
+      expect(deleted.status).toBe(403);
+      expect(transactionRepo.findById(created.body.id)).not.toBeNull();
+    });
+
+    it('should return 404 for an unknown transaction', async () => {
+      expect((await call(controller.deleteTransaction, { params: { id: 'missing' } })).status).toBe(404);
+    });
+  });
+});
@@ -1,8 +1,9 @@
 import { Response } from 'express';
 import { AuthRequest } from '../middleware/auth.middleware';
-import { AccountRepository } from '../repositories/account.repository';
+import { AccountRepository, MANUAL_COMPANY_ID } from '../repositories/account.repository';
 import { CredentialRepository } from '../repositories/credential.repository';
 import { CategoryScoreRepository } from '../repositories/category-score.repository';
+import { BalanceSnapshotRepository } from '../repositories/balance-snapshot.repository';
 import { CredentialService, UserCredentialInput } from '../services/credential.service';
 import { Logger } from '../utils/logger';
 
@@ -12,6 +13,7 @@ export class AccountController {
     private credentialRepository: CredentialRepository,
     private credentialService: CredentialService,
     private categoryScoreRepository: CategoryScoreRepository,
+    private balanceSnapshotRepository: BalanceSnapshotRepository,
     private logger: Logger
   ) {}
 
@@ -44,13 +46,15 @@ export class AccountController {
         const credential = this.credentialRepository.findByUserIdAndAccountName(userId, a.alias);
         let username: string | undefined;
         let id: string | undefined; // For Isracard
+        let phoneNumber: string | undefined; // For One Zero
 
         if (credential) {
           try {
             const decrypted = this.credentialService.retrieveCredentials(credential);
             // Extract username/id based on account type
-            username = decrypted.username || decrypted.userCode || undefined;
+            username = decrypted.username || decrypted.userCode || decrypted.email || undefined;
             id = decrypted.id || undefined;
+            phoneNumber = decrypted.phoneNumber || undefined;
             // Never include password in response
           } catch (error) {
             // If decryption fails, just skip credential fields
@@ -70,8 +74,10 @@ export class AccountController {
           active: a.active,
           accountType: a.accountType,
           card6Digits: a.card6Digits,
+          parentAccountId: a.parentAccountId ?? null,
           username, // Include username if available
           userIdNumber: id, // Include id for Isracard if available (renamed to avoid conflict with account id)
+          phoneNumber,
           lastScrapedAt: a.lastScrapedAt ? a.lastScrapedAt.getTime() : undefined,
           createdAt: a.createdAt.getTime(),
           updatedAt: a.updatedAt.getTime(),
@@ -94,8 +100,8 @@ export class AccountController {
    * /api/accounts/{companyId}:
    *   post:
    *     tags: [Accounts]
-   *     summary: Create a new financial account (bank or credit card)
-   *     description: Add a bank account or credit card for transaction scraping. Supports Israeli banks (Hapoalim, Leumi, Discount, Mizrahi, Union, Massad) and credit card companies (VisaCal, Max, Isracard, Amex).
+   *     summary: Create a new financial account (bank, credit card or manual)
+   *     description: Add a bank account or credit card for transaction scraping. Supports Israeli banks (Hapoalim, Leumi, Discount, Mizrahi, Union, Massad) and credit card companies (VisaCal, Max, Isracard, Amex). The manual company creates an account without credentials (cash, loans, pension funds) whose transactions are entered by hand; it only needs an alias.
    *     security:
    *       - SessionAuth: []
    *     parameters:
@@ -115,7 +121,9 @@ export class AccountController {
    *             - max
    *             - isracard
    *             - amex
-   *         description: Financial institution identifier (bank or credit card company)
+   *             - oneZero
+   *             - manual
+   *         description: Financial institution identifier (bank or credit card company), or manual
    *     requestBody:
    *       required: true
    *       content:
@@ -146,6 +154,10 @@ export class AccountController {
    *                 format: password
    *                 description: Login password
    *                 example: "pass123"
+   *               phoneNumber:
+   *                 type: string
+   *                 description: Phone number that receives the SMS one-time password (One Zero only, where username is the login email)
+   *                 example: "+972501234567"
    *     responses:
    *       201:
    *         description: Account created successfully
@@ -163,7 +175,12 @@ export class AccountController {
       }
 
       const { companyId } = req.params;
-      const { accountNumber, alias, username, password, card6Digits, id } = req.body;
+      const { accountNumber, alias, username, password, card6Digits, id, phoneNumber } = req.body;
+
+      if (companyId === MANUAL_COMPANY_ID) {
+        this.createManualAccount(userId, alias, accountNumber, res);
+        return;
+      }
 
       // Validate required fields based on account type
       const isCreditCard = ['isracard', 'amex', 'visaCal', 'max'].includes(companyId);
@@ -198,6 +215,9 @@ export class AccountController {
       if (companyId === 'isracard' && id) {
         userCredentials.id = id;
       }
+      if (companyId === 'oneZero' && phoneNumber) {
+        userCredentials.phoneNumber = phoneNumber;
+      }
 
       // Validate credentials
       if (!this.credentialService.validateCredentials(userCredentials, companyId)) {
@@ -205,6 +225,8 @@ export class AccountController {
           ? 'id (user identification number), card6Digits, and password'
           : companyId === 'amex'
           ? 'username, card6Digits, and password'
+          : companyId === 'oneZero'
+          ? 'username (email), phoneNumber, and password'
           : 'username and password';
         res.status(400).json({ 
           error: `Invalid credentials. Required: ${requiredFields}` 
@@ -322,7 +344,7 @@ export class AccountController {
       }
 
       const { id } = req.params;
-      const { alias, active, username, password, card6Digits, userIdNumber } = req.body;
+      const { alias, active, username, password, card6Digits, userIdNumber, phoneNumber } = req.body;
 
       const account = this.accountRepository.findById(id);
       if (!account) {
@@ -369,7 +391,13 @@ export class AccountController {
       }
 
       // Update credentials if any credential field is provided
-      if (username !== undefined || password !== undefined || card6Digits !== undefined || userIdNumber !== undefined) {
+      if (
+        username !== undefined ||
+        password !== undefined ||
+        card6Digits !== undefined ||
+        userIdNumber !== undefined ||
+        phoneNumber !== undefined
+      ) {
         // Use new alias if it was changed, otherwise use old alias
         const credentialAlias = aliasChanged ? alias : oldAlias;
         const existingCredential = this.credentialRepository.findByUserIdAndAccountName(userId, credentialAlias);
@@ -395,7 +423,12 @@ export class AccountController {
           : (decryptedCredentials.password || '');
 
         // Get username/id - prefer provided value, fallback to existing
-        const existingUsername = decryptedCredentials.username || decryptedCredentials.userCode || decryptedCredentials.id || '';
+        const existingUsername =
+          decryptedCredentials.username ||
+          decryptedCredentials.userCode ||
+          decryptedCredentials.id ||
+          decryptedCredentials.email ||
+          '';
         const updatedUsername = username !== undefined ? username : existingUsername;
 
         const updatedCredentials: UserCredentialInput = {
@@ -415,6 +448,18 @@ export class AccountController {
           }
         }
 
+        // One Zero: changing the login details drops the stored OTP token, so the next scrape asks for a new code
+        if (account.companyId === 'oneZero') {
+          updatedCredentials.phoneNumber = phoneNumber !== undefined ? phoneNumber : (decryptedCredentials.phoneNumber || '');
+          const loginUnchanged =
+            updatedCredentials.username === decryptedCredentials.email &&
+            updatedCredentials.password === decryptedCredentials.password &&
+            updatedCredentials.phoneNumber === decryptedCredentials.phoneNumber;
+          if (loginUnchanged && decryptedCredentials.otpLongTermToken) {
+            updatedCredentials.otpLongTermToken = decryptedCredentials.otpLongTermToken;
+          }
+        }
+
         // Validate credentials before updating
         if (!this.credentialService.validateCredentials(updatedCredentials, account.companyId)) {
           res.status(400).json({ error: 'Invalid credentials provided' });
@@ -445,6 +490,7 @@ export class AccountController {
             username: username !== undefined,
             password: password !== undefined && !isPasswordPlaceholder,
             card6Digits: card6Digits !== undefined,
+            phoneNumber: phoneNumber !== undefined,
             userIdNumber: userIdNumber !== undefined,
           },
         });
@@ -550,4 +596,113 @@ export class AccountController {
       res.status(500).json({ error: message });
     }
   };
-}
\ No newline at end of file
+
+  /**
+   * @swagger
+   * /api/accounts/{id}/balances:
+   *   get:
+   *     tags: [Accounts]
+   *     summary: Get the balance history of an account
+   *     description: One snapshot per day, recorded on every successful scrape. Accounts whose scraper does not report a balance have no history.
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: startDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *       - in: query
+   *         name: endDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *     responses:
+   *       200:
+   *         description: Balance snapshots, oldest first
+   *       401:
+   *         description: Authentication required
+   *       404:
+   *         description: Account not found
+   */
+  getBalances = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { id } = req.params;
+      const { startDate, endDate } = req.query;
+
+      const account = this.accountRepository.findById(id);
+      if (!account) {
+        res.status(404).json({ error: 'Account not found' });
+        return;
+      }
+
+      if (account.userId !== userId) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const snapshots = this.balanceSnapshotRepository.findByAccountId(
+        id,
+        startDate as string | undefined,
+        endDate as string | undefined
+      );
+
+      res.status(200).json({
+        count: snapshots.length,
+        balances: snapshots.map((s) => ({
+          date: s.date,
+          balance: s.balance,
+          currency: s.currency,
+          updatedAt: s.updatedAt.getTime(),
+        })),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch balances';
+      this.logger.error('Get account balances error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * Manual accounts have no credentials, so only the alias is required.
+   */
+  private createManualAccount(userId: string, alias: unknown, accountNumber: unknown, res: Response): void {
+    if (typeof alias !== 'string' || !alias.trim()) {
+      res.status(400).json({ error: 'Alias is required for manual accounts' });
+      return;
+    }
+
+    const account = this.accountRepository.create(
+      userId,
+      typeof accountNumber === 'string' ? accountNumber : '',
+      MANUAL_COMPANY_ID,
+      alias.trim()
+    );
+
+    this.logger.info('Manual account created', { userId, accountId: account.id, accountAlias: account.alias });
+
+    res.status(201).json({
+      message: 'Account created successfully',
+      account: {
+        id: account.id,
+        accountNumber: account.accountNumber,
+        companyId: account.companyId,
+        alias: account.alias,
+        active: account.active,
+        accountType: account.accountType,
+        card6Digits: account.card6Digits,
+      },
+    });
+  }
+}
@@ -2,12 +2,14 @@ import { Response } from 'express';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { AnalyticsService } from '../services/analytics.service';
 import { AccountRepository } from '../repositories/account.repository';
+import { CategoryRepository } from '../repositories/category.repository';
 import { Logger } from '../utils/logger';
 
 export class AnalyticsController {
   constructor(
     private analyticsService: AnalyticsService,
     private accountRepository: AccountRepository,
+    private categoryRepository: CategoryRepository,
     private logger: Logger
   ) {}
 
@@ -75,7 +77,9 @@ export class AnalyticsController {
 
       let accountIds: string[];
       if (accountIdsParam && typeof accountIdsParam === 'string') {
-        accountIds = accountIdsParam.split(',').map((id) => id.trim());
+        accountIds = this.accountRepository.expandWithChildren(
+          accountIdsParam.split(',').map((id) => id.trim())
+        );
       } else {
         const accounts = this.accountRepository.findActiveByUserId(userId);
         accountIds = accounts.map((a) => a.id);
@@ -159,7 +163,9 @@ export class AnalyticsController {
 
       let accountIds: string[];
       if (accountIdsParam && typeof accountIdsParam === 'string') {
-        accountIds = accountIdsParam.split(',').map((id) => id.trim());
+        accountIds = this.accountRepository.expandWithChildren(
+          accountIdsParam.split(',').map((id) => id.trim())
+        );
       } else {
         const accounts = this.accountRepository.findActiveByUserId(userId);
         accountIds = accounts.map((a) => a.id);
@@ -245,7 +251,9 @@ export class AnalyticsController {
 
       let accountIds: string[];
       if (accountIdsParam && typeof accountIdsParam === 'string') {
-        accountIds = accountIdsParam.split(',').map(id => id.trim());
+        accountIds = this.accountRepository.expandWithChildren(
+          accountIdsParam.split(',').map((id) => id.trim())
+        );
       } else {
         const accounts = this.accountRepository.findActiveByUserId(userId);
         accountIds = accounts.map((a) => a.id);
@@ -337,7 +345,9 @@ export class AnalyticsController {
 
       let accountIds: string[];
       if (accountIdsParam && typeof accountIdsParam === 'string') {
-        accountIds = accountIdsParam.split(',').map(id => id.trim());
+        accountIds = this.accountRepository.expandWithChildren(
+          accountIdsParam.split(',').map((id) => id.trim())
+        );
       } else {
         const accounts = this.accountRepository.findActiveByUserId(userId);
         accountIds = accounts.map((a) => a.id);
@@ -382,6 +392,18 @@ export class AnalyticsController {
    *           type: string
    *           format: date
    *         description: End date for analysis period
+   *       - in: query
+   *         name: level
+   *         schema:
+   *           type: string
+   *           enum: [leaf, parent]
+   *           default: leaf
+   *         description: leaf lists every category; parent rolls subcategories up into their parent
+   *       - in: query
+   *         name: parentId
+   *         schema:
+   *           type: string
+   *         description: Only include this category and its subcategories (drill-down)
    *     responses:
    *       200:
    *         description: Category distribution data
@@ -389,6 +411,8 @@ export class AnalyticsController {
    *         description: Invalid input
    *       401:
    *         description: Authentication required
+   *       404:
+   *         description: Parent category not found
    *       500:
    *         description: Server error
    */
@@ -400,13 +424,26 @@ export class AnalyticsController {
         return;
       }
 
-      const { startDate, endDate, accountIds: accountIdsParam } = req.query;
+      const { startDate, endDate, accountIds: accountIdsParam, level = 'leaf', parentId } = req.query;
 
       if (!startDate || !endDate) {
         res.status(400).json({ error: 'Start date and end date are required' });
         return;
       }
 
+      if (level !== 'leaf' && level !== 'parent') {
+        res.status(400).json({ error: 'level must be parent or leaf' });
+        return;
+      }
+
+      if (
+        parentId !== undefined &&
+        (typeof parentId !== 'string' || !this.categoryRepository.findById(userId, parentId))
+      ) {
+        res.status(404).json({ error: 'Category not found' });
+        return;
+      }
+
       const dateRange = {
         startDate: new Date(startDate as string),
         endDate: (() => {
@@ -418,13 +455,19 @@ export class AnalyticsController {
 
       let accountIds: string[];
       if (accountIdsParam && typeof accountIdsParam === 'string') {
-        accountIds = accountIdsParam.split(',').map(id => id.trim());
+        accountIds = this.accountRepository.expandWithChildren(
+          accountIdsParam.split(',').map((id) => id.trim())
+        );
       } else {
         const accounts = this.accountRepository.findActiveByUserId(userId);
         accountIds = accounts.map((a) => a.id);
       }
 
-      const distribution = this.analyticsService.calculateCategoryDistribution(accountIds, dateRange);
+      const distribution = this.analyticsService.calculateCategoryDistribution(accountIds, dateRange, {
+        categories: this.categoryRepository.list(userId),
+        level,
+        parentId,
+      });
 
       res.status(200).json({ categories: distribution });
     } catch (error) {
@@ -433,4 +476,93 @@ export class AnalyticsController {
       res.status(500).json({ error: message });
     }
   };
+
+  /**
+   * @swagger
+   * /api/analytics/net-worth:
+   *   get:
+   *     tags: [Analytics]
+   *     summary: Get net worth over time from account balance snapshots
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: accountIds
+   *         schema:
+   *           type: string
+   *         description: Comma-separated list of account IDs (optional, defaults to all user accounts)
+   *       - in: query
+   *         name: startDate
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: date
+   *       - in: query
+   *         name: endDate
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: date
+   *     responses:
+   *       200:
+   *         description: Net worth series, one point per day with a balance snapshot
+   *       400:
+   *         description: Invalid input
+   *       401:
+   *         description: Authentication required
+   *       500:
+   *         description: Server error
+   */
+  getNetWorth = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { startDate, endDate, accountIds: accountIdsParam } = req.query;
+
+      if (!startDate || !endDate) {
+        res.status(400).json({ error: 'Start date and end date are required' });
+        return;
+      }
+
+      const dateRange = {
+        startDate: new Date(startDate as string),
+        endDate: new Date(endDate as string),
+      };
+
+      if (isNaN(dateRange.startDate.getTime())) {
+        res.status(400).json({ error: 'Invalid start date' });
+        return;
+      }
+      if (isNaN(dateRange.endDate.getTime())) {
+        res.status(400).json({ error: 'Invalid end date' });
+        return;
+      }
+      if (dateRange.startDate > dateRange.endDate) {
+        res.status(400).json({ error: 'Start date must not be after end date' });
+        return;
+      }
+
+      // Balances are only meaningful for the user's own accounts, inactive ones included.
+      // Login accounts already hold the combined balance of their children, so by default
+      // only top-level accounts are summed.
+      const userAccounts = this.accountRepository.findByUserId(userId);
+      let accountIds = userAccounts.filter((a) => !a.parentAccountId).map((a) => a.id);
+      if (accountIdsParam && typeof accountIdsParam === 'string') {
+        const requested = accountIdsParam.split(',').map((id) => id.trim());
+        accountIds = userAccounts.filter((a) => requested.includes(a.id)).map((a) => a.id);
+      }
+
+      const series = this.analyticsService.calculateNetWorthSeries(accountIds, dateRange);
+
+      res.status(200).json({ series });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to calculate net worth';
+      this.logger.error('Net worth error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
 }
\ No newline at end of file
@@ -0,0 +1,194 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { CategorizationReviewService, ReviewItem } from '../services/categorization-review.service';
+import { CategoryRepository } from '../repositories/category.repository';
+import { Logger } from '../utils/logger';
+
+export class CategorizationReviewController {
+  constructor(
+    private reviewService: CategorizationReviewService,
+    private categoryRepository: CategoryRepository,
+    private logger: Logger
+  ) {}
+
+  /**
+   * @swagger
+   * /api/categorization/review:
+   *   get:
+   *     tags: [Categorization Review]
+   *     summary: List transactions whose categorization needs review
+   *     description: Transactions whose latest categorization is Unknown, low-confidence, or where the vendor category disagrees with the description match, newest first. Reviewed transactions and those categorized by hand are left out.
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: startDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *       - in: query
+   *         name: endDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           default: 100
+   *       - in: query
+   *         name: offset
+   *         schema:
+   *           type: integer
+   *           default: 0
+   *     responses:
+   *       200:
+   *         description: Review items with their top candidates, and the total number waiting
+   *       401:
+   *         description: Authentication required
+   */
+  getQueue = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { startDate, endDate, limit, offset } = req.query;
+      const { items, total } = this.reviewService.getQueue(userId, {
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        offset: offset ? parseInt(offset as string, 10) : undefined,
+      });
+
+      res.status(200).json({
+        total,
+        count: items.length,
+        items: items.map((item) => this.toItemResponse(item)),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch review queue';
+      this.logger.error('Get review queue error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/categorization/review/{transactionId}/accept:
+   *   post:
+   *     tags: [Categorization Review]
+   *     summary: Accept a categorization
+   *     description: Makes the suggested category, or `categoryId` when given, the transaction's main category as if the user had chosen it.
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: transactionId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               categoryId:
+   *                 type: string
+   *                 description: One of the candidates, or any of the user's categories
+   *     responses:
+   *       200:
+   *         description: Accepted
+   *       400:
+   *         description: No suggestion to accept and no category given
+   *       404:
+   *         description: Transaction not in the review queue, or category not found
+   */
+  accept = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { transactionId } = req.params;
+      const item = this.reviewService.getItem(userId, transactionId);
+      if (!item) {
+        res.status(404).json({ error: 'Transaction is not in the review queue' });
+        return;
+      }
+
+      const categoryId: string | undefined = req.body?.categoryId || undefined;
+      if (categoryId && !this.categoryRepository.findById(userId, categoryId)) {
+        res.status(404).json({ error: 'Category not found' });
+        return;
+      }
+      if (!categoryId && !item.suggestedCategoryId) {
+        res.status(400).json({ error: 'There is no suggestion to accept; choose a category' });
+        return;
+      }
+
+      const acceptedCategoryId = this.reviewService.accept(userId, item, categoryId);
+
+      res.status(200).json({ message: 'Categorization accepted', transactionId, categoryId: acceptedCategoryId });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to accept categorization';
+      this.logger.error('Accept categorization review error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/categorization/review/{transactionId}/reject:
+   *   post:
+   *     tags: [Categorization Review]
+   *     summary: Reject a categorization
+   *     description: Drops an automatically assigned main category and keeps the transaction in Unknown, also through later re-categorization.
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: transactionId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Rejected
+   *       404:
+   *         description: Transaction not in the review queue
+   */
+  reject = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { transactionId } = req.params;
+      const item = this.reviewService.getItem(userId, transactionId);
+      if (!item) {
+        res.status(404).json({ error: 'Transaction is not in the review queue' });
+        return;
+      }
+
+      this.reviewService.reject(userId, item);
+
+      res.status(200).json({ message: 'Categorization rejected', transactionId });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to reject categorization';
+      this.logger.error('Reject categorization review error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  private toItemResponse(item: ReviewItem) {
+    return { ...item, date: item.date.getTime() };
+  }
+}
@@ -0,0 +1,357 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { CategorizationRuleRepository } from '../repositories/categorization-rule.repository';
+import { CategoryRepository } from '../repositories/category.repository';
+import { AccountRepository } from '../repositories/account.repository';
+import { CategorizationService } from '../services/categorization.service';
+import {
+  CategorizationRuleCreateSchema,
+  CategorizationRuleUpdateSchema,
+} from '../services/categorization-rules.engine';
+import { CategorizationRule, CategorizationRuleCondition } from '../types';
+import { Logger } from '../utils/logger';
+
+export class CategorizationRuleController {
+  constructor(
+    private ruleRepository: CategorizationRuleRepository,
+    private categoryRepository: CategoryRepository,
+    private accountRepository: AccountRepository,
+    private categorizationService: CategorizationService,
+    private logger: Logger
+  ) {}
+
+  /**
+   * @swagger
+   * /api/categorization-rules:
+   *   get:
+   *     tags: [Categorization Rules]
+   *     summary: List categorization rules in evaluation order
+   *     description: Rules are evaluated before fuzzy matching, highest priority first; the first rule whose conditions all match sets the transaction's category.
+   *     security:
+   *       - SessionAuth: []
+   *     responses:
+   *       200:
+   *         description: Rules of the current user
+   *       401:
+   *         description: Authentication required
+   */
+  listRules = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const rules = this.ruleRepository.list(userId);
+
+      res.status(200).json({
+        count: rules.length,
+        rules: rules.map((r) => this.toRuleResponse(r)),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch rules';
+      this.logger.error('Get categorization rules error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/categorization-rules/learned:
+   *   get:
+   *     tags: [Categorization Rules]
+   *     summary: List mappings learned from manual category changes
+   *     description: Each time the user changes a transaction's category, its merchant ID and normalized description are mapped to that category. New transactions matching a mapping get its category when no rule matches. Confidence is low after one confirmed transaction, medium after two and high from three.
+   *     security:
+   *       - SessionAuth: []
+   *     responses:
+   *       200:
+   *         description: Learned mappings, most confirmed first
+   *       401:
+   *         description: Authentication required
+   */
+  listLearnedMappings = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const learned = this.categorizationService.getLearnedMappings(userId);
+      const mappings = [...learned.byMerchantId.values(), ...learned.byDescription.values()].sort(
+        (a, b) => b.confirmations - a.confirmations || b.lastConfirmedAt.getTime() - a.lastConfirmedAt.getTime()
+      );
+
+      res.status(200).json({
+        count: mappings.length,
+        mappings: mappings.map((m) => ({ ...m, lastConfirmedAt: m.lastConfirmedAt.getTime() })),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch learned mappings';
+      this.logger.error('Get learned mappings error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/categorization-rules:
+   *   post:
+   *     tags: [Categorization Rules]
+   *     summary: Create a categorization rule
+   *     security:
+   *       - SessionAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - name
+   *               - categoryId
+   *               - conditions
+   *             properties:
+   *               name:
+   *                 type: string
+   *               categoryId:
+   *                 type: string
+   *               conditions:
+   *                 type: array
+   *                 description: All conditions must match. Amounts are compared without their sign.
+   *                 items:
+   *                   type: object
+   *                   properties:
+   *                     field:
+   *                       type: string
+   *                       enum: [description, amount, account, merchantId]
+   *                     operator:
+   *                       type: string
+   *                       enum: [contains, equals, regex]
+   *                       description: For description conditions
+   *                     value:
+   *                       type: string
+   *                       description: For description and merchantId conditions
+   *                     min:
+   *                       type: number
+   *                     max:
+   *                       type: number
+   *                     accountIds:
+   *                       type: array
+   *                       items:
+   *                         type: string
+   *                 example: [{ field: description, operator: regex, value: "^shufersal" }, { field: amount, min: 50, max: 500 }]
+   *               priority:
+   *                 type: integer
+   *                 default: 0
+   *               enabled:
+   *                 type: boolean
+   *                 default: true
+   *     responses:
+   *       201:
+   *         description: Rule created
+   *       400:
+   *         description: Invalid rule, or a category or account that is not the user's
+   *       401:
+   *         description: Authentication required
+   */
+  createRule = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const parsed = CategorizationRuleCreateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ error: this.describeIssues(parsed.error) });
+        return;
+      }
+
+      const referenceError = this.validateReferences(userId, parsed.data.categoryId, parsed.data.conditions);
+      if (referenceError) {
+        res.status(400).json({ error: referenceError });
+        return;
+      }
+
+      const rule = this.ruleRepository.create(userId, parsed.data);
+      this.logger.info('Categorization rule created', { ruleId: rule.id, categoryId: rule.categoryId });
+      this.triggerRecategorization(userId);
+
+      res.status(201).json({ rule: this.toRuleResponse(rule) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create rule';
+      this.logger.error('Create categorization rule error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/categorization-rules/{id}:
+   *   put:
+   *     tags: [Categorization Rules]
+   *     summary: Update a categorization rule
+   *     description: Takes the same fields as creating a rule; fields left out keep their value.
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Rule updated
+   *       400:
+   *         description: Invalid rule, or a category or account that is not the user's
+   *       404:
+   *         description: Rule not found
+   */
+  updateRule = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { id } = req.params;
+      const rule = this.ruleRepository.findById(userId, id);
+      if (!rule) {
+        res.status(404).json({ error: 'Rule not found' });
+        return;
+      }
+
+      const parsed = CategorizationRuleUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ error: this.describeIssues(parsed.error) });
+        return;
+      }
+
+      const referenceError = this.validateReferences(
+        userId,
+        parsed.data.categoryId ?? rule.categoryId,
+        parsed.data.conditions ?? []
+      );
+      if (referenceError) {
+        res.status(400).json({ error: referenceError });
+        return;
+      }
+
+      this.ruleRepository.update(userId, id, parsed.data);
+      this.triggerRecategorization(userId);
+
+      res.status(200).json({ rule: this.toRuleResponse(this.ruleRepository.findById(userId, id)!) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update rule';
+      this.logger.error('Update categorization rule error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/categorization-rules/{id}:
+   *   delete:
+   *     tags: [Categorization Rules]
+   *     summary: Delete a categorization rule
+   *     description: Transactions keep the category the rule gave them.
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Rule deleted
+   *       404:
+   *         description: Rule not found
+   */
+  deleteRule = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { id } = req.params;
+      if (!this.ruleRepository.findById(userId, id)) {
+        res.status(404).json({ error: 'Rule not found' });
+        return;
+      }
+
+      this.ruleRepository.delete(userId, id);
+
+      res.status(200).json({ message: 'Rule deleted' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete rule';
+      this.logger.error('Delete categorization rule error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * The target category and any accounts a condition names must belong to the user.
+   */
+  private validateReferences(
+    userId: string,
+    categoryId: string,
+    conditions: CategorizationRuleCondition[]
+  ): string | null {
+    if (!this.categoryRepository.findById(userId, categoryId)) {
+      return 'Category not found';
+    }
+
+    for (const condition of conditions) {
+      if (condition.field !== 'account') continue;
+      for (const accountId of condition.accountIds) {
+        if (this.accountRepository.findById(accountId)?.userId !== userId) {
+          return `Account not found: ${accountId}`;
+        }
+      }
+    }
+    return null;
+  }
+
+  private describeIssues(error: z.ZodError): string {
+    return error.issues.map((issue) => `${issue.path.join('.') || 'body'}: ${issue.message}`).join('; ');
+  }
+
+  /**
+   * Re-apply categorization in the background so existing transactions pick up the rule change.
+   */
+  private triggerRecategorization(userId: string): void {
+    setImmediate(async () => {
+      try {
+        const result = await this.categorizationService.recategorizeAll(userId);
+        this.logger.info('Background re-categorization completed', result);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Re-categorization failed';
+        this.logger.error('Background re-categorization error', { error: message });
+      }
+    });
+  }
+
+  private toRuleResponse(rule: CategorizationRule) {
+    return {
+      id: rule.id,
+      name: rule.name,
+      categoryId: rule.categoryId,
+      conditions: rule.conditions,
+      priority: rule.priority,
+      enabled: rule.enabled,
+      createdAt: rule.createdAt.getTime(),
+      updatedAt: rule.updatedAt.getTime(),
+    };
+  }
+}
@@ -0,0 +1,222 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { CategorizationTuningService } from '../services/categorization-tuning.service';
+import { DecisionEngineConfigUpdateSchema } from '../services/categorize-decision.engine';
+import { ScoreFilters } from '../repositories/category-score.repository';
+import { Logger } from '../utils/logger';
+
+export class CategorizationTuningController {
+  constructor(private tuningService: CategorizationTuningService, private logger: Logger) {}
+
+  /**
+   * @swagger
+   * /api/categorization/analytics:
+   *   get:
+   *     tags: [Categorization Tuning]
+   *     summary: Categorization quality of the current user's transactions
+   *     description: Counts by decision source and confidence, and per decided category how many transactions the user changed afterwards. Each transaction counts once, by its latest categorization. A null `categoryId` stands for Unknown.
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: startDate
+   *         description: Categorized on or after
+   *         schema:
+   *           type: string
+   *           format: date
+   *       - in: query
+   *         name: endDate
+   *         description: Categorized on or before
+   *         schema:
+   *           type: string
+   *           format: date
+   *       - in: query
+   *         name: vendorId
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Distribution by source and confidence, and override rates per category
+   *       401:
+   *         description: Authentication required
+   */
+  getAnalytics = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const analytics = this.tuningService.getAnalytics(userId, this.parseFilters(req));
+
+      res.status(200).json({
+        ...analytics,
+        overridesByCategory: analytics.overridesByCategory.map((row) => ({
+          ...row,
+          overrideRate: row.decided > 0 ? row.overridden / row.decided : 0,
+        })),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch categorization analytics';
+      this.logger.error('Get categorization analytics error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/categorization/thresholds:
+   *   get:
+   *     tags: [Categorization Tuning]
+   *     summary: Decision engine thresholds of the current user
+   *     description: The user's own thresholds, or the instance defaults when they never changed them.
+   *     security:
+   *       - SessionAuth: []
+   *     responses:
+   *       200:
+   *         description: descriptionThreshold, vendorThreshold and descriptionAdvantage
+   *       401:
+   *         description: Authentication required
+   */
+  getThresholds = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      res.status(200).json({ thresholds: this.tuningService.getThresholds(userId) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch thresholds';
+      this.logger.error('Get categorization thresholds error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/categorization/thresholds/simulate:
+   *   post:
+   *     tags: [Categorization Tuning]
+   *     summary: Simulate proposed thresholds
+   *     description: Re-runs the current user's past automatic decisions with the proposed thresholds and reports how many would change, without writing anything. Fields left out keep their current value; the date filters work as in the analytics endpoint.
+   *     security:
+   *       - SessionAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               descriptionThreshold:
+   *                 type: number
+   *                 minimum: 0
+   *                 maximum: 100
+   *               vendorThreshold:
+   *                 type: number
+   *                 minimum: 0
+   *                 maximum: 100
+   *               descriptionAdvantage:
+   *                 type: number
+   *                 minimum: 1
+   *                 maximum: 3
+   *     responses:
+   *       200:
+   *         description: Counts of changed decisions and the first changes
+   *       400:
+   *         description: Invalid thresholds
+   */
+  simulateThresholds = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const parsed = DecisionEngineConfigUpdateSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        res.status(400).json({ error: this.describeIssues(parsed.error) });
+        return;
+      }
+
+      const simulation = await this.tuningService.simulate(userId, parsed.data, this.parseFilters(req));
+
+      res.status(200).json(simulation);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to simulate thresholds';
+      this.logger.error('Simulate categorization thresholds error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/categorization/thresholds:
+   *   put:
+   *     tags: [Categorization Tuning]
+   *     summary: Apply new thresholds
+   *     description: Thresholds apply to the current user's transactions only, from the next categorization on, and are kept across restarts. Transactions keep their category until they are re-categorized.
+   *     security:
+   *       - SessionAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               descriptionThreshold:
+   *                 type: number
+   *               vendorThreshold:
+   *                 type: number
+   *               descriptionAdvantage:
+   *                 type: number
+   *     responses:
+   *       200:
+   *         description: The thresholds now in use
+   *       400:
+   *         description: Invalid thresholds
+   */
+  updateThresholds = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const parsed = DecisionEngineConfigUpdateSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        res.status(400).json({ error: this.describeIssues(parsed.error) });
+        return;
+      }
+
+      const thresholds = this.tuningService.applyThresholds(userId, parsed.data);
+      this.logger.info('Categorization thresholds changed', { userId, thresholds });
+
+      res.status(200).json({ thresholds });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update thresholds';
+      this.logger.error('Update categorization thresholds error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  private parseFilters(req: AuthRequest): ScoreFilters {
+    const { startDate, endDate, vendorId } = req.query;
+    return {
+      startDate: startDate ? new Date(startDate as string) : undefined,
+      endDate: endDate ? new Date(endDate as string) : undefined,
+      vendorId: vendorId ? (vendorId as string) : undefined,
+    };
+  }
+
+  private describeIssues(error: z.ZodError): string {
+    return error.issues.map((issue) => `${issue.path.join('.') || 'body'}: ${issue.message}`).join('; ');
+  }
+}
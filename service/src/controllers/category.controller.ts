@@ -11,9 +11,15 @@ export class CategoryController {
     private logger: Logger
   ) {}
 
-  listCategories = async (_req: AuthRequest, res: Response): Promise<void> => {
+  listCategories = async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const categories = this.categoryRepository.list();
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const categories = this.categoryRepository.list(userId);
       res.status(200).json({
         count: categories.length,
         categories: categories.map((c) => ({
@@ -39,23 +45,35 @@ export class CategoryController {
         return;
       }
 
-      const { name, keywords } = req.body;
+      const { name, keywords, parentCategory } = req.body;
       if (!name) {
         res.status(400).json({ error: 'Name is required' });
         return;
       }
 
-      const created = this.categoryRepository.create(name, null, keywords || []);
+      if (this.categoryRepository.findByName(userId, name)) {
+        res.status(409).json({ error: 'A category with this name already exists' });
+        return;
+      }
+
+      const parentError = this.validateParent(userId, null, parentCategory);
+      if (parentError) {
+        res.status(400).json({ error: parentError });
+        return;
+      }
+
+      const created = this.categoryRepository.create(userId, name, parentCategory || null, keywords || []);
 
-      // Trigger async re-categorization of all transactions
+      // Trigger async re-categorization of the user's transactions
       // This happens in the background without blocking the response
       // Pass the created category ID so it becomes the main category for matching transactions
-      this.triggerRecategorization(created.id);
+      this.triggerRecategorization(userId, created.id);
 
       res.status(201).json({
         category: {
           id: created.id,
           name: created.name,
+          parentCategory: created.parentCategory,
           keywords: created.keywords,
           createdAt: created.createdAt.getTime(),
         },
@@ -76,24 +94,38 @@ export class CategoryController {
       }
 
       const { id } = req.params;
-      const { name, keywords } = req.body;
+      const { name, keywords, parentCategory } = req.body;
 
-      const category = this.categoryRepository.findById(id);
+      const category = this.categoryRepository.findById(userId, id);
       if (!category) {
         res.status(404).json({ error: 'Category not found' });
         return;
       }
 
+      if (name !== undefined && name !== category.name && this.categoryRepository.findByName(userId, name)) {
+        res.status(409).json({ error: 'A category with this name already exists' });
+        return;
+      }
+
+      if (parentCategory !== undefined) {
+        const parentError = this.validateParent(userId, id, parentCategory);
+        if (parentError) {
+          res.status(400).json({ error: parentError });
+          return;
+        }
+      }
+
       const updates: any = {};
       if (name !== undefined) updates.name = name;
       if (keywords !== undefined) updates.keywords = keywords;
+      if (parentCategory !== undefined) updates.parentCategory = parentCategory || null;
 
-      this.categoryRepository.update(id, updates);
+      this.categoryRepository.update(userId, id, updates);
 
-      // Trigger async re-categorization of all transactions
+      // Trigger async re-categorization of the user's transactions
       // This happens in the background without blocking the response
       // Pass the updated category ID so it becomes the main category for matching transactions
-      this.triggerRecategorization(id);
+      this.triggerRecategorization(userId, id);
 
       res.status(200).json({ message: 'Category updated' });
     } catch (error) {
@@ -113,13 +145,14 @@ export class CategoryController {
 
       const { id } = req.params;
 
-      const category = this.categoryRepository.findById(id);
+      const category = this.categoryRepository.findById(userId, id);
       if (!category) {
         res.status(404).json({ error: 'Category not found' });
         return;
       }
 
-      this.categoryRepository.delete(id);
+      this.categoryRepository.delete(userId, id);
+      this.categorizationService.reloadCategories(userId);
 
       res.status(200).json({ message: 'Category deleted' });
     } catch (error) {
@@ -130,16 +163,34 @@ export class CategoryController {
   };
 
   /**
-   * Trigger async re-categorization of all transactions
+   * Check a requested parent for a new (categoryId null) or existing category.
+   * Returns the reason it is rejected, or null when it is fine; an empty parent means top-level.
+   */
+  private validateParent(userId: string, categoryId: string | null, parentId: unknown): string | null {
+    if (parentId === undefined || parentId === null || parentId === '') return null;
+    if (typeof parentId !== 'string') return 'parentCategory must be a category ID';
+    if (parentId === categoryId) return 'A category cannot be its own parent';
+
+    if (!this.categoryRepository.findById(userId, parentId)) {
+      return 'Parent category not found';
+    }
+    if (categoryId && this.categoryRepository.getAncestorIds(userId, parentId).includes(categoryId)) {
+      return 'Parent category cannot be one of its own subcategories';
+    }
+    return null;
+  }
+
+  /**
+   * Trigger async re-categorization of the user's transactions
    * This runs in the background without blocking the HTTP response
    * If forceMainCategoryId is provided, that category will be set as main for matching transactions
    */
-  private triggerRecategorization(_forceMainCategoryId?: string): void {
+  private triggerRecategorization(userId: string, _forceMainCategoryId?: string): void {
     // Use setImmediate to queue the work after the current operation completes
     setImmediate(async () => {
       try {
-        this.categorizationService.reloadCategories();
-        const result = await this.categorizationService.recategorizeAll();
+        this.categorizationService.reloadCategories(userId);
+        const result = await this.categorizationService.recategorizeAll(userId);
         this.logger.info('Background re-categorization completed', result);
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Re-categorization failed';
@@ -0,0 +1,175 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { AccountRepository } from '../repositories/account.repository';
+import { ScraperOrchestratorService } from '../services/scraper-orchestrator.service';
+import { StatementImportService, ImportColumnMapping, StatementImportResult } from '../services/statement-import.service';
+import { Logger } from '../utils/logger';
+
+export class ImportController {
+  constructor(
+    private importService: StatementImportService,
+    private scraperOrchestrator: ScraperOrchestratorService,
+    private accountRepository: AccountRepository,
+    private logger: Logger
+  ) {}
+
+  /**
+   * @swagger
+   * /api/import/presets:
+   *   get:
+   *     tags: [Import]
+   *     summary: List the statement column-mapping presets
+   *     security:
+   *       - SessionAuth: []
+   *     responses:
+   *       200:
+   *         description: Available presets
+   *       401:
+   *         description: Authentication required
+   */
+  getPresets = async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.session?.userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    res.status(200).json({ presets: this.importService.getPresets() });
+  };
+
+  /**
+   * @swagger
+   * /api/accounts/{id}/import:
+   *   post:
+   *     tags: [Import]
+   *     summary: Import transactions from a CSV, XLSX, OFX/QFX or QIF statement file
+   *     description: Rows are processed like scraped transactions, so rows that were already scraped or imported are skipped. CSV and XLSX files need a preset or a mapping.
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         multipart/form-data:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - file
+   *             properties:
+   *               file:
+   *                 type: string
+   *                 format: binary
+   *               preset:
+   *                 type: string
+   *                 description: Column-mapping preset (hapoalim, leumi, max, visaCal, isracard)
+   *               mapping:
+   *                 type: string
+   *                 description: Custom column mapping as JSON, used instead of a preset
+   *     responses:
+   *       200:
+   *         description: Import summary
+   *       400:
+   *         description: Missing file, missing or unknown preset, or unreadable file
+   *       403:
+   *         description: Access denied
+   *       404:
+   *         description: Account not found
+   */
+  importStatement = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { id } = req.params;
+      const account = this.accountRepository.findById(id);
+      if (!account) {
+        res.status(404).json({ error: 'Account not found' });
+        return;
+      }
+
+      if (account.userId !== userId) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      if (!req.file) {
+        res.status(400).json({ error: 'A statement file is required' });
+        return;
+      }
+
+      const { preset, mapping } = req.body || {};
+      let customMapping: ImportColumnMapping | undefined;
+      if (mapping) {
+        customMapping = this.parseMapping(mapping);
+        if (!customMapping) {
+          res.status(400).json({ error: 'Mapping must list date, description and amount or debit/credit columns' });
+          return;
+        }
+      } else if (!preset && this.importService.requiresMapping(req.file.originalname)) {
+        res.status(400).json({ error: 'A preset or a column mapping is required' });
+        return;
+      }
+
+      let parsed: StatementImportResult;
+      try {
+        parsed = await this.importService.parse(req.file.buffer, req.file.originalname, preset, customMapping);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to read statement file' });
+        return;
+      }
+
+      const result = await this.scraperOrchestrator.importTransactions(account, parsed.transactions);
+
+      this.logger.info('Statement imported', {
+        accountId: account.id,
+        fileName: req.file.originalname,
+        ...result,
+      });
+
+      res.status(200).json({
+        total: result.total,
+        imported: result.imported,
+        duplicates: result.total - result.imported,
+        skippedRows: parsed.skippedRows,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to import statement';
+      this.logger.error('Import statement error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  private parseMapping(raw: unknown): ImportColumnMapping | undefined {
+    let mapping: any;
+    try {
+      mapping = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    } catch {
+      return undefined;
+    }
+
+    const isList = (value: unknown) =>
+      Array.isArray(value) && value.length > 0 && value.every((v) => typeof v === 'string');
+    const optionalList = (value: unknown) => value === undefined || isList(value);
+
+    if (
+      !mapping ||
+      !isList(mapping.date) ||
+      !isList(mapping.description) ||
+      !(isList(mapping.amount) || isList(mapping.debit) || isList(mapping.credit)) ||
+      !['amount', 'debit', 'credit', 'processedDate', 'currency', 'identifier', 'memo'].every((key) =>
+        optionalList(mapping[key])
+      )
+    ) {
+      return undefined;
+    }
+
+    return { ...mapping, invertAmount: Boolean(mapping.invertAmount) };
+  }
+}
@@ -0,0 +1,315 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { ScrapeScheduleRepository } from '../repositories/scrape-schedule.repository';
+import { AccountRepository } from '../repositories/account.repository';
+import { ScraperSchedulerService } from '../services/scraper-scheduler.service';
+import { ScrapeSchedule } from '../types';
+import { Logger } from '../utils/logger';
+
+export class ScheduleController {
+  constructor(
+    private scheduleRepository: ScrapeScheduleRepository,
+    private accountRepository: AccountRepository,
+    private schedulerService: ScraperSchedulerService,
+    private logger: Logger
+  ) {}
+
+  /**
+   * @swagger
+   * /api/schedules:
+   *   get:
+   *     tags: [Schedules]
+   *     summary: List automatic scrape schedules
+   *     security:
+   *       - SessionAuth: []
+   *     responses:
+   *       200:
+   *         description: Schedules of the current user
+   *       401:
+   *         description: Authentication required
+   */
+  getSchedules = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const schedules = this.scheduleRepository.findByUserId(userId);
+
+      res.status(200).json({
+        count: schedules.length,
+        schedules: schedules.map((s) => this.toScheduleResponse(s)),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch schedules';
+      this.logger.error('Get schedules error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/schedules:
+   *   post:
+   *     tags: [Schedules]
+   *     summary: Create an automatic scrape schedule for an account
+   *     description: Each account can have one schedule. Scheduled scrapes run since the account's last sync, re-fetching overlapDays before it (the institution default when omitted).
+   *     security:
+   *       - SessionAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - accountId
+   *             properties:
+   *               accountId:
+   *                 type: string
+   *               cronExpression:
+   *                 type: string
+   *                 description: Cron expression (defaults to daily at 06:00 for banks, weekly on Sunday for credit cards)
+   *                 example: "0 6 * * *"
+   *               overlapDays:
+   *                 type: integer
+   *                 nullable: true
+   *                 description: Days to re-fetch before the last scrape (omit for the institution default)
+   *                 example: 7
+   *               enabled:
+   *                 type: boolean
+   *     responses:
+   *       201:
+   *         description: Schedule created
+   *       400:
+   *         description: Invalid cron expression or overlap, or the account is a sub-account or manual account
+   *       404:
+   *         description: Account not found
+   *       409:
+   *         description: Account already has a schedule
+   */
+  createSchedule = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { accountId, cronExpression, overlapDays, enabled } = req.body;
+
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+
+      const account = this.accountRepository.findById(accountId);
+      if (!account || account.userId !== userId) {
+        res.status(404).json({ error: 'Account not found' });
+        return;
+      }
+
+      if (account.parentAccountId) {
+        res.status(400).json({ error: 'Sub-accounts are scraped with their login account; schedule that account instead' });
+        return;
+      }
+
+      if (account.accountType === 'manual') {
+        res.status(400).json({ error: 'Manual accounts are not scraped' });
+        return;
+      }
+
+      if (this.scheduleRepository.findByAccountId(accountId)) {
+        res.status(409).json({ error: 'Account already has a schedule' });
+        return;
+      }
+
+      if (overlapDays != null && !this.isValidOverlap(overlapDays)) {
+        res.status(400).json({ error: 'overlapDays must be an integer between 0 and 60' });
+        return;
+      }
+
+      const cron = cronExpression || this.schedulerService.getDefaultCron(account.accountType);
+      const isEnabled = enabled !== undefined ? Boolean(enabled) : true;
+
+      let nextRunAt: Date;
+      try {
+        nextRunAt = this.schedulerService.computeNextRun(cron);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid cron expression' });
+        return;
+      }
+
+      const schedule = this.scheduleRepository.create(
+        userId,
+        accountId,
+        cron,
+        overlapDays ?? null,
+        isEnabled,
+        isEnabled ? nextRunAt : null
+      );
+
+      this.logger.info('Scrape schedule created', {
+        scheduleId: schedule.id,
+        accountId,
+        cronExpression: cron,
+      });
+
+      res.status(201).json({ schedule: this.toScheduleResponse(schedule) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create schedule';
+      this.logger.error('Create schedule error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/schedules/{id}:
+   *   put:
+   *     tags: [Schedules]
+   *     summary: Update a scrape schedule
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               cronExpression:
+   *                 type: string
+   *               overlapDays:
+   *                 type: integer
+   *                 nullable: true
+   *               enabled:
+   *                 type: boolean
+   *     responses:
+   *       200:
+   *         description: Schedule updated
+   *       400:
+   *         description: Invalid cron expression or overlap
+   *       404:
+   *         description: Schedule not found
+   */
+  updateSchedule = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { id } = req.params;
+      const { cronExpression, overlapDays, enabled } = req.body;
+
+      const schedule = this.scheduleRepository.findById(id);
+      if (!schedule || schedule.userId !== userId) {
+        res.status(404).json({ error: 'Schedule not found' });
+        return;
+      }
+
+      if (overlapDays != null && !this.isValidOverlap(overlapDays)) {
+        res.status(400).json({ error: 'overlapDays must be an integer between 0 and 60' });
+        return;
+      }
+
+      const cron = cronExpression ?? schedule.cronExpression;
+      const isEnabled = enabled !== undefined ? Boolean(enabled) : schedule.enabled;
+
+      let nextRunAt: Date;
+      try {
+        nextRunAt = this.schedulerService.computeNextRun(cron);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid cron expression' });
+        return;
+      }
+
+      this.scheduleRepository.update(id, {
+        cronExpression: cron,
+        enabled: isEnabled,
+        overlapDays,
+        nextRunAt: isEnabled ? nextRunAt : null,
+      });
+
+      const updated = this.scheduleRepository.findById(id)!;
+      res.status(200).json({ schedule: this.toScheduleResponse(updated) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update schedule';
+      this.logger.error('Update schedule error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/schedules/{id}:
+   *   delete:
+   *     tags: [Schedules]
+   *     summary: Delete a scrape schedule
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Schedule deleted
+   *       404:
+   *         description: Schedule not found
+   */
+  deleteSchedule = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { id } = req.params;
+
+      const schedule = this.scheduleRepository.findById(id);
+      if (!schedule || schedule.userId !== userId) {
+        res.status(404).json({ error: 'Schedule not found' });
+        return;
+      }
+
+      this.scheduleRepository.delete(id);
+
+      res.status(200).json({ message: 'Schedule deleted' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete schedule';
+      this.logger.error('Delete schedule error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  private isValidOverlap(value: unknown): boolean {
+    return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 60;
+  }
+
+  private toScheduleResponse(schedule: ScrapeSchedule) {
+    return {
+      id: schedule.id,
+      accountId: schedule.accountId,
+      cronExpression: schedule.cronExpression,
+      enabled: schedule.enabled,
+      overlapDays: schedule.overlapDays,
+      lastRunAt: schedule.lastRunAt ? schedule.lastRunAt.getTime() : null,
+      nextRunAt: schedule.nextRunAt ? schedule.nextRunAt.getTime() : null,
+      lastJobId: schedule.lastJobId,
+      createdAt: schedule.createdAt.getTime(),
+    };
+  }
+}
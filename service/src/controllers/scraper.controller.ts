@@ -1,8 +1,21 @@
 import { Response } from 'express';
+import { z } from 'zod';
 import { AuthRequest } from '../middleware/auth.middleware';
-import { ScraperOrchestratorService } from '../services/scraper-orchestrator.service';
+import {
+  ScraperOrchestratorService,
+  ScraperJob,
+  ScraperJobEvent,
+} from '../services/scraper-orchestrator.service';
 import { Logger } from '../utils/logger';
 
+const SSE_HEARTBEAT_MS = 15000;
+const MAX_JOBS_PAGE = 200;
+
+const JobListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_JOBS_PAGE).default(50),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
 export class ScraperController {
   constructor(
     private scraperOrchestrator: ScraperOrchestratorService,
@@ -14,8 +27,8 @@ export class ScraperController {
    * /api/scrape:
    *   post:
    *     tags: [Scraping]
-   *     summary: Scrape transactions from financial accounts
-   *     description: Initiate transaction scraping from Israeli banks and credit card companies. Automatically saves new transactions to database with categorization.
+   *     summary: Start a background scrape of financial accounts
+   *     description: Starts a scraper job for Israeli banks and credit card companies and returns its ID immediately. New transactions are saved with categorization as each account finishes. Poll GET /api/scrape/jobs/{id} for per-account progress. Without a startDate each account is scraped since its last sync, minus an institution-specific overlap.
    *     security:
    *       - SessionAuth: []
    *     requestBody:
@@ -24,8 +37,6 @@ export class ScraperController {
    *         application/json:
    *           schema:
    *             type: object
-   *             required:
-   *               - startDate
    *             properties:
    *               accountIds:
    *                 type: array
@@ -37,7 +48,7 @@ export class ScraperController {
    *               startDate:
    *                 type: string
    *                 format: date
-   *                 description: Start date for transaction retrieval
+   *                 description: Start date for transaction retrieval (optional - defaults to since last sync)
    *                 example: "2025-01-01"
    *               endDate:
    *                 type: string
@@ -45,8 +56,8 @@ export class ScraperController {
    *                 description: End date (optional - defaults to today)
    *                 example: "2025-11-29"
    *     responses:
-   *       200:
-   *         description: Scraping completed successfully
+   *       202:
+   *         description: Scraping job started
    *         content:
    *           application/json:
    *             schema:
@@ -61,32 +72,13 @@ export class ScraperController {
    *                       type: string
    *                     status:
    *                       type: string
-   *                       enum: [completed, failed]
-   *                     results:
-   *                       type: array
-   *                       items:
-   *                         type: object
-   *                         properties:
-   *                           accountId:
-   *                             type: string
-   *                           accountName:
-   *                             type: string
-   *                           companyId:
-   *                             type: string
-   *                             enum: [hapoalim, leumi, discount, mizrahi, union, massad, visaCal, max, isracard, amex]
-   *                           success:
-   *                             type: boolean
-   *                           transactionsCount:
-   *                             type: integer
-   *                           error:
-   *                             type: string
-   *                             nullable: true
+   *                       enum: [pending, running, waiting_for_otp, completed, failed]
    *       400:
-   *         description: Invalid input
+   *         description: Invalid input or no active accounts
    *       401:
    *         description: Authentication required
    *       500:
-   *         description: Scraping failed
+   *         description: Failed to start scraping
    */
   scrapeAccounts = async (req: AuthRequest, res: Response): Promise<void> => {
     try {
@@ -98,37 +90,38 @@ export class ScraperController {
 
       const { startDate, endDate, accountIds } = req.body;
 
-      if (!startDate) {
-        res.status(400).json({ error: 'Start date is required' });
+      if (startDate && isNaN(new Date(startDate).getTime())) {
+        res.status(400).json({ error: 'Invalid start date' });
         return;
       }
 
+      // Without a start date the orchestrator scrapes each account since its last sync
       const options = {
-        startDate: new Date(startDate),
+        startDate: startDate ? new Date(startDate) : undefined,
         endDate: endDate ? new Date(endDate) : new Date(),
         timeout: 180000, // 3 minutes - increased for credit card scrapers that need more time for navigation
         showBrowser: true,
+        interactive: true, // The user is watching the job and can enter one-time passwords
       };
 
       let job;
       if (accountIds && accountIds.length > 0) {
         job = await this.scraperOrchestrator.createJob(userId, accountIds);
-        job = await this.scraperOrchestrator.executeJob(job, options);
       } else {
-        job = await this.scraperOrchestrator.scrapeActiveAccounts(userId, options);
+        try {
+          job = await this.scraperOrchestrator.createActiveAccountsJob(userId);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'No active accounts found';
+          res.status(400).json({ error: message });
+          return;
+        }
       }
 
-      res.status(200).json({
-        message: 'Scraping job completed',
-        job: {
-          id: job.id,
-          status: job.status,
-          results: job.results,
-          error: job.error,
-          duration: job.completedAt && job.startedAt
-            ? job.completedAt.getTime() - job.startedAt.getTime()
-            : 0,
-        },
+      this.scraperOrchestrator.startJob(job, options);
+
+      res.status(202).json({
+        message: 'Scraping job started',
+        job: this.toJobResponse(job),
       });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Scraping failed';
@@ -136,4 +129,435 @@ export class ScraperController {
       res.status(500).json({ error: message });
     }
   };
-}
\ No newline at end of file
+
+  /**
+   * @swagger
+   * /api/scrape/jobs:
+   *   get:
+   *     tags: [Scraping]
+   *     summary: List scraper job history for authenticated user
+   *     description: Returns past scraper jobs, most recent first, including per-account results, failure reasons, error classes (invalid_credentials, change_password, rate_limited, timeout, otp_required, generic) and attempts.
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           default: 50
+   *           minimum: 1
+   *           maximum: 200
+   *         description: Maximum number of jobs to return
+   *       - in: query
+   *         name: offset
+   *         schema:
+   *           type: integer
+   *           minimum: 0
+   *         description: Number of jobs to skip
+   *     responses:
+   *       200:
+   *         description: List of scraper jobs
+   *       400:
+   *         description: Invalid limit or offset
+   *       401:
+   *         description: Authentication required
+   *       500:
+   *         description: Server error
+   */
+  getJobs = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const parsed = JobListQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        res.status(400).json({
+          error: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; '),
+        });
+        return;
+      }
+
+      const jobs = this.scraperOrchestrator.listJobs(userId, parsed.data.limit, parsed.data.offset);
+
+      res.status(200).json({
+        count: jobs.length,
+        jobs: jobs.map((job) => this.toJobResponse(job)),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch scraper jobs';
+      this.logger.error('Get scraper jobs error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/scrape/jobs/{id}:
+   *   get:
+   *     tags: [Scraping]
+   *     summary: Get a single scraper job with its per-account results and live progress
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Job ID
+   *     responses:
+   *       200:
+   *         description: Scraper job details
+   *       401:
+   *         description: Authentication required
+   *       404:
+   *         description: Job not found
+   *       500:
+   *         description: Server error
+   */
+  getJob = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { id } = req.params;
+
+      const job = this.scraperOrchestrator.getJob(userId, id);
+      if (!job) {
+        res.status(404).json({ error: 'Job not found' });
+        return;
+      }
+
+      res.status(200).json({ job: this.toJobResponse(job) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch scraper job';
+      this.logger.error('Get scraper job error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/scrape/jobs/{id}/events:
+   *   get:
+   *     tags: [Scraping]
+   *     summary: Stream live progress of a scraper job (Server-Sent Events)
+   *     description: |
+   *       Opens a text/event-stream. The first event is `snapshot` with the current job.
+   *       It is followed by `stage` events (an account moved to a new scraper stage),
+   *       `result` events (an account finished, with the number of transactions saved or the failure),
+   *       `otp` events (an account is waiting for a one-time password, see POST /api/scrape/jobs/{id}/otp)
+   *       and a final `job` event, after which the stream is closed.
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Job ID
+   *     responses:
+   *       200:
+   *         description: Event stream
+   *         content:
+   *           text/event-stream:
+   *             schema:
+   *               type: string
+   *       401:
+   *         description: Authentication required
+   *       404:
+   *         description: Job not found
+   */
+  streamJobEvents = async (req: AuthRequest, res: Response): Promise<void> => {
+    const userId = req.session?.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    let job: ScraperJob | null;
+    try {
+      job = this.scraperOrchestrator.getJob(userId, id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch scraper job';
+      this.logger.error('Stream scraper job error', { error: message });
+      res.status(500).json({ error: message });
+      return;
+    }
+
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    this.writeEvent(res, 'snapshot', { job: this.toJobResponse(job) });
+
+    if (job.status === 'completed' || job.status === 'failed') {
+      this.writeEvent(res, 'job', {
+        jobId: job.id,
+        status: job.status,
+        error: job.error,
+        timestamp: Date.now(),
+      });
+      res.end();
+      return;
+    }
+
+    const heartbeat = setInterval(() => {
+      res.write(': heartbeat\n\n');
+    }, SSE_HEARTBEAT_MS);
+
+    const unsubscribe = this.scraperOrchestrator.subscribeToJob(job.id, (event) => {
+      this.writeEvent(res, event.type, this.toEventResponse(event));
+      if (event.type === 'job') {
+        cleanup();
+        res.end();
+      }
+    });
+
+    const cleanup = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    };
+
+    req.on('close', cleanup);
+  };
+
+  /**
+   * @swagger
+   * /api/scrape/jobs/{id}/otp:
+   *   post:
+   *     tags: [Scraping]
+   *     summary: Submit a one-time password to a job waiting for one
+   *     description: Resumes a job in the waiting_for_otp status. accountId is only needed when several accounts of the job wait for a code at once.
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Job ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - code
+   *             properties:
+   *               code:
+   *                 type: string
+   *                 example: "123456"
+   *               accountId:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Code submitted, the job continues
+   *       400:
+   *         description: Code is required
+   *       401:
+   *         description: Authentication required
+   *       404:
+   *         description: Job not found
+   *       409:
+   *         description: Job is not waiting for a one-time password
+   */
+  submitOtp = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { id } = req.params;
+      const { code, accountId } = req.body;
+
+      if (!code || typeof code !== 'string' || !code.trim()) {
+        res.status(400).json({ error: 'Code is required' });
+        return;
+      }
+
+      const job = this.scraperOrchestrator.getJob(userId, id);
+      if (!job) {
+        res.status(404).json({ error: 'Job not found' });
+        return;
+      }
+
+      if (!this.scraperOrchestrator.submitOtp(userId, id, code.trim(), accountId)) {
+        res.status(409).json({ error: 'Job is not waiting for a one-time password' });
+        return;
+      }
+
+      this.logger.info('One-time password submitted', { jobId: id, accountId });
+
+      res.status(200).json({ message: 'One-time password submitted' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to submit one-time password';
+      this.logger.error('Submit OTP error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/scrape/jobs/{id}/screenshots:
+   *   get:
+   *     tags: [Scraping]
+   *     summary: List screenshots captured during a scraper job
+   *     description: Screenshots of the scraper's browser page, taken when an account fails (scraping.screenshotOnError) and at each progress stage when scraping.screenshotOnProgress is on. Download each one from its url.
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Job ID
+   *     responses:
+   *       200:
+   *         description: Screenshots with the account and stage they were taken at
+   *       401:
+   *         description: Authentication required
+   *       404:
+   *         description: Job not found
+   */
+  getJobScreenshots = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { id } = req.params;
+
+      const screenshots = this.scraperOrchestrator.getJobScreenshots(userId, id);
+      if (!screenshots) {
+        res.status(404).json({ error: 'Job not found' });
+        return;
+      }
+
+      res.status(200).json({
+        count: screenshots.length,
+        screenshots: screenshots.map((s) => ({
+          ...s,
+          url: `/api/scrape/jobs/${id}/screenshots/${encodeURIComponent(s.fileName)}`,
+        })),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch screenshots';
+      this.logger.error('Get job screenshots error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/scrape/jobs/{id}/screenshots/{fileName}:
+   *   get:
+   *     tags: [Scraping]
+   *     summary: Download a screenshot of a scraper job
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Job ID
+   *       - in: path
+   *         name: fileName
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: PNG image
+   *         content:
+   *           image/png:
+   *             schema:
+   *               type: string
+   *               format: binary
+   *       401:
+   *         description: Authentication required
+   *       404:
+   *         description: Job or screenshot not found
+   */
+  getJobScreenshot = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { id, fileName } = req.params;
+
+      const filePath = this.scraperOrchestrator.getJobScreenshotFile(userId, id, fileName);
+      if (!filePath) {
+        res.status(404).json({ error: 'Screenshot not found' });
+        return;
+      }
+
+      res.setHeader('Cache-Control', 'private, max-age=86400');
+      res.sendFile(filePath);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch screenshot';
+      this.logger.error('Get job screenshot error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  private writeEvent(res: Response, event: string, data: unknown): void {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  private toEventResponse(event: ScraperJobEvent) {
+    return {
+      ...event,
+      timestamp: event.timestamp.getTime(),
+    };
+  }
+
+  private toJobResponse(job: ScraperJob) {
+    return {
+      id: job.id,
+      status: job.status,
+      accountsToScrape: job.accountsToScrape,
+      results: job.results,
+      progress: job.progress.map((p) => ({
+        ...p,
+        updatedAt: p.updatedAt.getTime(),
+      })),
+      error: job.error,
+      startedAt: job.startedAt ? job.startedAt.getTime() : null,
+      completedAt: job.completedAt ? job.completedAt.getTime() : null,
+      createdAt: job.createdAt.getTime(),
+      duration: job.completedAt && job.startedAt
+        ? job.completedAt.getTime() - job.startedAt.getTime()
+        : 0,
+    };
+  }
+}
@@ -1,17 +1,36 @@
 import { Response } from 'express';
 import { AuthRequest } from '../middleware/auth.middleware';
-import { TransactionRepository } from '../repositories/transaction.repository';
-import { TransactionService } from '../services/transaction.service';
+import { TransactionRepository, TransactionFilters } from '../repositories/transaction.repository';
+import { TransactionService, ManualTransactionInput } from '../services/transaction.service';
+import { CategorizationService } from '../services/categorization.service';
 import { AccountRepository } from '../repositories/account.repository';
 import { CategoryRepository } from '../repositories/category.repository';
+import { FinancialFileService } from '../services/financial-file.service';
+import { SpreadsheetExportService } from '../services/spreadsheet-export.service';
+import {
+  CategoryPropagationService,
+  DEFAULT_PROPAGATION_THRESHOLD,
+  PropagationPreview,
+} from '../services/category-propagation.service';
 import { Logger } from '../utils/logger';
 
+const EXPORT_CONTENT_TYPES: Record<string, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ofx: 'application/x-ofx',
+  qif: 'application/qif',
+};
+
 export class TransactionController {
   constructor(
     private transactionRepository: TransactionRepository,
     private transactionService: TransactionService,
     private accountRepository: AccountRepository,
     private categoryRepository: CategoryRepository,
+    private financialFileService: FinancialFileService,
+    private spreadsheetExportService: SpreadsheetExportService,
+    private categorizationService: CategorizationService,
+    private categoryPropagationService: CategoryPropagationService,
     private logger: Logger
   ) {}
 
@@ -37,6 +56,11 @@ export class TransactionController {
    *           format: date
    *         description: Filter transactions until this date
    *       - in: query
+   *         name: accountId
+   *         schema:
+   *           type: string
+   *         description: Comma-separated list of account IDs to filter by (includes their child accounts)
+   *       - in: query
    *         name: categories
    *         schema:
    *           type: string
@@ -73,27 +97,14 @@ export class TransactionController {
         return;
       }
 
-      const { startDate, endDate, categories, status, limit, offset } = req.query;
-
-      const accounts = this.accountRepository.findByUserId(userId);
-      const accountIds = accounts.map((a) => a.id);
-
-      const filters: any = { accountIds };
+      const { limit, offset } = req.query;
 
-      if (startDate) filters.startDate = new Date(startDate as string);
-      if (endDate) filters.endDate = new Date(endDate as string);
-      if (categories) {
-        const categoryIds = (categories as string).split(',');
-        // map ids to category names
-        const names: string[] = categoryIds
-          .map((id) => this.categoryRepository.findById(id))
-          .filter((c): c is any => !!c)
-          .map((c) => c.name);
-        if (names.length > 0) {
-          filters.categories = names;
-        }
+      const filters = this.buildFilters(userId, req.query);
+      // An empty account list would disable the account filter altogether
+      if (!filters) {
+        res.status(200).json({ count: 0, transactions: [] });
+        return;
       }
-      if (status) filters.status = status as 'completed' | 'pending';
 
       const limitNum = limit ? parseInt(limit as string, 10) : undefined;
       const offsetNum = offset ? parseInt(offset as string, 10) : undefined;
@@ -115,6 +126,367 @@ export class TransactionController {
     }
   };
 
+  /**
+   * @swagger
+   * /api/transactions:
+   *   post:
+   *     tags: [Transactions]
+   *     summary: Add a transaction by hand
+   *     description: For cash expenses, loans between family members or institutions the scrapers cannot reach. Without a categoryId the transaction is categorized like a scraped one.
+   *     security:
+   *       - SessionAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - accountId
+   *               - date
+   *               - amount
+   *               - description
+   *             properties:
+   *               accountId:
+   *                 type: string
+   *               date:
+   *                 type: string
+   *                 format: date
+   *                 example: "2025-03-14"
+   *               amount:
+   *                 type: number
+   *                 description: Negative for expenses, positive for income
+   *                 example: -45.5
+   *               description:
+   *                 type: string
+   *               currency:
+   *                 type: string
+   *                 example: ILS
+   *               status:
+   *                 type: string
+   *                 enum: [completed, pending]
+   *               categoryId:
+   *                 type: string
+   *               memo:
+   *                 type: string
+   *     responses:
+   *       201:
+   *         description: Transaction created
+   *       400:
+   *         description: Invalid input
+   *       404:
+   *         description: Account or category not found
+   */
+  createTransaction = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { accountId, categoryId } = req.body;
+
+      const account = accountId ? this.accountRepository.findById(accountId) : null;
+      if (!account || account.userId !== userId) {
+        res.status(404).json({ error: 'Account not found' });
+        return;
+      }
+
+      const input = this.parseManualInput(req.body, true);
+      if (typeof input === 'string') {
+        res.status(400).json({ error: input });
+        return;
+      }
+
+      if (categoryId && !this.categoryRepository.findById(userId, categoryId)) {
+        res.status(404).json({ error: 'Category not found' });
+        return;
+      }
+
+      const created = this.transactionService.createManualTransaction(account.id, input as ManualTransactionInput);
+
+      if (categoryId) {
+        this.transactionService.setMainCategory(userId, created.id, categoryId, true);
+      } else {
+        const result = await this.categorizationService.categorizeTransaction(userId, created);
+        const categoryIds = Array.isArray(result) ? result : result.allCategoryIds;
+        this.transactionService.attachCategories(userId, created.id, categoryIds, {
+          isManual: false,
+          markFirstAsMain: true,
+        });
+      }
+
+      res.status(201).json(this.transactionRepository.findById(created.id));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create transaction';
+      this.logger.error('Create transaction error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/transactions/{id}:
+   *   put:
+   *     tags: [Transactions]
+   *     summary: Edit a manual transaction
+   *     description: A new description re-categorizes the transaction, unless a categoryId is given or its category was chosen by hand.
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               date:
+   *                 type: string
+   *                 format: date
+   *               amount:
+   *                 type: number
+   *               description:
+   *                 type: string
+   *               currency:
+   *                 type: string
+   *               status:
+   *                 type: string
+   *                 enum: [completed, pending]
+   *               categoryId:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Transaction updated
+   *       400:
+   *         description: Invalid input, or the transaction was scraped or imported
+   *       403:
+   *         description: Access denied
+   *       404:
+   *         description: Transaction or category not found
+   */
+  updateTransaction = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { id } = req.params;
+      const { categoryId } = req.body;
+
+      const transaction = this.transactionRepository.findById(id);
+      if (!transaction) {
+        res.status(404).json({ error: 'Transaction not found' });
+        return;
+      }
+
+      const account = this.accountRepository.findById(transaction.accountId);
+      if (!account || account.userId !== userId) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      if (!transaction.isManual) {
+        res.status(400).json({ error: 'Only manual transactions can be edited' });
+        return;
+      }
+
+      const updates = this.parseManualInput(req.body, false);
+      if (typeof updates === 'string') {
+        res.status(400).json({ error: updates });
+        return;
+      }
+
+      if (categoryId && !this.categoryRepository.findById(userId, categoryId)) {
+        res.status(404).json({ error: 'Category not found' });
+        return;
+      }
+
+      const updated = this.transactionService.updateManualTransaction(id, updates);
+      if (categoryId) {
+        this.transactionService.setMainCategory(userId, id, categoryId, true);
+      } else if (updated.description !== transaction.description) {
+        // Re-categorize by the new description, unless the user already chose a category
+        const result = await this.categorizationService.categorizeTransaction(userId, updated);
+        const categoryIds = Array.isArray(result) ? result : result.allCategoryIds;
+        this.transactionService.replaceAutomaticCategories(userId, id, categoryIds);
+      }
+
+      res.status(200).json(this.transactionRepository.findById(id));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update transaction';
+      this.logger.error('Update transaction error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/transactions/{id}:
+   *   delete:
+   *     tags: [Transactions]
+   *     summary: Delete a manual transaction
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Transaction deleted
+   *       400:
+   *         description: The transaction was scraped or imported
+   *       403:
+   *         description: Access denied
+   *       404:
+   *         description: Transaction not found
+   */
+  deleteTransaction = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { id } = req.params;
+
+      const transaction = this.transactionRepository.findById(id);
+      if (!transaction) {
+        res.status(404).json({ error: 'Transaction not found' });
+        return;
+      }
+
+      const account = this.accountRepository.findById(transaction.accountId);
+      if (!account || account.userId !== userId) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      if (!transaction.isManual) {
+        res.status(400).json({ error: 'Only manual transactions can be deleted' });
+        return;
+      }
+
+      this.transactionService.deleteManualTransaction(id);
+
+      res.status(200).json({ message: 'Transaction deleted' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete transaction';
+      this.logger.error('Delete transaction error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/transactions/export:
+   *   get:
+   *     tags: [Transactions]
+   *     summary: Export transactions as a CSV, XLSX, OFX or QIF file
+   *     description: |
+   *       Takes the same filters as GET /api/transactions. CSV and XLSX files have one row per
+   *       transaction with the account alias, main category, installments and enrichment fields.
+   *       OFX and QIF files get a statement block per account.
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: format
+   *         required: true
+   *         schema:
+   *           type: string
+   *           enum: [csv, xlsx, ofx, qif]
+   *       - in: query
+   *         name: startDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *       - in: query
+   *         name: endDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *       - in: query
+   *         name: accountId
+   *         schema:
+   *           type: string
+   *         description: Comma-separated list of account IDs (includes their child accounts)
+   *       - in: query
+   *         name: categories
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [completed, pending]
+   *     responses:
+   *       200:
+   *         description: The exported file
+   *       400:
+   *         description: Unsupported format
+   *       401:
+   *         description: Authentication required
+   */
+  exportTransactions = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const format = req.query.format as string;
+      if (!Object.prototype.hasOwnProperty.call(EXPORT_CONTENT_TYPES, format)) {
+        res.status(400).json({ error: 'format must be csv, xlsx, ofx or qif' });
+        return;
+      }
+
+      const filters = this.buildFilters(userId, req.query);
+      const transactions = filters ? this.transactionRepository.findWithFilters(filters) : [];
+      const accounts = this.accountRepository
+        .findByUserId(userId)
+        .filter((a) => filters?.accountIds?.includes(a.id));
+
+      const fileName = `transactions-${new Date().toISOString().slice(0, 10)}.${format}`;
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.status(200);
+
+      if (format === 'csv') {
+        await this.spreadsheetExportService.writeCsv(res, transactions, accounts);
+      } else if (format === 'xlsx') {
+        await this.spreadsheetExportService.writeXlsx(res, transactions, accounts);
+      } else {
+        res.send(
+          format === 'ofx'
+            ? this.financialFileService.toOfx(transactions, accounts)
+            : this.financialFileService.toQif(transactions, accounts)
+        );
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to export transactions';
+      this.logger.error('Export transactions error', { error: message });
+      // A streamed spreadsheet may already be half sent
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.status(500).json({ error: message });
+    }
+  };
+
   /**
    * @swagger
    * /api/transactions/{id}:
@@ -243,11 +615,16 @@ export class TransactionController {
         return;
       }
 
+      if (!this.categoryRepository.findById(userId, categoryId)) {
+        res.status(404).json({ error: 'Category not found' });
+        return;
+      }
+
       // Use the service to set the main category
       // The service handles all business logic: verifying category exists,
       // attaching category if not already attached, updating junction table,
       // and syncing the main_category_id column
-      this.transactionService.setMainCategory(transactionId, categoryId, true);
+      this.transactionService.setMainCategory(userId, transactionId, categoryId, true);
 
       this.logger.info(`Set main category for transaction`, {
         transactionId,
@@ -266,4 +643,224 @@ export class TransactionController {
       res.status(500).json({ error: message });
     }
   };
+
+  /**
+   * @swagger
+   * /api/transactions/{id}/category/propagate:
+   *   post:
+   *     tags: [Transactions]
+   *     summary: Apply a transaction's category to similar transactions
+   *     description: |
+   *       Finds the user's transactions with the same merchant ID, the same normalized description,
+   *       or a fuzzy description score of at least `threshold`. Without `apply` it only returns the
+   *       preview; with `apply` it updates them all in one database transaction. Transactions whose
+   *       main category was set by hand are skipped.
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: The transaction the user just categorized
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               categoryId:
+   *                 type: string
+   *                 description: Defaults to the transaction's main category
+   *               threshold:
+   *                 type: number
+   *                 minimum: 50
+   *                 maximum: 100
+   *                 default: 85
+   *               apply:
+   *                 type: boolean
+   *                 default: false
+   *               transactionIds:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *                 description: When applying, only update these transactions from the preview
+   *     responses:
+   *       200:
+   *         description: Preview of the transactions that would change, or that changed when applying
+   *       400:
+   *         description: Invalid request
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Access denied
+   *       404:
+   *         description: Transaction or category not found
+   */
+  propagateCategory = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { id: transactionId } = req.params;
+      const { apply, transactionIds } = req.body ?? {};
+      const threshold = req.body?.threshold ?? DEFAULT_PROPAGATION_THRESHOLD;
+
+      if (typeof threshold !== 'number' || threshold < 50 || threshold > 100) {
+        res.status(400).json({ error: 'threshold must be a number between 50 and 100' });
+        return;
+      }
+      if (
+        transactionIds !== undefined &&
+        (!Array.isArray(transactionIds) || transactionIds.some((t: unknown) => typeof t !== 'string'))
+      ) {
+        res.status(400).json({ error: 'transactionIds must be an array of transaction IDs' });
+        return;
+      }
+
+      const transaction = this.transactionRepository.findById(transactionId);
+      if (!transaction) {
+        res.status(404).json({ error: 'Transaction not found' });
+        return;
+      }
+
+      const account = this.accountRepository.findById(transaction.accountId);
+      if (!account || account.userId !== userId) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const categoryId = req.body?.categoryId || transaction.mainCategoryId;
+      if (!categoryId || !this.categoryRepository.findById(userId, categoryId)) {
+        res.status(404).json({ error: 'Category not found' });
+        return;
+      }
+
+      if (apply === true) {
+        const result = this.categoryPropagationService.apply(userId, transactionId, categoryId, {
+          threshold,
+          transactionIds,
+        });
+        res.status(200).json({ ...this.toPropagationResponse(result), updated: result.updated });
+        return;
+      }
+
+      const preview = this.categoryPropagationService.preview(userId, transactionId, categoryId, threshold);
+      res.status(200).json(this.toPropagationResponse(preview));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to propagate category';
+      this.logger.error('Propagate category error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  private toPropagationResponse(preview: PropagationPreview) {
+    return {
+      sourceTransactionId: preview.sourceTransactionId,
+      categoryId: preview.categoryId,
+      threshold: preview.threshold,
+      count: preview.candidates.length,
+      skippedManual: preview.skippedManual,
+      candidates: preview.candidates.map((c) => ({ ...c, date: c.date.getTime() })),
+    };
+  }
+
+  /**
+   * Filters shared by listing and exporting, limited to the user's accounts.
+   * Returns null when no account matches, since an empty list would disable the account filter.
+   */
+  private buildFilters(userId: string, query: AuthRequest['query']): TransactionFilters | null {
+    const { startDate, endDate, accountId, categories, status } = query;
+
+    const accounts = this.accountRepository.findByUserId(userId);
+    let accountIds = accounts.map((a) => a.id);
+
+    if (accountId && typeof accountId === 'string') {
+      const requested = this.accountRepository.expandWithChildren(
+        accountId.split(',').map((id) => id.trim())
+      );
+      accountIds = accountIds.filter((id) => requested.includes(id));
+    }
+
+    if (accountIds.length === 0) {
+      return null;
+    }
+
+    const filters: TransactionFilters = { accountIds };
+
+    if (startDate) filters.startDate = new Date(startDate as string);
+    if (endDate) filters.endDate = new Date(endDate as string);
+    if (categories) {
+      const categoryIds = (categories as string).split(',');
+      // map ids to category names
+      const names: string[] = categoryIds
+        .map((id) => this.categoryRepository.findById(userId, id))
+        .filter((c): c is any => !!c)
+        .map((c) => c.name);
+      if (names.length > 0) {
+        filters.categories = names;
+      }
+    }
+    if (status) filters.status = status as 'completed' | 'pending';
+
+    return filters;
+  }
+
+  /**
+   * Validate the fields of a manual transaction. Returns an error message on invalid input.
+   * With required=false (updates) only the fields present are checked.
+   */
+  private parseManualInput(body: unknown, required: boolean): Partial<ManualTransactionInput> | string {
+    const fields: Record<string, unknown> = body && typeof body === 'object' ? { ...body } : {};
+    const { date, amount, description, currency, status, memo } = fields;
+    const input: Partial<ManualTransactionInput> = {};
+
+    if (date !== undefined || required) {
+      const match = typeof date === 'string' ? date.match(/^(\d{4})-(\d{2})-(\d{2})$/) : null;
+      // Local midnight, the same as scraped transactions
+      const parsed = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+      if (!parsed || parsed.getDate() !== Number(match![3])) {
+        return 'date must be a valid YYYY-MM-DD date';
+      }
+      input.date = parsed;
+    }
+
+    if (amount !== undefined || required) {
+      if (typeof amount !== 'number' || !Number.isFinite(amount) || amount === 0) {
+        return 'amount must be a non-zero number';
+      }
+      input.amount = amount;
+    }
+
+    if (description !== undefined || required) {
+      if (typeof description !== 'string' || !description.trim()) {
+        return 'description is required';
+      }
+      input.description = description.trim();
+    }
+
+    if (currency !== undefined) {
+      if (typeof currency !== 'string' || !/^[A-Za-z]{3}$/.test(currency)) {
+        return 'currency must be a 3-letter currency code';
+      }
+      input.currency = currency.toUpperCase();
+    }
+
+    if (status !== undefined) {
+      if (status !== 'completed' && status !== 'pending') {
+        return 'status must be completed or pending';
+      }
+      input.status = status;
+    }
+
+    if (typeof memo === 'string' && memo.trim()) {
+      input.memo = memo.trim();
+    }
+
+    return input;
+  }
 }
@@ -0,0 +1,133 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { UserDataService, UserDataBundle } from '../services/user-data.service';
+import { Logger } from '../utils/logger';
+
+export class UserDataController {
+  constructor(
+    private userDataService: UserDataService,
+    private logger: Logger
+  ) {}
+
+  /**
+   * @swagger
+   * /api/me/export:
+   *   get:
+   *     tags: [User Data]
+   *     summary: Download all of the current user's data as a portable bundle
+   *     description: |
+   *       The bundle holds accounts (without credentials), transactions with their categories,
+   *       the categories and the category overrides. It is versioned so that newer servers can
+   *       still import it.
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: format
+   *         schema:
+   *           type: string
+   *           enum: [json, zip]
+   *           default: json
+   *     responses:
+   *       200:
+   *         description: The bundle file
+   *       400:
+   *         description: Unsupported format
+   *       401:
+   *         description: Authentication required
+   */
+  exportData = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const format = (req.query.format as string) || 'json';
+      if (format !== 'json' && format !== 'zip') {
+        res.status(400).json({ error: 'format must be json or zip' });
+        return;
+      }
+
+      const fileName = `funds-bundle-${new Date().toISOString().slice(0, 10)}.${format}`;
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+      if (format === 'zip') {
+        res.setHeader('Content-Type', 'application/zip');
+        res.status(200).send(await this.userDataService.exportZip(userId));
+      } else {
+        res.setHeader('Content-Type', 'application/json');
+        res.status(200).send(JSON.stringify(this.userDataService.exportBundle(userId), null, 2));
+      }
+
+      this.logger.info('User data exported', { userId, format });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to export user data';
+      this.logger.error('Export user data error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/me/import:
+   *   post:
+   *     tags: [User Data]
+   *     summary: Restore a bundle made by GET /api/me/export
+   *     description: |
+   *       Accounts are matched to existing ones by ID or by institution and account number, and
+   *       transactions already stored with the same hash are skipped, so importing twice is safe.
+   *       Restored scraping accounts have no credentials until they are added again.
+   *     security:
+   *       - SessionAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         multipart/form-data:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - file
+   *             properties:
+   *               file:
+   *                 type: string
+   *                 format: binary
+   *                 description: JSON or ZIP bundle
+   *     responses:
+   *       200:
+   *         description: Counts of restored and skipped records
+   *       400:
+   *         description: Missing or invalid bundle
+   *       401:
+   *         description: Authentication required
+   */
+  importData = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      if (!req.file) {
+        res.status(400).json({ error: 'A bundle file is required' });
+        return;
+      }
+
+      let bundle: UserDataBundle;
+      try {
+        bundle = await this.userDataService.readBundle(req.file.buffer);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to read bundle' });
+        return;
+      }
+
+      res.status(200).json(this.userDataService.importBundle(userId, bundle));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to import user data';
+      this.logger.error('Import user data error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+}
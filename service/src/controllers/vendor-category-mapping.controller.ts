@@ -0,0 +1,202 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { VendorCategoryMappingRepository } from '../repositories/vendor-category-mapping.repository';
+import { CategoryRepository } from '../repositories/category.repository';
+import { CategorizationService } from '../services/categorization.service';
+import { VendorCategoryMappingSchema } from '../services/vendor-category-codes';
+import { Logger } from '../utils/logger';
+
+export class VendorCategoryMappingController {
+  constructor(
+    private mappingRepository: VendorCategoryMappingRepository,
+    private categoryRepository: CategoryRepository,
+    private categorizationService: CategorizationService,
+    private logger: Logger
+  ) {}
+
+  /**
+   * @swagger
+   * /api/vendor-mappings:
+   *   get:
+   *     tags: [Vendor Category Mappings]
+   *     summary: List card company category code mappings
+   *     description: Isracard (and Amex) report a sector, Max a numeric category ID and Cal a branch code. A mapped code gives its category a vendor score of 90 before fuzzy matching, so only a near-exact description match overrides it. Lists the user's own mappings (source user) and the built-in ones for codes they have not mapped (source default). Built-in mappings resolve to the user's category of the same name; categoryId is null when there is none.
+   *     security:
+   *       - SessionAuth: []
+   *     responses:
+   *       200:
+   *         description: Mappings in effect for the current user
+   *       401:
+   *         description: Authentication required
+   */
+  listMappings = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const mappings = this.categorizationService.getVendorCodeMappings(userId);
+
+      res.status(200).json({
+        count: mappings.length,
+        mappings: mappings.map((m) => ({
+          id: m.mappingId,
+          vendor: m.vendor,
+          code: m.code,
+          categoryId: m.categoryId,
+          source: m.source,
+        })),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch vendor mappings';
+      this.logger.error('Get vendor mappings error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/vendor-mappings:
+   *   put:
+   *     tags: [Vendor Category Mappings]
+   *     summary: Map a card company category code to a category
+   *     description: Replaces the user's mapping of the same code, and takes precedence over a built-in one. Codes are compared trimmed and case-insensitively. Existing transactions are re-categorized in the background.
+   *     security:
+   *       - SessionAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - vendor
+   *               - code
+   *               - categoryId
+   *             properties:
+   *               vendor:
+   *                 type: string
+   *                 enum: [isracard, max, visaCal]
+   *               code:
+   *                 type: string
+   *                 example: "7"
+   *               categoryId:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Mapping saved
+   *       400:
+   *         description: Invalid mapping
+   *       401:
+   *         description: Authentication required
+   *       404:
+   *         description: Category not found
+   */
+  setMapping = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const parsed = VendorCategoryMappingSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ error: this.describeIssues(parsed.error) });
+        return;
+      }
+
+      const { vendor, code, categoryId } = parsed.data;
+      if (!this.categoryRepository.findById(userId, categoryId)) {
+        res.status(404).json({ error: 'Category not found' });
+        return;
+      }
+
+      const mapping = this.mappingRepository.upsert(userId, vendor, code, categoryId);
+      this.logger.info('Vendor category mapping saved', { vendor, code: mapping.code, categoryId });
+      this.triggerRecategorization(userId);
+
+      res.status(200).json({
+        mapping: {
+          id: mapping.id,
+          vendor: mapping.vendor,
+          code: mapping.code,
+          categoryId: mapping.categoryId,
+          source: 'user',
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save vendor mapping';
+      this.logger.error('Save vendor mapping error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/vendor-mappings/{id}:
+   *   delete:
+   *     tags: [Vendor Category Mappings]
+   *     summary: Delete a vendor category code mapping
+   *     description: The built-in mapping of the code, if there is one, applies again.
+   *     security:
+   *       - SessionAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Mapping deleted
+   *       404:
+   *         description: Mapping not found
+   */
+  deleteMapping = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { id } = req.params;
+      if (!this.mappingRepository.findById(userId, id)) {
+        res.status(404).json({ error: 'Mapping not found' });
+        return;
+      }
+
+      this.mappingRepository.delete(userId, id);
+      this.triggerRecategorization(userId);
+
+      res.status(200).json({ message: 'Mapping deleted' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete vendor mapping';
+      this.logger.error('Delete vendor mapping error', { error: message });
+      res.status(500).json({ error: message });
+    }
+  };
+
+  private describeIssues(error: z.ZodError): string {
+    return error.issues.map((issue) => `${issue.path.join('.') || 'body'}: ${issue.message}`).join('; ');
+  }
+
+  /**
+   * Re-apply categorization in the background so existing transactions pick up the mapping change.
+   */
+  private triggerRecategorization(userId: string): void {
+    setImmediate(async () => {
+      try {
+        const result = await this.categorizationService.recategorizeAll(userId);
+        this.logger.info('Background re-categorization completed', result);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Re-categorization failed';
+        this.logger.error('Background re-categorization error', { error: message });
+      }
+    });
+  }
+}
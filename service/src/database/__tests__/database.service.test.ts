@@ -1,4 +1,7 @@
+import Database from 'better-sqlite3';
 import { DatabaseService } from '../database.service';
+import { Migrator } from '../migrator';
+import { MIGRATIONS } from '../migrations';
 import fs from 'fs';
 import path from 'path';
 
@@ -109,6 +112,47 @@ describe('DatabaseService', () => {
     });
   });
 
+  describe('migrations', () => {
+    it('should rebuild scraper_jobs to allow the waiting_for_otp status', () => {
+      // Start from the baseline schema, then swap in scraper_jobs as created by versions before
+      // schema_version existed
+      const legacyDb = new Database(testDbPath);
+      new Migrator(legacyDb, MIGRATIONS).migrateTo(1);
+      legacyDb.exec(`
+        DROP TABLE schema_version;
+        INSERT INTO users (id, username, password_hash, created_at)
+        VALUES ('user-1', 'legacy', 'hash', 1);
+        DROP TABLE scraper_jobs;
+        CREATE TABLE scraper_jobs (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          status TEXT NOT NULL CHECK(status IN ('pending', 'running', 'completed', 'failed')),
+          started_at INTEGER,
+          completed_at INTEGER,
+          accounts_to_scrape TEXT NOT NULL,
+          results_json TEXT,
+          error TEXT,
+          created_at INTEGER NOT NULL,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+        INSERT INTO scraper_jobs (id, user_id, status, accounts_to_scrape, created_at)
+        VALUES ('job-1', 'user-1', 'completed', '[]', 1);
+      `);
+      legacyDb.close();
+
+      const dbService = new DatabaseService(testDbPath);
+      const db = dbService.getDatabase();
+
+      const job = db.prepare('SELECT status FROM scraper_jobs WHERE id = ?').get('job-1') as { status: string };
+      expect(job.status).toBe('completed');
+      expect(() =>
+        db.prepare("UPDATE scraper_jobs SET status = 'waiting_for_otp' WHERE id = ?").run('job-1')
+      ).not.toThrow();
+
+      dbService.close();
+    });
+  });
+
   describe('transaction methods', () => {
     it('should execute transaction successfully', () => {
       const dbService = new DatabaseService(testDbPath);
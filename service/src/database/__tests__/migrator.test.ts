@@ -0,0 +1,240 @@
+import Database from 'better-sqlite3';
+import { Migration, Migrator } from '../migrator';
+import { MIGRATIONS } from '../migrations';
+
+describe('Migrator', () => {
+  let db: Database.Database;
+
+  const tableNames = () =>
+    (db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name").all() as Array<{ name: string }>).map(
+      (t) => t.name
+    );
+
+  const createTable = (version: number, table: string): Migration => ({
+    version,
+    name: `create-${table}`,
+    up: (d) => d.exec(`CREATE TABLE ${table} (id TEXT PRIMARY KEY)`),
+    down: (d) => d.exec(`DROP TABLE ${table}`),
+  });
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.pragma('foreign_keys = ON');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should apply pending migrations in order once', () => {
+    const migrator = new Migrator(db, [createTable(2, 'second'), createTable(1, 'first')]);
+
+    expect(migrator.migrateTo().map((m) => m.version)).toEqual([1, 2]);
+    expect(migrator.migrateTo()).toEqual([]);
+    expect(migrator.getCurrentVersion()).toBe(2);
+    expect(migrator.getApplied().map((m) => m.name)).toEqual(['create-first', 'create-second']);
+    expect(tableNames()).toEqual(expect.arrayContaining(['first', 'second']));
+  });
+
+  it('should roll back a failing migration and keep the previous version', () => {
+    const failing: Migration = {
+      version: 2,
+      name: 'failing',
+      up: (d) => {
+        d.exec('CREATE TABLE partial (id TEXT)');
+        throw new Error('boom');
+      },
+      down: () => undefined,
+    };
+    const migrator = new Migrator(db, [createTable(1, 'first'), failing]);
+
+    expect(() => migrator.migrateTo()).toThrow('boom');
+    expect(migrator.getCurrentVersion()).toBe(1);
+    expect(tableNames()).not.toContain('partial');
+  });
+
+  it('should migrate down to a version in reverse order', () => {
+    const migrator = new Migrator(db, [createTable(1, 'first'), createTable(2, 'second'), createTable(3, 'third')]);
+    migrator.migrateTo();
+
+    expect(migrator.migrateTo(1).map((m) => m.version)).toEqual([3, 2]);
+    expect(migrator.getCurrentVersion()).toBe(1);
+    expect(tableNames()).toContain('first');
+    expect(tableNames()).not.toContain('second');
+    expect(() => migrator.migrateTo(7)).toThrow('Unknown migration version 7');
+  });
+
+  it('should refuse a database written by a newer version', () => {
+    new Migrator(db, [createTable(1, 'first'), createTable(2, 'second')]).migrateTo();
+
+    expect(() => new Migrator(db, [createTable(1, 'first')]).migrateTo()).toThrow(
+      'Database schema version 2 is newer than this application supports (1)'
+    );
+  });
+
+  it('should rebuild a referenced table without cascading deletes', () => {
+    const renameColumn: Migration = {
+      version: 2,
+      name: 'rename-parent-label',
+      up: (d) =>
+        d.exec(`
+          CREATE TABLE parents_new (id TEXT PRIMARY KEY, title TEXT NOT NULL);
+          INSERT INTO parents_new SELECT id, label FROM parents;
+          DROP TABLE parents;
+          ALTER TABLE parents_new RENAME TO parents;
+        `),
+      down: () => undefined,
+    };
+    const migrator = new Migrator(db, [
+      {
+        version: 1,
+        name: 'parents-and-children',
+        up: (d) =>
+          d.exec(`
+            CREATE TABLE parents (id TEXT PRIMARY KEY, label TEXT NOT NULL);
+            CREATE TABLE children (id TEXT PRIMARY KEY, parent_id TEXT REFERENCES parents(id) ON DELETE CASCADE);
+            INSERT INTO parents VALUES ('p1', 'Parent');
+            INSERT INTO children VALUES ('c1', 'p1');
+          `),
+        down: () => undefined,
+      },
+      renameColumn,
+    ]);
+
+    migrator.migrateTo();
+
+    expect(db.prepare('SELECT title FROM parents').get()).toEqual({ title: 'Parent' });
+    expect(db.prepare('SELECT COUNT(*) AS count FROM children').get()).toEqual({ count: 1 });
+    expect(db.pragma('foreign_keys', { simple: true })).toBe(1);
+  });
+
+  it('should bring a database from before versioned migrations up to the baseline', () => {
+    db.exec(`
+      CREATE TABLE users (id TEXT PRIMARY KEY, username TEXT UNIQUE NOT NULL, password_hash TEXT NOT NULL,
+        created_at INTEGER NOT NULL, last_login INTEGER);
+      CREATE TABLE accounts (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, account_number TEXT NOT NULL,
+        company_id TEXT NOT NULL, alias TEXT NOT NULL, active INTEGER NOT NULL DEFAULT 1,
+        created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE);
+      INSERT INTO users VALUES ('u1', 'legacy', 'hash', 1, NULL);
+      INSERT INTO accounts VALUES ('a1', 'u1', '1234', 'max', 'Card', 1, 1, 1);
+    `);
+
+    new Migrator(db, MIGRATIONS).migrateTo();
+
+    const columns = (db.pragma("table_info('accounts')") as Array<{ name: string }>).map((c) => c.name);
+    expect(columns).toEqual(expect.arrayContaining(['account_type', 'parent_account_id', 'card_6_digits']));
+    expect(db.prepare('SELECT account_type FROM accounts').get()).toEqual({ account_type: 'credit' });
+    expect(tableNames()).toEqual(expect.arrayContaining(['transactions', 'schema_version', 'category_overrides']));
+  });
+
+  it('should give every user their own copy of shared categories and merge them back on revert', () => {
+    const migrator = new Migrator(db, MIGRATIONS);
+    migrator.migrateTo(1);
+    db.exec(`
+      INSERT INTO users VALUES ('u1', 'first', 'hash', 1, NULL), ('u2', 'second', 'hash', 2, NULL);
+      INSERT INTO accounts (id, user_id, account_number, company_id, alias, created_at, updated_at)
+      VALUES ('a1', 'u1', '1', 'hapoalim', 'First', 1, 1), ('a2', 'u2', '2', 'hapoalim', 'Second', 1, 1);
+      INSERT INTO categories VALUES ('c1', 'Groceries', NULL, '[]', 1, 1);
+      INSERT INTO transactions (id, account_id, txn_hash, date, processed_date, amount, description, status,
+        raw_json, main_category_id, created_at)
+      VALUES ('t1', 'a1', 'h1', 1, 1, -5, 'Market', 'completed', '{}', 'c1', 1),
+             ('t2', 'a2', 'h2', 1, 1, -5, 'Market', 'completed', '{}', 'c1', 1);
+      INSERT INTO transaction_categories (id, transaction_id, category_id, is_manual, created_at, is_main)
+      VALUES ('tc1', 't1', 'c1', 0, 1, 1), ('tc2', 't2', 'c1', 0, 1, 1);
+    `);
+
+    migrator.migrateTo();
+
+    const categories = db.prepare('SELECT id, user_id, name FROM categories ORDER BY user_id').all() as any[];
+    expect(categories.map((c) => [c.user_id, c.name])).toEqual([
+      ['u1', 'Groceries'],
+      ['u2', 'Groceries'],
+    ]);
+    expect(categories[0].id).toBe('c1');
+    const copyId = categories[1].id;
+    expect(db.prepare("SELECT main_category_id FROM transactions WHERE id = 't2'").get()).toEqual({
+      main_category_id: copyId,
+    });
+    expect(db.prepare("SELECT category_id FROM transaction_categories WHERE id = 'tc2'").get()).toEqual({
+      category_id: copyId,
+    });
+
+    migrator.migrateTo(1);
+
+    expect(db.prepare('SELECT id FROM categories').all()).toEqual([{ id: 'c1' }]);
+    expect(db.prepare("SELECT main_category_id FROM transactions WHERE id = 't2'").get()).toEqual({
+      main_category_id: 'c1',
+    });
+  });
+
+  it("should point each user's copied categories at their own copy of the parent", () => {
+    const migrator = new Migrator(db, MIGRATIONS);
+    migrator.migrateTo(1);
+    db.exec(`
+      INSERT INTO users VALUES ('u1', 'first', 'hash', 1, NULL), ('u2', 'second', 'hash', 2, NULL);
+      INSERT INTO categories VALUES
+        ('food', 'Food', NULL, '[]', 1, 1),
+        ('groceries', 'Groceries', 'food', '[]', 1, 1),
+        ('coffee', 'Coffee', 'Food', '[]', 1, 1);
+    `);
+
+    migrator.migrateTo();
+
+    const categories = db
+      .prepare(
+        `SELECT c.user_id, c.name, p.user_id AS parent_user_id, p.name AS parent_name
+         FROM categories c LEFT JOIN categories p ON p.id = c.parent_category
+         ORDER BY c.user_id, c.name`
+      )
+      .all();
+    expect(categories).toEqual([
+      { user_id: 'u1', name: 'Coffee', parent_user_id: 'u1', parent_name: 'Food' },
+      { user_id: 'u1', name: 'Food', parent_user_id: null, parent_name: null },
+      { user_id: 'u1', name: 'Groceries', parent_user_id: 'u1', parent_name: 'Food' },
+      { user_id: 'u2', name: 'Coffee', parent_user_id: 'u2', parent_name: 'Food' },
+      { user_id: 'u2', name: 'Food', parent_user_id: null, parent_name: null },
+      { user_id: 'u2', name: 'Groceries', parent_user_id: 'u2', parent_name: 'Food' },
+    ]);
+  });
+
+  it('should turn parent category names into references and break loops', () => {
+    const migrator = new Migrator(db, MIGRATIONS);
+    migrator.migrateTo(2);
+    db.exec(`
+      INSERT INTO users VALUES ('u1', 'first', 'hash', 1, NULL), ('u2', 'second', 'hash', 2, NULL);
+      INSERT INTO categories VALUES
+        ('food', 'u1', 'Food', NULL, '[]', 1, 1),
+        ('groceries', 'u1', 'Groceries', 'Food', '[]', 1, 1),
+        ('coffee', 'u1', 'Coffee', 'food', '[]', 1, 1),
+        ('other-food', 'u2', 'Groceries', 'Food', '[]', 1, 1),
+        ('other-coffee', 'u2', 'Coffee', NULL, '[]', 1, 1),
+        ('other-espresso', 'u2', 'Espresso', 'coffee', '[]', 1, 1),
+        ('a', 'u1', 'A', 'B', '[]', 1, 1),
+        ('b', 'u1', 'B', 'A', '[]', 1, 1);
+    `);
+
+    migrator.migrateTo();
+
+    const parents = () =>
+      Object.fromEntries(
+        (db.prepare('SELECT id, parent_category FROM categories').all() as any[]).map((c) => [c.id, c.parent_category])
+      );
+    expect(parents()).toEqual({
+      food: null,
+      groceries: 'food',
+      coffee: 'food',
+      'other-food': null,
+      'other-coffee': null,
+      'other-espresso': 'other-coffee',
+      a: null,
+      b: 'a',
+    });
+
+    migrator.migrateTo(2);
+
+    expect(parents()).toEqual(
+      expect.objectContaining({ groceries: 'Food', coffee: 'Food', 'other-food': null, b: 'A' })
+    );
+  });
+});
@@ -0,0 +1,149 @@
+import Database from 'better-sqlite3';
+import { randomUUID } from 'crypto';
+import { Migration } from '../migrator';
+
+// Columns that hold a category ID, with the SQL selecting the rows that belong to a user
+const CATEGORY_REFERENCES = [
+  {
+    table: 'transaction_categories',
+    columns: ['category_id'],
+    ownedBy: `transaction_id IN (
+      SELECT t.id FROM transactions t JOIN accounts a ON a.id = t.account_id WHERE a.user_id = ?
+    )`,
+  },
+  {
+    table: 'transactions',
+    columns: ['main_category_id'],
+    ownedBy: 'account_id IN (SELECT id FROM accounts WHERE user_id = ?)',
+  },
+  {
+    table: 'category_scores',
+    columns: ['main_category_id', 'description_top_category_id', 'vendor_category_id'],
+    ownedBy: 'account_id IN (SELECT id FROM accounts WHERE user_id = ?)',
+  },
+  {
+    table: 'category_overrides',
+    columns: ['previous_main_category_id', 'new_main_category_id'],
+    ownedBy: 'user_id = ?',
+  },
+];
+
+/**
+ * Scope categories to their user. The earliest user keeps the existing categories; every other
+ * user gets a copy of each, and their transactions, scores and overrides are pointed at the copies.
+ * Parents stored as IDs are pointed at the same user's copy of the parent.
+ */
+export const perUserCategories: Migration = {
+  version: 2,
+  name: 'per-user-categories',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE categories_new (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        parent_category TEXT,
+        keywords_json TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        UNIQUE(user_id, name)
+      );
+    `);
+
+    const users = db.prepare('SELECT id FROM users ORDER BY created_at, id').all() as Array<{ id: string }>;
+    const categories = db.prepare('SELECT * FROM categories').all() as any[];
+    const insert = db.prepare(`
+      INSERT INTO categories_new (id, user_id, name, parent_category, keywords_json, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    users.forEach((user, index) => {
+      const copyIds = new Map<string, string>(
+        categories.map((category) => [category.id, index === 0 ? category.id : randomUUID()])
+      );
+      for (const category of categories) {
+        const id = copyIds.get(category.id)!;
+        insert.run(
+          id,
+          user.id,
+          category.name,
+          copyIds.get(category.parent_category) ?? category.parent_category,
+          category.keywords_json,
+          category.created_at,
+          category.updated_at
+        );
+        if (id !== category.id) {
+          repointReferences(db, user.id, category.id, id);
+        }
+      }
+    });
+
+    db.exec(`
+      DROP TABLE categories;
+      ALTER TABLE categories_new RENAME TO categories;
+      CREATE INDEX idx_categories_user_id ON categories(user_id);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      CREATE TABLE categories_old (
+        id TEXT PRIMARY KEY,
+        name TEXT UNIQUE NOT NULL,
+        parent_category TEXT,
+        keywords_json TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `);
+
+    // Categories are merged by name; the oldest copy of each name survives
+    const categories = db
+      .prepare(
+        `SELECT c.* FROM categories c JOIN users u ON u.id = c.user_id
+         ORDER BY u.created_at, u.id, c.created_at`
+      )
+      .all() as any[];
+    const kept = new Map<string, string>();
+    const insert = db.prepare(`
+      INSERT INTO categories_old (id, name, parent_category, keywords_json, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    for (const category of categories) {
+      const keptId = kept.get(category.name);
+      if (keptId) {
+        repointReferences(db, category.user_id, category.id, keptId);
+        continue;
+      }
+      kept.set(category.name, category.id);
+      insert.run(
+        category.id,
+        category.name,
+        category.parent_category,
+        category.keywords_json,
+        category.created_at,
+        category.updated_at
+      );
+    }
+
+    db.exec(`
+      DROP TABLE categories;
+      ALTER TABLE categories_old RENAME TO categories;
+    `);
+  },
+};
+
+function repointReferences(db: Database.Database, userId: string, fromId: string, toId: string): void {
+  for (const reference of CATEGORY_REFERENCES) {
+    for (const column of reference.columns) {
+      db.prepare(`UPDATE ${reference.table} SET ${column} = ? WHERE ${column} = ? AND ${reference.ownedBy}`).run(
+        toId,
+        fromId,
+        userId
+      );
+    }
+  }
+}
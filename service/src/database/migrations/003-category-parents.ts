@@ -0,0 +1,93 @@
+import { Migration } from '../migrator';
+
+/**
+ * Make categories.parent_category a real reference to the parent category's ID. Older rows hold
+ * either an ID or the parent's name (as seeded from the config); names are resolved within the
+ * same user, and anything that does not resolve, or points at itself, becomes a top-level category.
+ * An ID of another user's category (copied as is by earlier versions of the per-user migration)
+ * resolves to the same user's category of that name.
+ */
+export const categoryParents: Migration = {
+  version: 3,
+  name: 'category-parents',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE categories_new (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        parent_category TEXT,
+        keywords_json TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (parent_category) REFERENCES categories(id) ON DELETE SET NULL,
+        UNIQUE(user_id, name)
+      );
+
+      INSERT INTO categories_new (id, user_id, name, parent_category, keywords_json, created_at, updated_at)
+      SELECT c.id, c.user_id, c.name,
+        COALESCE(
+          (SELECT p.id FROM categories p WHERE p.user_id = c.user_id AND p.id = c.parent_category AND p.id != c.id),
+          (SELECT p.id FROM categories p WHERE p.user_id = c.user_id AND p.name = c.parent_category AND p.id != c.id),
+          (SELECT p.id FROM categories o JOIN categories p ON p.user_id = c.user_id AND p.name = o.name
+           WHERE o.id = c.parent_category AND o.user_id != c.user_id AND p.id != c.id)
+        ),
+        c.keywords_json, c.created_at, c.updated_at
+      FROM categories c;
+
+      DROP TABLE categories;
+      ALTER TABLE categories_new RENAME TO categories;
+      CREATE INDEX idx_categories_user_id ON categories(user_id);
+      CREATE INDEX idx_categories_parent ON categories(parent_category);
+    `);
+
+    // Names resolved independently can still form a loop (A under B, B under A); break it at its first member
+    const rows = db.prepare('SELECT id, parent_category FROM categories').all() as Array<{
+      id: string;
+      parent_category: string | null;
+    }>;
+    const parents = new Map(rows.map((row) => [row.id, row.parent_category]));
+    const clear = db.prepare('UPDATE categories SET parent_category = NULL WHERE id = ?');
+    for (const id of parents.keys()) {
+      const seen = new Set<string>([id]);
+      let current = parents.get(id) ?? null;
+      while (current) {
+        if (current === id) {
+          clear.run(id);
+          parents.set(id, null);
+          break;
+        }
+        if (seen.has(current)) break;
+        seen.add(current);
+        current = parents.get(current) ?? null;
+      }
+    }
+  },
+
+  down(db) {
+    db.exec(`
+      CREATE TABLE categories_old (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        parent_category TEXT,
+        keywords_json TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        UNIQUE(user_id, name)
+      );
+
+      INSERT INTO categories_old (id, user_id, name, parent_category, keywords_json, created_at, updated_at)
+      SELECT c.id, c.user_id, c.name, p.name, c.keywords_json, c.created_at, c.updated_at
+      FROM categories c
+      LEFT JOIN categories p ON p.id = c.parent_category;
+
+      DROP TABLE categories;
+      ALTER TABLE categories_old RENAME TO categories;
+      CREATE INDEX idx_categories_user_id ON categories(user_id);
+    `);
+  },
+};
@@ -0,0 +1,39 @@
+import { Migration } from '../migrator';
+
+/**
+ * User-defined categorization rules, and a column linking a categorization score to the rule that decided it.
+ */
+export const categorizationRules: Migration = {
+  version: 4,
+  name: 'categorization-rules',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE categorization_rules (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        category_id TEXT NOT NULL,
+        conditions_json TEXT NOT NULL,
+        priority INTEGER NOT NULL DEFAULT 0,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_categorization_rules_user_id ON categorization_rules(user_id, enabled, priority);
+      CREATE INDEX idx_categorization_rules_category_id ON categorization_rules(category_id);
+
+      ALTER TABLE category_scores ADD COLUMN rule_id TEXT;
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      ALTER TABLE category_scores DROP COLUMN rule_id;
+      DROP TABLE categorization_rules;
+    `);
+  },
+};
@@ -0,0 +1,37 @@
+import { Migration } from '../migrator';
+
+/**
+ * Review decisions on questionable categorizations, and the top description candidates of each
+ * categorization score so the review queue can offer them.
+ */
+export const categorizationReviews: Migration = {
+  version: 5,
+  name: 'categorization-reviews',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE categorization_reviews (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        transaction_id TEXT NOT NULL UNIQUE,
+        decision TEXT NOT NULL CHECK (decision IN ('accepted', 'rejected')),
+        category_id TEXT,
+        reviewed_at INTEGER NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (transaction_id) REFERENCES transactions(id) ON DELETE CASCADE,
+        FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE SET NULL
+      );
+
+      CREATE INDEX idx_categorization_reviews_user_id ON categorization_reviews(user_id, reviewed_at);
+
+      ALTER TABLE category_scores ADD COLUMN description_candidates_json TEXT;
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      ALTER TABLE category_scores DROP COLUMN description_candidates_json;
+      DROP TABLE categorization_reviews;
+    `);
+  },
+};
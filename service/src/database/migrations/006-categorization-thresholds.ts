@@ -0,0 +1,27 @@
+import { Migration } from '../migrator';
+
+/**
+ * Decision engine thresholds tuned by each user, so they survive restarts. Users without a row
+ * use the instance defaults.
+ */
+export const categorizationThresholds: Migration = {
+  version: 6,
+  name: 'categorization-thresholds',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE categorization_thresholds (
+        user_id TEXT PRIMARY KEY,
+        description_threshold REAL NOT NULL,
+        vendor_threshold REAL NOT NULL,
+        description_advantage REAL NOT NULL,
+        updated_at INTEGER NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+    `);
+  },
+
+  down(db) {
+    db.exec(`DROP TABLE categorization_thresholds;`);
+  },
+};
@@ -0,0 +1,32 @@
+import { Migration } from '../migrator';
+
+/**
+ * Per-user mappings from a card company's own category code to one of the user's categories.
+ */
+export const vendorCategoryMappings: Migration = {
+  version: 7,
+  name: 'vendor-category-mappings',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE vendor_category_mappings (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        vendor TEXT NOT NULL,
+        code TEXT NOT NULL,
+        category_id TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE CASCADE,
+        UNIQUE (user_id, vendor, code)
+      );
+
+      CREATE INDEX idx_vendor_category_mappings_category_id ON vendor_category_mappings(category_id);
+    `);
+  },
+
+  down(db) {
+    db.exec(`DROP TABLE vendor_category_mappings;`);
+  },
+};
@@ -0,0 +1,22 @@
+import { Migration } from '../migrator';
+import { baseline } from './001-baseline';
+import { perUserCategories } from './002-per-user-categories';
+import { categoryParents } from './003-category-parents';
+import { categorizationRules } from './004-categorization-rules';
+import { categorizationReviews } from './005-categorization-reviews';
+import { categorizationThresholds } from './006-categorization-thresholds';
+import { vendorCategoryMappings } from './007-vendor-category-mappings';
+
+/**
+ * Every schema migration, in order. Add new ones as `NNN-short-name.ts` with the next version and
+ * list them here; never change a migration that has been released.
+ */
+export const MIGRATIONS: Migration[] = [
+  baseline,
+  perUserCategories,
+  categoryParents,
+  categorizationRules,
+  categorizationReviews,
+  categorizationThresholds,
+  vendorCategoryMappings,
+];
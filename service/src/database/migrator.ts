@@ -0,0 +1,129 @@
+import Database from 'better-sqlite3';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Database.Database): void;
+  down(db: Database.Database): void;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: Date;
+}
+
+/**
+ * Applies numbered migrations and records them in schema_version.
+ * Each migration runs in its own transaction with foreign keys switched off, so table rebuilds
+ * (the only way to change a column or constraint in SQLite) do not cascade; when the database
+ * enforces foreign keys, a foreign key check runs before each commit instead.
+ */
+export class Migrator {
+  private migrations: Migration[];
+
+  constructor(
+    private db: Database.Database,
+    migrations: Migration[]
+  ) {
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+    this.migrations.forEach((migration, index) => {
+      if (!Number.isInteger(migration.version) || migration.version < 1) {
+        throw new Error(`Migration ${migration.name} has an invalid version ${migration.version}`);
+      }
+      if (index > 0 && this.migrations[index - 1].version === migration.version) {
+        throw new Error(`Duplicate migration version ${migration.version}`);
+      }
+    });
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_version (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at INTEGER NOT NULL
+      );
+    `);
+  }
+
+  getCurrentVersion(): number {
+    const row = this.db.prepare('SELECT MAX(version) AS version FROM schema_version').get() as {
+      version: number | null;
+    };
+    return row.version ?? 0;
+  }
+
+  getLatestVersion(): number {
+    return this.migrations.length > 0 ? this.migrations[this.migrations.length - 1].version : 0;
+  }
+
+  getApplied(): AppliedMigration[] {
+    const rows = this.db
+      .prepare('SELECT version, name, applied_at FROM schema_version ORDER BY version')
+      .all() as Array<{ version: number; name: string; applied_at: number }>;
+    return rows.map((row) => ({ version: row.version, name: row.name, appliedAt: new Date(row.applied_at) }));
+  }
+
+  getPending(): Migration[] {
+    const current = this.getCurrentVersion();
+    return this.migrations.filter((m) => m.version > current);
+  }
+
+  /**
+   * Migrate up or down to `targetVersion` (the latest by default). Returns the migrations that ran.
+   * Refuses to touch a database written by a newer version of the application.
+   */
+  migrateTo(targetVersion: number = this.getLatestVersion()): Migration[] {
+    const current = this.getCurrentVersion();
+    if (current > this.getLatestVersion()) {
+      throw new Error(
+        `Database schema version ${current} is newer than this application supports (${this.getLatestVersion()})`
+      );
+    }
+    if (targetVersion !== 0 && !this.migrations.some((m) => m.version === targetVersion)) {
+      throw new Error(`Unknown migration version ${targetVersion}`);
+    }
+
+    const steps =
+      targetVersion >= current
+        ? this.migrations.filter((m) => m.version > current && m.version <= targetVersion)
+        : this.migrations.filter((m) => m.version > targetVersion && m.version <= current).reverse();
+    const direction = targetVersion >= current ? 'up' : 'down';
+
+    if (steps.length === 0) return [];
+
+    const foreignKeys = this.db.pragma('foreign_keys', { simple: true }) as number;
+    // The pragma is a no-op inside a transaction, so it is switched around the whole run
+    this.db.pragma('foreign_keys = OFF');
+    try {
+      for (const migration of steps) {
+        this.run(migration, direction, foreignKeys === 1);
+      }
+    } finally {
+      this.db.pragma(`foreign_keys = ${foreignKeys ? 'ON' : 'OFF'}`);
+    }
+
+    return steps;
+  }
+
+  private run(migration: Migration, direction: 'up' | 'down', checkForeignKeys: boolean): void {
+    this.db.transaction(() => {
+      migration[direction](this.db);
+
+      // Without enforcement the data may already hold violations that are not this migration's doing
+      const violations = checkForeignKeys ? (this.db.pragma('foreign_key_check') as Array<{ table: string }>) : [];
+      if (violations.length > 0) {
+        throw new Error(
+          `Migration ${migration.version} (${migration.name}) leaves foreign key violations in ${violations[0].table}`
+        );
+      }
+
+      if (direction === 'up') {
+        this.db
+          .prepare('INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)')
+          .run(migration.version, migration.name, Date.now());
+      } else {
+        this.db.prepare('DELETE FROM schema_version WHERE version = ?').run(migration.version);
+      }
+    })();
+  }
+}
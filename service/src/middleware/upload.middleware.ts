@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+
+/**
+ * Accept a single uploaded file in memory under the given form field.
+ * Upload errors (e.g. the file is too large) are answered with 400 instead of reaching the error handler.
+ */
+export function createUploadMiddleware(fieldName: string, maxFileBytes: number) {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxFileBytes, files: 1 },
+  }).single(fieldName);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    upload(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError) {
+        res.status(400).json({ error: err.code === 'LIMIT_FILE_SIZE' ? 'File is too large' : err.message });
+        return;
+      }
+      if (err) {
+        next(err);
+        return;
+      }
+      next();
+    });
+  };
+}
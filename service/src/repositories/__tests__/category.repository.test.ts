@@ -0,0 +1,57 @@
+import path from 'path';
+import fs from 'fs';
+import { DatabaseService } from '../../database/database.service';
+import { CategoryRepository, UNKNOWN_CATEGORY_NAME } from '../category.repository';
+import { UserRepository } from '../user.repository';
+
+describe('CategoryRepository - category tree', () => {
+  const testDbPath = path.join(process.cwd(), 'test-data', 'category-repo-test.db');
+  let dbService: DatabaseService;
+  let categoryRepo: CategoryRepository;
+  let userId: string;
+
+  beforeEach(() => {
+    fs.mkdirSync(path.dirname(testDbPath), { recursive: true });
+    fs.rmSync(testDbPath, { force: true });
+
+    dbService = new DatabaseService(testDbPath);
+    categoryRepo = new CategoryRepository(dbService.getDatabase());
+    userId = new UserRepository(dbService.getDatabase()).create('tree-user', 'hash').id;
+  });
+
+  afterEach(() => {
+    dbService.close();
+    fs.rmSync(testDbPath, { force: true });
+  });
+
+  it('should link default categories to the parent they name', () => {
+    categoryRepo.createDefaults(userId, [
+      { name: 'Coffee', parentCategory: 'Restaurants', keywords: ['cafe'] },
+      { name: 'Restaurants', parentCategory: 'Food', keywords: [] },
+      { name: 'Food', keywords: [] },
+      { name: 'Orphan', parentCategory: 'Missing', keywords: [] },
+    ]);
+
+    const byName = new Map(categoryRepo.list(userId).map((c) => [c.name, c]));
+    expect(byName.get('Coffee')!.parentCategory).toBe(byName.get('Restaurants')!.id);
+    expect(byName.get('Restaurants')!.parentCategory).toBe(byName.get('Food')!.id);
+    expect(byName.get('Orphan')!.parentCategory).toBeNull();
+    expect(byName.get(UNKNOWN_CATEGORY_NAME)!.parentCategory).toBeNull();
+    expect(categoryRepo.getAncestorIds(userId, byName.get('Coffee')!.id)).toEqual([
+      byName.get('Restaurants')!.id,
+      byName.get('Food')!.id,
+    ]);
+  });
+
+  it('should move children up to the grandparent when a category is deleted', () => {
+    const food = categoryRepo.create(userId, 'Food', null, []);
+    const restaurants = categoryRepo.create(userId, 'Restaurants', food.id, []);
+    const coffee = categoryRepo.create(userId, 'Coffee', restaurants.id, []);
+
+    categoryRepo.delete(userId, restaurants.id);
+    expect(categoryRepo.findById(userId, coffee.id)!.parentCategory).toBe(food.id);
+
+    categoryRepo.delete(userId, food.id);
+    expect(categoryRepo.findById(userId, coffee.id)!.parentCategory).toBeNull();
+  });
+});
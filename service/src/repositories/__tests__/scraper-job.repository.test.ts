@@ -0,0 +1,161 @@
+import Database from 'better-sqlite3';
+import { DatabaseService } from '../../database/database.service';
+import { ScraperJobRepository } from '../scraper-job.repository';
+import { UserRepository } from '../user.repository';
+import fs from 'fs';
+import path from 'path';
+
+describe('ScraperJobRepository', () => {
+  const testDbPath = path.join(process.cwd(), 'test-data', 'scraper-job-repo-test.db');
+  let dbService: DatabaseService;
+  let db: Database.Database;
+  let jobRepo: ScraperJobRepository;
+  let userId: string;
+
+  // Setup: Create database once before all tests
+  beforeAll(() => {
+    const dir = path.dirname(testDbPath);
+
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    if (fs.existsSync(testDbPath)) {
+      try {
+        fs.unlinkSync(testDbPath);
+      } catch (error) {
+        // Ignore errors - file might be locked or not exist
+      }
+    }
+
+    dbService = new DatabaseService(testDbPath);
+    db = dbService.getDatabase();
+    jobRepo = new ScraperJobRepository(db);
+  });
+
+  // Cleanup: Close database and remove test files after all tests
+  afterAll(() => {
+    if (db) {
+      db.close();
+    }
+
+    if (fs.existsSync(testDbPath)) {
+      try {
+        fs.unlinkSync(testDbPath);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+    }
+  });
+
+  // Before each test: Clear all data (cascades to scraper_jobs)
+  beforeEach(() => {
+    db.exec('DELETE FROM users');
+    userId = new UserRepository(db).create('testuser', 'hash').id;
+  });
+
+  describe('create', () => {
+    it('should create a pending job with no results', () => {
+      const job = jobRepo.create(userId, ['acc-1', 'acc-2']);
+
+      expect(job.id).toBeDefined();
+      expect(job.status).toBe('pending');
+      expect(job.accountsToScrape).toEqual(['acc-1', 'acc-2']);
+      expect(job.results).toEqual([]);
+      expect(job.startedAt).toBeNull();
+
+      const found = jobRepo.findById(job.id);
+      expect(found).not.toBeNull();
+      expect(found!.accountsToScrape).toEqual(['acc-1', 'acc-2']);
+    });
+  });
+
+  describe('update', () => {
+    it('should persist status, timestamps, results and error', () => {
+      const job = jobRepo.create(userId, ['acc-1']);
+      job.status = 'failed';
+      job.startedAt = new Date(1000);
+      job.completedAt = new Date(5000);
+      job.error = 'Failed to scrape 1 account(s)';
+      job.results.push({
+        accountId: 'acc-1',
+        accountName: 'My Max',
+        companyId: 'max',
+        success: false,
+        transactionsCount: 0,
+        error: 'Invalid credentials',
+        errorClass: 'invalid_credentials',
+        attempts: 1,
+        duration: 4000,
+        screenshots: [{ fileName: 'max_My_Max_1000_FAILED.png', stage: 'FAILED', takenAt: 4000 }],
+      });
+
+      jobRepo.update(job);
+
+      const found = jobRepo.findById(job.id)!;
+      expect(found.status).toBe('failed');
+      expect(found.startedAt!.getTime()).toBe(1000);
+      expect(found.completedAt!.getTime()).toBe(5000);
+      expect(found.error).toBe('Failed to scrape 1 account(s)');
+      expect(found.results).toHaveLength(1);
+      expect(found.results[0].error).toBe('Invalid credentials');
+      expect(found.results[0].errorClass).toBe('invalid_credentials');
+      expect(found.results[0].screenshots[0].fileName).toBe('max_My_Max_1000_FAILED.png');
+    });
+
+    it('should default error class, attempts and screenshots for results stored without them', () => {
+      const job = jobRepo.create(userId, ['acc-1']);
+      db.prepare('UPDATE scraper_jobs SET results_json = ? WHERE id = ?').run(
+        JSON.stringify([{ accountId: 'acc-1', success: false, transactionsCount: 0, error: 'Boom', duration: 1 }]),
+        job.id
+      );
+
+      const found = jobRepo.findById(job.id)!;
+      expect(found.results[0].errorClass).toBeNull();
+      expect(found.results[0].attempts).toBe(1);
+      expect(found.results[0].screenshots).toEqual([]);
+    });
+  });
+
+  describe('findByUserId', () => {
+    it('should return jobs for the user, most recent first', () => {
+      const first = jobRepo.create(userId, ['acc-1']);
+      db.prepare('UPDATE scraper_jobs SET created_at = ? WHERE id = ?').run(1000, first.id);
+      const second = jobRepo.create(userId, ['acc-2']);
+
+      const otherUserId = new UserRepository(db).create('otheruser', 'hash').id;
+      jobRepo.create(otherUserId, ['acc-3']);
+
+      const jobs = jobRepo.findByUserId(userId);
+      expect(jobs.map((j) => j.id)).toEqual([second.id, first.id]);
+    });
+
+    it('should respect limit and offset', () => {
+      jobRepo.create(userId, ['acc-1']);
+      jobRepo.create(userId, ['acc-2']);
+      jobRepo.create(userId, ['acc-3']);
+
+      expect(jobRepo.findByUserId(userId, 2)).toHaveLength(2);
+      expect(jobRepo.findByUserId(userId, 2, 2)).toHaveLength(1);
+    });
+  });
+
+  describe('failUnfinished', () => {
+    it('should fail pending and running jobs but leave finished ones alone', () => {
+      const pending = jobRepo.create(userId, ['acc-1']);
+      const running = jobRepo.create(userId, ['acc-2']);
+      running.status = 'running';
+      jobRepo.update(running);
+      const completed = jobRepo.create(userId, ['acc-3']);
+      completed.status = 'completed';
+      jobRepo.update(completed);
+
+      const count = jobRepo.failUnfinished('Interrupted by server restart');
+
+      expect(count).toBe(2);
+      expect(jobRepo.findById(pending.id)!.status).toBe('failed');
+      expect(jobRepo.findById(running.id)!.error).toBe('Interrupted by server restart');
+      expect(jobRepo.findById(completed.id)!.status).toBe('completed');
+    });
+  });
+});
@@ -7,6 +7,8 @@ import { TransactionCategoryRepository } from '../transaction-category.repositor
 import { CategoryRepository } from '../category.repository';
 import { AccountRepository } from '../account.repository';
 import { UserRepository } from '../user.repository';
+import { TransactionService } from '../../services/transaction.service';
+import { Logger } from '../../utils/logger';
 
 describe('TransactionRepository - getTotalsByCategory', () => {
   const testDbPath = path.join(process.cwd(), 'test-data', 'transaction-repo-test.db');
@@ -18,6 +20,7 @@ describe('TransactionRepository - getTotalsByCategory', () => {
   let categoryRepo: CategoryRepository;
   let accountRepo: AccountRepository;
   let userRepo: UserRepository;
+  let testUserId: string;
   let testAccountId: string;
   let categoryGroceryId: string;
   let categoryRestaurantId: string;
@@ -97,20 +100,20 @@ describe('TransactionRepository - getTotalsByCategory', () => {
 
     // Recreate test fixtures for each test
     const user = userRepo.create('testuser', 'password-hash');
-    const testUserId = user.id;
+    testUserId = user.id;
 
     // Create test account
     const account = accountRepo.create(testUserId, '12345', 'hapoalim', 'Test Account');
     testAccountId = account.id;
 
     // Create test categories
-    const groceryCategory = categoryRepo.create('Grocery', null, ['supermarket', 'market']);
+    const groceryCategory = categoryRepo.create(testUserId, 'Grocery', null, ['supermarket', 'market']);
     categoryGroceryId = groceryCategory.id;
 
-    const restaurantCategory = categoryRepo.create('Restaurant', null, ['pizza', 'burger']);
+    const restaurantCategory = categoryRepo.create(testUserId, 'Restaurant', null, ['pizza', 'burger']);
     categoryRestaurantId = restaurantCategory.id;
 
-    const utilitiesCategory = categoryRepo.create('Utilities', null, ['electric', 'water']);
+    const utilitiesCategory = categoryRepo.create(testUserId, 'Utilities', null, ['electric', 'water']);
     categoryUtilitiesId = utilitiesCategory.id;
   });
 
@@ -385,4 +388,73 @@ describe('TransactionRepository - getTotalsByCategory', () => {
       expect(restaurantResult?.total).toBe(-200);
     });
   });
+
+  describe('manual transactions', () => {
+    let transactionService: TransactionService;
+
+    beforeEach(() => {
+      const logger = new Logger({ level: 'error', filePath: testDir, console: false, file: false });
+      transactionService = new TransactionService(logger, transactionRepo, transactionCategoryRepo, categoryRepo);
+    });
+
+    it('should store manual transactions flagged and count them in category totals', () => {
+      const account = accountRepo.create(testUserId, '', 'manual', 'Cash');
+      expect(account.accountType).toBe('manual');
+
+      const first = transactionService.createManualTransaction(account.id, {
+        date: new Date(2025, 4, 2),
+        amount: -30,
+        description: 'Market',
+      });
+      // Identical entries are separate expenses, not duplicates
+      const second = transactionService.createManualTransaction(account.id, {
+        date: new Date(2025, 4, 2),
+        amount: -30,
+        description: 'Market',
+      });
+      transactionService.setMainCategory(testUserId, first.id, categoryGroceryId);
+      transactionService.setMainCategory(testUserId, second.id, categoryGroceryId);
+
+      expect(transactionRepo.findById(first.id)!.isManual).toBe(true);
+      expect(transactionRepo.getTotalsByCategory([account.id])).toEqual([
+        { categoryId: categoryGroceryId, category: 'Grocery', total: -60, count: 2 },
+      ]);
+    });
+
+    it('should only edit and delete manual transactions', () => {
+      const scraped = transactionRepo.create(
+        testAccountId,
+        'hash-scraped',
+        new Date(2025, 4, 1),
+        new Date(2025, 4, 1),
+        -10,
+        'ILS',
+        'Coffee',
+        'completed',
+        null,
+        '{}'
+      );
+      const manual = transactionService.createManualTransaction(testAccountId, {
+        date: new Date(2025, 4, 1),
+        amount: -500,
+        description: 'Loan to Dana',
+      });
+
+      const updated = transactionService.updateManualTransaction(manual.id, { amount: -450, date: new Date(2025, 4, 3) });
+      expect(updated.amount).toBe(-450);
+      expect(updated.date).toEqual(new Date(2025, 4, 3));
+      expect(updated.description).toBe('Loan to Dana');
+
+      expect(() => transactionService.updateManualTransaction(scraped.id, { amount: -1 })).toThrow(
+        'Only manual transactions can be edited'
+      );
+      expect(() => transactionService.deleteManualTransaction(scraped.id)).toThrow(
+        'Only manual transactions can be deleted'
+      );
+
+      transactionService.deleteManualTransaction(manual.id);
+      expect(transactionRepo.findById(manual.id)).toBeNull();
+      expect(transactionRepo.findById(scraped.id)).not.toBeNull();
+    });
+  });
 });
@@ -2,6 +2,11 @@ import { Database } from 'better-sqlite3';
 import { Account } from '../types';
 import { randomUUID } from 'crypto';
 
+/**
+ * Company ID of accounts kept by hand (cash, loans, institutions the scrapers cannot reach).
+ */
+export const MANUAL_COMPANY_ID = 'manual';
+
 export class AccountRepository {
   constructor(private db: Database) {}
 
@@ -12,17 +17,18 @@ export class AccountRepository {
     alias: string,
     active = true,
     card6Digits: string | null = null,
+    parentAccountId: string | null = null,
+    id: string = randomUUID(),
   ): Account {
-    const id = randomUUID();
     const now = Date.now();
     const accountType = this.getAccountType(companyId);
 
     const stmt = this.db.prepare(`
-      INSERT INTO accounts (id, user_id, account_number, company_id, alias, active, account_type, card_6_digits, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO accounts (id, user_id, account_number, company_id, alias, active, account_type, card_6_digits, parent_account_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
-    stmt.run(id, userId, identifier, companyId, alias, active ? 1 : 0, accountType, card6Digits, now, now);
+    stmt.run(id, userId, identifier, companyId, alias, active ? 1 : 0, accountType, card6Digits, parentAccountId, now, now);
 
     return {
       id,
@@ -33,6 +39,7 @@ export class AccountRepository {
       active,
       accountType,
       card6Digits,
+      parentAccountId,
       createdAt: new Date(now),
       updatedAt: new Date(now),
     };
@@ -40,7 +47,7 @@ export class AccountRepository {
 
   findById(id: string): Account | null {
     const stmt = this.db.prepare(`
-      SELECT id, user_id, account_number, card_6_digits, company_id, alias, active, account_type, created_at, updated_at, last_scraped_at
+      SELECT id, user_id, account_number, card_6_digits, company_id, alias, active, account_type, parent_account_id, created_at, updated_at, last_scraped_at
       FROM accounts
       WHERE id = ?
     `);
@@ -51,7 +58,7 @@ export class AccountRepository {
 
   findByUserId(userId: string): Account[] {
     const stmt = this.db.prepare(`
-      SELECT id, user_id, account_number, card_6_digits, company_id, alias, active, account_type, created_at, updated_at, last_scraped_at
+      SELECT id, user_id, account_number, card_6_digits, company_id, alias, active, account_type, parent_account_id, created_at, updated_at, last_scraped_at
       FROM accounts
       WHERE user_id = ?
       ORDER BY alias
@@ -63,7 +70,7 @@ export class AccountRepository {
 
   findActiveByUserId(userId: string): Account[] {
     const stmt = this.db.prepare(`
-      SELECT id, user_id, account_number, card_6_digits, company_id, alias, active, account_type, created_at, updated_at, last_scraped_at
+      SELECT id, user_id, account_number, card_6_digits, company_id, alias, active, account_type, parent_account_id, created_at, updated_at, last_scraped_at
       FROM accounts
       WHERE user_id = ? AND active = 1
       ORDER BY alias
@@ -78,7 +85,7 @@ export class AccountRepository {
     
     const placeholders = ids.map(() => '?').join(',');
     const stmt = this.db.prepare(`
-      SELECT id, user_id, account_number, card_6_digits, company_id, alias, active, account_type, created_at, updated_at, last_scraped_at
+      SELECT id, user_id, account_number, card_6_digits, company_id, alias, active, account_type, parent_account_id, created_at, updated_at, last_scraped_at
       FROM accounts
       WHERE id IN (${placeholders})
     `);
@@ -87,6 +94,45 @@ export class AccountRepository {
     return rows.map((row) => this.mapToAccount(row));
   }
 
+  findChildren(parentAccountId: string): Account[] {
+    const stmt = this.db.prepare(`
+      SELECT id, user_id, account_number, card_6_digits, company_id, alias, active, account_type, parent_account_id, created_at, updated_at, last_scraped_at
+      FROM accounts
+      WHERE parent_account_id = ?
+      ORDER BY alias
+    `);
+
+    const rows = stmt.all(parentAccountId) as any[];
+    return rows.map((row) => this.mapToAccount(row));
+  }
+
+  findChildByAccountNumber(parentAccountId: string, accountNumber: string): Account | null {
+    const stmt = this.db.prepare(`
+      SELECT id, user_id, account_number, card_6_digits, company_id, alias, active, account_type, parent_account_id, created_at, updated_at, last_scraped_at
+      FROM accounts
+      WHERE parent_account_id = ? AND account_number = ?
+    `);
+
+    const row = stmt.get(parentAccountId, accountNumber) as any;
+    return row ? this.mapToAccount(row) : null;
+  }
+
+  /**
+   * The given account IDs plus the IDs of their child accounts, so filtering by a
+   * login account also covers the cards and sub-accounts scraped under it.
+   */
+  expandWithChildren(ids: string[]): string[] {
+    if (ids.length === 0) return [];
+
+    const placeholders = ids.map(() => '?').join(',');
+    const stmt = this.db.prepare(`
+      SELECT id FROM accounts WHERE parent_account_id IN (${placeholders})
+    `);
+
+    const childIds = (stmt.all(...ids) as any[]).map((row) => row.id as string);
+    return Array.from(new Set([...ids, ...childIds]));
+  }
+
   update(id: string, updates: { alias?: string; active?: boolean }): void {
     const updatedAt = Date.now();
     const fields: string[] = [];
@@ -143,7 +189,8 @@ export class AccountRepository {
     stmt.run(userId);
   }
 
-  private getAccountType(companyId: string): 'bank' | 'credit' {
+  private getAccountType(companyId: string): Account['accountType'] {
+    if (companyId === MANUAL_COMPANY_ID) return 'manual';
     const creditCompanies = ['visaCal', 'max', 'isracard', 'amex'];
     return creditCompanies.includes(companyId) ? 'credit' : 'bank';
   }
@@ -154,6 +201,7 @@ export class AccountRepository {
       userId: row.user_id,
       accountNumber: row.account_number,
       card6Digits: row.card_6_digits,
+      parentAccountId: row.parent_account_id ?? null,
       companyId: row.company_id,
       alias: row.alias,
       active: row.active === 1,
@@ -0,0 +1,114 @@
+import { Database } from 'better-sqlite3';
+import { BalanceSnapshot } from '../types';
+import { randomUUID } from 'crypto';
+
+/**
+ * Snapshot key for a date, in local time (YYYY-MM-DD).
+ */
+export function toSnapshotDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Repository for daily account balance snapshots taken on every successful scrape.
+ */
+export class BalanceSnapshotRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Record the balance of an account for a day, replacing an earlier snapshot from the same day.
+   */
+  upsert(accountId: string, date: string, balance: number, currency = 'ILS'): void {
+    const now = Date.now();
+
+    const stmt = this.db.prepare(`
+      INSERT INTO balance_snapshots (id, account_id, snapshot_date, balance, currency, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(account_id, snapshot_date) DO UPDATE SET
+        balance = excluded.balance,
+        currency = excluded.currency,
+        updated_at = excluded.updated_at
+    `);
+
+    stmt.run(randomUUID(), accountId, date, balance, currency, now, now);
+  }
+
+  findByAccountId(accountId: string, startDate?: string, endDate?: string): BalanceSnapshot[] {
+    return this.findByAccountIds([accountId], startDate, endDate);
+  }
+
+  /**
+   * Snapshots for the given accounts, oldest first. Dates are inclusive YYYY-MM-DD strings.
+   */
+  findByAccountIds(accountIds: string[], startDate?: string, endDate?: string): BalanceSnapshot[] {
+    if (accountIds.length === 0) return [];
+
+    const placeholders = accountIds.map(() => '?').join(',');
+    let query = `
+      SELECT id, account_id, snapshot_date, balance, currency, created_at, updated_at
+      FROM balance_snapshots
+      WHERE account_id IN (${placeholders})
+    `;
+    const params: any[] = [...accountIds];
+
+    if (startDate) {
+      query += ' AND snapshot_date >= ?';
+      params.push(startDate);
+    }
+
+    if (endDate) {
+      query += ' AND snapshot_date <= ?';
+      params.push(endDate);
+    }
+
+    query += ' ORDER BY snapshot_date ASC';
+
+    const stmt = this.db.prepare(query);
+    const rows = stmt.all(...params) as any[];
+    return rows.map((row) => this.mapToSnapshot(row));
+  }
+
+  /**
+   * Latest snapshot of each account strictly before a date, used to carry balances into a range.
+   */
+  findLatestBefore(accountIds: string[], date: string): BalanceSnapshot[] {
+    if (accountIds.length === 0) return [];
+
+    const placeholders = accountIds.map(() => '?').join(',');
+    const stmt = this.db.prepare(`
+      SELECT b.id, b.account_id, b.snapshot_date, b.balance, b.currency, b.created_at, b.updated_at
+      FROM balance_snapshots b
+      WHERE b.account_id IN (${placeholders})
+        AND b.snapshot_date = (
+          SELECT MAX(snapshot_date) FROM balance_snapshots
+          WHERE account_id = b.account_id AND snapshot_date < ?
+        )
+    `);
+
+    const rows = stmt.all(...accountIds, date) as any[];
+    return rows.map((row) => this.mapToSnapshot(row));
+  }
+
+  deleteByAccountId(accountId: string): void {
+    const stmt = this.db.prepare(`
+      DELETE FROM balance_snapshots WHERE account_id = ?
+    `);
+
+    stmt.run(accountId);
+  }
+
+  private mapToSnapshot(row: any): BalanceSnapshot {
+    return {
+      id: row.id,
+      accountId: row.account_id,
+      date: row.snapshot_date,
+      balance: row.balance,
+      currency: row.currency,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
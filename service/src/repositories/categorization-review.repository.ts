@@ -0,0 +1,175 @@
+import { Database } from 'better-sqlite3';
+import { randomUUID } from 'crypto';
+import { UNKNOWN_CATEGORY_NAME } from './category.repository';
+
+/**
+ * Why a transaction is in the review queue.
+ */
+export type ReviewReason = 'unknown' | 'low_confidence' | 'disagreement';
+
+export type ReviewDecision = 'accepted' | 'rejected';
+
+export interface ReviewQueueRow {
+  transactionId: string;
+  accountId: string;
+  date: Date;
+  amount: number;
+  currency: string;
+  description: string;
+  mainCategoryId: string | null;
+  mainCategoryName: string | null;
+  decisionSource: string | null;
+  decisionConfidence: string | null;
+  decisionReason: string | null;
+  descriptionCandidates: Array<{ categoryId: string; score: number }>;
+  vendorCategoryId: string | null;
+  vendorScore: number;
+  reasons: ReviewReason[];
+}
+
+export interface ReviewQueueFilters {
+  startDate?: Date;
+  endDate?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Repository for the categorization review queue: transactions whose latest categorization is
+ * Unknown, low-confidence, or where the vendor category disagrees with the description match.
+ * Transactions the user reviewed, or whose main category they set by hand, are left out.
+ */
+export class CategorizationReviewRepository {
+  constructor(private db: Database) {}
+
+  listQueue(userId: string, filters: ReviewQueueFilters = {}): { items: ReviewQueueRow[]; total: number } {
+    const { sql, params } = this.buildQueueQuery(userId, filters);
+
+    const total = (this.db.prepare(`SELECT COUNT(*) AS count FROM (${sql})`).get(...params) as any).count;
+    const rows = this.db
+      .prepare(`${sql} ORDER BY date DESC, id ASC LIMIT ? OFFSET ?`)
+      .all(...params, filters.limit ?? 100, filters.offset ?? 0) as any[];
+
+    return { items: rows.map((row) => this.mapToRow(row)), total };
+  }
+
+  /**
+   * The queue entry of one transaction, or null when it does not need review.
+   */
+  findInQueue(userId: string, transactionId: string): ReviewQueueRow | null {
+    const { sql, params } = this.buildQueueQuery(userId, {}, transactionId);
+    const row = this.db.prepare(sql).get(...params) as any;
+    return row ? this.mapToRow(row) : null;
+  }
+
+  record(userId: string, transactionId: string, decision: ReviewDecision, categoryId: string | null): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO categorization_reviews (id, user_id, transaction_id, decision, category_id, reviewed_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(transaction_id) DO UPDATE SET
+        decision = excluded.decision,
+        category_id = excluded.category_id,
+        reviewed_at = excluded.reviewed_at
+    `);
+
+    stmt.run(randomUUID(), userId, transactionId, decision, categoryId, Date.now());
+  }
+
+  private buildQueueQuery(
+    userId: string,
+    filters: ReviewQueueFilters,
+    transactionId?: string
+  ): { sql: string; params: any[] } {
+    const conditions = ['a.user_id = ?'];
+    // In the order the placeholders appear: latest scores, the Unknown check, the category join, then conditions
+    const params: any[] = [userId, UNKNOWN_CATEGORY_NAME, userId, userId];
+
+    if (transactionId) {
+      conditions.push('t.id = ?');
+      params.push(transactionId);
+    }
+
+    if (filters.startDate) {
+      conditions.push('t.date >= ?');
+      params.push(filters.startDate.getTime());
+    }
+
+    if (filters.endDate) {
+      conditions.push('t.date <= ?');
+      params.push(filters.endDate.getTime());
+    }
+
+    // Only the latest score of each transaction counts, since re-categorization appends new ones
+    const sql = `
+      WITH latest AS (
+        SELECT cs.*, ROW_NUMBER() OVER (
+          PARTITION BY cs.transaction_id ORDER BY cs.calculated_at DESC, cs.rowid DESC
+        ) AS rn
+        FROM category_scores cs
+        WHERE cs.account_id IN (SELECT id FROM accounts WHERE user_id = ?)
+      ),
+      queue AS (
+        SELECT
+          t.id, t.account_id, t.date, t.amount, t.currency, t.description, t.main_category_id,
+          mc.name AS main_category_name,
+          l.decision_source, l.decision_confidence, l.decision_reason,
+          l.description_top_category_id, l.description_top_score, l.description_candidates_json,
+          l.vendor_category_id, l.vendor_score,
+          (t.main_category_id IS NULL OR mc.name = ?) AS is_unknown,
+          COALESCE(l.decision_confidence = 'low', 0) AS is_low_confidence,
+          COALESCE(
+            l.description_top_score > 0
+              AND l.vendor_category_id IS NOT NULL
+              AND l.vendor_category_id != l.description_top_category_id,
+            0
+          ) AS is_disagreement
+        FROM transactions t
+        INNER JOIN accounts a ON a.id = t.account_id
+        LEFT JOIN latest l ON l.transaction_id = t.id AND l.rn = 1
+        LEFT JOIN categories mc ON mc.id = t.main_category_id AND mc.user_id = ?
+        WHERE ${conditions.join(' AND ')}
+          AND NOT EXISTS (SELECT 1 FROM categorization_reviews r WHERE r.transaction_id = t.id)
+          AND NOT EXISTS (
+            SELECT 1 FROM transaction_categories tc
+            WHERE tc.transaction_id = t.id AND tc.is_main = 1 AND tc.is_manual = 1
+          )
+      )
+      SELECT * FROM queue WHERE is_unknown OR is_low_confidence OR is_disagreement
+    `;
+
+    return { sql, params };
+  }
+
+  private mapToRow(row: any): ReviewQueueRow {
+    const reasons: ReviewReason[] = [];
+    if (row.is_unknown) reasons.push('unknown');
+    if (row.is_low_confidence) reasons.push('low_confidence');
+    if (row.is_disagreement) reasons.push('disagreement');
+
+    // Scores recorded before candidates were stored only have the top one
+    let descriptionCandidates: Array<{ categoryId: string; score: number }> = [];
+    if (row.description_candidates_json) {
+      descriptionCandidates = JSON.parse(row.description_candidates_json);
+    } else if (row.description_top_category_id && row.description_top_score > 0) {
+      descriptionCandidates = [{ categoryId: row.description_top_category_id, score: row.description_top_score }];
+    }
+
+    return {
+      transactionId: row.id,
+      accountId: row.account_id,
+      date: new Date(row.date),
+      amount: row.amount,
+      currency: row.currency,
+      description: row.description,
+      mainCategoryId: row.main_category_id || null,
+      mainCategoryName: row.main_category_name || null,
+      decisionSource: row.decision_source || null,
+      decisionConfidence: row.decision_confidence || null,
+      decisionReason: row.decision_reason || null,
+      descriptionCandidates,
+      vendorCategoryId: row.vendor_category_id || null,
+      vendorScore: row.vendor_score || 0,
+      reasons,
+    };
+  }
+}
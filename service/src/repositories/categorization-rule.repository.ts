@@ -0,0 +1,139 @@
+import { Database } from 'better-sqlite3';
+import { CategorizationRule, CategorizationRuleCondition } from '../types';
+import { randomUUID } from 'crypto';
+
+export interface CategorizationRuleInput {
+  name: string;
+  categoryId: string;
+  conditions: CategorizationRuleCondition[];
+  priority: number;
+  enabled: boolean;
+}
+
+/**
+ * Repository for user-defined categorization rules, listed in the order they are evaluated.
+ */
+export class CategorizationRuleRepository {
+  constructor(private db: Database) {}
+
+  create(userId: string, input: CategorizationRuleInput): CategorizationRule {
+    const id = randomUUID();
+    const now = Date.now();
+
+    const stmt = this.db.prepare(`
+      INSERT INTO categorization_rules (id, user_id, name, category_id, conditions_json, priority, enabled, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      id,
+      userId,
+      input.name,
+      input.categoryId,
+      JSON.stringify(input.conditions),
+      input.priority,
+      input.enabled ? 1 : 0,
+      now,
+      now
+    );
+
+    return {
+      id,
+      userId,
+      ...input,
+      createdAt: new Date(now),
+      updatedAt: new Date(now),
+    };
+  }
+
+  findById(userId: string, id: string): CategorizationRule | null {
+    const stmt = this.db.prepare(`
+      SELECT id, user_id, name, category_id, conditions_json, priority, enabled, created_at, updated_at
+      FROM categorization_rules
+      WHERE id = ? AND user_id = ?
+    `);
+
+    const row = stmt.get(id, userId) as any;
+    return row ? this.mapToRule(row) : null;
+  }
+
+  /**
+   * A user's rules, highest priority first; equal priorities keep the order they were created in.
+   */
+  list(userId: string, options: { enabledOnly?: boolean } = {}): CategorizationRule[] {
+    const stmt = this.db.prepare(`
+      SELECT id, user_id, name, category_id, conditions_json, priority, enabled, created_at, updated_at
+      FROM categorization_rules
+      WHERE user_id = ? ${options.enabledOnly ? 'AND enabled = 1' : ''}
+      ORDER BY priority DESC, created_at ASC, id ASC
+    `);
+
+    const rows = stmt.all(userId) as any[];
+    return rows.map((row) => this.mapToRule(row));
+  }
+
+  update(userId: string, id: string, updates: Partial<CategorizationRuleInput>): void {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (updates.name !== undefined) {
+      fields.push('name = ?');
+      values.push(updates.name);
+    }
+
+    if (updates.categoryId !== undefined) {
+      fields.push('category_id = ?');
+      values.push(updates.categoryId);
+    }
+
+    if (updates.conditions !== undefined) {
+      fields.push('conditions_json = ?');
+      values.push(JSON.stringify(updates.conditions));
+    }
+
+    if (updates.priority !== undefined) {
+      fields.push('priority = ?');
+      values.push(updates.priority);
+    }
+
+    if (updates.enabled !== undefined) {
+      fields.push('enabled = ?');
+      values.push(updates.enabled ? 1 : 0);
+    }
+
+    if (fields.length === 0) return;
+
+    fields.push('updated_at = ?');
+    values.push(Date.now(), id, userId);
+
+    const stmt = this.db.prepare(`
+      UPDATE categorization_rules
+      SET ${fields.join(', ')}
+      WHERE id = ? AND user_id = ?
+    `);
+
+    stmt.run(...values);
+  }
+
+  delete(userId: string, id: string): void {
+    const stmt = this.db.prepare(`
+      DELETE FROM categorization_rules WHERE id = ? AND user_id = ?
+    `);
+
+    stmt.run(id, userId);
+  }
+
+  private mapToRule(row: any): CategorizationRule {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      categoryId: row.category_id,
+      conditions: JSON.parse(row.conditions_json),
+      priority: row.priority,
+      enabled: row.enabled === 1,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
@@ -0,0 +1,42 @@
+import { Database } from 'better-sqlite3';
+import { DecisionEngineConfig } from '../services/categorize-decision.engine';
+
+/**
+ * Repository for the decision engine thresholds users set through the API, one row per user.
+ */
+export class CategorizationThresholdRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * The user's saved thresholds, or null when they never changed the defaults.
+   */
+  get(userId: string): DecisionEngineConfig | null {
+    const row = this.db
+      .prepare(
+        `SELECT description_threshold, vendor_threshold, description_advantage
+         FROM categorization_thresholds WHERE user_id = ?`
+      )
+      .get(userId) as any;
+
+    if (!row) return null;
+    return {
+      descriptionThreshold: row.description_threshold,
+      vendorThreshold: row.vendor_threshold,
+      descriptionAdvantage: row.description_advantage,
+    };
+  }
+
+  save(userId: string, config: DecisionEngineConfig): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO categorization_thresholds (user_id, description_threshold, vendor_threshold, description_advantage, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(user_id) DO UPDATE SET
+        description_threshold = excluded.description_threshold,
+        vendor_threshold = excluded.vendor_threshold,
+        description_advantage = excluded.description_advantage,
+        updated_at = excluded.updated_at
+    `);
+
+    stmt.run(userId, config.descriptionThreshold, config.vendorThreshold, config.descriptionAdvantage, Date.now());
+  }
+}
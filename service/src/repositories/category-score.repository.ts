@@ -4,6 +4,9 @@ import { DescriptionMatchResult, VendorMatchResult } from '../services/fuzzy-mat
 import { CategorizationDecision } from '../services/categorize-decision.engine';
 import { randomUUID } from 'crypto';
 
+// Description candidates kept per score for the review queue
+const MAX_STORED_CANDIDATES = 3;
+
 export interface CategorizationRecord {
   transactionId: string;
   accountId: string;
@@ -15,15 +18,63 @@ export interface CategorizationRecord {
   timestamp: Date;
 }
 
+/**
+ * Reason of overrides made by applying a category to similar transactions. The user confirmed only
+ * the transaction they fixed, so learning ignores these.
+ */
+export const PROPAGATED_OVERRIDE_REASON = 'propagated';
+
 export interface UserOverride {
   transactionId: string;
-  previousMainCategoryId: string;
+  previousMainCategoryId: string | null;
   newMainCategoryId: string;
   userId: string;
   reason?: string;
   timestamp: Date;
 }
 
+/**
+ * A transaction the user categorized by hand, with the category they chose.
+ */
+export interface OverrideSignal {
+  transactionId: string;
+  description: string;
+  rawJson: string;
+  enrichmentData?: Record<string, any>;
+  categoryId: string;
+  overriddenAt: Date;
+}
+
+export interface ScoreFilters {
+  vendorId?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+/**
+ * Categorization quality over a user's latest scores. A null category ID stands for Unknown.
+ */
+export interface CategorizationAnalytics {
+  total: number;
+  bySource: Array<{ source: string; count: number }>;
+  byConfidence: Array<{ confidence: string; count: number }>;
+  overridesByCategory: Array<{ categoryId: string | null; decided: number; overridden: number }>;
+}
+
+/**
+ * An automatic decision with the top scores it was made from; null category IDs stand for Unknown.
+ */
+export interface ScoredDecision {
+  transactionId: string;
+  description: string;
+  descriptionTopCategoryId: string | null;
+  descriptionTopScore: number;
+  vendorCategoryId: string | null;
+  vendorScore: number;
+  mainCategoryId: string | null;
+  source: string;
+}
+
 /**
  * Repository for storing and analyzing categorization scores.
  * Used for understanding system categorization quality and learning from user overrides.
@@ -55,9 +106,11 @@ export class CategoryScoreRepository {
           decision_source,
           decision_confidence,
           decision_reason,
+          rule_id,
+          description_candidates_json,
           calculated_at,
           created_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
       stmt.run(
@@ -74,6 +127,13 @@ export class CategoryScoreRepository {
         record.decision.source,
         record.decision.confidence,
         record.decision.reason,
+        record.decision.ruleId || null,
+        JSON.stringify(
+          record.descriptionScores
+            .filter((m) => m.final_score > 0)
+            .slice(0, MAX_STORED_CANDIDATES)
+            .map((m) => ({ categoryId: m.categoryId, score: m.final_score }))
+        ),
         record.timestamp.toISOString(),
         now.toISOString()
       );
@@ -136,47 +196,134 @@ export class CategoryScoreRepository {
   }
 
   /**
-   * Get categorization analysis for learning purposes.
+   * How a user's transactions were categorized, going by the latest score of each: counts by
+   * decision source and confidence, and per decided category how many the user changed afterwards.
    */
-  getCategorizationAnalytics(filters?: {
-    vendorId?: string;
-    source?: string;
-    confidenceLevel?: string;
-    startDate?: Date;
-    endDate?: Date;
-  }): any {
-    let sql = 'SELECT * FROM category_scores WHERE 1=1';
-    const params: any[] = [];
-
-    if (filters?.vendorId) {
-      sql += ' AND vendor_id = ?';
-      params.push(filters.vendorId);
-    }
+  getCategorizationAnalytics(userId: string, filters: ScoreFilters = {}): CategorizationAnalytics {
+    const { sql, params } = this.buildLatestScoresQuery(userId, filters);
 
-    if (filters?.source) {
-      sql += ' AND decision_source = ?';
-      params.push(filters.source);
-    }
+    const total = (this.db.prepare(`SELECT COUNT(*) AS count FROM (${sql})`).get(...params) as any).count;
 
-    if (filters?.confidenceLevel) {
-      sql += ' AND decision_confidence = ?';
-      params.push(filters.confidenceLevel);
-    }
+    const bySource = this.db
+      .prepare(`SELECT decision_source AS source, COUNT(*) AS count FROM (${sql}) GROUP BY decision_source ORDER BY count DESC`)
+      .all(...params) as Array<{ source: string; count: number }>;
 
-    if (filters?.startDate) {
-      sql += ' AND calculated_at >= ?';
-      params.push(filters.startDate.toISOString());
-    }
+    const byConfidence = this.db
+      .prepare(
+        `SELECT decision_confidence AS confidence, COUNT(*) AS count FROM (${sql}) GROUP BY decision_confidence ORDER BY count DESC`
+      )
+      .all(...params) as Array<{ confidence: string; count: number }>;
 
-    if (filters?.endDate) {
-      sql += ' AND calculated_at <= ?';
-      params.push(filters.endDate.toISOString());
-    }
+    // A transaction counts as overridden when the user changed its category after it was decided
+    const overrideRows = this.db
+      .prepare(
+        `
+        SELECT
+          CASE WHEN s.decision_source = 'unknown' OR s.main_category_id = 'unknown' THEN NULL ELSE s.main_category_id END
+            AS category_id,
+          COUNT(*) AS decided,
+          SUM(EXISTS (
+            SELECT 1 FROM category_overrides co
+            WHERE co.transaction_id = s.transaction_id AND co.user_id = ? AND co.overridden_at >= s.calculated_at
+          )) AS overridden
+        FROM (${sql}) s
+        GROUP BY category_id
+        ORDER BY decided DESC
+      `
+      )
+      .all(userId, ...params) as any[];
 
-    sql += ' ORDER BY calculated_at DESC LIMIT 10000';
+    return {
+      total,
+      bySource,
+      byConfidence,
+      overridesByCategory: overrideRows.map((row) => ({
+        categoryId: row.category_id,
+        decided: row.decided,
+        overridden: row.overridden,
+      })),
+    };
+  }
 
-    const stmt = this.db.prepare(sql);
-    return stmt.all(...params);
+  /**
+   * The latest automatic decision of each of a user's transactions, with the scores it was made
+   * from. Decisions by rules or learned mappings are left out since thresholds do not affect them.
+   */
+  getLatestScoredDecisions(userId: string, filters: ScoreFilters = {}): ScoredDecision[] {
+    const { sql, params } = this.buildLatestScoresQuery(userId, filters);
+    const rows = this.db
+      .prepare(`SELECT * FROM (${sql}) WHERE decision_source IN ('description', 'vendor', 'unknown')`)
+      .all(...params) as any[];
+
+    return rows.map((row) => ({
+      transactionId: row.transaction_id,
+      description: row.description,
+      descriptionTopCategoryId: row.description_top_category_id || null,
+      descriptionTopScore: row.description_top_score || 0,
+      vendorCategoryId: row.vendor_category_id || null,
+      vendorScore: row.vendor_score || 0,
+      mainCategoryId:
+        row.decision_source === 'unknown' || !row.main_category_id || row.main_category_id === 'unknown'
+          ? null
+          : row.main_category_id,
+      source: row.decision_source,
+    }));
+  }
+
+  /**
+   * List a user's category overrides, oldest first.
+   */
+  findOverridesByUserId(userId: string): UserOverride[] {
+    const stmt = this.db.prepare(`
+      SELECT transaction_id, previous_main_category_id, new_main_category_id, reason, overridden_at
+      FROM category_overrides
+      WHERE user_id = ?
+      ORDER BY overridden_at ASC
+    `);
+
+    return (stmt.all(userId) as any[]).map((row) => ({
+      transactionId: row.transaction_id,
+      previousMainCategoryId: row.previous_main_category_id,
+      newMainCategoryId: row.new_main_category_id,
+      userId,
+      reason: row.reason || undefined,
+      timestamp: new Date(row.overridden_at),
+    }));
+  }
+
+  /**
+   * A user's overrides joined with the transactions they changed, oldest first.
+   * Overrides to categories the user no longer has are left out.
+   */
+  getOverrideSignals(userId: string): OverrideSignal[] {
+    const stmt = this.db.prepare(`
+      SELECT co.transaction_id, co.new_main_category_id, co.overridden_at, t.description, t.raw_json, t.enrichment_data
+      FROM category_overrides co
+      INNER JOIN transactions t ON t.id = co.transaction_id
+      INNER JOIN categories c ON c.id = co.new_main_category_id AND c.user_id = co.user_id
+      WHERE co.user_id = ? AND co.reason IS NOT ?
+      ORDER BY co.overridden_at ASC, co.rowid ASC
+    `);
+
+    return (stmt.all(userId, PROPAGATED_OVERRIDE_REASON) as any[]).map((row) => {
+      let enrichmentData: Record<string, any> | undefined;
+      if (row.enrichment_data) {
+        try {
+          enrichmentData = JSON.parse(row.enrichment_data);
+        } catch {
+          // Ignore parse errors
+        }
+      }
+
+      return {
+        transactionId: row.transaction_id,
+        description: row.description,
+        rawJson: row.raw_json,
+        enrichmentData,
+        categoryId: row.new_main_category_id,
+        overriddenAt: new Date(row.overridden_at),
+      };
+    });
   }
 
   /**
@@ -225,4 +372,40 @@ export class CategoryScoreRepository {
       throw error;
     }
   }
+
+  /**
+   * Only the latest score of each transaction counts, since re-categorization appends new ones.
+   */
+  private buildLatestScoresQuery(userId: string, filters: ScoreFilters): { sql: string; params: any[] } {
+    const conditions = ['rn = 1'];
+    const params: any[] = [userId];
+
+    if (filters.vendorId) {
+      conditions.push('vendor_id = ?');
+      params.push(filters.vendorId);
+    }
+
+    if (filters.startDate) {
+      conditions.push('calculated_at >= ?');
+      params.push(filters.startDate.toISOString());
+    }
+
+    if (filters.endDate) {
+      conditions.push('calculated_at <= ?');
+      params.push(filters.endDate.toISOString());
+    }
+
+    const sql = `
+      SELECT * FROM (
+        SELECT cs.*, ROW_NUMBER() OVER (
+          PARTITION BY cs.transaction_id ORDER BY cs.calculated_at DESC, cs.rowid DESC
+        ) AS rn
+        FROM category_scores cs
+        WHERE cs.account_id IN (SELECT id FROM accounts WHERE user_id = ?)
+      )
+      WHERE ${conditions.join(' AND ')}
+    `;
+
+    return { sql, params };
+  }
 }
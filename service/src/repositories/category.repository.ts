@@ -1,24 +1,31 @@
 import { Database } from 'better-sqlite3';
 import { Category } from '../types';
+import { CategoryMapping } from '../config/config.schema';
 import { randomUUID } from 'crypto';
 
+/**
+ * Name of the category transactions fall back to when nothing matches. Every user has one.
+ */
+export const UNKNOWN_CATEGORY_NAME = 'Unknown';
+
 export class CategoryRepository {
   constructor(private db: Database) {}
 
-  create(name: string, parentCategory: string | null, keywords: string[]): Category {
+  create(userId: string, name: string, parentCategory: string | null, keywords: string[]): Category {
     const id = randomUUID();
     const now = Date.now();
     const keywordsJson = JSON.stringify(keywords);
 
     const stmt = this.db.prepare(`
-      INSERT INTO categories (id, name, parent_category, keywords_json, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO categories (id, user_id, name, parent_category, keywords_json, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
     `);
 
-    stmt.run(id, name, parentCategory, keywordsJson, now, now);
+    stmt.run(id, userId, name, parentCategory, keywordsJson, now, now);
 
     return {
       id,
+      userId,
       name,
       parentCategory,
       keywords,
@@ -27,40 +34,73 @@ export class CategoryRepository {
     };
   }
 
-  findById(id: string): Category | null {
+  /**
+   * Give a user the Unknown category plus the configured defaults they do not have yet.
+   * Defaults name their parent; it is linked once every default exists.
+   */
+  createDefaults(userId: string, defaults: CategoryMapping[]): Category[] {
+    const created: Category[] = [];
+    const seed: CategoryMapping[] = [{ name: UNKNOWN_CATEGORY_NAME, keywords: [] }, ...defaults];
+
+    this.db.transaction(() => {
+      for (const mapping of seed) {
+        if (!this.findByName(userId, mapping.name)) {
+          created.push(this.create(userId, mapping.name, null, mapping.keywords));
+        }
+      }
+
+      for (const category of created) {
+        const parentName = seed.find((m) => m.name === category.name)?.parentCategory;
+        const parent = parentName ? this.findByName(userId, parentName) : null;
+        if (parent && parent.id !== category.id && !this.getAncestorIds(userId, parent.id).includes(category.id)) {
+          this.update(userId, category.id, { parentCategory: parent.id });
+          category.parentCategory = parent.id;
+        }
+      }
+    })();
+
+    return created;
+  }
+
+  findById(userId: string, id: string): Category | null {
     const stmt = this.db.prepare(`
-      SELECT id, name, parent_category, keywords_json, created_at, updated_at
+      SELECT id, user_id, name, parent_category, keywords_json, created_at, updated_at
       FROM categories
-      WHERE id = ?
+      WHERE id = ? AND user_id = ?
     `);
 
-    const row = stmt.get(id) as any;
+    const row = stmt.get(id, userId) as any;
     return row ? this.mapToCategory(row) : null;
   }
 
-  findByName(name: string): Category | null {
+  findByName(userId: string, name: string): Category | null {
     const stmt = this.db.prepare(`
-      SELECT id, name, parent_category, keywords_json, created_at, updated_at
+      SELECT id, user_id, name, parent_category, keywords_json, created_at, updated_at
       FROM categories
-      WHERE name = ?
+      WHERE user_id = ? AND name = ?
     `);
 
-    const row = stmt.get(name) as any;
+    const row = stmt.get(userId, name) as any;
     return row ? this.mapToCategory(row) : null;
   }
 
-  list(): Category[] {
+  list(userId: string): Category[] {
     const stmt = this.db.prepare(`
-      SELECT id, name, parent_category, keywords_json, created_at, updated_at
+      SELECT id, user_id, name, parent_category, keywords_json, created_at, updated_at
       FROM categories
+      WHERE user_id = ?
       ORDER BY name
     `);
 
-    const rows = stmt.all() as any[];
+    const rows = stmt.all(userId) as any[];
     return rows.map((row) => this.mapToCategory(row));
   }
 
-  update(id: string, updates: { name?: string; parentCategory?: string | null; keywords?: string[] }): void {
+  update(
+    userId: string,
+    id: string,
+    updates: { name?: string; parentCategory?: string | null; keywords?: string[] }
+  ): void {
     const updatedAt = Date.now();
     const fields: string[] = [];
     const values: any[] = [];
@@ -83,39 +123,66 @@ export class CategoryRepository {
     if (fields.length === 0) return;
 
     fields.push('updated_at = ?');
-    values.push(updatedAt, id);
+    values.push(updatedAt, id, userId);
 
     const stmt = this.db.prepare(`
       UPDATE categories
       SET ${fields.join(', ')}
-      WHERE id = ?
+      WHERE id = ? AND user_id = ?
     `);
 
     stmt.run(...values);
   }
 
-  delete(id: string): void {
-    const stmt = this.db.prepare(`
-      DELETE FROM categories WHERE id = ?
-    `);
+  /**
+   * Delete a category. Its children move up to its own parent rather than becoming top-level.
+   */
+  delete(userId: string, id: string): void {
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `UPDATE categories
+           SET parent_category = (SELECT parent_category FROM categories WHERE id = ? AND user_id = ?), updated_at = ?
+           WHERE parent_category = ? AND user_id = ?`
+        )
+        .run(id, userId, Date.now(), id, userId);
+
+      this.db.prepare('DELETE FROM categories WHERE id = ? AND user_id = ?').run(id, userId);
+    })();
+  }
+
+  /**
+   * IDs of a category's parent, grandparent and so on up to its top-level category, nearest first.
+   */
+  getAncestorIds(userId: string, id: string): string[] {
+    const stmt = this.db.prepare('SELECT parent_category FROM categories WHERE id = ? AND user_id = ?');
+    const ancestors: string[] = [];
+
+    let row = stmt.get(id, userId) as { parent_category: string | null } | undefined;
+    // The seen-check only guards against data that was edited by hand into a loop
+    while (row?.parent_category && row.parent_category !== id && !ancestors.includes(row.parent_category)) {
+      ancestors.push(row.parent_category);
+      row = stmt.get(row.parent_category, userId) as { parent_category: string | null } | undefined;
+    }
 
-    stmt.run(id);
+    return ancestors;
   }
 
-  searchByKeyword(keyword: string): Category[] {
+  searchByKeyword(userId: string, keyword: string): Category[] {
     const stmt = this.db.prepare(`
-      SELECT id, name, parent_category, keywords_json, created_at, updated_at
+      SELECT id, user_id, name, parent_category, keywords_json, created_at, updated_at
       FROM categories
-      WHERE keywords_json LIKE ?
+      WHERE user_id = ? AND keywords_json LIKE ?
     `);
 
-    const rows = stmt.all(`%${keyword}%`) as any[];
+    const rows = stmt.all(userId, `%${keyword}%`) as any[];
     return rows.map((row) => this.mapToCategory(row));
   }
 
   private mapToCategory(row: any): Category {
     return {
       id: row.id,
+      userId: row.user_id,
       name: row.name,
       parentCategory: row.parent_category,
       keywords: JSON.parse(row.keywords_json),
@@ -123,4 +190,4 @@ export class CategoryRepository {
       updatedAt: new Date(row.updated_at),
     };
   }
-}
\ No newline at end of file
+}
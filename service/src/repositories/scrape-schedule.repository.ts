@@ -0,0 +1,182 @@
+import { Database } from 'better-sqlite3';
+import { ScrapeSchedule } from '../types';
+import { randomUUID } from 'crypto';
+
+/**
+ * Repository for per-account automatic scrape schedules (one schedule per account).
+ */
+export class ScrapeScheduleRepository {
+  constructor(private db: Database) {}
+
+  create(
+    userId: string,
+    accountId: string,
+    cronExpression: string,
+    overlapDays: number | null,
+    enabled: boolean,
+    nextRunAt: Date | null
+  ): ScrapeSchedule {
+    const id = randomUUID();
+    const now = Date.now();
+
+    const stmt = this.db.prepare(`
+      INSERT INTO scrape_schedules (id, user_id, account_id, cron_expression, enabled, overlap_days, last_run_at, next_run_at, last_job_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, NULL, ?, NULL, ?, ?)
+    `);
+
+    stmt.run(
+      id,
+      userId,
+      accountId,
+      cronExpression,
+      enabled ? 1 : 0,
+      overlapDays,
+      nextRunAt ? nextRunAt.getTime() : null,
+      now,
+      now
+    );
+
+    return {
+      id,
+      userId,
+      accountId,
+      cronExpression,
+      enabled,
+      overlapDays,
+      lastRunAt: null,
+      nextRunAt,
+      lastJobId: null,
+      createdAt: new Date(now),
+      updatedAt: new Date(now),
+    };
+  }
+
+  findById(id: string): ScrapeSchedule | null {
+    const stmt = this.db.prepare(`
+      SELECT id, user_id, account_id, cron_expression, enabled, overlap_days, last_run_at, next_run_at, last_job_id, created_at, updated_at
+      FROM scrape_schedules
+      WHERE id = ?
+    `);
+
+    const row = stmt.get(id) as any;
+    return row ? this.mapToSchedule(row) : null;
+  }
+
+  findByAccountId(accountId: string): ScrapeSchedule | null {
+    const stmt = this.db.prepare(`
+      SELECT id, user_id, account_id, cron_expression, enabled, overlap_days, last_run_at, next_run_at, last_job_id, created_at, updated_at
+      FROM scrape_schedules
+      WHERE account_id = ?
+    `);
+
+    const row = stmt.get(accountId) as any;
+    return row ? this.mapToSchedule(row) : null;
+  }
+
+  findByUserId(userId: string): ScrapeSchedule[] {
+    const stmt = this.db.prepare(`
+      SELECT id, user_id, account_id, cron_expression, enabled, overlap_days, last_run_at, next_run_at, last_job_id, created_at, updated_at
+      FROM scrape_schedules
+      WHERE user_id = ?
+      ORDER BY next_run_at
+    `);
+
+    const rows = stmt.all(userId) as any[];
+    return rows.map((row) => this.mapToSchedule(row));
+  }
+
+  /**
+   * Enabled schedules whose next run is at or before the given time, oldest first.
+   */
+  findDue(now: Date): ScrapeSchedule[] {
+    const stmt = this.db.prepare(`
+      SELECT id, user_id, account_id, cron_expression, enabled, overlap_days, last_run_at, next_run_at, last_job_id, created_at, updated_at
+      FROM scrape_schedules
+      WHERE enabled = 1 AND next_run_at IS NOT NULL AND next_run_at <= ?
+      ORDER BY next_run_at
+    `);
+
+    const rows = stmt.all(now.getTime()) as any[];
+    return rows.map((row) => this.mapToSchedule(row));
+  }
+
+  update(
+    id: string,
+    updates: {
+      cronExpression?: string;
+      enabled?: boolean;
+      overlapDays?: number | null;
+      nextRunAt?: Date | null;
+    }
+  ): void {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (updates.cronExpression !== undefined) {
+      fields.push('cron_expression = ?');
+      values.push(updates.cronExpression);
+    }
+
+    if (updates.enabled !== undefined) {
+      fields.push('enabled = ?');
+      values.push(updates.enabled ? 1 : 0);
+    }
+
+    if (updates.overlapDays !== undefined) {
+      fields.push('overlap_days = ?');
+      values.push(updates.overlapDays);
+    }
+
+    if (updates.nextRunAt !== undefined) {
+      fields.push('next_run_at = ?');
+      values.push(updates.nextRunAt ? updates.nextRunAt.getTime() : null);
+    }
+
+    if (fields.length === 0) return;
+
+    fields.push('updated_at = ?');
+    values.push(Date.now(), id);
+
+    const stmt = this.db.prepare(`
+      UPDATE scrape_schedules
+      SET ${fields.join(', ')}
+      WHERE id = ?
+    `);
+
+    stmt.run(...values);
+  }
+
+  recordRun(id: string, ranAt: Date, nextRunAt: Date | null, jobId: string | null): void {
+    const stmt = this.db.prepare(`
+      UPDATE scrape_schedules
+      SET last_run_at = ?, next_run_at = ?, last_job_id = ?, updated_at = ?
+      WHERE id = ?
+    `);
+
+    stmt.run(ranAt.getTime(), nextRunAt ? nextRunAt.getTime() : null, jobId, Date.now(), id);
+  }
+
+  delete(id: string): void {
+    const stmt = this.db.prepare(`
+      DELETE FROM scrape_schedules WHERE id = ?
+    `);
+
+    stmt.run(id);
+  }
+
+  private mapToSchedule(row: any): ScrapeSchedule {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      accountId: row.account_id,
+      cronExpression: row.cron_expression,
+      enabled: row.enabled === 1,
+      overlapDays: row.overlap_days,
+      lastRunAt: row.last_run_at ? new Date(row.last_run_at) : null,
+      nextRunAt: row.next_run_at ? new Date(row.next_run_at) : null,
+      lastJobId: row.last_job_id,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
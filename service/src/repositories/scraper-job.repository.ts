@@ -0,0 +1,138 @@
+import { Database } from 'better-sqlite3';
+import { ScraperJob, JobResult } from '../services/scraper-orchestrator.service';
+import { randomUUID } from 'crypto';
+
+/**
+ * Repository for persisting scraper jobs and their per-account results.
+ * Keeps an audit trail of every scrape so history survives server restarts.
+ */
+export class ScraperJobRepository {
+  constructor(private db: Database) {}
+
+  create(userId: string, accountIds: string[]): ScraperJob {
+    const id = randomUUID();
+    const now = Date.now();
+
+    const stmt = this.db.prepare(`
+      INSERT INTO scraper_jobs (id, user_id, status, started_at, completed_at, accounts_to_scrape, results_json, error, created_at)
+      VALUES (?, ?, 'pending', NULL, NULL, ?, ?, NULL, ?)
+    `);
+
+    stmt.run(id, userId, JSON.stringify(accountIds), JSON.stringify([]), now);
+
+    return {
+      id,
+      userId,
+      status: 'pending',
+      startedAt: null,
+      completedAt: null,
+      accountsToScrape: accountIds,
+      results: [],
+      error: null,
+      progress: [],
+      createdAt: new Date(now),
+    };
+  }
+
+  findById(id: string): ScraperJob | null {
+    const stmt = this.db.prepare(`
+      SELECT id, user_id, status, started_at, completed_at, accounts_to_scrape, results_json, error, created_at
+      FROM scraper_jobs
+      WHERE id = ?
+    `);
+
+    const row = stmt.get(id) as any;
+    return row ? this.mapToJob(row) : null;
+  }
+
+  findByUserId(userId: string, limit?: number, offset?: number): ScraperJob[] {
+    let query = `
+      SELECT id, user_id, status, started_at, completed_at, accounts_to_scrape, results_json, error, created_at
+      FROM scraper_jobs
+      WHERE user_id = ?
+      ORDER BY created_at DESC
+    `;
+
+    const params: unknown[] = [userId];
+    if (limit !== undefined) {
+      query += ` LIMIT ? OFFSET ?`;
+      params.push(limit, offset ?? 0);
+    }
+
+    const stmt = this.db.prepare(query);
+    const rows = stmt.all(...params) as any[];
+    return rows.map((row) => this.mapToJob(row));
+  }
+
+  /**
+   * Persist the mutable state of a job (status, timestamps, results and error).
+   */
+  update(job: ScraperJob): void {
+    const stmt = this.db.prepare(`
+      UPDATE scraper_jobs
+      SET status = ?, started_at = ?, completed_at = ?, results_json = ?, error = ?
+      WHERE id = ?
+    `);
+
+    stmt.run(
+      job.status,
+      job.startedAt ? job.startedAt.getTime() : null,
+      job.completedAt ? job.completedAt.getTime() : null,
+      JSON.stringify(job.results),
+      job.error,
+      job.id
+    );
+  }
+
+  /**
+   * Fail every job still marked pending, running or waiting for an OTP. Returns the number of jobs updated.
+   */
+  failUnfinished(error: string): number {
+    const stmt = this.db.prepare(`
+      UPDATE scraper_jobs
+      SET status = 'failed', error = ?, completed_at = ?
+      WHERE status IN ('pending', 'running', 'waiting_for_otp')
+    `);
+
+    const result = stmt.run(error, Date.now());
+    return result.changes || 0;
+  }
+
+  deleteByUserId(userId: string): void {
+    const stmt = this.db.prepare(`
+      DELETE FROM scraper_jobs WHERE user_id = ?
+    `);
+
+    stmt.run(userId);
+  }
+
+  private mapToJob(row: any): ScraperJob {
+    let results: JobResult[] = [];
+    if (row.results_json) {
+      try {
+        // Results stored before error classes and screenshots existed lack those fields
+        results = JSON.parse(row.results_json).map((r: Partial<JobResult>) => ({
+          errorClass: null,
+          attempts: 1,
+          screenshots: [],
+          ...r,
+        }));
+      } catch {
+        // Ignore parse errors
+      }
+    }
+
+    return {
+      id: row.id,
+      userId: row.user_id,
+      status: row.status,
+      startedAt: row.started_at ? new Date(row.started_at) : null,
+      completedAt: row.completed_at ? new Date(row.completed_at) : null,
+      accountsToScrape: JSON.parse(row.accounts_to_scrape),
+      results,
+      error: row.error,
+      progress: [],
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
@@ -84,6 +84,15 @@ export class TransactionCategoryRepository {
     transaction(transactionId, categoryId);
   }
 
+  /**
+   * Mark an attached category as assigned by the user, so re-categorization leaves it alone
+   */
+  markManual(transactionId: string, categoryId: string): void {
+    this.db
+      .prepare(`UPDATE transaction_categories SET is_manual = 1 WHERE transaction_id = ? AND category_id = ?`)
+      .run(transactionId, categoryId);
+  }
+
   /**
    * Get the main category for a transaction
    */
@@ -4,6 +4,7 @@ import { randomUUID } from 'crypto';
 import { TransactionCategoryRepository } from './transaction-category.repository';
 
 export interface TransactionFilters {
+  userId?: string;
   accountIds?: string[];
   startDate?: Date;
   endDate?: Date;
@@ -31,7 +32,8 @@ export class TransactionRepository {
     installmentInfo: InstallmentInfo | null,
     rawJson: string,
     mainCategoryId?: string | null,
-    enrichmentData?: Record<string, any>
+    enrichmentData?: Record<string, any>,
+    isManual = false
   ): Transaction {
     const id = randomUUID();
     const createdAt = Date.now();
@@ -40,9 +42,9 @@ export class TransactionRepository {
       INSERT INTO transactions (
         id, account_id, txn_hash, date, processed_date, amount, currency,
         description, status, installment_number, installment_total,
-        raw_json, main_category_id, enrichment_data, enriched_at, created_at
+        raw_json, main_category_id, enrichment_data, enriched_at, is_manual, created_at
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const enrichmentJson = enrichmentData ? JSON.stringify(enrichmentData) : null;
@@ -64,6 +66,7 @@ export class TransactionRepository {
       mainCategoryId || null,
       enrichmentJson,
       enrichedAt,
+      isManual ? 1 : 0,
       createdAt
     );
 
@@ -81,6 +84,7 @@ export class TransactionRepository {
       status,
       installmentInfo,
       rawJson,
+      isManual,
       createdAt: new Date(createdAt),
     };
   }
@@ -128,6 +132,11 @@ export class TransactionRepository {
       params.push(...filters.accountIds);
     }
 
+    if (filters.userId) {
+      conditions.push('account_id IN (SELECT id FROM accounts WHERE user_id = ?)');
+      params.push(filters.userId);
+    }
+
     if (filters.startDate) {
       conditions.push('date >= ?');
       params.push(filters.startDate.getTime());
@@ -185,6 +194,63 @@ export class TransactionRepository {
     return rows.map((row) => this.mapToTransaction(row));
   }
 
+  update(
+    id: string,
+    updates: {
+      date?: Date;
+      processedDate?: Date;
+      amount?: number;
+      currency?: string;
+      description?: string;
+      status?: 'completed' | 'pending';
+    }
+  ): void {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (updates.date !== undefined) {
+      fields.push('date = ?');
+      values.push(updates.date.getTime());
+    }
+
+    if (updates.processedDate !== undefined) {
+      fields.push('processed_date = ?');
+      values.push(updates.processedDate.getTime());
+    }
+
+    if (updates.amount !== undefined) {
+      fields.push('amount = ?');
+      values.push(updates.amount);
+    }
+
+    if (updates.currency !== undefined) {
+      fields.push('currency = ?');
+      values.push(updates.currency);
+    }
+
+    if (updates.description !== undefined) {
+      fields.push('description = ?');
+      values.push(updates.description);
+    }
+
+    if (updates.status !== undefined) {
+      fields.push('status = ?');
+      values.push(updates.status);
+    }
+
+    if (fields.length === 0) return;
+
+    values.push(id);
+
+    const stmt = this.db.prepare(`
+      UPDATE transactions
+      SET ${fields.join(', ')}
+      WHERE id = ?
+    `);
+
+    stmt.run(...values);
+  }
+
   delete(id: string): void {
     const stmt = this.db.prepare(`
       DELETE FROM transactions WHERE id = ?
@@ -210,7 +276,11 @@ export class TransactionRepository {
     return result.count;
   }
 
-  getTotalsByCategory(accountIds: string[], startDate?: Date, endDate?: Date): Array<{ category: string; total: number; count: number }> {
+  getTotalsByCategory(
+    accountIds: string[],
+    startDate?: Date,
+    endDate?: Date
+  ): Array<{ categoryId: string; category: string; total: number; count: number }> {
     const conditions: string[] = [];
     const params: any[] = [];
 
@@ -242,7 +312,7 @@ export class TransactionRepository {
     // Only includes categories marked as is_main = 1 to avoid duplicate counting
     // Each transaction is counted only once, under its main category
     const query = `
-      SELECT c.name as category, SUM(t.amount) as total, COUNT(DISTINCT t.id) as count
+      SELECT c.id as categoryId, c.name as category, SUM(t.amount) as total, COUNT(DISTINCT t.id) as count
       FROM transactions t
       JOIN transaction_categories tc ON t.id = tc.transaction_id
       JOIN categories c ON tc.category_id = c.id
@@ -252,7 +322,7 @@ export class TransactionRepository {
     `;
 
     const stmt = this.db.prepare(query);
-    return stmt.all(...params) as Array<{ category: string; total: number; count: number }>;
+    return stmt.all(...params) as Array<{ categoryId: string; category: string; total: number; count: number }>;
   }
 
   private mapToTransaction(row: any): Transaction {
@@ -290,6 +360,7 @@ export class TransactionRepository {
       status: row.status,
       installmentInfo,
       rawJson: row.raw_json,
+      isManual: row.is_manual === 1,
       createdAt: new Date(row.created_at),
     };
 
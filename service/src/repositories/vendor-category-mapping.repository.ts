@@ -0,0 +1,91 @@
+import { Database } from 'better-sqlite3';
+import { randomUUID } from 'crypto';
+import { VendorCodeSource, normalizeVendorCode } from '../services/vendor-category-codes';
+
+export interface VendorCategoryMapping {
+  id: string;
+  userId: string;
+  vendor: VendorCodeSource;
+  code: string; // Normalized, see normalizeVendorCode
+  categoryId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Repository for a user's own mappings from card company category codes to their categories.
+ * There is at most one mapping per vendor and code.
+ */
+export class VendorCategoryMappingRepository {
+  constructor(private db: Database) {}
+
+  list(userId: string): VendorCategoryMapping[] {
+    const stmt = this.db.prepare(`
+      SELECT id, user_id, vendor, code, category_id, created_at, updated_at
+      FROM vendor_category_mappings
+      WHERE user_id = ?
+      ORDER BY vendor ASC, code ASC
+    `);
+
+    return (stmt.all(userId) as any[]).map((row) => this.mapToMapping(row));
+  }
+
+  findById(userId: string, id: string): VendorCategoryMapping | null {
+    const stmt = this.db.prepare(`
+      SELECT id, user_id, vendor, code, category_id, created_at, updated_at
+      FROM vendor_category_mappings
+      WHERE id = ? AND user_id = ?
+    `);
+
+    const row = stmt.get(id, userId) as any;
+    return row ? this.mapToMapping(row) : null;
+  }
+
+  /**
+   * Map a code to a category, replacing the category of an existing mapping for the same code.
+   */
+  upsert(userId: string, vendor: VendorCodeSource, code: string, categoryId: string): VendorCategoryMapping {
+    const now = Date.now();
+
+    this.db
+      .prepare(
+        `
+        INSERT INTO vendor_category_mappings (id, user_id, vendor, code, category_id, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(user_id, vendor, code) DO UPDATE SET
+          category_id = excluded.category_id,
+          updated_at = excluded.updated_at
+      `
+      )
+      .run(randomUUID(), userId, vendor, normalizeVendorCode(code), categoryId, now, now);
+
+    const row = this.db
+      .prepare(
+        `SELECT id, user_id, vendor, code, category_id, created_at, updated_at
+         FROM vendor_category_mappings WHERE user_id = ? AND vendor = ? AND code = ?`
+      )
+      .get(userId, vendor, normalizeVendorCode(code)) as any;
+
+    return this.mapToMapping(row);
+  }
+
+  delete(userId: string, id: string): void {
+    const stmt = this.db.prepare(`
+      DELETE FROM vendor_category_mappings WHERE id = ? AND user_id = ?
+    `);
+
+    stmt.run(id, userId);
+  }
+
+  private mapToMapping(row: any): VendorCategoryMapping {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      vendor: row.vendor,
+      code: row.code,
+      categoryId: row.category_id,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
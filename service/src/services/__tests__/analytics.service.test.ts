@@ -8,6 +8,8 @@ import { TransactionCategoryRepository } from '../../repositories/transaction-ca
 import { AccountRepository } from '../../repositories/account.repository';
 import { Logger } from '../../utils/logger';
 import { UserRepository } from '../../repositories/user.repository';
+import { BalanceSnapshotRepository } from '../../repositories/balance-snapshot.repository';
+import { CategoryRepository } from '../../repositories/category.repository';
 
 describe('AnalyticsService - Expense Trends and Profit Calculation', () => {
   const testDbPath = path.join(process.cwd(), 'test-data', 'analytics-trends-test.db');
@@ -19,6 +21,7 @@ describe('AnalyticsService - Expense Trends and Profit Calculation', () => {
   let transactionRepo: TransactionRepository;
   let accountRepo: AccountRepository;
   let userRepo: UserRepository;
+  let balanceSnapshotRepo: BalanceSnapshotRepository;
   let testAccountId: string;
   let testUserId: string;
 
@@ -60,7 +63,8 @@ describe('AnalyticsService - Expense Trends and Profit Calculation', () => {
     const transactionCategoryRepo = new TransactionCategoryRepository(db);
     transactionRepo = new TransactionRepository(db, transactionCategoryRepo);
     userRepo = new UserRepository(db);
-    analyticsService = new AnalyticsService(logger, transactionRepo, accountRepo);
+    balanceSnapshotRepo = new BalanceSnapshotRepository(db);
+    analyticsService = new AnalyticsService(logger, transactionRepo, accountRepo, balanceSnapshotRepo);
   });
 
   // Cleanup: Close database and remove test files after all tests
@@ -404,4 +408,125 @@ describe('AnalyticsService - Expense Trends and Profit Calculation', () => {
       expect(averageNetAmount).toBe(600); // (500 + 600 + 700) / 3
     });
   });
+
+  describe('calculateNetWorthSeries', () => {
+    it('should sum balances across accounts and carry forward missing days', () => {
+      const card = accountRepo.create(testUserId, '9999', 'max', 'Card');
+      balanceSnapshotRepo.upsert(testAccountId, '2025-01-01', 1000);
+      balanceSnapshotRepo.upsert(card.id, '2025-01-01', -200);
+      balanceSnapshotRepo.upsert(testAccountId, '2025-01-03', 1500);
+
+      const series = analyticsService.calculateNetWorthSeries([testAccountId, card.id], {
+        startDate: new Date(2025, 0, 1),
+        endDate: new Date(2025, 0, 31),
+      });
+
+      expect(series.map((p) => p.date)).toEqual(['2025-01-01', '2025-01-03']);
+      expect(series[0].netWorth).toBe(800);
+      expect(series[1].netWorth).toBe(1300);
+      expect(series[1].balances[card.id]).toBe(-200);
+    });
+
+    it('should start from the latest balance before the range', () => {
+      balanceSnapshotRepo.upsert(testAccountId, '2024-12-20', 700);
+      balanceSnapshotRepo.upsert(testAccountId, '2025-01-10', 900);
+
+      const series = analyticsService.calculateNetWorthSeries([testAccountId], {
+        startDate: new Date(2025, 0, 1),
+        endDate: new Date(2025, 0, 31),
+      });
+
+      expect(series).toEqual([
+        { date: '2025-01-01', netWorth: 700, balances: { [testAccountId]: 700 } },
+        { date: '2025-01-10', netWorth: 900, balances: { [testAccountId]: 900 } },
+      ]);
+    });
+
+    it('should keep one snapshot per account per day', () => {
+      balanceSnapshotRepo.upsert(testAccountId, '2025-01-05', 100);
+      balanceSnapshotRepo.upsert(testAccountId, '2025-01-05', 250);
+
+      expect(balanceSnapshotRepo.findByAccountId(testAccountId)).toHaveLength(1);
+      const series = analyticsService.calculateNetWorthSeries([testAccountId], {
+        startDate: new Date(2025, 0, 1),
+        endDate: new Date(2025, 0, 31),
+      });
+      expect(series[0].netWorth).toBe(250);
+    });
+  });
+
+  describe('calculateCategoryDistribution - category tree', () => {
+    const range = { startDate: new Date(2025, 0, 1), endDate: new Date(2025, 0, 31) };
+    let categoryRepo: CategoryRepository;
+    let ids: Record<string, string>;
+
+    beforeEach(() => {
+      categoryRepo = new CategoryRepository(db);
+      const transactionCategoryRepo = new TransactionCategoryRepository(db);
+      const food = categoryRepo.create(testUserId, 'Food', null, []);
+      const restaurants = categoryRepo.create(testUserId, 'Restaurants', food.id, []);
+      ids = {
+        Food: food.id,
+        Restaurants: restaurants.id,
+        Groceries: categoryRepo.create(testUserId, 'Groceries', food.id, []).id,
+        Coffee: categoryRepo.create(testUserId, 'Coffee', restaurants.id, []).id,
+        Transport: categoryRepo.create(testUserId, 'Transport', null, []).id,
+      };
+
+      const expenses: Array<[string, number]> = [
+        ['Groceries', -100],
+        ['Coffee', -20],
+        ['Restaurants', -30],
+        ['Food', -10],
+        ['Transport', -40],
+      ];
+      expenses.forEach(([category, amount], index) => {
+        const txn = transactionRepo.create(
+          testAccountId,
+          `hash-tree-${index}`,
+          new Date(2025, 0, 10),
+          new Date(2025, 0, 10),
+          amount,
+          'ILS',
+          category,
+          'completed',
+          null,
+          '{}'
+        );
+        transactionCategoryRepo.attach(txn.id, ids[category], false, true);
+      });
+    });
+
+    const summarize = (level: 'parent' | 'leaf', parentId?: string) =>
+      analyticsService
+        .calculateCategoryDistribution([testAccountId], range, {
+          categories: categoryRepo.list(testUserId),
+          level,
+          parentId,
+        })
+        .map((c) => [c.category, c.totalAmount, c.hasChildren]);
+
+    it('should roll subcategories up into their top-level category', () => {
+      expect(summarize('parent')).toEqual([
+        ['Food', 160, true],
+        ['Transport', 40, false],
+      ]);
+    });
+
+    it('should drill into a parent, keeping its own expenses as a separate slice', () => {
+      expect(summarize('parent', ids.Food)).toEqual([
+        ['Groceries', 100, false],
+        ['Restaurants', 50, true],
+        ['Food', 10, false],
+      ]);
+    });
+
+    it('should list every category at the leaf level', () => {
+      expect(summarize('leaf')).toHaveLength(5);
+      expect(summarize('leaf', ids.Restaurants)).toEqual([
+        ['Restaurants', 30, false],
+        ['Coffee', 20, false],
+      ]);
+    });
+  });
 });
@@ -0,0 +1,108 @@
+import path from 'path';
+import fs from 'fs';
+import { DatabaseService } from '../../database/database.service';
+import { BackupService } from '../backup.service';
+import { UserRepository } from '../../repositories/user.repository';
+import { Logger } from '../../utils/logger';
+
+describe('BackupService', () => {
+  const testDir = path.join(process.cwd(), 'test-data');
+  const backupDir = path.join(testDir, 'backups-test');
+  const dbPath = path.join(testDir, 'backup-test.db');
+  const restorePath = path.join(testDir, 'backup-restore-test.db');
+  const logger = new Logger({ level: 'error', filePath: testDir, console: false, file: false });
+  const options = {
+    enabled: true,
+    directory: backupDir,
+    cron: '0 3 * * *',
+    keepDaily: 3,
+    keepWeekly: 2,
+    checkIntervalMs: 60000,
+  };
+
+  let dbService: DatabaseService;
+  let backupService: BackupService;
+
+  const removeDatabase = (file: string) => {
+    for (const entry of fs.readdirSync(testDir)) {
+      if (entry.startsWith(path.basename(file))) fs.rmSync(path.join(testDir, entry), { force: true });
+    }
+  };
+
+  beforeEach(() => {
+    fs.mkdirSync(testDir, { recursive: true });
+    fs.rmSync(backupDir, { recursive: true, force: true });
+    removeDatabase(dbPath);
+    removeDatabase(restorePath);
+
+    dbService = new DatabaseService(dbPath);
+    new UserRepository(dbService.getDatabase()).create('backup-user', 'hash');
+    backupService = new BackupService(options, 'test-encryption-key', logger);
+  });
+
+  afterEach(() => {
+    dbService.close();
+    fs.rmSync(backupDir, { recursive: true, force: true });
+    removeDatabase(dbPath);
+    removeDatabase(restorePath);
+  });
+
+  it('should create an encrypted backup and restore it', async () => {
+    const backup = await backupService.createBackup(dbService, new Date(Date.UTC(2025, 0, 5, 3)));
+
+    expect(backup.fileName).toBe('funds-backup-20250105T030000Z.sqlite.gz.enc');
+    expect(backupService.listBackups().map((b) => b.fileName)).toEqual([backup.fileName]);
+    expect(fs.readFileSync(backup.path).includes(Buffer.from('SQLite format 3'))).toBe(false);
+
+    fs.writeFileSync(restorePath, 'current database');
+    const result = await backupService.restoreBackup(backup.fileName, restorePath);
+
+    expect(fs.readFileSync(result.previousDatabasePath!, 'utf8')).toBe('current database');
+    const restored = new DatabaseService(restorePath);
+    try {
+      expect(new UserRepository(restored.getDatabase()).findByUsername('backup-user')).not.toBeNull();
+    } finally {
+      restored.close();
+    }
+  });
+
+  it('should refuse to restore with the wrong key or a damaged file', async () => {
+    const backup = await backupService.createBackup(dbService);
+    const otherKey = new BackupService(options, 'another-key', logger);
+
+    await expect(otherKey.restoreBackup(backup.fileName, restorePath)).rejects.toThrow('Could not decrypt backup');
+    expect(fs.existsSync(restorePath)).toBe(false);
+
+    const data = fs.readFileSync(backup.path);
+    data[data.length - 40] ^= 0xff;
+    fs.writeFileSync(backup.path, data);
+    await expect(backupService.restoreBackup(backup.fileName, restorePath)).rejects.toThrow('Could not decrypt backup');
+  });
+
+  it('should keep the newest backup per day and per week', () => {
+    fs.mkdirSync(backupDir, { recursive: true });
+    const stamps = [
+      '20250120T150000Z', // Monday, week 4
+      '20250120T120000Z',
+      '20250119T120000Z', // Sunday, week 3
+      '20250118T120000Z',
+      '20250117T120000Z',
+      '20250110T120000Z', // Week 2
+      '20250103T120000Z', // Week 1
+    ];
+    for (const stamp of stamps) {
+      fs.writeFileSync(path.join(backupDir, `funds-backup-${stamp}.sqlite.gz.enc`), '');
+    }
+    fs.writeFileSync(path.join(backupDir, 'notes.txt'), '');
+
+    const removed = backupService.prune();
+
+    expect(backupService.listBackups().map((b) => b.fileName.slice(13, 29))).toEqual([
+      '20250120T150000Z',
+      '20250119T120000Z',
+      '20250118T120000Z',
+    ]);
+    expect(removed).toHaveLength(4);
+    expect(fs.existsSync(path.join(backupDir, 'notes.txt'))).toBe(true);
+  });
+});
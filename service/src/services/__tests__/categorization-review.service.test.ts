@@ -0,0 +1,172 @@
+import path from 'path';
+import fs from 'fs';
+import { DatabaseService } from '../../database/database.service';
+import { CategorizationReviewService } from '../categorization-review.service';
+import { TransactionService } from '../transaction.service';
+import { AccountRepository } from '../../repositories/account.repository';
+import { TransactionRepository } from '../../repositories/transaction.repository';
+import { TransactionCategoryRepository } from '../../repositories/transaction-category.repository';
+import { CategoryRepository, UNKNOWN_CATEGORY_NAME } from '../../repositories/category.repository';
+import { CategoryScoreRepository } from '../../repositories/category-score.repository';
+import { CategorizationReviewRepository } from '../../repositories/categorization-review.repository';
+import { UserRepository } from '../../repositories/user.repository';
+import { DescriptionMatchResult } from '../fuzzy-matching.service';
+import { ConfidenceLevel } from '../categorize-decision.engine';
+import { Logger } from '../../utils/logger';
+
+describe('CategorizationReviewService', () => {
+  const testDir = path.join(process.cwd(), 'test-data');
+  const dbPath = path.join(testDir, 'categorization-review-test.db');
+  const logger = new Logger({ level: 'error', filePath: testDir, console: false, file: false });
+
+  let dbService: DatabaseService;
+  let transactionRepo: TransactionRepository;
+  let transactionCategoryRepo: TransactionCategoryRepository;
+  let categoryRepo: CategoryRepository;
+  let scoreRepo: CategoryScoreRepository;
+  let service: CategorizationReviewService;
+  let userId: string;
+  let accountId: string;
+
+  const descriptionScore = (categoryId: string, score: number): DescriptionMatchResult => ({
+    categoryId,
+    categoryName: '',
+    scores: { ratio: score, partial_ratio: score, token_sort_ratio: score, token_set_ratio: score },
+    combined_score: score,
+    final_score: score,
+    source: 'description',
+  });
+
+  // A transaction categorized automatically, with the scores that led to it
+  const createCategorized = (
+    hash: string,
+    categoryId: string,
+    confidence: ConfidenceLevel,
+    descriptionScores: DescriptionMatchResult[],
+    vendorCategoryId: string | null = null
+  ) => {
+    const txn = transactionRepo.create(
+      accountId,
+      hash,
+      new Date('2024-03-01'),
+      new Date('2024-03-01'),
+      -40,
+      'ILS',
+      `Purchase ${hash}`,
+      'completed',
+      null,
+      '{}'
+    );
+    transactionCategoryRepo.attach(txn.id, categoryId, false, true);
+    transactionRepo.setMainCategoryId(txn.id, categoryId);
+    scoreRepo.recordCategorization({
+      transactionId: txn.id,
+      accountId,
+      vendorId: 'max',
+      description: txn.description,
+      descriptionScores,
+      vendorScore: vendorCategoryId
+        ? { categoryId: vendorCategoryId, categoryName: null, final_score: 90, source: 'vendor' }
+        : null,
+      decision: {
+        mainCategoryId: categoryId,
+        descriptionCandidates: descriptionScores,
+        reason: 'test',
+        confidence,
+        source: 'description',
+        appliedThresholds: { description: 70, vendor: 80 },
+      },
+      timestamp: new Date(),
+    });
+    return txn;
+  };
+
+  beforeEach(() => {
+    if (!fs.existsSync(testDir)) fs.mkdirSync(testDir, { recursive: true });
+    if (fs.existsSync(dbPath)) fs.unlinkSync(dbPath);
+
+    dbService = new DatabaseService(dbPath);
+    const db = dbService.getDatabase();
+    transactionCategoryRepo = new TransactionCategoryRepository(db);
+    transactionRepo = new TransactionRepository(db, transactionCategoryRepo);
+    categoryRepo = new CategoryRepository(db);
+    scoreRepo = new CategoryScoreRepository(db, logger);
+    const transactionService = new TransactionService(logger, transactionRepo, transactionCategoryRepo, categoryRepo);
+    service = new CategorizationReviewService(
+      dbService,
+      new CategorizationReviewRepository(db),
+      categoryRepo,
+      transactionService,
+      logger
+    );
+
+    userId = new UserRepository(db).create('testuser', 'hash').id;
+    accountId = new AccountRepository(db).create(userId, '1234', 'max', 'Max').id;
+  });
+
+  afterEach(() => {
+    dbService.close();
+    if (fs.existsSync(dbPath)) fs.unlinkSync(dbPath);
+  });
+
+  it('should queue unknown, low-confidence and disagreeing transactions with their candidates', () => {
+    const unknown = categoryRepo.create(userId, UNKNOWN_CATEGORY_NAME, null, []);
+    const coffee = categoryRepo.create(userId, 'Coffee', null, []);
+    const food = categoryRepo.create(userId, 'Food', null, []);
+
+    const unknownTxn = createCategorized('unknown', unknown.id, 'low', [
+      descriptionScore(coffee.id, 40),
+      descriptionScore(food.id, 55),
+    ]);
+    const lowTxn = createCategorized('low', coffee.id, 'low', [descriptionScore(coffee.id, 60)]);
+    const disagreeTxn = createCategorized('disagree', coffee.id, 'high', [descriptionScore(coffee.id, 95)], food.id);
+    createCategorized('confident', coffee.id, 'high', [descriptionScore(coffee.id, 95)], coffee.id);
+
+    const { items, total } = service.getQueue(userId);
+
+    expect(total).toBe(3);
+    const byId = new Map(items.map((item) => [item.transactionId, item]));
+    expect(byId.get(unknownTxn.id)).toMatchObject({
+      reasons: ['unknown', 'low_confidence'],
+      suggestedCategoryId: food.id,
+      candidates: [
+        { categoryId: food.id, categoryName: 'Food', score: 55, source: 'description' },
+        { categoryId: coffee.id, categoryName: 'Coffee', score: 40, source: 'description' },
+      ],
+    });
+    expect(byId.get(lowTxn.id)).toMatchObject({ reasons: ['low_confidence'], suggestedCategoryId: coffee.id });
+    expect(byId.get(disagreeTxn.id)).toMatchObject({ reasons: ['disagreement'], suggestedCategoryId: coffee.id });
+    expect(byId.get(disagreeTxn.id)!.candidates.map((c) => [c.categoryId, c.source])).toEqual([
+      [coffee.id, 'description'],
+      [food.id, 'vendor'],
+    ]);
+  });
+
+  it('should make an accepted category manual and take the transaction off the queue', () => {
+    const unknown = categoryRepo.create(userId, UNKNOWN_CATEGORY_NAME, null, []);
+    const coffee = categoryRepo.create(userId, 'Coffee', null, []);
+    const food = categoryRepo.create(userId, 'Food', null, []);
+    const txn = createCategorized('unknown', unknown.id, 'low', [descriptionScore(food.id, 55)]);
+
+    const item = service.getItem(userId, txn.id)!;
+    expect(service.accept(userId, item, coffee.id)).toBe(coffee.id);
+
+    expect(transactionRepo.findById(txn.id)!.mainCategoryId).toBe(coffee.id);
+    expect(transactionCategoryRepo.getMainCategory(txn.id)).toMatchObject({ categoryId: coffee.id, isManual: true });
+    expect(service.getItem(userId, txn.id)).toBeNull();
+    expect(service.getQueue(userId).total).toBe(0);
+  });
+
+  it('should put a rejected transaction in Unknown as if the user chose it', () => {
+    const unknown = categoryRepo.create(userId, UNKNOWN_CATEGORY_NAME, null, []);
+    const coffee = categoryRepo.create(userId, 'Coffee', null, []);
+    const txn = createCategorized('low', coffee.id, 'low', [descriptionScore(coffee.id, 60)]);
+
+    service.reject(userId, service.getItem(userId, txn.id)!);
+
+    expect(transactionRepo.findById(txn.id)!.mainCategoryId).toBe(unknown.id);
+    expect(transactionCategoryRepo.getMainCategory(txn.id)).toMatchObject({ categoryId: unknown.id, isManual: true });
+    expect(transactionCategoryRepo.hasCategory(txn.id, coffee.id)).toBe(false);
+    expect(service.getQueue(userId).total).toBe(0);
+  });
+});
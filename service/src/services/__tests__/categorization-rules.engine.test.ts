@@ -0,0 +1,130 @@
+import {
+  CategorizationRulesEngine,
+  CategorizationRuleCreateSchema,
+  CategorizationRuleUpdateSchema,
+} from '../categorization-rules.engine';
+import { CategorizationRule, CategorizationRuleCondition, Transaction } from '../../types';
+
+describe('CategorizationRulesEngine', () => {
+  const engine = new CategorizationRulesEngine();
+
+  const rule = (id: string, conditions: CategorizationRuleCondition[], enabled = true): CategorizationRule => ({
+    id,
+    userId: 'user-1',
+    name: id,
+    categoryId: `category-${id}`,
+    conditions,
+    priority: 0,
+    enabled,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const transaction = (overrides: Partial<Transaction> & { enrichmentData?: any } = {}): Transaction =>
+    ({
+      id: 'txn-1',
+      accountId: 'max-card',
+      description: 'SHUFERSAL DEAL TLV',
+      amount: -120,
+      rawJson: '{}',
+      ...overrides,
+    }) as Transaction;
+
+  it('should match when every condition holds', () => {
+    const groceries = rule('groceries', [
+      { field: 'description', operator: 'regex', value: '^shufersal' },
+      { field: 'amount', min: 100, max: 200 },
+      { field: 'account', accountIds: ['max-card'] },
+    ]);
+
+    expect(engine.findMatchingRule([groceries], transaction())).toBe(groceries);
+    expect(engine.findMatchingRule([groceries], transaction({ amount: -250 }))).toBeNull();
+    expect(engine.findMatchingRule([groceries], transaction({ accountId: 'bank' }))).toBeNull();
+  });
+
+  it('should return the first matching enabled rule in the order given', () => {
+    const disabled = rule('disabled', [{ field: 'description', operator: 'contains', value: 'shufersal' }], false);
+    const first = rule('first', [{ field: 'description', operator: 'contains', value: 'deal' }]);
+    const second = rule('second', [{ field: 'description', operator: 'equals', value: 'shufersal deal tlv' }]);
+
+    expect(engine.findMatchingRule([disabled, first, second], transaction())).toBe(first);
+    expect(engine.findMatchingRule([disabled, second, first], transaction())).toBe(second);
+  });
+
+  it('should match the merchant ID from enrichment data or the raw transaction', () => {
+    const merchant = rule('merchant', [{ field: 'merchantId', value: '123' }]);
+
+    expect(
+      engine.findMatchingRule([merchant], transaction({ enrichmentData: { merchantMetadata: { merchantID: 123 } } }))
+    ).toBe(merchant);
+    expect(engine.findMatchingRule([merchant], transaction({ rawJson: '{"merchantID":"123"}' }))).toBe(merchant);
+    expect(engine.findMatchingRule([merchant], transaction())).toBeNull();
+  });
+
+  it('should validate rule input', () => {
+    const valid = CategorizationRuleCreateSchema.parse({
+      name: 'Groceries',
+      categoryId: 'c1',
+      conditions: [{ field: 'merchantId', value: '123' }],
+    });
+    expect(valid).toMatchObject({ priority: 0, enabled: true });
+
+    const invalid = (conditions: unknown[]) =>
+      CategorizationRuleCreateSchema.safeParse({ name: 'Rule', categoryId: 'c1', conditions }).success;
+    expect(invalid([])).toBe(false);
+    expect(invalid([{ field: 'description', operator: 'regex', value: '([' }])).toBe(false);
+    expect(invalid([{ field: 'description', operator: 'regex', value: 'x'.repeat(201) }])).toBe(false);
+    expect(invalid([{ field: 'amount' }])).toBe(false);
+    expect(invalid([{ field: 'amount', min: 10, max: 5 }])).toBe(false);
+    expect(invalid([{ field: 'payee', value: 'x' }])).toBe(false);
+
+    expect(CategorizationRuleUpdateSchema.parse({ enabled: false })).toEqual({ enabled: false });
+  });
+
+  it('should reject regular expressions with nested repetition', () => {
+    const accepts = (value: string) =>
+      CategorizationRuleCreateSchema.safeParse({
+        name: 'Rule',
+        categoryId: 'c1',
+        conditions: [{ field: 'description', operator: 'regex', value }],
+      }).success;
+
+    expect(accepts('(a+)+$')).toBe(false);
+    expect(accepts('(\\w*\\s?)*x')).toBe(false);
+    expect(accepts('((ab)+c){2,}')).toBe(false);
+    expect(accepts('^(shufersal|rami levy)\\s+\\d+')).toBe(true);
+    expect(accepts('^[a-z+*]+(deal)?$')).toBe(true);
+    expect(accepts('\\(a+\\)+')).toBe(true);
+
+    // Rules stored before the check never match instead of blocking
+    const unsafe = rule('unsafe', [{ field: 'description', operator: 'regex', value: '(a+)+$' }]);
+    expect(engine.findMatchingRule([unsafe], transaction({ description: 'a'.repeat(40) + '!' }))).toBeNull();
+  });
+
+  it('should reject regular expressions that repeat alternatives', () => {
+    const accepts = (value: string) =>
+      CategorizationRuleCreateSchema.safeParse({
+        name: 'Rule',
+        categoryId: 'c1',
+        conditions: [{ field: 'description', operator: 'regex', value }],
+      }).success;
+
+    expect(accepts('(a|aa)+$')).toBe(false);
+    expect(accepts('(\\w|\\d)+$')).toBe(false);
+    expect(accepts('((a|b)c)*x')).toBe(false);
+    expect(accepts('(?:x|xy){2,}z')).toBe(false);
+    expect(accepts('(shufersal|rami levy)$')).toBe(true);
+    expect(accepts('^(paypal|pp)?\\s*\\*')).toBe(true);
+    expect(accepts('[|a]+')).toBe(true);
+
+    const unsafe = rule('unsafe', [{ field: 'description', operator: 'regex', value: '(a|aa)+$' }]);
+    expect(engine.findMatchingRule([unsafe], transaction({ description: 'a'.repeat(40) + '!' }))).toBeNull();
+  });
+
+  it('should only match regular expressions against the start of long descriptions', () => {
+    const tail = rule('tail', [{ field: 'description', operator: 'regex', value: 'tail$' }]);
+
+    expect(engine.findMatchingRule([tail], transaction({ description: 'x'.repeat(100) + 'tail' }))).toBe(tail);
+    expect(engine.findMatchingRule([tail], transaction({ description: 'x'.repeat(300) + 'tail' }))).toBeNull();
+  });
+});
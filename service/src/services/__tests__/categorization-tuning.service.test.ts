@@ -0,0 +1,196 @@
+import path from 'path';
+import fs from 'fs';
+import { DatabaseService } from '../../database/database.service';
+import { CategorizationTuningService } from '../categorization-tuning.service';
+import { CategorizationService } from '../categorization.service';
+import { CategorizationSource, ConfidenceLevel } from '../categorize-decision.engine';
+import { AccountRepository } from '../../repositories/account.repository';
+import { TransactionRepository } from '../../repositories/transaction.repository';
+import { TransactionCategoryRepository } from '../../repositories/transaction-category.repository';
+import { CategoryRepository } from '../../repositories/category.repository';
+import { CategoryScoreRepository } from '../../repositories/category-score.repository';
+import { CategorizationRuleRepository } from '../../repositories/categorization-rule.repository';
+import { CategorizationThresholdRepository } from '../../repositories/categorization-threshold.repository';
+import { VendorCategoryMappingRepository } from '../../repositories/vendor-category-mapping.repository';
+import { UserRepository } from '../../repositories/user.repository';
+import { Logger } from '../../utils/logger';
+
+describe('CategorizationTuningService', () => {
+  const testDir = path.join(process.cwd(), 'test-data');
+  const dbPath = path.join(testDir, 'categorization-tuning-test.db');
+  const logger = new Logger({ level: 'error', filePath: testDir, console: false, file: false });
+
+  let dbService: DatabaseService;
+  let transactionRepo: TransactionRepository;
+  let scoreRepo: CategoryScoreRepository;
+  let categoryRepo: CategoryRepository;
+  let thresholdRepo: CategorizationThresholdRepository;
+  let categorizationService: CategorizationService;
+  let service: CategorizationTuningService;
+  let userId: string;
+  let accountId: string;
+
+  // A past automatic decision, recorded the way categorization records it
+  const recordDecision = (
+    hash: string,
+    decision: { categoryId: string; source: CategorizationSource; confidence: ConfidenceLevel },
+    description: { categoryId: string; score: number } | null,
+    vendor: { categoryId: string; score: number } | null = null
+  ) => {
+    const txn = transactionRepo.create(
+      accountId,
+      hash,
+      new Date('2024-03-01'),
+      new Date('2024-03-01'),
+      -40,
+      'ILS',
+      `Purchase ${hash}`,
+      'completed',
+      null,
+      '{}'
+    );
+    const descriptionScores = description
+      ? [
+          {
+            categoryId: description.categoryId,
+            categoryName: '',
+            scores: { ratio: 0, partial_ratio: 0, token_sort_ratio: 0, token_set_ratio: 0 },
+            combined_score: description.score,
+            final_score: description.score,
+            source: 'description' as const,
+          },
+        ]
+      : [];
+    scoreRepo.recordCategorization({
+      transactionId: txn.id,
+      accountId,
+      vendorId: 'max',
+      description: txn.description,
+      descriptionScores,
+      vendorScore: vendor
+        ? { categoryId: vendor.categoryId, categoryName: null, final_score: vendor.score, source: 'vendor' }
+        : null,
+      decision: {
+        mainCategoryId: decision.categoryId,
+        descriptionCandidates: descriptionScores,
+        reason: 'test',
+        confidence: decision.confidence,
+        source: decision.source,
+        appliedThresholds: { description: 75, vendor: 60 },
+      },
+      timestamp: new Date(),
+    });
+    return txn;
+  };
+
+  beforeEach(() => {
+    if (!fs.existsSync(testDir)) fs.mkdirSync(testDir, { recursive: true });
+    if (fs.existsSync(dbPath)) fs.unlinkSync(dbPath);
+
+    dbService = new DatabaseService(dbPath);
+    const db = dbService.getDatabase();
+    const transactionCategoryRepo = new TransactionCategoryRepository(db);
+    transactionRepo = new TransactionRepository(db, transactionCategoryRepo);
+    categoryRepo = new CategoryRepository(db);
+    scoreRepo = new CategoryScoreRepository(db, logger);
+    thresholdRepo = new CategorizationThresholdRepository(db);
+    categorizationService = new CategorizationService(
+      categoryRepo,
+      transactionRepo,
+      scoreRepo,
+      transactionCategoryRepo,
+      new CategorizationRuleRepository(db),
+      new VendorCategoryMappingRepository(db),
+      thresholdRepo,
+      logger
+    );
+    service = new CategorizationTuningService(scoreRepo, thresholdRepo, categorizationService, logger);
+
+    userId = new UserRepository(db).create('testuser', 'hash').id;
+    accountId = new AccountRepository(db).create(userId, '1234', 'max', 'Max').id;
+  });
+
+  afterEach(() => {
+    dbService.close();
+    if (fs.existsSync(dbPath)) fs.unlinkSync(dbPath);
+  });
+
+  it('should report distribution and override rates from the latest decision of each transaction', () => {
+    const coffee = categoryRepo.create(userId, 'Coffee', null, []);
+    const food = categoryRepo.create(userId, 'Food', null, []);
+    const first = recordDecision('first', { categoryId: coffee.id, source: 'description', confidence: 'high' }, null);
+    recordDecision('second', { categoryId: coffee.id, source: 'vendor', confidence: 'medium' }, null);
+    recordDecision('third', { categoryId: 'unknown', source: 'unknown', confidence: 'low' }, null);
+    scoreRepo.recordUserOverride({
+      transactionId: first.id,
+      previousMainCategoryId: coffee.id,
+      newMainCategoryId: food.id,
+      userId,
+      timestamp: new Date(Date.now() + 1000),
+    });
+
+    const analytics = service.getAnalytics(userId);
+
+    expect(analytics.total).toBe(3);
+    expect(analytics.bySource).toEqual(
+      expect.arrayContaining([
+        { source: 'description', count: 1 },
+        { source: 'vendor', count: 1 },
+        { source: 'unknown', count: 1 },
+      ])
+    );
+    expect(analytics.byConfidence).toHaveLength(3);
+    expect(analytics.overridesByCategory).toEqual(
+      expect.arrayContaining([
+        { categoryId: coffee.id, decided: 2, overridden: 1 },
+        { categoryId: null, decided: 1, overridden: 0 },
+      ])
+    );
+  });
+
+  it('should simulate proposed thresholds without changing anything', async () => {
+    const coffee = categoryRepo.create(userId, 'Coffee', null, []);
+    const food = categoryRepo.create(userId, 'Food', null, []);
+    const borderline = recordDecision(
+      'borderline',
+      { categoryId: coffee.id, source: 'description', confidence: 'medium' },
+      { categoryId: coffee.id, score: 78 }
+    );
+    const weak = recordDecision(
+      'weak',
+      { categoryId: 'unknown', source: 'unknown', confidence: 'low' },
+      { categoryId: food.id, score: 65 }
+    );
+    recordDecision(
+      'strong',
+      { categoryId: coffee.id, source: 'description', confidence: 'high' },
+      { categoryId: coffee.id, score: 95 }
+    );
+    recordDecision('rule', { categoryId: food.id, source: 'rule', confidence: 'high' }, null);
+
+    const raised = await service.simulate(userId, { descriptionThreshold: 80 });
+    expect(raised).toMatchObject({ evaluated: 3, changed: 1, toUnknown: 1, fromUnknown: 0, switched: 0 });
+    expect(raised.proposed).toEqual({ ...raised.current, descriptionThreshold: 80 });
+    expect(raised.changes).toEqual([
+      expect.objectContaining({ transactionId: borderline.id, fromCategoryId: coffee.id, toCategoryId: null }),
+    ]);
+
+    const lowered = await service.simulate(userId, { descriptionThreshold: 60 });
+    expect(lowered).toMatchObject({ changed: 1, fromUnknown: 1 });
+    expect(lowered.changes[0]).toMatchObject({ transactionId: weak.id, toCategoryId: food.id, toSource: 'description' });
+
+    expect(service.getThresholds(userId).descriptionThreshold).toBe(75);
+    expect(thresholdRepo.get(userId)).toBeNull();
+  });
+
+  it('should apply and save thresholds for the user only', () => {
+    const otherUserId = new UserRepository(dbService.getDatabase()).create('otheruser', 'hash').id;
+    const applied = service.applyThresholds(userId, { vendorThreshold: 70 });
+
+    expect(applied).toEqual({ descriptionThreshold: 75, vendorThreshold: 70, descriptionAdvantage: 1.1 });
+    expect(categorizationService.getThresholds(userId)).toEqual(applied);
+    expect(thresholdRepo.get(userId)).toEqual(applied);
+    expect(categorizationService.getThresholds(otherUserId).vendorThreshold).toBe(60);
+    expect(thresholdRepo.get(otherUserId)).toBeNull();
+  });
+});
@@ -7,6 +7,10 @@ import { TransactionRepository } from '../../repositories/transaction.repository
 import { TransactionCategoryRepository } from '../../repositories/transaction-category.repository';
 import { CategoryRepository } from '../../repositories/category.repository';
 import { CategoryScoreRepository } from '../../repositories/category-score.repository';
+import { CategorizationRuleRepository } from '../../repositories/categorization-rule.repository';
+import { VendorCategoryMappingRepository } from '../../repositories/vendor-category-mapping.repository';
+import { CategorizationThresholdRepository } from '../../repositories/categorization-threshold.repository';
+import { TransactionService } from '../transaction.service';
 import { AccountRepository } from '../../repositories/account.repository';
 import { UserRepository } from '../../repositories/user.repository';
 import { Logger } from '../../utils/logger';
@@ -18,6 +22,12 @@ describe('CategorizationService', () => {
   let logger: Logger;
   let categorizationService: CategorizationService;
   let categoryRepo: CategoryRepository;
+  let ruleRepo: CategorizationRuleRepository;
+  let vendorMappingRepo: VendorCategoryMappingRepository;
+  let transactionRepo: TransactionRepository;
+  let accountRepo: AccountRepository;
+  let userRepo: UserRepository;
+  let testUserId: string;
 
   beforeEach(() => {
     const dir = path.dirname(testDbPath);
@@ -53,17 +63,28 @@ describe('CategorizationService', () => {
 
     categoryRepo = new CategoryRepository(db);
     const transactionCategoryRepo = new TransactionCategoryRepository(db);
-    const transactionRepo = new TransactionRepository(db, transactionCategoryRepo);
+    transactionRepo = new TransactionRepository(db, transactionCategoryRepo);
     const categoryScoreRepo = new CategoryScoreRepository(db, logger);
-    categorizationService = new CategorizationService(categoryRepo, transactionRepo, categoryScoreRepo, transactionCategoryRepo, logger);
+    ruleRepo = new CategorizationRuleRepository(db);
+    vendorMappingRepo = new VendorCategoryMappingRepository(db);
+    categorizationService = new CategorizationService(
+      categoryRepo,
+      transactionRepo,
+      categoryScoreRepo,
+      transactionCategoryRepo,
+      ruleRepo,
+      vendorMappingRepo,
+      new CategorizationThresholdRepository(db),
+      logger
+    );
 
     // Create test user first
-    const userRepo = new UserRepository(db);
+    userRepo = new UserRepository(db);
     const user = userRepo.create('testuser', 'password-hash');
-    const testUserId = user.id;
+    testUserId = user.id;
 
     // Create test account (for potential future use)
-    const accountRepo = new AccountRepository(db);
+    accountRepo = new AccountRepository(db);
     accountRepo.create(testUserId, '12345', 'hapoalim', 'Test Account');
   });
 
@@ -78,7 +99,7 @@ describe('CategorizationService', () => {
 
   describe('categorizeTransaction (sync mode)', () => {
     it('should categorize transaction description using simple matching', () => {
-      const result = categorizationService.categorizeTransaction('Supermarket shopping at Shoferssal');
+      const result = categorizationService.categorizeTransaction(testUserId, 'Supermarket shopping at Shoferssal');
 
       // When called with string, returns string[] (synchronous)
       expect(Array.isArray(result)).toBe(true);
@@ -88,7 +109,7 @@ describe('CategorizationService', () => {
     });
 
     it('should handle empty description gracefully', () => {
-      const result = categorizationService.categorizeTransaction('');
+      const result = categorizationService.categorizeTransaction(testUserId, '');
 
       expect(Array.isArray(result)).toBe(true);
     });
@@ -110,7 +131,7 @@ describe('CategorizationService', () => {
         rawDescription: 'SHOFERSSAL STORE 001',
       } as any;
 
-      const result = await categorizationService.categorizeTransaction(transaction);
+      const result = await categorizationService.categorizeTransaction(testUserId, transaction);
 
       // When called with Transaction object, it returns CategorizationResult
       expect(result).toHaveProperty('mainCategoryId');
@@ -125,13 +146,147 @@ describe('CategorizationService', () => {
 
   describe('recategorizeAll', () => {
     it('should process all transactions without error', async () => {
-      const result = await categorizationService.recategorizeAll();
+      const result = await categorizationService.recategorizeAll(testUserId);
 
       expect(result).toHaveProperty('processed');
       expect(result).toHaveProperty('updated');
       expect(typeof result.processed).toBe('number');
       expect(typeof result.updated).toBe('number');
     });
+
+    it("should only use and update the user's own categories", async () => {
+      const otherUserId = userRepo.create('otheruser', 'password-hash').id;
+      categoryRepo.create(testUserId, 'Groceries', null, ['shufersal']);
+      categoryRepo.create(otherUserId, 'Supermarket', null, ['shufersal']);
+      const otherAccount = accountRepo.create(otherUserId, '999', 'hapoalim', 'Other');
+      transactionRepo.create(otherAccount.id, 'hash-1', new Date(), new Date(), -50, 'ILS', 'Shufersal', 'completed', null, '{}');
+
+      const mine = categorizationService.categorizeTransaction(testUserId, 'Shufersal Deal') as string[];
+      const theirs = categorizationService.categorizeTransaction(otherUserId, 'Shufersal Deal') as string[];
+
+      expect(mine.map((id) => categoryRepo.findById(testUserId, id)?.name)).toEqual(['Groceries']);
+      expect(theirs.map((id) => categoryRepo.findById(otherUserId, id)?.name)).toEqual(['Supermarket']);
+      expect(categoryRepo.findById(testUserId, theirs[0])).toBeNull();
+      expect((await categorizationService.recategorizeAll(testUserId)).processed).toBe(0);
+    });
   });
-});
 
+  describe('categorization rules', () => {
+    it('should apply a matching rule before fuzzy matching and record it as the decision source', async () => {
+      const account = accountRepo.findByUserId(testUserId)[0];
+      const groceries = categoryRepo.create(testUserId, 'Groceries', null, ['shufersal']);
+      const household = categoryRepo.create(testUserId, 'Household', null, []);
+      const txn = transactionRepo.create(
+        account.id,
+        'hash-rule',
+        new Date(),
+        new Date(),
+        -80,
+        'ILS',
+        'Shufersal Deal',
+        'completed',
+        null,
+        '{}'
+      );
+      new TransactionCategoryRepository(db).attach(txn.id, groceries.id, false, true);
+      transactionRepo.setMainCategoryId(txn.id, groceries.id);
+
+      const rule = ruleRepo.create(testUserId, {
+        name: 'Big Shufersal trips',
+        categoryId: household.id,
+        conditions: [
+          { field: 'description', operator: 'contains', value: 'shufersal' },
+          { field: 'amount', min: 50 },
+        ],
+        priority: 0,
+        enabled: true,
+      });
+
+      const result = (await categorizationService.categorizeTransaction(testUserId, txn)) as CategorizationResult;
+      expect(result.mainCategoryId).toBe(household.id);
+      expect(result.decision).toMatchObject({ source: 'rule', ruleId: rule.id, confidence: 'high' });
+      expect(
+        db.prepare('SELECT decision_source, rule_id FROM category_scores WHERE transaction_id = ?').get(txn.id)
+      ).toEqual({ decision_source: 'rule', rule_id: rule.id });
+
+      await categorizationService.recategorizeAll(testUserId);
+      expect(transactionRepo.findById(txn.id)!.mainCategoryId).toBe(household.id);
+    });
+  });
+
+  describe('learning from overrides', () => {
+    it('should apply mappings learned from manual changes with confidence from the number of confirmations', async () => {
+      const account = accountRepo.findByUserId(testUserId)[0];
+      const dining = categoryRepo.create(testUserId, 'Dining', null, []);
+      const transactionCategoryRepo = new TransactionCategoryRepository(db);
+      const transactionService = new TransactionService(
+        logger,
+        transactionRepo,
+        transactionCategoryRepo,
+        categoryRepo,
+        new CategoryScoreRepository(db, logger)
+      );
+      const create = (hash: string, description: string, rawJson = '{}') =>
+        transactionRepo.create(account.id, hash, new Date(), new Date(), -60, 'ILS', description, 'completed', null, rawJson);
+
+      transactionService.setMainCategory(testUserId, create('hash-1', 'CAFE LANDWER TLV').id, dining.id);
+
+      const next = create('hash-2', 'Cafe Landwer, TLV');
+      let result = (await categorizationService.categorizeTransaction(testUserId, next)) as CategorizationResult;
+      expect(result.mainCategoryId).toBe(dining.id);
+      expect(result.decision).toMatchObject({ source: 'user', confidence: 'low' });
+      expect(db.prepare('SELECT decision_source FROM category_scores WHERE transaction_id = ?').get(next.id)).toEqual({
+        decision_source: 'user',
+      });
+
+      transactionService.setMainCategory(testUserId, next.id, dining.id);
+      transactionService.setMainCategory(testUserId, create('hash-3', 'Landwer Online', '{"merchantID":"77"}').id, dining.id);
+
+      result = (await categorizationService.categorizeTransaction(
+        testUserId,
+        create('hash-4', 'cafe landwer tlv')
+      )) as CategorizationResult;
+      expect(result.decision).toMatchObject({ source: 'user', confidence: 'medium' });
+      expect(result.decision.reason).toBe('Learned from 2 manual changes for this description');
+
+      result = (await categorizationService.categorizeTransaction(
+        testUserId,
+        create('hash-5', 'LANDWER APP', '{"merchantID":"77"}')
+      )) as CategorizationResult;
+      expect(result.decision).toMatchObject({ source: 'user', confidence: 'low', mainCategoryId: dining.id });
+    });
+  });
+
+  describe('vendor category codes', () => {
+    it('should map card company codes before fuzzy matching, preferring the user\'s own mappings', async () => {
+      const account = accountRepo.findByUserId(testUserId)[0];
+      const bills = categoryRepo.create(testUserId, 'Bills & Utilities', null, []);
+      const household = categoryRepo.create(testUserId, 'Household', null, []);
+      const create = (hash: string) =>
+        transactionRepo.create(
+          account.id,
+          hash,
+          new Date(),
+          new Date(),
+          -120,
+          'ILS',
+          'PAZGAS BAA',
+          'completed',
+          null,
+          JSON.stringify({ enrichmentData: { maxCategoryId: 7 } })
+        );
+
+      let result = (await categorizationService.categorizeTransaction(testUserId, create('hash-1'))) as CategorizationResult;
+      expect(result.mainCategoryId).toBe(bills.id);
+      expect(result.decision.source).toBe('vendor');
+      expect(result.scores.vendorMatch).toMatchObject({ categoryId: bills.id, final_score: 90 });
+
+      vendorMappingRepo.upsert(testUserId, 'max', ' 7 ', household.id);
+      result = (await categorizationService.categorizeTransaction(testUserId, create('hash-2'))) as CategorizationResult;
+      expect(result.mainCategoryId).toBe(household.id);
+      expect(categorizationService.getVendorCodeMappings(testUserId)).toContainEqual(
+        expect.objectContaining({ vendor: 'max', code: '7', categoryId: household.id, source: 'user' })
+      );
+    });
+  });
+});
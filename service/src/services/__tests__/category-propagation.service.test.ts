@@ -0,0 +1,151 @@
+import path from 'path';
+import fs from 'fs';
+import { DatabaseService } from '../../database/database.service';
+import { CategoryPropagationService } from '../category-propagation.service';
+import { TransactionService } from '../transaction.service';
+import { AccountRepository } from '../../repositories/account.repository';
+import { TransactionRepository } from '../../repositories/transaction.repository';
+import { TransactionCategoryRepository } from '../../repositories/transaction-category.repository';
+import { CategoryRepository } from '../../repositories/category.repository';
+import { CategoryScoreRepository } from '../../repositories/category-score.repository';
+import { OverrideLearningEngine } from '../override-learning.engine';
+import { UserRepository } from '../../repositories/user.repository';
+import { Logger } from '../../utils/logger';
+
+describe('CategoryPropagationService', () => {
+  const testDir = path.join(process.cwd(), 'test-data');
+  const dbPath = path.join(testDir, 'category-propagation-test.db');
+  const logger = new Logger({ level: 'error', filePath: testDir, console: false, file: false });
+
+  let dbService: DatabaseService;
+  let transactionRepo: TransactionRepository;
+  let transactionCategoryRepo: TransactionCategoryRepository;
+  let categoryRepo: CategoryRepository;
+  let scoreRepo: CategoryScoreRepository;
+  let transactionService: TransactionService;
+  let service: CategoryPropagationService;
+  let userId: string;
+  let accountId: string;
+
+  const createTransaction = (
+    hash: string,
+    description: string,
+    categoryId: string,
+    { isManual = false, rawJson = '{}' } = {}
+  ) => {
+    const txn = transactionRepo.create(
+      accountId,
+      hash,
+      new Date('2024-03-01'),
+      new Date('2024-03-01'),
+      -40,
+      'ILS',
+      description,
+      'completed',
+      null,
+      rawJson
+    );
+    transactionCategoryRepo.attach(txn.id, categoryId, isManual, true);
+    transactionRepo.setMainCategoryId(txn.id, categoryId);
+    return txn;
+  };
+
+  beforeEach(() => {
+    if (!fs.existsSync(testDir)) fs.mkdirSync(testDir, { recursive: true });
+    if (fs.existsSync(dbPath)) fs.unlinkSync(dbPath);
+
+    dbService = new DatabaseService(dbPath);
+    const db = dbService.getDatabase();
+    transactionCategoryRepo = new TransactionCategoryRepository(db);
+    transactionRepo = new TransactionRepository(db, transactionCategoryRepo);
+    categoryRepo = new CategoryRepository(db);
+    scoreRepo = new CategoryScoreRepository(db, logger);
+    transactionService = new TransactionService(
+      logger,
+      transactionRepo,
+      transactionCategoryRepo,
+      categoryRepo,
+      scoreRepo
+    );
+    service = new CategoryPropagationService(dbService, transactionRepo, transactionService, logger);
+
+    userId = new UserRepository(db).create('testuser', 'hash').id;
+    accountId = new AccountRepository(db).create(userId, '1234', 'max', 'Max').id;
+  });
+
+  afterEach(() => {
+    dbService.close();
+    if (fs.existsSync(dbPath)) fs.unlinkSync(dbPath);
+  });
+
+  it('should preview similar transactions without changing them', () => {
+    const other = categoryRepo.create(userId, 'Other', null, []);
+    const coffee = categoryRepo.create(userId, 'Coffee', null, []);
+    const source = createTransaction('source', 'AROMA ESPRESSO BAR', coffee.id, {
+      isManual: true,
+      rawJson: '{"merchantID":"9001"}',
+    });
+    const exact = createTransaction('exact', 'Aroma Espresso-Bar', other.id);
+    const fuzzy = createTransaction('fuzzy', 'AROMA ESPRESSO BAR TLV', other.id);
+    const merchant = createTransaction('merchant', 'AEB 123', other.id, { rawJson: '{"merchantID":"9001"}' });
+    createTransaction('unrelated', 'SHUFERSAL DEAL', other.id);
+    createTransaction('already', 'AROMA ESPRESSO BAR', coffee.id);
+    createTransaction('manual', 'AROMA ESPRESSO BAR', other.id, { isManual: true });
+
+    const preview = service.preview(userId, source.id, coffee.id);
+
+    expect(preview.skippedManual).toBe(1);
+    expect(preview.candidates.map((c) => [c.transactionId, c.matchedBy])).toEqual(
+      expect.arrayContaining([
+        [exact.id, 'description'],
+        [fuzzy.id, 'fuzzy'],
+        [merchant.id, 'merchantId'],
+      ])
+    );
+    expect(preview.candidates).toHaveLength(3);
+    expect(preview.candidates.find((c) => c.transactionId === exact.id)).toMatchObject({
+      currentCategoryId: other.id,
+      currentCategoryName: 'Other',
+      score: 100,
+    });
+    expect(transactionRepo.findById(exact.id)!.mainCategoryId).toBe(other.id);
+  });
+
+  it('should apply to the selected candidates only and skip manual main categories', () => {
+    const other = categoryRepo.create(userId, 'Other', null, []);
+    const coffee = categoryRepo.create(userId, 'Coffee', null, []);
+    const source = createTransaction('source', 'AROMA ESPRESSO BAR', coffee.id, { isManual: true });
+    const first = createTransaction('first', 'AROMA ESPRESSO BAR', other.id);
+    const second = createTransaction('second', 'aroma espresso bar', other.id);
+    const manual = createTransaction('manual', 'AROMA ESPRESSO BAR', other.id, { isManual: true });
+
+    const result = service.apply(userId, source.id, coffee.id, { transactionIds: [first.id, manual.id] });
+
+    expect(result.updated).toBe(1);
+    expect(result.skippedManual).toBe(1);
+    expect(transactionRepo.findById(first.id)!.mainCategoryId).toBe(coffee.id);
+    expect(transactionCategoryRepo.getMainCategory(first.id)).toMatchObject({ categoryId: coffee.id, isManual: true });
+    expect(transactionCategoryRepo.getByTransactionId(first.id).filter((c) => c.isMain)).toHaveLength(1);
+    expect(transactionRepo.findById(second.id)!.mainCategoryId).toBe(other.id);
+    expect(transactionRepo.findById(manual.id)!.mainCategoryId).toBe(other.id);
+  });
+
+  it('should not count propagated changes as confirmations of the learned mapping', () => {
+    const other = categoryRepo.create(userId, 'Other', null, []);
+    const coffee = categoryRepo.create(userId, 'Coffee', null, []);
+    const source = createTransaction('source', 'AROMA ESPRESSO BAR', other.id);
+    createTransaction('first', 'AROMA ESPRESSO BAR', other.id);
+    createTransaction('second', 'Aroma Espresso Bar', other.id);
+    transactionService.setMainCategory(userId, source.id, coffee.id);
+
+    const result = service.apply(userId, source.id, coffee.id);
+
+    expect(result.updated).toBe(2);
+    const learned = new OverrideLearningEngine().build(scoreRepo.getOverrideSignals(userId));
+    expect(learned.byDescription.get('aroma espresso bar')).toMatchObject({
+      categoryId: coffee.id,
+      confirmations: 1,
+      confidence: 'low',
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { FinancialFileService } from '../financial-file.service';
+import { Account, Transaction } from '../../types';
+
+describe('FinancialFileService', () => {
+  const service = new FinancialFileService();
+
+  const account = (id: string, accountType: 'bank' | 'credit'): Account => ({
+    id,
+    userId: 'user-1',
+    accountNumber: `${id}-number`,
+    companyId: accountType === 'bank' ? 'hapoalim' : 'max',
+    alias: `${id} alias`,
+    active: true,
+    accountType,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const transaction = (id: string, accountId: string, description: string, amount: number): Transaction => ({
+    id,
+    accountId,
+    txnHash: `hash-${id}`,
+    date: new Date(2024, 4, 3),
+    processedDate: new Date(2024, 4, 10),
+    amount,
+    currency: 'ILS',
+    description,
+    categories: [
+      {
+        id: `tc-${id}`,
+        categoryId: 'cat-1',
+        categoryName: 'Groceries',
+        isManual: false,
+        isMain: true,
+        createdAt: new Date(),
+      },
+    ],
+    mainCategoryId: 'cat-1',
+    status: 'completed',
+    installmentInfo: null,
+    rawJson: '{}',
+    isManual: false,
+    createdAt: new Date(),
+  });
+
+  describe('detectFormat', () => {
+    it('should recognise OFX, QFX and QIF extensions', () => {
+      expect(service.detectFormat('statement.OFX')).toBe('ofx');
+      expect(service.detectFormat('quicken.qfx')).toBe('ofx');
+      expect(service.detectFormat('money.qif')).toBe('qif');
+      expect(service.detectFormat('statement.csv')).toBeNull();
+    });
+  });
+
+  describe('parseOfx', () => {
+    it('should read SGML files with unclosed leaf tags', () => {
+      const ofx = [
+        'OFXHEADER:100',
+        'DATA:OFXSGML',
+        '',
+        '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>',
+        '<CURDEF>ILS',
+        '<BANKTRANLIST>',
+        '<STMTTRN>',
+        '<TRNTYPE>DEBIT',
+        '<DTPOSTED>20240305120000[+2:IST]',
+        '<TRNAMT>-120.50',
+        '<FITID>A1',
+        '<NAME>Shufersal &amp; Co',
+        '<MEMO>Branch 12',
+        '</STMTTRN>',
+        '<STMTTRN>',
+        '<TRNTYPE>CREDIT',
+        '<DTPOSTED>20240306',
+        '<DTUSER>20240304',
+        '<TRNAMT>5000',
+        '<FITID>A2',
+        '<MEMO>Salary',
+        '</STMTTRN>',
+        '</BANKTRANLIST>',
+        '</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>',
+      ].join('\n');
+
+      const transactions = service.parseOfx(ofx);
+
+      expect(transactions).toHaveLength(2);
+      expect(transactions[0]).toMatchObject({
+        chargedAmount: -120.5,
+        originalCurrency: 'ILS',
+        description: 'Shufersal & Co',
+        memo: 'Branch 12',
+        identifier: 'A1',
+        date: new Date(2024, 2, 5).toISOString(),
+      });
+      expect(transactions[1]).toMatchObject({
+        chargedAmount: 5000,
+        description: 'Salary',
+        date: new Date(2024, 2, 4).toISOString(),
+        processedDate: new Date(2024, 2, 6).toISOString(),
+      });
+    });
+
+    it('should reject files that are not OFX', () => {
+      expect(() => service.parseOfx('Date,Amount\n')).toThrow('Not an OFX file');
+    });
+  });
+
+  describe('parseQif', () => {
+    it('should read bank transactions and skip account lists', () => {
+      const qif = [
+        '!Account',
+        'NChecking',
+        'TBank',
+        '^',
+        '!Type:Bank',
+        "D3/ 5'24",
+        'T-1,250.00',
+        'PRent',
+        'MMarch',
+        'N1001',
+        '^',
+        'D25/03/2024',
+        'T300',
+        'PRefund',
+        '^',
+      ].join('\n');
+
+      const transactions = service.parseQif(qif);
+
+      expect(transactions).toHaveLength(2);
+      expect(transactions[0]).toMatchObject({
+        chargedAmount: -1250,
+        description: 'Rent',
+        memo: 'March',
+        identifier: '1001',
+        date: new Date(2024, 2, 5).toISOString(),
+      });
+      // The first part cannot be a month, so the date is day first
+      expect(transactions[1].date).toBe(new Date(2024, 2, 25).toISOString());
+    });
+  });
+
+  describe('export', () => {
+    const accounts = [account('bank', 'bank'), account('card', 'credit')];
+    const transactions = [
+      transaction('t1', 'bank', 'Supermarket', -89.9),
+      transaction('t2', 'card', 'A store with a rather long name & more', -15),
+    ];
+
+    it('should write one statement per account that reads back as the same transactions', () => {
+      const ofx = service.toOfx(transactions, accounts, new Date(2024, 4, 20));
+
+      expect(ofx).toContain('<BANKACCTFROM><BANKID>hapoalim</BANKID><ACCTID>bank-number</ACCTID>');
+      expect(ofx).toContain('<CCACCTFROM><ACCTID>card-number</ACCTID></CCACCTFROM>');
+
+      const parsed = service.parseOfx(ofx);
+      expect(parsed.map((t) => [t.identifier, t.chargedAmount])).toEqual([
+        ['t1', -89.9],
+        ['t2', -15],
+      ]);
+      expect(parsed[0].date).toBe(new Date(2024, 4, 3).toISOString());
+      expect(parsed[0].processedDate).toBe(new Date(2024, 4, 10).toISOString());
+      expect(parsed[1].memo).toBe('A store with a rather long name & more');
+    });
+
+    it('should write QIF with account headers and the main category', () => {
+      const qif = service.toQif(transactions, accounts);
+
+      expect(qif).toContain('!Account\r\nNbank alias\r\nTBank\r\n^\r\n!Type:Bank');
+      expect(qif).toContain('!Type:CCard');
+      expect(qif).toContain('LGroceries');
+
+      const parsed = service.parseQif(qif);
+      expect(parsed.map((t) => [t.description, t.chargedAmount])).toEqual([
+        ['Supermarket', -89.9],
+        ['A store with a rather long name & more', -15],
+      ]);
+      expect(parsed[0].date).toBe(new Date(2024, 4, 3).toISOString());
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { OverrideLearningEngine, normalizeDescription } from '../override-learning.engine';
+import { OverrideSignal } from '../../repositories/category-score.repository';
+import { Transaction } from '../../types';
+
+describe('OverrideLearningEngine', () => {
+  const engine = new OverrideLearningEngine();
+
+  const signal = (
+    transactionId: string,
+    categoryId: string,
+    minute: number,
+    description = 'Cafe Landwer',
+    rawJson = '{}'
+  ): OverrideSignal => ({
+    transactionId,
+    description,
+    rawJson,
+    categoryId,
+    overriddenAt: new Date(Date.UTC(2024, 0, 1, 12, minute)),
+  });
+
+  const transaction = (description: string, rawJson = '{}'): Transaction =>
+    ({ id: 'new', accountId: 'a1', description, amount: -50, rawJson }) as Transaction;
+
+  it('should normalize case, punctuation and spacing', () => {
+    expect(normalizeDescription('  CAFE-LANDWER,  Tel Aviv ')).toBe('cafe landwer tel aviv');
+    expect(normalizeDescription('שופרסל דיל')).toBe('שופרסל דיל');
+  });
+
+  it('should count only the latest override of each transaction', () => {
+    const mappings = engine.build([signal('t1', 'groceries', 1), signal('t1', 'dining', 2), signal('t2', 'dining', 3)]);
+
+    expect(mappings.byDescription.get('cafe landwer')).toMatchObject({
+      categoryId: 'dining',
+      confirmations: 2,
+      confidence: 'medium',
+    });
+  });
+
+  it('should follow the most recent choice when the user changes their mind', () => {
+    const mappings = engine.build([
+      signal('t1', 'dining', 1),
+      signal('t2', 'dining', 2),
+      signal('t3', 'dining', 3),
+      signal('t4', 'coffee', 4),
+    ]);
+
+    expect(engine.findMapping(mappings, transaction('CAFE LANDWER'))).toMatchObject({
+      categoryId: 'coffee',
+      confirmations: 1,
+      confidence: 'low',
+    });
+  });
+
+  it('should prefer a merchant ID mapping over the description', () => {
+    const mappings = engine.build([
+      signal('t1', 'dining', 1),
+      signal('t2', 'delivery', 2, 'Wolt', '{"merchantID":"42"}'),
+    ]);
+
+    expect(engine.findMapping(mappings, transaction('Cafe Landwer', '{"merchantID":"42"}'))?.categoryId).toBe(
+      'delivery'
+    );
+    expect(engine.findMapping(mappings, transaction('Cafe Landwer'))?.categoryId).toBe('dining');
+    expect(engine.findMapping(mappings, transaction('Aroma'))).toBeNull();
+  });
+
+  it('should raise confidence with confirmations', () => {
+    expect(OverrideLearningEngine.confidenceFor(1)).toBe('low');
+    expect(OverrideLearningEngine.confidenceFor(2)).toBe('medium');
+    expect(OverrideLearningEngine.confidenceFor(5)).toBe('high');
+  });
+});
@@ -0,0 +1,605 @@
+import path from 'path';
+import fs from 'fs';
+import Database from 'better-sqlite3';
+import { DatabaseService } from '../../database/database.service';
+import { ScraperOrchestratorService, ScraperJobEvent } from '../scraper-orchestrator.service';
+import { ScraperService, ScraperResult, ScrapedAccount, BankTransaction } from '../scraper.service';
+import { CredentialService } from '../credential.service';
+import { TransactionService } from '../transaction.service';
+import { CategorizationService } from '../categorization.service';
+import { AccountRepository } from '../../repositories/account.repository';
+import { CredentialRepository } from '../../repositories/credential.repository';
+import { TransactionRepository } from '../../repositories/transaction.repository';
+import { TransactionCategoryRepository } from '../../repositories/transaction-category.repository';
+import { CategoryRepository } from '../../repositories/category.repository';
+import { CategoryScoreRepository } from '../../repositories/category-score.repository';
+import { CategorizationRuleRepository } from '../../repositories/categorization-rule.repository';
+import { VendorCategoryMappingRepository } from '../../repositories/vendor-category-mapping.repository';
+import { CategorizationThresholdRepository } from '../../repositories/categorization-threshold.repository';
+import { ScraperJobRepository } from '../../repositories/scraper-job.repository';
+import { BalanceSnapshotRepository } from '../../repositories/balance-snapshot.repository';
+import { UserRepository } from '../../repositories/user.repository';
+import { ScrapingOptionsSchema } from '../../config/config.schema';
+import { Logger } from '../../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('ScraperOrchestratorService', () => {
+  const testDbPath = path.join(process.cwd(), 'test-data', 'scraper-orchestrator-test.db');
+  const testDir = path.dirname(testDbPath);
+  let dbService: DatabaseService;
+  let db: Database.Database;
+  let logger: Logger;
+  let accountRepo: AccountRepository;
+  let userId: string;
+
+  const createOrchestrator = (
+    scraping: Record<string, unknown> = {},
+    scraperService: ScraperService = new ScraperService(logger, testDir)
+  ) => {
+    const transactionCategoryRepo = new TransactionCategoryRepository(db);
+    const transactionRepo = new TransactionRepository(db, transactionCategoryRepo);
+    const categoryRepo = new CategoryRepository(db);
+
+    return new ScraperOrchestratorService(
+      scraperService,
+      new CredentialService('test-encryption-key-that-is-at-least-32-chars'),
+      accountRepo,
+      new CredentialRepository(db),
+      transactionRepo,
+      new TransactionService(logger, transactionRepo, transactionCategoryRepo, categoryRepo),
+      new CategorizationService(
+        categoryRepo,
+        transactionRepo,
+        new CategoryScoreRepository(db, logger),
+        transactionCategoryRepo,
+        new CategorizationRuleRepository(db),
+        new VendorCategoryMappingRepository(db),
+        new CategorizationThresholdRepository(db),
+        logger
+      ),
+      new ScraperJobRepository(db),
+      new BalanceSnapshotRepository(db),
+      ScrapingOptionsSchema.parse({ daysBack: 30, ...scraping }),
+      logger
+    );
+  };
+
+  beforeAll(() => {
+    if (!fs.existsSync(testDir)) {
+      fs.mkdirSync(testDir, { recursive: true });
+    }
+
+    if (fs.existsSync(testDbPath)) {
+      try {
+        fs.unlinkSync(testDbPath);
+      } catch (error) {
+        // Ignore errors - file might be locked or not exist
+      }
+    }
+
+    dbService = new DatabaseService(testDbPath);
+    db = dbService.getDatabase();
+    logger = new Logger({ level: 'error', filePath: testDir, console: false, file: false });
+    accountRepo = new AccountRepository(db);
+  });
+
+  afterAll(() => {
+    if (db) {
+      db.close();
+    }
+
+    if (fs.existsSync(testDbPath)) {
+      try {
+        fs.unlinkSync(testDbPath);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+    }
+  });
+
+  beforeEach(() => {
+    db.exec('DELETE FROM users');
+    userId = new UserRepository(db).create('testuser', 'hash').id;
+  });
+
+  describe('getOverlapDays', () => {
+    it('should use built-in defaults per institution', () => {
+      const orchestrator = createOrchestrator();
+
+      expect(orchestrator.getOverlapDays('hapoalim')).toBe(3);
+      expect(orchestrator.getOverlapDays('max')).toBe(7);
+      expect(orchestrator.getOverlapDays('isracard')).toBe(3);
+    });
+
+    it('should prefer configured overrides', () => {
+      const orchestrator = createOrchestrator({ syncOverlapDays: { max: 10, default: 5 } });
+
+      expect(orchestrator.getOverlapDays('max')).toBe(10);
+      expect(orchestrator.getOverlapDays('hapoalim')).toBe(5);
+      // Built-in institution defaults still win over the configured fallback
+      expect(orchestrator.getOverlapDays('visaCal')).toBe(7);
+    });
+  });
+
+  describe('getSyncStartDate', () => {
+    it('should start the institution overlap before the last scrape', () => {
+      const orchestrator = createOrchestrator();
+      const account = accountRepo.create(userId, '1234', 'max', 'Card');
+      account.lastScrapedAt = new Date(2025, 5, 10);
+
+      const start = orchestrator.getSyncStartDate(account);
+
+      expect(start.getTime()).toBe(new Date(2025, 5, 10).getTime() - 7 * DAY_MS);
+    });
+
+    it('should honour an explicit overlap', () => {
+      const orchestrator = createOrchestrator();
+      const account = accountRepo.create(userId, '1234', 'max', 'Card');
+      account.lastScrapedAt = new Date(2025, 5, 10);
+
+      const start = orchestrator.getSyncStartDate(account, 1);
+
+      expect(start.getTime()).toBe(new Date(2025, 5, 10).getTime() - DAY_MS);
+    });
+
+    it('should go back daysBack for accounts never scraped', () => {
+      const orchestrator = createOrchestrator();
+      const account = accountRepo.create(userId, '1234', 'hapoalim', 'Bank');
+      const now = new Date(2025, 5, 10);
+
+      const start = orchestrator.getSyncStartDate(account, undefined, now);
+
+      expect(start.getTime()).toBe(now.getTime() - 30 * DAY_MS);
+    });
+  });
+
+  describe('multiple accounts per login', () => {
+    const credentialService = new CredentialService('test-encryption-key-that-is-at-least-32-chars');
+
+    const txn = (description: string, amount: number): BankTransaction => ({
+      type: 'normal',
+      date: '2025-06-01T00:00:00.000Z',
+      processedDate: '2025-06-01T00:00:00.000Z',
+      originalAmount: amount,
+      originalCurrency: 'ILS',
+      chargedAmount: amount,
+      description,
+      status: 'completed',
+    });
+
+    const scrapeWith = async (accountId: string, accounts: ScrapedAccount[]) => {
+      const scraperService = new ScraperService(logger, testDir);
+      jest.spyOn(scraperService, 'scrapeMultiple').mockResolvedValue([
+        {
+          success: true,
+          accountNumber: accounts[0]?.accountNumber,
+          accounts,
+          transactions: accounts.flatMap((a) => a.transactions),
+          transactionsCount: accounts.reduce((sum, a) => sum + a.transactions.length, 0),
+          duration: 0,
+        },
+      ]);
+
+      const orchestrator = createOrchestrator({}, scraperService);
+      const job = await orchestrator.createJob(userId, [accountId]);
+      return orchestrator.executeJob(job, {});
+    };
+
+    beforeEach(() => {
+      const stored = credentialService.prepareStoredCredential(userId, 'Max', 'max', {
+        username: 'user',
+        password: 'pass',
+      });
+      new CredentialRepository(db).create(
+        stored.userId,
+        stored.accountName,
+        stored.companyId,
+        stored.encryptedData,
+        stored.iv,
+        stored.salt
+      );
+    });
+
+    it('should keep a single returned account on the login account', async () => {
+      const account = accountRepo.create(userId, 'user', 'max', 'Max');
+
+      const job = await scrapeWith(account.id, [
+        { accountNumber: '1111', transactions: [txn('Coffee', -10)] },
+      ]);
+
+      expect(job.results[0].transactionsCount).toBe(1);
+      expect(accountRepo.findChildren(account.id)).toHaveLength(0);
+    });
+
+    it('should create one child account per returned card and store transactions on it', async () => {
+      const account = accountRepo.create(userId, 'user', 'max', 'Max');
+
+      const job = await scrapeWith(account.id, [
+        { accountNumber: '1111', transactions: [txn('Coffee', -10)] },
+        { accountNumber: '2222', transactions: [txn('Books', -50), txn('Fuel', -200)] },
+      ]);
+
+      const children = accountRepo.findChildren(account.id);
+      expect(children.map((c) => c.accountNumber).sort()).toEqual(['1111', '2222']);
+      expect(children.every((c) => c.companyId === 'max' && c.userId === userId)).toBe(true);
+      expect(job.results[0].transactionsCount).toBe(3);
+
+      const second = children.find((c) => c.accountNumber === '2222')!;
+      const count = db
+        .prepare('SELECT COUNT(*) AS count FROM transactions WHERE account_id = ?')
+        .get(second.id) as { count: number };
+      expect(count.count).toBe(2);
+    });
+
+    it('should match existing child accounts on later scrapes', async () => {
+      const account = accountRepo.create(userId, 'user', 'max', 'Max');
+      const cards = [
+        { accountNumber: '1111', transactions: [txn('Coffee', -10)] },
+        { accountNumber: '2222', transactions: [txn('Books', -50)] },
+      ];
+
+      await scrapeWith(account.id, cards);
+      const job = await scrapeWith(account.id, cards);
+
+      expect(accountRepo.findChildren(account.id)).toHaveLength(2);
+      expect(job.results[0].transactionsCount).toBe(0);
+    });
+
+    it('should skip imported statement rows that were already scraped', async () => {
+      const account = accountRepo.create(userId, 'user', 'max', 'Max');
+      await scrapeWith(account.id, [{ accountNumber: '1111', transactions: [txn('Coffee', -10)] }]);
+      const scrapedAt = accountRepo.findById(account.id)!.lastScrapedAt;
+
+      const result = await createOrchestrator().importTransactions(accountRepo.findById(account.id)!, [
+        txn('Coffee', -10),
+        txn('Groceries', -120),
+      ]);
+
+      expect(result).toEqual({ total: 2, imported: 1 });
+      expect(accountRepo.findById(account.id)!.lastScrapedAt).toEqual(scrapedAt);
+    });
+
+    it('should load the categorization context once per batch of transactions', async () => {
+      const account = accountRepo.create(userId, 'user', 'max', 'Max');
+      const loadContext = jest.spyOn(CategorizationService.prototype, 'loadContext');
+
+      try {
+        const result = await createOrchestrator().importTransactions(account, [
+          txn('Coffee', -10),
+          txn('Groceries', -120),
+          txn('Fuel', -200),
+        ]);
+
+        expect(result.imported).toBe(3);
+        expect(loadContext).toHaveBeenCalledTimes(1);
+      } finally {
+        loadContext.mockRestore();
+      }
+    });
+
+    it('should scrape child accounts through their login account', async () => {
+      const account = accountRepo.create(userId, 'user', 'max', 'Max');
+      const child = accountRepo.create(userId, '1111', 'max', 'Max - 1111', true, null, account.id);
+
+      const orchestrator = createOrchestrator();
+      const job = await orchestrator.createJob(userId, [child.id, account.id]);
+
+      expect(job.accountsToScrape).toEqual([account.id]);
+    });
+
+    it('should leave manual accounts out of scrape jobs', async () => {
+      const account = accountRepo.create(userId, 'user', 'max', 'Max');
+      const cash = accountRepo.create(userId, '', 'manual', 'Cash');
+
+      const orchestrator = createOrchestrator();
+      const job = await orchestrator.createJob(userId, [cash.id, account.id]);
+      const activeJob = await orchestrator.createActiveAccountsJob(userId);
+
+      expect(job.accountsToScrape).toEqual([account.id]);
+      expect(activeJob.accountsToScrape).toEqual([account.id]);
+    });
+  });
+
+  describe('one-time passwords', () => {
+    const credentialService = new CredentialService('test-encryption-key-that-is-at-least-32-chars');
+    let credentialRepo: CredentialRepository;
+    let accountId: string;
+
+    beforeEach(() => {
+      credentialRepo = new CredentialRepository(db);
+      accountId = accountRepo.create(userId, 'me@example.com', 'oneZero', 'One Zero').id;
+
+      const stored = credentialService.prepareStoredCredential(userId, 'One Zero', 'oneZero', {
+        username: 'me@example.com',
+        password: 'pass',
+        phoneNumber: '0501234567',
+      });
+      credentialRepo.create(
+        stored.userId,
+        stored.accountName,
+        stored.companyId,
+        stored.encryptedData,
+        stored.iv,
+        stored.salt
+      );
+    });
+
+    it('should pause an interactive job until the code is submitted and store the long-term token', async () => {
+      const scraperService = new ScraperService(logger, testDir);
+      let receivedCode = '';
+      jest.spyOn(scraperService, 'scrapeMultiple').mockImplementation(async (accounts) => {
+        receivedCode = await accounts[0].otpCodeRetriever!('SMS');
+        return [
+          { success: true, accounts: [], transactions: [], transactionsCount: 0, duration: 0, otpLongTermToken: 'token-1' },
+        ];
+      });
+
+      const orchestrator = createOrchestrator({}, scraperService);
+      const job = await orchestrator.createJob(userId, [accountId]);
+      const events: ScraperJobEvent[] = [];
+      orchestrator.subscribeToJob(job.id, (event) => events.push(event));
+
+      const running = orchestrator.executeJob(job, { interactive: true });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(job.status).toBe('waiting_for_otp');
+      expect(events.some((e) => e.type === 'otp' && e.accountId === accountId)).toBe(true);
+
+      expect(orchestrator.submitOtp(userId, job.id, '123456')).toBe(true);
+      await running;
+
+      expect(receivedCode).toBe('123456');
+      expect(job.status).toBe('completed');
+      const credential = credentialRepo.findByUserIdAndAccountName(userId, 'One Zero')!;
+      expect(credentialService.retrieveCredentials(credential).otpLongTermToken).toBe('token-1');
+    });
+
+    it('should not offer an OTP prompt to non-interactive jobs', async () => {
+      const scraperService = new ScraperService(logger, testDir);
+      const scrapeMultiple = jest.spyOn(scraperService, 'scrapeMultiple').mockResolvedValue([
+        {
+          success: false,
+          transactions: [],
+          transactionsCount: 0,
+          duration: 0,
+          error: 'One-time password required',
+          errorClass: 'otp_required',
+          waitingForOTP: true,
+        },
+      ]);
+
+      const orchestrator = createOrchestrator({}, scraperService);
+      const job = await orchestrator.executeJob(await orchestrator.createJob(userId, [accountId]), {});
+
+      expect(scrapeMultiple.mock.calls[0][0][0].otpCodeRetriever).toBeUndefined();
+      expect(scrapeMultiple).toHaveBeenCalledTimes(1);
+      expect(job.status).toBe('failed');
+    });
+
+    it('should reject codes for jobs that are not waiting', async () => {
+      const orchestrator = createOrchestrator();
+      const job = await orchestrator.createJob(userId, [accountId]);
+
+      expect(orchestrator.submitOtp(userId, job.id, '123456')).toBe(false);
+    });
+  });
+
+  describe('retry policy', () => {
+    const credentialService = new CredentialService('test-encryption-key-that-is-at-least-32-chars');
+    let accountId: string;
+
+    const failure = (errorClass: ScraperResult['errorClass']): ScraperResult => ({
+      success: false,
+      transactions: [],
+      transactionsCount: 0,
+      duration: 0,
+      error: 'Failed',
+      errorClass,
+    });
+
+    const runWith = async (results: ScraperResult[], scraping: Record<string, unknown> = {}) => {
+      const scraperService = new ScraperService(logger, testDir);
+      const scrapeMultiple = jest.spyOn(scraperService, 'scrapeMultiple');
+      for (const result of results) {
+        scrapeMultiple.mockResolvedValueOnce([result]);
+      }
+
+      const orchestrator = createOrchestrator(scraping, scraperService);
+      const wait = jest.spyOn(orchestrator as any, 'wait').mockResolvedValue(undefined);
+      const job = await orchestrator.executeJob(await orchestrator.createJob(userId, [accountId]), {});
+      return { job, scrapeMultiple, wait };
+    };
+
+    beforeEach(() => {
+      accountId = accountRepo.create(userId, 'user', 'max', 'Max').id;
+      const stored = credentialService.prepareStoredCredential(userId, 'Max', 'max', {
+        username: 'user',
+        password: 'pass',
+      });
+      new CredentialRepository(db).create(
+        stored.userId,
+        stored.accountName,
+        stored.companyId,
+        stored.encryptedData,
+        stored.iv,
+        stored.salt
+      );
+    });
+
+    it('should never retry invalid credentials', async () => {
+      const { job, scrapeMultiple } = await runWith([failure('invalid_credentials')]);
+
+      expect(scrapeMultiple).toHaveBeenCalledTimes(1);
+      expect(job.results[0].errorClass).toBe('invalid_credentials');
+      expect(job.results[0].attempts).toBe(1);
+    });
+
+    it('should back off exponentially on rate limits and keep the last result', async () => {
+      const { job, scrapeMultiple, wait } = await runWith([
+        failure('rate_limited'),
+        failure('rate_limited'),
+        { success: true, accounts: [], transactions: [], transactionsCount: 0, duration: 0 },
+      ]);
+
+      expect(scrapeMultiple).toHaveBeenCalledTimes(3);
+      expect(wait.mock.calls.map((c) => c[0])).toEqual([60000, 120000]);
+      expect(job.status).toBe('completed');
+      expect(job.results[0]).toMatchObject({ success: true, errorClass: null, attempts: 3 });
+    });
+
+    it('should stop once the policy runs out', async () => {
+      const { job, scrapeMultiple } = await runWith([failure('generic'), failure('generic')]);
+
+      expect(scrapeMultiple).toHaveBeenCalledTimes(2);
+      expect(job.results[0]).toMatchObject({ success: false, errorClass: 'generic', attempts: 2 });
+    });
+
+    it('should keep screenshots from every attempt and only serve them to the job owner', async () => {
+      const shot = (fileName: string) => ({ fileName, stage: 'FAILED', takenAt: 1 });
+      const { job } = await runWith([
+        { ...failure('timeout'), screenshots: [shot('max_Max_1_FAILED.png')] },
+        { ...failure('timeout'), screenshots: [shot('max_Max_2_FAILED.png')] },
+        { ...failure('timeout'), screenshots: [] },
+      ]);
+
+      expect(job.results[0].screenshots.map((s) => s.fileName)).toEqual([
+        'max_Max_1_FAILED.png',
+        'max_Max_2_FAILED.png',
+      ]);
+
+      const scraperService = new ScraperService(logger, testDir);
+      const getScreenshotFile = jest.spyOn(scraperService, 'getScreenshotFile').mockReturnValue('/tmp/shot.png');
+      const orchestrator = createOrchestrator({}, scraperService);
+
+      expect(orchestrator.getJobScreenshots(userId, job.id)).toHaveLength(2);
+      expect(orchestrator.getJobScreenshots('someone-else', job.id)).toBeNull();
+      expect(orchestrator.getJobScreenshotFile(userId, job.id, 'max_Max_1_FAILED.png')).toBe('/tmp/shot.png');
+      expect(orchestrator.getJobScreenshotFile(userId, job.id, 'other.png')).toBeNull();
+      expect(getScreenshotFile).toHaveBeenCalledTimes(1);
+    });
+
+    it('should honour configured policies', async () => {
+      const { scrapeMultiple } = await runWith([failure('timeout')], {
+        retryPolicies: { timeout: { maxRetries: 0, baseDelayMs: 0 } },
+      });
+
+      expect(scrapeMultiple).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('background jobs', () => {
+    const credentialService = new CredentialService('test-encryption-key-that-is-at-least-32-chars');
+    let accountId: string;
+
+    const success: ScraperResult = { success: true, accounts: [], transactions: [], transactionsCount: 0, duration: 0 };
+
+    /**
+     * An orchestrator whose scraper reports a stage, then waits until released.
+     */
+    const createGatedOrchestrator = (outcome: () => ScraperResult[]) => {
+      const scraperService = new ScraperService(logger, testDir);
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => (release = resolve));
+      const scrapeMultiple = jest.spyOn(scraperService, 'scrapeMultiple').mockImplementation(async (accounts) => {
+        accounts[0].onProgress?.('LOGGING_IN');
+        await gate;
+        return outcome();
+      });
+      return { orchestrator: createOrchestrator({}, scraperService), scrapeMultiple, release };
+    };
+
+    const waitForEnd = (orchestrator: ScraperOrchestratorService, jobId: string) =>
+      new Promise<void>((resolve) =>
+        orchestrator.subscribeToJob(jobId, (event) => event.type === 'job' && resolve())
+      );
+
+    beforeEach(() => {
+      accountId = accountRepo.create(userId, 'user', 'max', 'Max').id;
+      const stored = credentialService.prepareStoredCredential(userId, 'Max', 'max', {
+        username: 'user',
+        password: 'pass',
+      });
+      new CredentialRepository(db).create(
+        stored.userId,
+        stored.accountName,
+        stored.companyId,
+        stored.encryptedData,
+        stored.iv,
+        stored.salt
+      );
+    });
+
+    it('should return at once and complete the job in the background', async () => {
+      const { orchestrator, scrapeMultiple, release } = createGatedOrchestrator(() => [success]);
+      const job = await orchestrator.createJob(userId, [accountId]);
+      const ended = waitForEnd(orchestrator, job.id);
+
+      orchestrator.startJob(job, {});
+
+      expect(job.status).toBe('pending');
+      expect(scrapeMultiple).not.toHaveBeenCalled();
+
+      await new Promise((resolve) => setImmediate(resolve));
+
+      // While it runs the job is served from memory, with live progress
+      const live = orchestrator.getJob(userId, job.id)!;
+      expect(live).toBe(job);
+      expect(live.status).toBe('running');
+      expect(live.progress).toEqual([expect.objectContaining({ accountId, stage: 'LOGGING_IN' })]);
+
+      release();
+      await ended;
+
+      // Once done it is read back from the database
+      const persisted = orchestrator.getJob(userId, job.id)!;
+      expect(persisted).not.toBe(job);
+      expect(persisted.status).toBe('completed');
+      expect(persisted.results).toEqual([expect.objectContaining({ accountId, success: true })]);
+      expect(orchestrator.getJob('someone-else', job.id)).toBeNull();
+    });
+
+    it('should mark the job failed when the scrape throws in the background', async () => {
+      const { orchestrator, release } = createGatedOrchestrator(() => {
+        throw new Error('Browser crashed');
+      });
+      const job = await orchestrator.createJob(userId, [accountId]);
+      const ended = waitForEnd(orchestrator, job.id);
+
+      orchestrator.startJob(job, {});
+      release();
+      await ended;
+
+      expect(orchestrator.getJob(userId, job.id)).toMatchObject({ status: 'failed' });
+    });
+
+    it('should publish the events of a job to its subscribers until they unsubscribe', async () => {
+      const { orchestrator, release } = createGatedOrchestrator(() => [success]);
+      const job = await orchestrator.createJob(userId, [accountId]);
+      const events: ScraperJobEvent[] = [];
+      const leftEarly: ScraperJobEvent[] = [];
+      const otherJob: ScraperJobEvent[] = [];
+      orchestrator.subscribeToJob(job.id, (event) => events.push(event));
+      const unsubscribe = orchestrator.subscribeToJob(job.id, (event) => leftEarly.push(event));
+      orchestrator.subscribeToJob('other-job', (event) => otherJob.push(event));
+      const ended = waitForEnd(orchestrator, job.id);
+
+      orchestrator.startJob(job, {});
+      await new Promise((resolve) => setImmediate(resolve));
+      unsubscribe();
+      release();
+      await ended;
+
+      expect(events.map((e) => (e.type === 'stage' ? e.stage : e.type))).toEqual([
+        'QUEUED',
+        'LOGGING_IN',
+        'result',
+        'DONE',
+        'job',
+      ]);
+      expect(events[events.length - 1]).toMatchObject({ type: 'job', jobId: job.id, status: 'completed' });
+      expect(leftEarly).toEqual(events.slice(0, 2));
+      expect(otherJob).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import path from 'path';
+import fs from 'fs';
+import Database from 'better-sqlite3';
+import { DatabaseService } from '../../database/database.service';
+import { ScraperSchedulerService } from '../scraper-scheduler.service';
+import { ScraperOrchestratorService } from '../scraper-orchestrator.service';
+import { ScrapeScheduleRepository } from '../../repositories/scrape-schedule.repository';
+import { AccountRepository } from '../../repositories/account.repository';
+import { UserRepository } from '../../repositories/user.repository';
+import { ScrapingOptionsSchema } from '../../config/config.schema';
+import { Logger } from '../../utils/logger';
+
+describe('ScraperSchedulerService', () => {
+  const testDbPath = path.join(process.cwd(), 'test-data', 'scraper-scheduler-test.db');
+  const testDir = path.dirname(testDbPath);
+  let dbService: DatabaseService;
+  let db: Database.Database;
+  let scheduleRepo: ScrapeScheduleRepository;
+  let accountRepo: AccountRepository;
+  let orchestrator: { createJob: jest.Mock; executeJob: jest.Mock };
+  let scheduler: ScraperSchedulerService;
+  let userId: string;
+
+  beforeAll(() => {
+    if (!fs.existsSync(testDir)) {
+      fs.mkdirSync(testDir, { recursive: true });
+    }
+
+    if (fs.existsSync(testDbPath)) {
+      try {
+        fs.unlinkSync(testDbPath);
+      } catch (error) {
+        // Ignore errors - file might be locked or not exist
+      }
+    }
+
+    dbService = new DatabaseService(testDbPath);
+    db = dbService.getDatabase();
+    scheduleRepo = new ScrapeScheduleRepository(db);
+    accountRepo = new AccountRepository(db);
+  });
+
+  afterAll(() => {
+    if (db) {
+      db.close();
+    }
+
+    if (fs.existsSync(testDbPath)) {
+      try {
+        fs.unlinkSync(testDbPath);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+    }
+  });
+
+  beforeEach(() => {
+    db.exec('DELETE FROM users');
+    userId = new UserRepository(db).create('testuser', 'hash').id;
+
+    orchestrator = {
+      createJob: jest.fn().mockImplementation(async (uid: string, accountIds: string[]) => ({
+        id: 'job-1',
+        userId: uid,
+        accountsToScrape: accountIds,
+      })),
+      executeJob: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const logger = new Logger({ level: 'error', filePath: testDir, console: false, file: false });
+    scheduler = new ScraperSchedulerService(
+      scheduleRepo,
+      accountRepo,
+      orchestrator as unknown as ScraperOrchestratorService,
+      ScrapingOptionsSchema.parse({ daysBack: 30 }),
+      logger
+    );
+  });
+
+  describe('computeNextRun', () => {
+    it('should return the next matching time after the given date', () => {
+      const from = new Date(2025, 0, 1, 7, 0);
+      const next = scheduler.computeNextRun('0 6 * * *', from);
+
+      expect(next).toEqual(new Date(2025, 0, 2, 6, 0));
+    });
+
+    it('should throw on an invalid expression', () => {
+      expect(() => scheduler.computeNextRun('not a cron')).toThrow('Invalid cron expression');
+    });
+  });
+
+  describe('tick', () => {
+    it('should run due schedules since last sync and advance their next run', async () => {
+      const account = accountRepo.create(userId, '1234', 'hapoalim', 'Bank');
+      const now = new Date(2025, 0, 1, 6, 0);
+      const schedule = scheduleRepo.create(userId, account.id, '0 6 * * *', 7, true, now);
+
+      await scheduler.tick(now);
+
+      expect(orchestrator.createJob).toHaveBeenCalledWith(userId, [account.id]);
+      expect(orchestrator.executeJob).toHaveBeenCalledTimes(1);
+      const options = orchestrator.executeJob.mock.calls[0][1];
+      expect(options.startDate).toBeUndefined();
+      expect(options.overlapDays).toBe(7);
+
+      const updated = scheduleRepo.findById(schedule.id)!;
+      expect(updated.lastRunAt).toEqual(now);
+      expect(updated.nextRunAt).toEqual(new Date(2025, 0, 2, 6, 0));
+      expect(updated.lastJobId).toBe('job-1');
+    });
+
+    it('should not run schedules that are disabled or not yet due', async () => {
+      const first = accountRepo.create(userId, '1', 'hapoalim', 'Bank');
+      const second = accountRepo.create(userId, '2', 'max', 'Card');
+      const now = new Date(2025, 0, 1, 6, 0);
+      scheduleRepo.create(userId, first.id, '0 6 * * *', 7, false, now);
+      scheduleRepo.create(userId, second.id, '0 6 * * *', 7, true, new Date(now.getTime() + 1000));
+
+      await scheduler.tick(now);
+
+      expect(orchestrator.createJob).not.toHaveBeenCalled();
+    });
+
+    it('should skip inactive accounts but still advance the schedule', async () => {
+      const account = accountRepo.create(userId, '1234', 'hapoalim', 'Bank', false);
+      const now = new Date(2025, 0, 1, 6, 0);
+      const schedule = scheduleRepo.create(userId, account.id, '0 6 * * *', 7, true, now);
+
+      await scheduler.tick(now);
+
+      expect(orchestrator.createJob).not.toHaveBeenCalled();
+      expect(scheduleRepo.findById(schedule.id)!.nextRunAt).toEqual(new Date(2025, 0, 2, 6, 0));
+    });
+  });
+});
@@ -1,3 +1,5 @@
+import path from 'path';
+import fs from 'fs';
 import { ScraperService, ScraperOptions } from '../scraper.service';
 import { Logger } from '../../utils/logger';
 
@@ -391,5 +393,146 @@ describe('ScraperService', () => {
       });
     });
   });
+
+  describe('One-time password login', () => {
+    const credentials = { email: 'me@example.com', password: 'pass', phoneNumber: '0501234567' };
+    const createFakeScraper = () => ({
+      triggerTwoFactorAuth: jest.fn().mockResolvedValue({ success: true }),
+      getLongTermTwoFactorToken: jest.fn().mockResolvedValue({ success: true, longTermTwoFactorAuthToken: 'token-1' }),
+    });
+
+    it('should only require an OTP for One Zero', () => {
+      expect((scraperService as any).requiresOtp('oneZero')).toBe(true);
+      expect((scraperService as any).requiresOtp('hapoalim')).toBe(false);
+    });
+
+    it('should use a stored long-term token without asking for a code', async () => {
+      const scraper = createFakeScraper();
+      const retriever = jest.fn();
+
+      const result = await (scraperService as any).resolveOtpCredentials(
+        scraper,
+        'One Zero',
+        { ...credentials, otpLongTermToken: 'stored-token' },
+        retriever
+      );
+
+      expect(result).toEqual({
+        success: true,
+        credentials: { email: 'me@example.com', password: 'pass', otpLongTermToken: 'stored-token' },
+      });
+      expect(scraper.triggerTwoFactorAuth).not.toHaveBeenCalled();
+      expect(retriever).not.toHaveBeenCalled();
+    });
+
+    it('should report waitingForOTP when no retriever is available', async () => {
+      const result = await (scraperService as any).resolveOtpCredentials(createFakeScraper(), 'One Zero', credentials);
+
+      expect(result.success).toBe(false);
+      expect(result.waitingForOTP).toBe(true);
+    });
+
+    it('should exchange the retrieved code for a long-term token', async () => {
+      const scraper = createFakeScraper();
+      const retriever = jest.fn().mockResolvedValue('123456');
+
+      const result = await (scraperService as any).resolveOtpCredentials(scraper, 'One Zero', credentials, retriever);
+
+      expect(scraper.triggerTwoFactorAuth).toHaveBeenCalledWith('0501234567');
+      expect(retriever).toHaveBeenCalledWith('SMS');
+      expect(scraper.getLongTermTwoFactorToken).toHaveBeenCalledWith('123456');
+      expect(result.newToken).toBe('token-1');
+      expect(result.credentials.otpLongTermToken).toBe('token-1');
+    });
+
+    it('should report waitingForOTP when the code never arrives', async () => {
+      const retriever = jest.fn().mockRejectedValue(new Error('Timed out waiting for one-time password'));
+
+      const result = await (scraperService as any).resolveOtpCredentials(
+        createFakeScraper(),
+        'One Zero',
+        credentials,
+        retriever
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.waitingForOTP).toBe(true);
+    });
+  });
+
+  describe('classifyError', () => {
+    it('should prefer the scraper error type', () => {
+      expect(scraperService.classifyError('INVALID_PASSWORD', 'Something failed')).toBe('invalid_credentials');
+      expect(scraperService.classifyError('ACCOUNT_BLOCKED')).toBe('invalid_credentials');
+      expect(scraperService.classifyError('CHANGE_PASSWORD')).toBe('change_password');
+      expect(scraperService.classifyError('TIMEOUT')).toBe('timeout');
+    });
+
+    it('should fall back to the error message', () => {
+      expect(scraperService.classifyError(undefined, 'Request failed with status code 429')).toBe('rate_limited');
+      expect(scraperService.classifyError(undefined, 'Block Automation')).toBe('rate_limited');
+      expect(scraperService.classifyError(undefined, 'Navigation timeout of 30000 ms exceeded')).toBe('timeout');
+      expect(scraperService.classifyError('GENERIC', 'Invalid password')).toBe('invalid_credentials');
+    });
+
+    it('should default to generic', () => {
+      expect(scraperService.classifyError('GENERAL_ERROR', 'Unexpected page structure')).toBe('generic');
+      expect(scraperService.classifyError()).toBe('generic');
+    });
+  });
+
+  describe('Screenshots', () => {
+    const screenshotDir = path.join(process.cwd(), 'test-data', 'screenshots');
+    let service: ScraperService;
+
+    const createFakePage = (closed = false) => ({
+      isClosed: jest.fn().mockReturnValue(closed),
+      screenshot: jest.fn().mockImplementation(async ({ path: filePath }: { path: string }) => {
+        fs.writeFileSync(filePath, 'png');
+      }),
+    });
+
+    beforeEach(() => {
+      service = new ScraperService(mockLogger, screenshotDir);
+    });
+
+    afterAll(() => {
+      fs.rmSync(screenshotDir, { recursive: true, force: true });
+    });
+
+    it('should write the page screenshot under the screenshot directory', async () => {
+      const page = createFakePage();
+
+      const shot = await (service as any).captureScreenshot(page, 'max_Max_1000', 'LOGGING_IN', 'Max');
+
+      expect(shot).toMatchObject({ fileName: 'max_Max_1000_LOGGING_IN.png', stage: 'LOGGING_IN' });
+      expect(service.getScreenshotFile(shot.fileName)).toBe(path.join(screenshotDir, shot.fileName));
+    });
+
+    it('should skip pages that are already closed', async () => {
+      const page = createFakePage(true);
+
+      const shot = await (service as any).captureScreenshot(page, 'max_Max_1000', 'FAILED', 'Max');
+
+      expect(shot).toBeNull();
+      expect(page.screenshot).not.toHaveBeenCalled();
+    });
+
+    it('should ignore capture errors', async () => {
+      const page = createFakePage();
+      page.screenshot.mockRejectedValue(new Error('Target closed'));
+
+      await expect((service as any).captureScreenshot(page, 'max_Max_1000', 'FAILED', 'Max')).resolves.toBeNull();
+    });
+
+    it('should only resolve plain png file names', () => {
+      expect(service.getScreenshotFile('../config.json')).toBeNull();
+      expect(service.getScreenshotFile('missing.png')).toBeNull();
+    });
+
+    it('should build file names safe for the file system', () => {
+      expect((service as any).getScreenshotPrefix('max', 'My Card / 1234', 1000)).toBe('max_My_Card_1234_1000');
+    });
+  });
 });
 
@@ -0,0 +1,98 @@
+import { PassThrough } from 'stream';
+import ExcelJS from 'exceljs';
+import { SpreadsheetExportService } from '../spreadsheet-export.service';
+import { Account, Transaction } from '../../types';
+
+describe('SpreadsheetExportService', () => {
+  const service = new SpreadsheetExportService();
+
+  const account: Account = {
+    id: 'card',
+    userId: 'user-1',
+    accountNumber: '1234',
+    companyId: 'max',
+    alias: 'Max Card',
+    active: true,
+    accountType: 'credit',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const transaction = (id: string, description: string, amount: number): Transaction => ({
+    id,
+    accountId: 'card',
+    txnHash: `hash-${id}`,
+    date: new Date(2024, 4, 3),
+    processedDate: new Date(2024, 5, 2),
+    amount,
+    currency: 'ILS',
+    description,
+    categories: [
+      {
+        id: `tc-${id}`,
+        categoryId: 'cat-1',
+        categoryName: 'Electronics',
+        isManual: false,
+        isMain: true,
+        createdAt: new Date(),
+      },
+    ],
+    mainCategoryId: 'cat-1',
+    status: 'completed',
+    installmentInfo: { number: 2, total: 6 },
+    rawJson: '{}',
+    isManual: false,
+    createdAt: new Date(),
+  });
+
+  const collect = async (write: (output: PassThrough) => Promise<void>): Promise<Buffer> => {
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on('data', (chunk) => chunks.push(Buffer.from(chunk)));
+    const ended = new Promise((resolve) => output.on('end', resolve));
+    await write(output);
+    await ended;
+    return Buffer.concat(chunks);
+  };
+
+  const withEnrichment = Object.assign(transaction('t1', 'Ksp, "Online"', -450.5), {
+    enrichmentData: { sector: 'Computers', maxCategoryId: 7 },
+  });
+  const transactions = [withEnrichment, transaction('t2', '=HYPERLINK("x")', -20)];
+
+  it('should write CSV rows with quoting and enrichment fields', async () => {
+    const csv = (await collect((output) => service.writeCsv(output, transactions, [account]))).toString('utf8');
+    const lines = csv.replace(/^\uFEFF/, '').trimEnd().split('\r\n');
+
+    expect(lines[0].split(',').slice(0, 6)).toEqual([
+      'Date',
+      'Processed Date',
+      'Account',
+      'Description',
+      'Category',
+      'Amount',
+    ]);
+    expect(lines[1]).toBe(
+      '2024-05-03,2024-06-02,Max Card,"Ksp, ""Online""",Electronics,-450.5,ILS,completed,2,6,no,Computers,7,,,,,,,'
+    );
+    // Formulas are not run when the file is opened in a spreadsheet
+    expect(lines[2]).toContain(`"'=HYPERLINK(""x"")"`);
+  });
+
+  it('should write an XLSX sheet that keeps the local dates', async () => {
+    const buffer = await collect((output) => service.writeXlsx(output, transactions, [account]));
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer as any);
+    const sheet = workbook.getWorksheet('Transactions')!;
+
+    expect(sheet.rowCount).toBe(3);
+    expect(sheet.getRow(1).getCell(4).value).toBe('Description');
+    const row = sheet.getRow(2);
+    expect((row.getCell(1).value as Date).toISOString()).toBe('2024-05-03T00:00:00.000Z');
+    expect(row.getCell(3).value).toBe('Max Card');
+    expect(row.getCell(6).value).toBe(-450.5);
+    expect(row.getCell(9).value).toBe(2);
+    expect(row.getCell(12).value).toBe('Computers');
+  });
+});
@@ -0,0 +1,138 @@
+import ExcelJS from 'exceljs';
+import { StatementImportService } from '../statement-import.service';
+import { FinancialFileService } from '../financial-file.service';
+import { Logger } from '../../utils/logger';
+
+// Hebrew letters sit at 0xE0-0xFA in windows-1255, everything else used here is ASCII
+function toWindows1255(text: string): Buffer {
+  return Buffer.from(
+    Array.from(text).map((ch) => {
+      const code = ch.charCodeAt(0);
+      return code >= 0x05d0 && code <= 0x05ea ? 0xe0 + (code - 0x05d0) : code;
+    })
+  );
+}
+
+describe('StatementImportService', () => {
+  let importService: StatementImportService;
+
+  beforeEach(() => {
+    const mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    } as any as Logger;
+
+    importService = new StatementImportService(new FinancialFileService(), mockLogger);
+  });
+
+  describe('bank CSV exports', () => {
+    const csv = [
+      'תנועות בחשבון 12-345-678901',
+      '',
+      'תאריך,תאריך ערך,תיאור הפעולה,אסמכתא,בחובה,בזכות,יתרה',
+      '05/03/2024,06/03/2024,סופר פארם,1001,"1,250.40",,10000',
+      '07/03/2024,07/03/2024,משכורת,1002,,"12,000.00",22000',
+      ',,סה"כ,,1250.40,12000,',
+    ].join('\n');
+
+    it('should find the header row below the title lines and combine debit and credit', async () => {
+      const result = await importService.parse(Buffer.from(csv, 'utf8'), 'statement.csv', 'hapoalim');
+
+      expect(result.transactions).toHaveLength(2);
+      expect(result.skippedRows).toBe(1);
+
+      const [expense, income] = result.transactions;
+      expect(expense.description).toBe('סופר פארם');
+      expect(expense.chargedAmount).toBe(-1250.4);
+      expect(expense.identifier).toBe('1001');
+      expect(expense.date).toBe(new Date(2024, 2, 5).toISOString());
+      expect(expense.processedDate).toBe(new Date(2024, 2, 6).toISOString());
+      expect(income.chargedAmount).toBe(12000);
+      expect(income.originalCurrency).toBe('ILS');
+    });
+
+    it('should read windows-1255 encoded files', async () => {
+      const result = await importService.parse(toWindows1255(csv), 'statement.csv', 'hapoalim');
+
+      expect(result.transactions).toHaveLength(2);
+      expect(result.transactions[0].description).toBe('סופר פארם');
+    });
+
+    it('should fail when the mapped headers are missing', async () => {
+      await expect(importService.parse(Buffer.from(csv, 'utf8'), 'statement.csv', 'max')).rejects.toThrow(
+        'Could not find the expected column headers'
+      );
+    });
+
+    it('should reject unknown presets', async () => {
+      await expect(importService.parse(Buffer.from(csv, 'utf8'), 'statement.csv', 'nope')).rejects.toThrow(
+        'Unknown import preset'
+      );
+    });
+  });
+
+  describe('credit card exports', () => {
+    it('should turn charges into expenses and read installments from the notes', async () => {
+      const csv = [
+        'תאריך עסקה;שם בית העסק;סכום חיוב;מטבע חיוב;תאריך חיוב;הערות',
+        '01-02-2024;מחסני חשמל;300.00;₪;10-03-2024;תשלום 2 מתוך 6',
+        '03-02-2024;החזר;-50;₪;10-03-2024;',
+      ].join('\n');
+
+      const result = await importService.parse(Buffer.from(csv, 'utf8'), 'max.csv', 'max');
+
+      expect(result.transactions).toHaveLength(2);
+      expect(result.transactions[0]).toMatchObject({
+        type: 'installments',
+        chargedAmount: -300,
+        originalCurrency: 'ILS',
+        installments: { number: 2, total: 6 },
+      });
+      expect(result.transactions[1].chargedAmount).toBe(50);
+    });
+
+    it('should read XLSX files with real date cells', async () => {
+      const workbook = new ExcelJS.Workbook();
+      const sheet = workbook.addWorksheet('עסקאות');
+      sheet.addRow(['פירוט עסקאות']);
+      sheet.addRow(['תאריך עסקה', 'שם בית עסק', 'סכום חיוב', 'תאריך חיוב']);
+      sheet.addRow([new Date(Date.UTC(2024, 0, 15)), 'קפה', 18.5, '10/02/2024']);
+      const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+
+      const result = await importService.parse(buffer, 'cal.xlsx', 'visaCal');
+
+      expect(result.transactions).toHaveLength(1);
+      expect(result.transactions[0].date).toBe(new Date(2024, 0, 15).toISOString());
+      expect(result.transactions[0].processedDate).toBe(new Date(2024, 1, 10).toISOString());
+      expect(result.transactions[0].chargedAmount).toBe(-18.5);
+    });
+  });
+
+  it('should accept a custom column mapping', async () => {
+    const csv = 'Date,Payee,Amount\n2024-04-01,Rent,-4500\n';
+
+    const result = await importService.parse(Buffer.from(csv, 'utf8'), 'export.csv', undefined, {
+      date: ['Date'],
+      description: ['Payee'],
+      amount: ['Amount'],
+    });
+
+    expect(result.transactions).toHaveLength(1);
+    expect(result.transactions[0].chargedAmount).toBe(-4500);
+    expect(result.transactions[0].date).toBe(new Date(2024, 3, 1).toISOString());
+  });
+
+  it('should read QIF files without a preset', async () => {
+    const qif = '!Type:CCard\nD04/01/2024\nT-42.00\nPCinema\n^\n';
+
+    expect(importService.requiresMapping('card.qif')).toBe(false);
+    expect(importService.requiresMapping('card.csv')).toBe(true);
+
+    const result = await importService.parse(Buffer.from(qif, 'utf8'), 'card.qif');
+
+    expect(result.transactions).toHaveLength(1);
+    expect(result.transactions[0]).toMatchObject({ description: 'Cinema', chargedAmount: -42 });
+  });
+});
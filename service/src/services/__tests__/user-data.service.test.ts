@@ -0,0 +1,170 @@
+import path from 'path';
+import fs from 'fs';
+import { DatabaseService } from '../../database/database.service';
+import { UserDataService } from '../user-data.service';
+import { AccountRepository } from '../../repositories/account.repository';
+import { TransactionRepository } from '../../repositories/transaction.repository';
+import { TransactionCategoryRepository } from '../../repositories/transaction-category.repository';
+import { CategoryRepository } from '../../repositories/category.repository';
+import { CategoryScoreRepository } from '../../repositories/category-score.repository';
+import { UserRepository } from '../../repositories/user.repository';
+import { Logger } from '../../utils/logger';
+
+describe('UserDataService', () => {
+  const testDir = path.join(process.cwd(), 'test-data');
+  const logger = new Logger({ level: 'error', filePath: testDir, console: false, file: false });
+
+  // Each instance stands for a separate installation with its own database
+  const createInstance = (name: string) => {
+    const dbPath = path.join(testDir, `user-data-${name}-test.db`);
+    if (fs.existsSync(dbPath)) fs.unlinkSync(dbPath);
+
+    const dbService = new DatabaseService(dbPath);
+    const db = dbService.getDatabase();
+    const accountRepo = new AccountRepository(db);
+    const transactionCategoryRepo = new TransactionCategoryRepository(db);
+    const transactionRepo = new TransactionRepository(db, transactionCategoryRepo);
+    const categoryRepo = new CategoryRepository(db);
+    const categoryScoreRepo = new CategoryScoreRepository(db, logger);
+
+    return {
+      dbPath,
+      dbService,
+      accountRepo,
+      transactionRepo,
+      transactionCategoryRepo,
+      categoryRepo,
+      categoryScoreRepo,
+      userId: new UserRepository(db).create('testuser', 'hash').id,
+      service: new UserDataService(
+        dbService,
+        accountRepo,
+        transactionRepo,
+        transactionCategoryRepo,
+        categoryRepo,
+        categoryScoreRepo,
+        logger
+      ),
+    };
+  };
+
+  let source: ReturnType<typeof createInstance>;
+  let target: ReturnType<typeof createInstance>;
+
+  beforeEach(() => {
+    if (!fs.existsSync(testDir)) {
+      fs.mkdirSync(testDir, { recursive: true });
+    }
+    source = createInstance('source');
+    target = createInstance('target');
+
+    const bank = source.accountRepo.create(source.userId, '123456', 'hapoalim', 'Main Bank');
+    source.accountRepo.create(source.userId, '4321', 'hapoalim', 'Card', true, null, bank.id);
+    const groceries = source.categoryRepo.create(source.userId, 'Groceries', null, ['shufersal']);
+    const dining = source.categoryRepo.create(source.userId, 'Dining', null, ['cafe']);
+
+    const coffee = source.transactionRepo.create(
+      bank.id,
+      'hash-coffee',
+      new Date(2025, 0, 5),
+      new Date(2025, 0, 6),
+      -18,
+      'ILS',
+      'Cafe Shufersal',
+      'completed',
+      null,
+      '{}',
+      dining.id,
+      { sector: 'Food' }
+    );
+    source.transactionCategoryRepo.attach(coffee.id, dining.id, true, true);
+    source.categoryScoreRepo.recordUserOverride({
+      transactionId: coffee.id,
+      previousMainCategoryId: groceries.id,
+      newMainCategoryId: dining.id,
+      userId: source.userId,
+      timestamp: new Date(2025, 0, 7),
+    });
+  });
+
+  afterEach(() => {
+    for (const instance of [source, target]) {
+      instance.dbService.close();
+      if (fs.existsSync(instance.dbPath)) fs.unlinkSync(instance.dbPath);
+    }
+  });
+
+  it('should export accounts without credentials and transactions with their categories', () => {
+    const bundle = source.service.exportBundle(source.userId);
+
+    expect(bundle.version).toBe(1);
+    expect(bundle.accounts.map((a) => a.alias).sort()).toEqual(['Card', 'Main Bank']);
+    expect(JSON.stringify(bundle.accounts)).not.toMatch(/password|encrypted/i);
+    expect(bundle.transactions).toHaveLength(1);
+    expect(bundle.transactions[0]).toMatchObject({
+      txnHash: 'hash-coffee',
+      enrichmentData: { sector: 'Food' },
+      categories: [{ isManual: true, isMain: true }],
+    });
+    expect(bundle.categoryOverrides).toHaveLength(1);
+  });
+
+  it('should restore a bundle into another instance only once', () => {
+    const bundle = source.service.exportBundle(source.userId);
+
+    const first = target.service.importBundle(target.userId, bundle);
+    const second = target.service.importBundle(target.userId, bundle);
+
+    expect(first).toMatchObject({
+      accountsCreated: 2,
+      categoriesCreated: 2,
+      transactionsImported: 1,
+      overridesImported: 1,
+    });
+    expect(second).toMatchObject({
+      accountsCreated: 0,
+      accountsMatched: 2,
+      categoriesCreated: 0,
+      transactionsImported: 0,
+      transactionsSkipped: 1,
+      overridesImported: 0,
+    });
+
+    const accounts = target.accountRepo.findByUserId(target.userId);
+    // Free IDs are kept, so later scrapes produce the same transaction hashes
+    expect(accounts.map((a) => a.id).sort()).toEqual(bundle.accounts.map((a) => a.id).sort());
+    expect(accounts.find((a) => a.alias === 'Card')?.parentAccountId).toBe(
+      accounts.find((a) => a.alias === 'Main Bank')?.id
+    );
+
+    const [restored] = target.transactionRepo.findWithFilters({ accountIds: accounts.map((a) => a.id) });
+    expect(restored.date.getTime()).toBe(new Date(2025, 0, 5).getTime());
+    expect(restored.mainCategoryId).toBe(target.categoryRepo.findByName(target.userId, 'Dining')?.id);
+    expect(restored.categories[0]).toMatchObject({ categoryName: 'Dining', isManual: true, isMain: true });
+    expect(target.categoryScoreRepo.findOverridesByUserId(target.userId)).toHaveLength(1);
+  });
+
+  it('should match accounts the user already added by institution and account number', () => {
+    const existing = target.accountRepo.create(target.userId, '123456', 'hapoalim', 'Bank With Login');
+
+    const result = target.service.importBundle(target.userId, source.service.exportBundle(source.userId));
+
+    expect(result.accountsMatched).toBe(1);
+    expect(result.accountsCreated).toBe(1);
+    expect(target.transactionRepo.findByHash(existing.id, 'hash-coffee')).not.toBeNull();
+  });
+
+  it('should read ZIP bundles and reject invalid ones', async () => {
+    const zip = await source.service.exportZip(source.userId);
+    const bundle = await target.service.readBundle(zip);
+    expect(bundle.transactions).toHaveLength(1);
+
+    await expect(target.service.readBundle(Buffer.from('not json'))).rejects.toThrow('Bundle is not valid JSON');
+    await expect(
+      target.service.readBundle(Buffer.from(JSON.stringify({ ...bundle, version: 99 })))
+    ).rejects.toThrow('newer than this server supports');
+    await expect(
+      target.service.readBundle(Buffer.from(JSON.stringify({ ...bundle, accounts: [{ id: 'x' }] })))
+    ).rejects.toThrow(/^Invalid bundle: accounts\.0/);
+  });
+});
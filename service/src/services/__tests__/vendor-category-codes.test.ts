@@ -0,0 +1,50 @@
+import { extractVendorCode, resolveVendorMappings, vendorCodeKey } from '../vendor-category-codes';
+
+describe('vendor-category-codes', () => {
+  describe('extractVendorCode', () => {
+    it('should read the code of each card company from enrichment data', () => {
+      expect(extractVendorCode({ rawJson: '{}', enrichmentData: { sector: 'מסעדות ובר' } })).toEqual({
+        vendor: 'isracard',
+        code: 'מסעדות ובר',
+      });
+      expect(extractVendorCode({ rawJson: JSON.stringify({ enrichmentData: { maxCategoryId: 2 } }) })).toEqual({
+        vendor: 'max',
+        code: '2',
+      });
+      expect(
+        extractVendorCode({ rawJson: '{}', enrichmentData: { merchantMetadata: { branchCodeDesc: 'Pharmacy' } } })
+      ).toEqual({ vendor: 'visaCal', code: 'Pharmacy' });
+    });
+
+    it('should return null without enrichment data', () => {
+      expect(extractVendorCode({ rawJson: '{}' })).toBeNull();
+      expect(extractVendorCode({ rawJson: 'not json' })).toBeNull();
+    });
+  });
+
+  describe('resolveVendorMappings', () => {
+    it('should resolve defaults by category name and let the user\'s mappings replace them', () => {
+      const mappings = resolveVendorMappings(
+        [{ id: 'm1', vendor: 'max', code: '2', categoryId: 'cafes' }],
+        [
+          { id: 'food', name: 'food & dining' },
+          { id: 'cafes', name: 'Cafes' },
+          { id: 'shopping', name: 'Shopping' },
+        ]
+      );
+      const byKey = new Map(mappings.map((m) => [vendorCodeKey(m.vendor, m.code), m]));
+
+      expect(byKey.get('max:2')).toMatchObject({ categoryId: 'cafes', source: 'user', mappingId: 'm1' });
+      expect(byKey.get(vendorCodeKey('isracard', 'מסעדות ובר'))).toMatchObject({
+        categoryId: 'food',
+        source: 'default',
+      });
+      expect(byKey.get(vendorCodeKey('visaCal', 'RETAIL_CLOTHING'))).toMatchObject({
+        categoryId: 'shopping',
+        source: 'default',
+      });
+      expect(byKey.get('max:6')).toMatchObject({ categoryId: null, source: 'default' });
+      expect(mappings.filter((m) => m.vendor === 'max' && m.code === '2')).toHaveLength(1);
+    });
+  });
+});
@@ -1,7 +1,8 @@
 import { Logger } from '../utils/logger';
 import { TransactionRepository } from '../repositories/transaction.repository';
 import { AccountRepository } from '../repositories/account.repository';
-import { Transaction, Account } from '../types';
+import { BalanceSnapshotRepository, toSnapshotDate } from '../repositories/balance-snapshot.repository';
+import { Transaction, Account, Category } from '../types';
 
 export interface DateRange {
   startDate: Date;
@@ -35,17 +36,34 @@ export interface ExpenseTrend {
 }
 
 export interface CategoryDistribution {
+  categoryId: string;
   category: string;
   totalAmount: number;
   percentage: number;
   transactionCount: number;
+  hasChildren: boolean; // The slice rolls up subcategories and can be expanded with parentId
+}
+
+export type CategoryDistributionLevel = 'parent' | 'leaf';
+
+export interface CategoryDistributionOptions {
+  categories: Category[]; // The user's categories, used to walk the tree
+  level: CategoryDistributionLevel;
+  parentId?: string; // Limit the distribution to this category's subtree
+}
+
+export interface NetWorthPoint {
+  date: string; // YYYY-MM-DD
+  netWorth: number;
+  balances: Record<string, number>; // Balance per account ID, carried forward from its last snapshot
 }
 
 export class AnalyticsService {
   constructor(
     private logger: Logger,
     private transactionRepository: TransactionRepository,
-    private accountRepository: AccountRepository
+    private accountRepository: AccountRepository,
+    private balanceSnapshotRepository: BalanceSnapshotRepository
   ) {}
 
   getLastDataUpdate(accountIds: string[]): Date | null {
@@ -244,13 +262,21 @@ export class AnalyticsService {
     return trends;
   }
 
+  /**
+   * Expenses per category. At the leaf level every category stands alone; at the parent level
+   * subcategories roll up into their top-level category, or, with a parentId, into the child of
+   * that category they sit under. Expenses filed on the parent itself then get their own slice.
+   */
   calculateCategoryDistribution(
     accountIds: string[],
-    dateRange: DateRange
+    dateRange: DateRange,
+    options: CategoryDistributionOptions = { categories: [], level: 'leaf' }
   ): CategoryDistribution[] {
     this.logger.calculationLog('Calculating category distribution', {
       accountIds,
       dateRange,
+      level: options.level,
+      parentId: options.parentId,
     });
 
     // getTotalsByCategory now returns only expenses (amount < 0) pre-filtered
@@ -260,16 +286,46 @@ export class AnalyticsService {
       dateRange.endDate
     );
 
-    const totalExpenses = Math.abs(
-      categoryTotals.reduce((sum, c) => sum + c.total, 0)
-    );
+    const byId = new Map(options.categories.map((c) => [c.id, c]));
+    const parentIds = new Set(options.categories.map((c) => c.parentCategory).filter((id): id is string => !!id));
+    const buckets = new Map<string, CategoryDistribution>();
+
+    for (const cat of categoryTotals) {
+      // The category followed by its ancestors, nearest first
+      const path = [cat.categoryId];
+      for (let parent = byId.get(cat.categoryId)?.parentCategory; parent && !path.includes(parent); ) {
+        path.push(parent);
+        parent = byId.get(parent)?.parentCategory;
+      }
 
-    const distribution: CategoryDistribution[] = categoryTotals.map((cat) => ({
-      category: cat.category,
-      totalAmount: Math.abs(cat.total),
-      percentage: totalExpenses > 0 ? (Math.abs(cat.total) / totalExpenses) * 100 : 0,
-      transactionCount: cat.count,
-    }));
+      const scopeIndex = options.parentId ? path.indexOf(options.parentId) : path.length;
+      if (scopeIndex === -1) continue;
+
+      let bucketId = cat.categoryId;
+      let hasChildren = false;
+      if (options.level === 'parent' && scopeIndex > 0) {
+        bucketId = path[scopeIndex - 1];
+        hasChildren = parentIds.has(bucketId);
+      }
+
+      const bucket = buckets.get(bucketId) ?? {
+        categoryId: bucketId,
+        category: byId.get(bucketId)?.name ?? cat.category,
+        totalAmount: 0,
+        percentage: 0,
+        transactionCount: 0,
+        hasChildren,
+      };
+      bucket.totalAmount += Math.abs(cat.total);
+      bucket.transactionCount += cat.count;
+      buckets.set(bucketId, bucket);
+    }
+
+    const distribution = [...buckets.values()];
+    const totalExpenses = distribution.reduce((sum, c) => sum + c.totalAmount, 0);
+    for (const entry of distribution) {
+      entry.percentage = totalExpenses > 0 ? (entry.totalAmount / totalExpenses) * 100 : 0;
+    }
 
     distribution.sort((a, b) => b.totalAmount - a.totalAmount);
 
@@ -329,6 +385,58 @@ export class AnalyticsService {
     return summary;
   }
 
+  /**
+   * Net worth per day that has at least one balance snapshot.
+   * Each account contributes its most recent balance, so accounts scraped on
+   * different days still add up; balances from before the range carry into it.
+   */
+  calculateNetWorthSeries(accountIds: string[], dateRange: DateRange): NetWorthPoint[] {
+    this.logger.calculationLog('Calculating net worth series', {
+      accountIds,
+      dateRange,
+    });
+
+    const startDate = toSnapshotDate(dateRange.startDate);
+    const endDate = toSnapshotDate(dateRange.endDate);
+
+    const current = new Map<string, number>();
+    for (const snapshot of this.balanceSnapshotRepository.findLatestBefore(accountIds, startDate)) {
+      current.set(snapshot.accountId, snapshot.balance);
+    }
+
+    const snapshotsByDate = new Map<string, Array<{ accountId: string; balance: number }>>();
+    for (const snapshot of this.balanceSnapshotRepository.findByAccountIds(accountIds, startDate, endDate)) {
+      const existing = snapshotsByDate.get(snapshot.date) || [];
+      existing.push({ accountId: snapshot.accountId, balance: snapshot.balance });
+      snapshotsByDate.set(snapshot.date, existing);
+    }
+
+    const series: NetWorthPoint[] = [];
+    const toPoint = (date: string): NetWorthPoint => ({
+      date,
+      netWorth: Array.from(current.values()).reduce((sum, b) => sum + b, 0),
+      balances: Object.fromEntries(current),
+    });
+
+    if (current.size > 0 && !snapshotsByDate.has(startDate)) {
+      series.push(toPoint(startDate));
+    }
+
+    const sortedDates = Array.from(snapshotsByDate.keys()).sort((a, b) => a.localeCompare(b));
+    for (const date of sortedDates) {
+      for (const { accountId, balance } of snapshotsByDate.get(date)!) {
+        current.set(accountId, balance);
+      }
+      series.push(toPoint(date));
+    }
+
+    this.logger.calculationLog('Net worth series calculated', {
+      pointsCount: series.length,
+      latestNetWorth: series.length > 0 ? series[series.length - 1].netWorth : null,
+    });
+
+    return series;
+  }
 
   private getPeriodKey(date: Date, granularity: 'daily' | 'monthly'): string {
     if (granularity === 'daily') {
@@ -1,6 +1,8 @@
 import bcrypt from 'bcrypt';
 import { Logger } from '../utils/logger';
 import { UserRepository } from '../repositories/user.repository';
+import { CategoryRepository } from '../repositories/category.repository';
+import { CategoryMapping } from '../config/config.schema';
 import { User } from '../types';
 import { randomUUID } from 'crypto';
 
@@ -19,7 +21,9 @@ export class AuthService {
 
   constructor(
     private logger: Logger,
-    private userRepository: UserRepository
+    private userRepository: UserRepository,
+    private categoryRepository: CategoryRepository,
+    private defaultCategories: CategoryMapping[]
   ) {}
 
   async register(username: string, password: string): Promise<{ user: User; session: Session }> {
@@ -37,6 +41,8 @@ export class AuthService {
 
     const passwordHash = await bcrypt.hash(password, this.SALT_ROUNDS);
     const user = this.userRepository.create(username, passwordHash);
+    // Each user edits their own copy of the default categories
+    this.categoryRepository.createDefaults(user.id, this.defaultCategories);
 
     const session = this.createSession(user);
 
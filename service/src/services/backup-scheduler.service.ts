@@ -0,0 +1,86 @@
+import { parseExpression } from 'cron-parser';
+import { BackupService } from './backup.service';
+import { DatabaseService } from '../database/database.service';
+import { BackupConfig } from '../config/config.schema';
+import { Logger } from '../utils/logger';
+
+/**
+ * Takes a database backup whenever the configured cron expression fires.
+ * Polls on an interval like the scraper scheduler, so a missed run (e.g. the machine was asleep)
+ * happens on the next tick instead of waiting a full cron period.
+ */
+export class BackupSchedulerService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private nextRunAt: Date | null = null;
+
+  constructor(
+    private backupService: BackupService,
+    private dbService: DatabaseService,
+    private options: BackupConfig,
+    private logger: Logger
+  ) {}
+
+  start(now: Date = new Date()): void {
+    if (this.timer) return;
+
+    try {
+      this.nextRunAt = this.computeNextRun(now);
+    } catch (error) {
+      this.logger.error('Backup scheduler not started: invalid cron expression', {
+        cron: this.options.cron,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => {
+        this.logger.error('Backup scheduler tick failed', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+    }, this.options.checkIntervalMs);
+    // Do not keep the process alive just for the scheduler
+    this.timer.unref();
+
+    this.logger.info('Backup scheduler started', {
+      cron: this.options.cron,
+      nextRunAt: this.nextRunAt.toISOString(),
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getNextRunAt(): Date | null {
+    return this.nextRunAt;
+  }
+
+  /**
+   * Take a backup if one is due. Skipped while a previous backup is still running.
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.running || !this.nextRunAt || now < this.nextRunAt) return;
+    this.running = true;
+    this.nextRunAt = this.computeNextRun(now);
+
+    try {
+      await this.backupService.createBackup(this.dbService, now);
+    } catch (error) {
+      this.logger.error('Scheduled backup failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private computeNextRun(from: Date): Date {
+    return parseExpression(this.options.cron, { currentDate: from }).next().toDate();
+  }
+}
@@ -0,0 +1,283 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import Database from 'better-sqlite3';
+import { DatabaseService } from '../database/database.service';
+import { BackupConfig } from '../config/config.schema';
+import { Logger } from '../utils/logger';
+
+// File layout: MAGIC | salt | iv | AES-256-GCM(gzip(SQLite file)) | auth tag
+const MAGIC = Buffer.from('FMBACKUP1');
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const HEADER_LENGTH = MAGIC.length + SALT_LENGTH + IV_LENGTH;
+const KEY_ITERATIONS = 100000;
+
+const FILE_PREFIX = 'funds-backup-';
+const FILE_SUFFIX = '.sqlite.gz.enc';
+const FILE_PATTERN = /^funds-backup-(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z\.sqlite\.gz\.enc$/;
+
+export interface BackupFile {
+  fileName: string;
+  path: string;
+  createdAt: Date;
+  size: number;
+}
+
+export interface RestoreResult {
+  restoredFrom: string;
+  previousDatabasePath: string | null; // Where the replaced database was moved to
+}
+
+/**
+ * Encrypted, compressed snapshots of the SQLite database.
+ * Snapshots are taken with SQLite's online backup, so the server keeps running, and every
+ * snapshot passes an integrity check before it is kept or restored.
+ */
+export class BackupService {
+  constructor(
+    private options: BackupConfig,
+    private encryptionKey: string,
+    private logger: Logger
+  ) {}
+
+  async createBackup(dbService: DatabaseService, now: Date = new Date()): Promise<BackupFile> {
+    fs.mkdirSync(this.options.directory, { recursive: true, mode: 0o700 });
+
+    const fileName = `${FILE_PREFIX}${this.formatTimestamp(now)}${FILE_SUFFIX}`;
+    const target = path.join(this.options.directory, fileName);
+    // Dot files are not listed, so a half-written backup is never picked for restore or retention
+    const snapshotPath = path.join(this.options.directory, `.${fileName}.sqlite`);
+    const partialPath = path.join(this.options.directory, `.${fileName}.partial`);
+
+    try {
+      await dbService.backup(snapshotPath);
+      this.compactAndCheck(snapshotPath);
+      await this.encryptFile(snapshotPath, partialPath);
+      fs.renameSync(partialPath, target);
+    } finally {
+      this.removeDatabaseFiles(snapshotPath);
+      fs.rmSync(partialPath, { force: true });
+    }
+
+    const backup = this.toBackupFile(fileName)!;
+    const removed = this.prune();
+
+    this.logger.dbLog('Backup created', {
+      fileName,
+      size: backup.size,
+      removed: removed.map((b) => b.fileName),
+    });
+    return backup;
+  }
+
+  /**
+   * Backups in the backup directory, newest first.
+   */
+  listBackups(): BackupFile[] {
+    if (!fs.existsSync(this.options.directory)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(this.options.directory)
+      .map((fileName) => this.toBackupFile(fileName))
+      .filter((backup): backup is BackupFile => backup !== null)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Keep the newest backup of each of the last `keepDaily` days and `keepWeekly` weeks that have
+   * backups, and delete the rest. Counting days with backups rather than calendar days means a
+   * stopped schedule never ages out the last good copies.
+   */
+  prune(): BackupFile[] {
+    const backups = this.listBackups();
+    const keep = new Set<string>();
+    const days = new Set<string>();
+    const weeks = new Set<string>();
+
+    for (const backup of backups) {
+      const day = this.dayKey(backup.createdAt);
+      if (!days.has(day) && days.size < this.options.keepDaily) {
+        days.add(day);
+        keep.add(backup.fileName);
+      }
+
+      const week = this.weekKey(backup.createdAt);
+      if (!weeks.has(week) && weeks.size < this.options.keepWeekly) {
+        weeks.add(week);
+        keep.add(backup.fileName);
+      }
+    }
+
+    const removed = backups.filter((b) => !keep.has(b.fileName));
+    for (const backup of removed) {
+      fs.rmSync(backup.path, { force: true });
+    }
+    return removed;
+  }
+
+  /**
+   * Replace the database file with a backup. The server must be stopped first. The current
+   * database and its WAL are moved aside rather than deleted.
+   */
+  async restoreBackup(fileNameOrPath: string, databasePath: string, now: Date = new Date()): Promise<RestoreResult> {
+    const source = fs.existsSync(fileNameOrPath)
+      ? fileNameOrPath
+      : path.join(this.options.directory, fileNameOrPath);
+    if (!fs.existsSync(source)) {
+      throw new Error(`Backup not found: ${fileNameOrPath}`);
+    }
+
+    const restoringPath = `${databasePath}.restoring`;
+    try {
+      await this.decryptFile(source, restoringPath);
+      this.checkIntegrity(restoringPath);
+    } catch (error) {
+      fs.rmSync(restoringPath, { force: true });
+      throw error;
+    }
+
+    let previousDatabasePath: string | null = null;
+    if (fs.existsSync(databasePath)) {
+      previousDatabasePath = `${databasePath}.before-restore-${this.formatTimestamp(now)}`;
+      for (const suffix of ['', '-wal', '-shm']) {
+        if (fs.existsSync(databasePath + suffix)) {
+          fs.renameSync(databasePath + suffix, previousDatabasePath + suffix);
+        }
+      }
+    }
+    fs.renameSync(restoringPath, databasePath);
+
+    this.logger.dbLog('Backup restored', { source, databasePath, previousDatabasePath });
+    return { restoredFrom: source, previousDatabasePath };
+  }
+
+  private compactAndCheck(snapshotPath: string): void {
+    const db = new Database(snapshotPath);
+    try {
+      // A standalone file restores cleanly; the server switches back to WAL when it opens it
+      db.pragma('journal_mode = DELETE');
+      db.exec('VACUUM');
+    } finally {
+      db.close();
+    }
+    this.checkIntegrity(snapshotPath);
+  }
+
+  private checkIntegrity(databasePath: string): void {
+    const db = new Database(databasePath, { readonly: true, fileMustExist: true });
+    try {
+      const result = db.pragma('integrity_check', { simple: true });
+      if (result !== 'ok') {
+        throw new Error(`Database integrity check failed: ${result}`);
+      }
+    } finally {
+      db.close();
+    }
+  }
+
+  private async encryptFile(source: string, target: string): Promise<void> {
+    const salt = crypto.randomBytes(SALT_LENGTH);
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.deriveKey(salt), iv);
+    const appendAuthTag = new Transform({
+      transform: (chunk, _encoding, callback) => callback(null, chunk),
+      flush: (callback) => callback(null, cipher.getAuthTag()),
+    });
+
+    fs.writeFileSync(target, Buffer.concat([MAGIC, salt, iv]), { mode: 0o600 });
+    await pipeline(
+      fs.createReadStream(source),
+      zlib.createGzip(),
+      cipher,
+      appendAuthTag,
+      fs.createWriteStream(target, { flags: 'a' })
+    );
+  }
+
+  private async decryptFile(source: string, target: string): Promise<void> {
+    const { size } = fs.statSync(source);
+    const header = Buffer.alloc(HEADER_LENGTH);
+    const authTag = Buffer.alloc(TAG_LENGTH);
+
+    const fd = fs.openSync(source, 'r');
+    try {
+      if (size < HEADER_LENGTH + TAG_LENGTH) {
+        throw new Error('Not a backup file');
+      }
+      fs.readSync(fd, header, 0, HEADER_LENGTH, 0);
+      fs.readSync(fd, authTag, 0, TAG_LENGTH, size - TAG_LENGTH);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    if (!header.subarray(0, MAGIC.length).equals(MAGIC)) {
+      throw new Error('Not a backup file');
+    }
+
+    const salt = header.subarray(MAGIC.length, MAGIC.length + SALT_LENGTH);
+    const iv = header.subarray(MAGIC.length + SALT_LENGTH);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.deriveKey(salt), iv);
+    decipher.setAuthTag(authTag);
+
+    try {
+      await pipeline(
+        fs.createReadStream(source, { start: HEADER_LENGTH, end: size - TAG_LENGTH - 1 }),
+        decipher,
+        zlib.createGunzip(),
+        fs.createWriteStream(target, { mode: 0o600 })
+      );
+    } catch (error) {
+      // GCM only authenticates at the end, so a bad key or a damaged file fails here
+      throw new Error(
+        `Could not decrypt backup (wrong encryption key or damaged file): ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    }
+  }
+
+  private deriveKey(salt: Buffer): Buffer {
+    return crypto.pbkdf2Sync(this.encryptionKey, salt, KEY_ITERATIONS, 32, 'sha512');
+  }
+
+  private removeDatabaseFiles(databasePath: string): void {
+    for (const suffix of ['', '-wal', '-shm', '-journal']) {
+      fs.rmSync(databasePath + suffix, { force: true });
+    }
+  }
+
+  private toBackupFile(fileName: string): BackupFile | null {
+    const match = fileName.match(FILE_PATTERN);
+    if (!match) return null;
+
+    const [, year, month, day, hour, minute, second] = match.map(Number);
+    const filePath = path.join(this.options.directory, fileName);
+    return {
+      fileName,
+      path: filePath,
+      createdAt: new Date(Date.UTC(year, month - 1, day, hour, minute, second)),
+      size: fs.statSync(filePath).size,
+    };
+  }
+
+  private formatTimestamp(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  private dayKey(date: Date): string {
+    return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+  }
+
+  private weekKey(date: Date): string {
+    // Weeks start on Monday
+    const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+    return this.dayKey(monday);
+  }
+}
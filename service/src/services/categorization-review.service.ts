@@ -0,0 +1,132 @@
+import { DatabaseService } from '../database/database.service';
+import {
+  CategorizationReviewRepository,
+  ReviewQueueFilters,
+  ReviewQueueRow,
+  ReviewReason,
+} from '../repositories/categorization-review.repository';
+import { CategoryRepository, UNKNOWN_CATEGORY_NAME } from '../repositories/category.repository';
+import { TransactionService } from './transaction.service';
+import { Logger } from '../utils/logger';
+
+export interface ReviewCandidate {
+  categoryId: string;
+  categoryName: string;
+  score: number;
+  source: 'description' | 'vendor';
+}
+
+export interface ReviewItem {
+  transactionId: string;
+  accountId: string;
+  date: Date;
+  description: string;
+  amount: number;
+  currency: string;
+  currentCategoryId: string | null;
+  currentCategoryName: string | null;
+  suggestedCategoryId: string | null; // What accepting applies, unless another category is given
+  confidence: string | null;
+  source: string | null;
+  decisionReason: string | null;
+  reasons: ReviewReason[];
+  candidates: ReviewCandidate[];
+}
+
+/**
+ * Review inbox for questionable categorizations. Accepting makes the suggested (or a chosen)
+ * category the user's own; rejecting puts the transaction back in Unknown. Either way the
+ * transaction leaves the queue.
+ */
+export class CategorizationReviewService {
+  constructor(
+    private dbService: DatabaseService,
+    private reviewRepository: CategorizationReviewRepository,
+    private categoryRepository: CategoryRepository,
+    private transactionService: TransactionService,
+    private logger: Logger
+  ) {}
+
+  getQueue(userId: string, filters: ReviewQueueFilters = {}): { items: ReviewItem[]; total: number } {
+    const { items, total } = this.reviewRepository.listQueue(userId, filters);
+    const names = this.getCategoryNames(userId);
+    return { items: items.map((row) => this.toReviewItem(row, names)), total };
+  }
+
+  getItem(userId: string, transactionId: string): ReviewItem | null {
+    const row = this.reviewRepository.findInQueue(userId, transactionId);
+    return row ? this.toReviewItem(row, this.getCategoryNames(userId)) : null;
+  }
+
+  /**
+   * Make `categoryId`, or the suggestion when none is given, the transaction's manual main category.
+   */
+  accept(userId: string, item: ReviewItem, categoryId?: string): string {
+    const chosen = categoryId ?? item.suggestedCategoryId;
+    if (!chosen) {
+      throw new Error('There is no suggestion to accept; choose a category');
+    }
+
+    this.dbService.transaction(() => {
+      this.transactionService.setMainCategory(userId, item.transactionId, chosen, true);
+      this.reviewRepository.record(userId, item.transactionId, 'accepted', chosen);
+    });
+
+    this.logger.info('Categorization review accepted', { transactionId: item.transactionId, categoryId: chosen });
+    return chosen;
+  }
+
+  /**
+   * Reject the suggestion: an automatic main category is dropped and the transaction stays in Unknown.
+   */
+  reject(userId: string, item: ReviewItem): void {
+    this.dbService.transaction(() => {
+      this.transactionService.clearMainCategory(userId, item.transactionId);
+      this.reviewRepository.record(userId, item.transactionId, 'rejected', item.suggestedCategoryId);
+    });
+
+    this.logger.info('Categorization review rejected', {
+      transactionId: item.transactionId,
+      categoryId: item.suggestedCategoryId,
+    });
+  }
+
+  private getCategoryNames(userId: string): Map<string, string> {
+    return new Map(this.categoryRepository.list(userId).map((c) => [c.id, c.name]));
+  }
+
+  private toReviewItem(row: ReviewQueueRow, names: Map<string, string>): ReviewItem {
+    const candidates: ReviewCandidate[] = [];
+    for (const c of row.descriptionCandidates) {
+      const categoryName = names.get(c.categoryId);
+      if (categoryName) candidates.push({ categoryId: c.categoryId, categoryName, score: c.score, source: 'description' });
+    }
+
+    const vendorName = row.vendorCategoryId ? names.get(row.vendorCategoryId) : undefined;
+    if (vendorName && !candidates.some((c) => c.categoryId === row.vendorCategoryId)) {
+      candidates.push({ categoryId: row.vendorCategoryId!, categoryName: vendorName, score: row.vendorScore, source: 'vendor' });
+    }
+    candidates.sort((a, b) => b.score - a.score);
+
+    // The current category is the suggestion unless the transaction is still in Unknown
+    const isUnknown = !row.mainCategoryId || row.mainCategoryName === UNKNOWN_CATEGORY_NAME;
+    const suggestedCategoryId = isUnknown ? candidates[0]?.categoryId ?? null : row.mainCategoryId;
+
+    return {
+      transactionId: row.transactionId,
+      accountId: row.accountId,
+      date: row.date,
+      description: row.description,
+      amount: row.amount,
+      currency: row.currency,
+      currentCategoryId: row.mainCategoryId,
+      currentCategoryName: row.mainCategoryName,
+      suggestedCategoryId,
+      confidence: row.decisionConfidence,
+      source: row.decisionSource,
+      decisionReason: row.decisionReason,
+      reasons: row.reasons,
+      candidates,
+    };
+  }
+}
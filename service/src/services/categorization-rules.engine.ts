@@ -0,0 +1,225 @@
+import { z } from 'zod';
+import { CategorizationRule, CategorizationRuleCondition, Transaction } from '../types';
+
+// Rule patterns run against every description, on the single event loop
+const MAX_PATTERN_LENGTH = 200;
+// Patterns only see the start of a description, which bounds polynomial backtracking
+const MAX_MATCHED_DESCRIPTION_LENGTH = 256;
+const MAX_CACHED_PATTERNS = 500;
+
+const RuleConditionSchema = z.discriminatedUnion('field', [
+  z.object({
+    field: z.literal('description'),
+    operator: z.enum(['contains', 'equals', 'regex']),
+    value: z.string().trim().min(1),
+  }),
+  z.object({
+    field: z.literal('amount'),
+    min: z.number().nonnegative().optional(),
+    max: z.number().nonnegative().optional(),
+  }),
+  z.object({
+    field: z.literal('account'),
+    accountIds: z.array(z.string().min(1)).min(1),
+  }),
+  z.object({
+    field: z.literal('merchantId'),
+    value: z.string().trim().min(1),
+  }),
+]);
+
+const ruleFields = {
+  name: z.string().trim().min(1),
+  categoryId: z.string().min(1),
+  conditions: z
+    .array(RuleConditionSchema)
+    .min(1)
+    .superRefine((conditions, ctx) => {
+      conditions.forEach((condition, index) => {
+        const problem = describeInvalidCondition(condition);
+        if (problem) ctx.addIssue({ code: 'custom', message: problem, path: [index] });
+      });
+    }),
+  priority: z.number().int(),
+  enabled: z.boolean(),
+};
+
+/**
+ * Request body for creating a rule.
+ */
+export const CategorizationRuleCreateSchema = z.object({
+  ...ruleFields,
+  priority: ruleFields.priority.default(0),
+  enabled: ruleFields.enabled.default(true),
+});
+
+/**
+ * Request body for updating a rule; fields left out keep their value.
+ */
+export const CategorizationRuleUpdateSchema = z.object(ruleFields).partial();
+
+/**
+ * Merchant ID from the enrichment data (Visa Cal) or, failing that, the raw scraped transaction.
+ */
+export function extractMerchantId(transaction: { rawJson: string; enrichmentData?: Record<string, any> }): string | null {
+  const fromEnrichment = transaction.enrichmentData?.merchantMetadata?.merchantID;
+  if (fromEnrichment !== undefined && fromEnrichment !== null && fromEnrichment !== '') {
+    return String(fromEnrichment);
+  }
+
+  try {
+    const json = JSON.parse(transaction.rawJson);
+    return json.merchantID !== undefined && json.merchantID !== null ? String(json.merchantID) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Length of the repetition quantifier (`*`, `+` or `{n,m}`) at the given index, or 0.
+ */
+function quantifierLength(source: string, index: number): number {
+  if (source[index] === '*' || source[index] === '+') return 1;
+  if (source[index] === '{') return /^\{\d+(,\d*)?\}/.exec(source.slice(index))?.[0].length ?? 0;
+  return 0;
+}
+
+/**
+ * Whether a pattern repeats a group that already contains a repetition or alternatives, like
+ * `(a+)+$` or `(a|aa)+$`. Such patterns can backtrack exponentially on a non-matching
+ * description (the star height check of safe-regex, extended to overlapping alternatives).
+ * Alternatives that cannot overlap, like `(a|b)+`, are rejected too; `[ab]+` matches the same.
+ */
+function hasAmbiguousRepetition(source: string): boolean {
+  const groups: boolean[] = []; // Per open group, whether it contains a repetition or alternatives
+  const markEnclosingGroup = () => {
+    if (groups.length > 0) groups[groups.length - 1] = true;
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '\\') {
+      i += 2;
+    } else if (char === '[') {
+      // Quantifier characters in a character class are literals
+      i++;
+      while (i < source.length && source[i] !== ']') i += source[i] === '\\' ? 2 : 1;
+      i++;
+    } else if (char === '(') {
+      groups.push(false);
+      i++;
+    } else if (char === '|') {
+      markEnclosingGroup();
+      i++;
+    } else if (char === ')') {
+      const ambiguous = groups.pop() ?? false;
+      const length = quantifierLength(source, i + 1);
+      if (length > 0 && ambiguous) return true;
+      if (length > 0 || ambiguous) markEnclosingGroup();
+      i += 1 + length;
+    } else {
+      const length = quantifierLength(source, i);
+      if (length > 0) markEnclosingGroup();
+      i += Math.max(length, 1);
+    }
+  }
+  return false;
+}
+
+function describeUnsafePattern(source: string): string | null {
+  if (source.length > MAX_PATTERN_LENGTH) {
+    return `Regular expressions are limited to ${MAX_PATTERN_LENGTH} characters`;
+  }
+  if (hasAmbiguousRepetition(source)) {
+    return (
+      'Regular expression repeats a group that contains a repetition or alternatives, ' +
+      `which can take too long to match: ${source}`
+    );
+  }
+  return null;
+}
+
+function describeInvalidCondition(condition: CategorizationRuleCondition): string | null {
+  if (condition.field === 'amount') {
+    if (condition.min === undefined && condition.max === undefined) return 'An amount condition needs a min or a max';
+    if (condition.min !== undefined && condition.max !== undefined && condition.min > condition.max) {
+      return 'The amount min cannot be greater than the max';
+    }
+  }
+  if (condition.field === 'description' && condition.operator === 'regex') {
+    try {
+      new RegExp(condition.value, 'i');
+    } catch {
+      return `Invalid regular expression: ${condition.value}`;
+    }
+    return describeUnsafePattern(condition.value);
+  }
+  return null;
+}
+
+/**
+ * Evaluates user-defined rules against a transaction. Rules are tried in the order given
+ * (highest priority first) and the first one whose conditions all match wins.
+ * Text comparisons ignore case.
+ */
+export class CategorizationRulesEngine {
+  private patterns = new Map<string, RegExp | null>();
+
+  findMatchingRule(rules: CategorizationRule[], transaction: Transaction): CategorizationRule | null {
+    if (rules.length === 0) return null;
+
+    const merchantId = extractMerchantId(transaction);
+    return (
+      rules.find((rule) => rule.enabled && rule.conditions.every((c) => this.matches(c, transaction, merchantId))) ??
+      null
+    );
+  }
+
+  private matches(condition: CategorizationRuleCondition, transaction: Transaction, merchantId: string | null): boolean {
+    switch (condition.field) {
+      case 'description': {
+        const description = transaction.description.trim().toLowerCase();
+        const value = condition.value.trim().toLowerCase();
+        if (condition.operator === 'equals') return description === value;
+        if (condition.operator === 'contains') return description.includes(value);
+        const pattern = this.getPattern(condition.value);
+        return pattern?.test(transaction.description.slice(0, MAX_MATCHED_DESCRIPTION_LENGTH)) ?? false;
+      }
+      case 'amount': {
+        const amount = Math.abs(transaction.amount);
+        return (
+          (condition.min === undefined || amount >= condition.min) &&
+          (condition.max === undefined || amount <= condition.max)
+        );
+      }
+      case 'account':
+        return condition.accountIds.includes(transaction.accountId);
+      case 'merchantId':
+        return merchantId !== null && merchantId === condition.value.trim();
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Compiled once per pattern; a pattern that does not compile, or that could backtrack
+   * exponentially, never matches. The oldest pattern is dropped once the cache is full, so
+   * edited and deleted rules do not accumulate.
+   */
+  private getPattern(source: string): RegExp | null {
+    if (!this.patterns.has(source)) {
+      if (this.patterns.size >= MAX_CACHED_PATTERNS) {
+        this.patterns.delete(this.patterns.keys().next().value!);
+      }
+      let pattern: RegExp | null = null;
+      try {
+        pattern = describeUnsafePattern(source) ? null : new RegExp(source, 'i');
+      } catch {
+        pattern = null;
+      }
+      this.patterns.set(source, pattern);
+    }
+    return this.patterns.get(source)!;
+  }
+}
@@ -0,0 +1,147 @@
+import {
+  CategoryScoreRepository,
+  CategorizationAnalytics,
+  ScoreFilters,
+  ScoredDecision,
+} from '../repositories/category-score.repository';
+import { CategorizationThresholdRepository } from '../repositories/categorization-threshold.repository';
+import { CategorizationService } from './categorization.service';
+import { CategorizeDecisionEngine, DecisionEngineConfig } from './categorize-decision.engine';
+import { DescriptionMatchResult, VendorMatchResult } from './fuzzy-matching.service';
+import { Logger } from '../utils/logger';
+
+// Changed decisions listed in a simulation; the counts always cover all of them
+const MAX_SIMULATION_CHANGES = 50;
+
+/**
+ * A past decision that proposed thresholds would change. Null category IDs stand for Unknown.
+ */
+export interface ThresholdChange {
+  transactionId: string;
+  description: string;
+  fromCategoryId: string | null;
+  fromSource: string;
+  toCategoryId: string | null;
+  toSource: string;
+}
+
+export interface ThresholdSimulation {
+  current: DecisionEngineConfig;
+  proposed: DecisionEngineConfig;
+  evaluated: number; // Automatic decisions re-run; rule and learned decisions do not depend on thresholds
+  changed: number;
+  toUnknown: number;
+  fromUnknown: number;
+  switched: number; // From one category to another
+  changes: ThresholdChange[];
+}
+
+/**
+ * Categorization quality analytics and tuning of the decision engine thresholds. Each user tunes
+ * their own thresholds, which are saved so they outlive a restart.
+ */
+export class CategorizationTuningService {
+  constructor(
+    private categoryScoreRepository: CategoryScoreRepository,
+    private thresholdRepository: CategorizationThresholdRepository,
+    private categorizationService: CategorizationService,
+    private logger: Logger
+  ) {}
+
+  getAnalytics(userId: string, filters: ScoreFilters = {}): CategorizationAnalytics {
+    return this.categoryScoreRepository.getCategorizationAnalytics(userId, filters);
+  }
+
+  getThresholds(userId: string): DecisionEngineConfig {
+    return this.categorizationService.getThresholds(userId);
+  }
+
+  /**
+   * Re-run the user's past automatic decisions with the proposed thresholds and report which
+   * would come out differently. Nothing is written.
+   */
+  async simulate(
+    userId: string,
+    proposed: Partial<DecisionEngineConfig>,
+    filters: ScoreFilters = {}
+  ): Promise<ThresholdSimulation> {
+    const current = this.getThresholds(userId);
+    const config = { ...current, ...proposed };
+    const engine = new CategorizeDecisionEngine(this.logger, config);
+    const decisions = this.categoryScoreRepository.getLatestScoredDecisions(userId, filters);
+
+    const simulation: ThresholdSimulation = {
+      current,
+      proposed: config,
+      evaluated: decisions.length,
+      changed: 0,
+      toUnknown: 0,
+      fromUnknown: 0,
+      switched: 0,
+      changes: [],
+    };
+
+    for (const past of decisions) {
+      const { descriptionMatches, vendorMatch } = this.toMatches(past);
+      const decision = await engine.determineMainCategory(descriptionMatches, vendorMatch);
+      const toCategoryId =
+        decision.source === 'unknown' || decision.mainCategoryId === 'unknown' ? null : decision.mainCategoryId;
+
+      if (toCategoryId === past.mainCategoryId) continue;
+
+      simulation.changed++;
+      if (toCategoryId === null) simulation.toUnknown++;
+      else if (past.mainCategoryId === null) simulation.fromUnknown++;
+      else simulation.switched++;
+
+      if (simulation.changes.length < MAX_SIMULATION_CHANGES) {
+        simulation.changes.push({
+          transactionId: past.transactionId,
+          description: past.description,
+          fromCategoryId: past.mainCategoryId,
+          fromSource: past.source,
+          toCategoryId,
+          toSource: decision.source,
+        });
+      }
+    }
+
+    return simulation;
+  }
+
+  /**
+   * Save the proposed thresholds and use them for every categorization of the user's transactions
+   * from now on. Already categorized transactions keep their category until they are re-categorized.
+   */
+  applyThresholds(userId: string, proposed: Partial<DecisionEngineConfig>): DecisionEngineConfig {
+    const config = { ...this.getThresholds(userId), ...proposed };
+    this.thresholdRepository.save(userId, config);
+    return config;
+  }
+
+  // Scores only keep the top description match, which is all the decision hierarchy looks at
+  private toMatches(past: ScoredDecision): {
+    descriptionMatches: DescriptionMatchResult[];
+    vendorMatch: VendorMatchResult | null;
+  } {
+    const descriptionMatches: DescriptionMatchResult[] = past.descriptionTopCategoryId
+      ? [
+          {
+            categoryId: past.descriptionTopCategoryId,
+            categoryName: '',
+            scores: { ratio: 0, partial_ratio: 0, token_sort_ratio: 0, token_set_ratio: 0 },
+            combined_score: past.descriptionTopScore,
+            final_score: past.descriptionTopScore,
+            source: 'description',
+          },
+        ]
+      : [];
+
+    const vendorMatch: VendorMatchResult | null =
+      past.vendorCategoryId || past.vendorScore > 0
+        ? { categoryId: past.vendorCategoryId, categoryName: null, final_score: past.vendorScore, source: 'vendor' }
+        : null;
+
+    return { descriptionMatches, vendorMatch };
+  }
+}
@@ -1,9 +1,12 @@
 import { Logger } from '../utils/logger';
-import { CategoryRepository } from '../repositories/category.repository';
+import { CategoryRepository, UNKNOWN_CATEGORY_NAME } from '../repositories/category.repository';
 import { TransactionRepository } from '../repositories/transaction.repository';
 import { TransactionCategoryRepository } from '../repositories/transaction-category.repository';
 import { CategoryScoreRepository } from '../repositories/category-score.repository';
-import { Transaction } from '../types';
+import { CategorizationRuleRepository } from '../repositories/categorization-rule.repository';
+import { VendorCategoryMappingRepository } from '../repositories/vendor-category-mapping.repository';
+import { CategorizationThresholdRepository } from '../repositories/categorization-threshold.repository';
+import { CategorizationRule, Transaction } from '../types';
 import {
   FuzzyMatchingService,
   DescriptionMatchResult,
@@ -13,7 +16,22 @@ import {
 import {
   CategorizeDecisionEngine,
   CategorizationDecision,
+  DecisionEngineConfig,
 } from './categorize-decision.engine';
+import { CategorizationRulesEngine } from './categorization-rules.engine';
+import { OverrideLearningEngine, LearnedMappings } from './override-learning.engine';
+import {
+  EffectiveVendorMapping,
+  extractVendorCode,
+  resolveVendorMappings,
+  vendorCodeKey,
+} from './vendor-category-codes';
+
+/**
+ * Score given to the category a card company code is mapped to. It clears the vendor threshold,
+ * and only a near-exact description match beats it.
+ */
+const MAPPED_VENDOR_CODE_SCORE = 90;
 
 export interface CategorizationResult {
   mainCategoryId: string;
@@ -25,26 +43,46 @@ export interface CategorizationResult {
   decision: CategorizationDecision;
 }
 
+/**
+ * The user's rules, learned mappings, card company code mappings and thresholds, loaded once per
+ * batch instead of once per transaction.
+ */
+export interface CategorizationContext {
+  rules: CategorizationRule[];
+  learned: LearnedMappings;
+  vendorCodes: Map<string, string>; // vendorCodeKey → category ID
+  decisionEngine: CategorizeDecisionEngine; // With the user's thresholds
+}
+
 /**
  * Refactored categorization service using fuzzy matching and hierarchical decision logic.
  *
  * Flow:
- * 1. Extract vendor category from enrichment data (if available)
- * 2. Score transaction description against all categories (fuzzy matching)
- * 3. Score vendor category against all categories (fuzzy matching)
- * 4. Apply decision hierarchy: description > vendor > unknown
- * 5. Return scored result with all candidates
+ * 1. Apply the user's categorization rules; the first matching rule decides the category
+ *    Otherwise apply what was learned from the user's manual changes (merchant ID, then description)
+ * 2. Extract the card company's category code from enrichment data (if available)
+ * 3. Score transaction description against all categories (fuzzy matching)
+ * 4. Look the vendor code up in the user's code mappings; otherwise score it against all
+ *    categories (fuzzy matching)
+ * 5. Apply decision hierarchy: description > vendor > unknown
+ * 6. Return scored result with all candidates
  */
 export class CategorizationService {
   private fuzzyService!: FuzzyMatchingService;
   private decisionEngine!: CategorizeDecisionEngine;
-  private categories: Category[];
+  private rulesEngine = new CategorizationRulesEngine();
+  private learningEngine = new OverrideLearningEngine();
+  // Categories are per user, so the cache is keyed by user ID and filled on first use
+  private categoriesByUser = new Map<string, Category[]>();
 
   constructor(
     private categoryRepository: CategoryRepository,
     private transactionRepository?: TransactionRepository,
     private categoryScoreRepository?: CategoryScoreRepository,
     private transactionCategoryRepository?: TransactionCategoryRepository,
+    private categorizationRuleRepository?: CategorizationRuleRepository,
+    private vendorCategoryMappingRepository?: VendorCategoryMappingRepository,
+    private categorizationThresholdRepository?: CategorizationThresholdRepository,
     private logger?: Logger,
     config?: {
       descriptionThreshold?: number;
@@ -52,10 +90,6 @@ export class CategorizationService {
       descriptionAdvantage?: number;
     }
   ) {
-    // Support both old and new constructor signatures
-    // Old: (categoryRepository, transactionCategoryRepository)
-    // New: (categoryRepository, transactionRepository, categoryScoreRepository, logger, config)
-
     if (!this.logger) {
       this.logger = {
         debug: () => {},
@@ -73,55 +107,94 @@ export class CategorizationService {
         descriptionAdvantage: config.descriptionAdvantage,
       });
     }
+  }
 
-    // Load categories once
-    this.categories = this.categoryRepository.list();
+  private getCategories(userId: string): Category[] {
+    let categories = this.categoriesByUser.get(userId);
+    if (!categories) {
+      categories = this.categoryRepository.list(userId);
+      this.categoriesByUser.set(userId, categories);
+    }
+    return categories;
   }
 
   /**
    * Main categorization method with overload support
    * - With string: Synchronous simple categorization (backwards compatible)
-   * - With Transaction: Asynchronous fuzzy matching
+   * - With Transaction: Asynchronous fuzzy matching; pass a context from loadContext when
+   *   categorizing a batch, otherwise it is loaded for this transaction alone
    */
-  categorizeTransaction(descriptionOrTxn: string | Transaction): string[] | Promise<CategorizationResult> {
+  categorizeTransaction(
+    userId: string,
+    descriptionOrTxn: string | Transaction,
+    context?: CategorizationContext
+  ): string[] | Promise<CategorizationResult> {
     // Handle old API: string input (synchronous)
     if (typeof descriptionOrTxn === 'string') {
-      return this.categorizeTransactionSimple(descriptionOrTxn);
+      return this.categorizeTransactionSimple(userId, descriptionOrTxn);
     }
 
     // Handle new API: Transaction object (async via promise)
     const transaction = descriptionOrTxn as Transaction;
-    return this.categorizeTransactionAsync(transaction);
+    return this.categorizeTransactionAsync(userId, transaction, context);
   }
 
   /**
    * Async categorization with fuzzy matching
    */
-  private async categorizeTransactionAsync(transaction: Transaction): Promise<CategorizationResult> {
-    // Step 1: Fuzzy match description against all categories
-    const descriptionMatches = await this.fuzzyService.scoreDescriptionAgainstCategories(
-      transaction.description,
-      this.categories
-    );
-
-    // Step 2: Extract and fuzzy match vendor category (if available)
+  private async categorizeTransactionAsync(
+    userId: string,
+    transaction: Transaction,
+    context: CategorizationContext = this.loadContext(userId)
+  ): Promise<CategorizationResult> {
+    const categories = this.getCategories(userId);
+
+    // Step 1: User-defined rules, then mappings learned from manual changes, take priority over fuzzy matching
+    const rule = this.rulesEngine.findMatchingRule(context.rules, transaction);
+    const learned = rule ? null : this.learningEngine.findMapping(context.learned, transaction);
+
+    let descriptionMatches: DescriptionMatchResult[] = [];
     let vendorMatch: VendorMatchResult | null = null;
-    const vendorCategoryName = this.extractVendorCategory(transaction);
+    let decision: CategorizationDecision;
+
+    if (rule) {
+      decision = context.decisionEngine.decideByRule(rule, categories.find((c) => c.id === rule.categoryId)?.name);
+    } else if (learned) {
+      decision = context.decisionEngine.decideByLearnedMapping(
+        learned,
+        categories.find((c) => c.id === learned.categoryId)?.name
+      );
+    } else {
+      // Step 2: Fuzzy match description against all categories
+      descriptionMatches = await this.fuzzyService.scoreDescriptionAgainstCategories(
+        transaction.description,
+        categories
+      );
+
+      // Step 3: Map the vendor's category code, or fuzzy match it (if available)
+      const vendorCode = extractVendorCode(transaction);
+      const mappedCategoryId = vendorCode && context.vendorCodes.get(vendorCodeKey(vendorCode.vendor, vendorCode.code));
+
+      if (mappedCategoryId) {
+        vendorMatch = {
+          categoryId: mappedCategoryId,
+          categoryName: categories.find((c) => c.id === mappedCategoryId)?.name ?? null,
+          final_score: MAPPED_VENDOR_CODE_SCORE,
+          source: 'vendor',
+        };
+      } else if (vendorCode && vendorCode.vendor !== 'max') {
+        // Max's codes are numbers, which mean nothing to fuzzy matching
+        vendorMatch = await this.fuzzyService.scoreVendorCategoryAgainstCategories(vendorCode.code, categories);
+      }
 
-    if (vendorCategoryName) {
-      vendorMatch = await this.fuzzyService.scoreVendorCategoryAgainstCategories(
-        vendorCategoryName,
-        this.categories
+      // Step 4: Apply decision hierarchy
+      decision = await context.decisionEngine.determineMainCategory(
+        descriptionMatches,
+        vendorMatch
       );
     }
 
-    // Step 3: Apply decision hierarchy
-    const decision = await this.decisionEngine.determineMainCategory(
-      descriptionMatches,
-      vendorMatch
-    );
-
-    // Step 4: Record scores for analysis and learning
+    // Step 5: Record scores for analysis and learning
     if (transaction.id && this.categoryScoreRepository) {
       this.categoryScoreRepository.recordCategorization({
         transactionId: transaction.id,
@@ -146,7 +219,7 @@ export class CategorizationService {
       vendorScore: vendorMatch?.final_score || 0,
     });
 
-    // Step 5: Compile result with all candidates
+    // Step 6: Compile result with all candidates
     return {
       mainCategoryId: decision.mainCategoryId,
       allCategoryIds: this.buildCategoryList(decision),
@@ -159,56 +232,34 @@ export class CategorizationService {
   }
 
   /**
-   * Extract vendor category from transaction enrichment data.
-   * Checks both the enrichment_data column and rawJson for enrichment data.
+   * Merchant→category mappings learned from the user's manual category changes.
    */
-  private extractVendorCategory(transaction: Transaction): string | null {
-    try {
-      // First, try to get enrichment data from the database column
-      // (if transaction was loaded from DB with enrichment_data)
-      let enrichmentData: Record<string, any> | null = null;
-      
-      // Check if transaction has enrichment_data directly (from DB query)
-      if ((transaction as any).enrichmentData) {
-        try {
-          enrichmentData = typeof (transaction as any).enrichmentData === 'string'
-            ? JSON.parse((transaction as any).enrichmentData)
-            : (transaction as any).enrichmentData;
-        } catch {
-          // Ignore parse errors
-        }
-      }
-
-      // Fallback: try to extract from rawJson
-      if (!enrichmentData) {
-        const json = JSON.parse(transaction.rawJson);
-        enrichmentData = json.enrichmentData || {};
-      }
-
-      // Ensure enrichmentData is not null before accessing properties
-      if (!enrichmentData) {
-        return null;
-      }
-
-      // Try Isracard/Amex sector (from library's additionalTransactionInformation)
-      if (enrichmentData.sector) {
-        return enrichmentData.sector;
-      }
-
-      // Try Max categoryId
-      if (enrichmentData.maxCategoryId) {
-        return enrichmentData.maxCategoryId.toString();
-      }
+  getLearnedMappings(userId: string): LearnedMappings {
+    return this.learningEngine.build(this.categoryScoreRepository?.getOverrideSignals(userId) ?? []);
+  }
 
-      // Try Visa Cal merchant metadata
-      if (enrichmentData.merchantMetadata?.branchCode) {
-        return enrichmentData.merchantMetadata.branchCode;
-      }
+  /**
+   * The user's card company code mappings, including the defaults for codes they have not mapped.
+   */
+  getVendorCodeMappings(userId: string): EffectiveVendorMapping[] {
+    return resolveVendorMappings(this.vendorCategoryMappingRepository?.list(userId) ?? [], this.getCategories(userId));
+  }
 
-      return null;
-    } catch (error) {
-      return null;
+  /**
+   * Load what categorizing the user's transactions needs, to share across a batch of them.
+   */
+  loadContext(userId: string): CategorizationContext {
+    const vendorCodes = new Map<string, string>();
+    for (const mapping of this.getVendorCodeMappings(userId)) {
+      if (mapping.categoryId) vendorCodes.set(vendorCodeKey(mapping.vendor, mapping.code), mapping.categoryId);
     }
+
+    return {
+      rules: this.categorizationRuleRepository?.list(userId, { enabledOnly: true }) ?? [],
+      learned: this.getLearnedMappings(userId),
+      vendorCodes,
+      decisionEngine: this.getDecisionEngine(userId),
+    };
   }
 
   /**
@@ -254,23 +305,27 @@ export class CategorizationService {
   }
 
   /**
-   * Allow runtime configuration updates (e.g., from admin API).
+   * The user's saved thresholds, or the instance defaults.
    */
-  updateThresholds(config: {
-    descriptionThreshold?: number;
-    vendorThreshold?: number;
-    descriptionAdvantage?: number;
-  }): void {
-    this.decisionEngine.updateConfig(config);
-    this.logger?.info('Categorization thresholds updated', { config });
+  getThresholds(userId: string): DecisionEngineConfig {
+    return this.categorizationThresholdRepository?.get(userId) ?? this.decisionEngine.getConfig();
+  }
+
+  private getDecisionEngine(userId: string): CategorizeDecisionEngine {
+    const thresholds = this.categorizationThresholdRepository?.get(userId);
+    return thresholds ? new CategorizeDecisionEngine(this.logger!, thresholds) : this.decisionEngine;
   }
 
   /**
-   * Reload categories from repository.
+   * Drop cached categories so they are read again on next use; all users' when no user is given.
    */
-  reloadCategories(): void {
-    this.categories = this.categoryRepository.list();
-    this.logger?.info('Categories reloaded', { count: this.categories.length });
+  reloadCategories(userId?: string): void {
+    if (userId) {
+      this.categoriesByUser.delete(userId);
+    } else {
+      this.categoriesByUser.clear();
+    }
+    this.logger?.info('Categories reloaded', { userId });
   }
 
   /**
@@ -283,7 +338,7 @@ export class CategorizationService {
   /**
    * Backwards compatibility: simple categorization (uses fuzzy if available, else fallback)
    */
-  categorizeTransactionSimple(description: string): string[] {
+  categorizeTransactionSimple(userId: string, description: string): string[] {
     // This is kept for backwards compatibility with old code
     // In new code, use categorizeTransaction with a Transaction object
     if (!description) return [];
@@ -291,7 +346,7 @@ export class CategorizationService {
     const matchedCategoryIds: string[] = [];
     const normalizedDescription = description.toLowerCase().trim();
 
-    for (const category of this.categories) {
+    for (const category of this.getCategories(userId)) {
       if (category.name.toLowerCase() === 'unknown') continue;
       if (category.keywords.length === 0) continue;
 
@@ -308,31 +363,32 @@ export class CategorizationService {
   }
 
   /**
-   * Re-categorize all transactions based on current category keywords and fuzzy matching
+   * Re-categorize all of a user's transactions based on current category keywords and fuzzy matching
    * This is called when categories are created or updated
    */
-  async recategorizeAll(): Promise<{ processed: number; updated: number }> {
+  async recategorizeAll(userId: string): Promise<{ processed: number; updated: number }> {
     if (!this.transactionRepository) {
       this.logger?.warn('TransactionRepository not available, skipping recategorization');
       return { processed: 0, updated: 0 };
     }
 
-    this.logger?.info('Starting re-categorization of all transactions');
+    this.logger?.info('Starting re-categorization of all transactions', { userId });
 
-    // Get all transactions
-    const allTransactions = this.transactionRepository.findWithFilters({});
+    // Get all of the user's transactions
+    const allTransactions = this.transactionRepository.findWithFilters({ userId });
     let processed = 0;
     let updated = 0;
 
-    const unknownCategory = this.categoryRepository.findByName('Unknown');
+    const unknownCategory = this.categoryRepository.findByName(userId, UNKNOWN_CATEGORY_NAME);
     const unknownCategoryId = unknownCategory?.id;
+    const context = this.loadContext(userId);
 
     for (const transaction of allTransactions) {
       processed++;
 
       try {
         // Re-evaluate the transaction using current categorization logic
-        const result = await this.categorizeTransactionAsync(transaction);
+        const result = await this.categorizeTransactionAsync(userId, transaction, context);
         
         if (!this.transactionCategoryRepository) {
           continue;
@@ -352,7 +408,8 @@ export class CategorizationService {
           );
 
           // Case 1: Transaction only has Unknown category - remove it and set new category as main
-          if (hasOnlyUnknown) {
+          // (unless the user put it in Unknown themselves)
+          if (hasOnlyUnknown && !hasManualCategories) {
             if (unknownCategoryId) {
               this.transactionCategoryRepository.detach(transaction.id, unknownCategoryId);
             }
@@ -366,7 +423,25 @@ export class CategorizationService {
               newCategory: result.mainCategoryId,
             });
           }
-          // Case 2: Transaction has other categories but new category matches - attach if not already attached
+          // Case 2: A rule or learned mapping matched - both outrank automatic matches, so its category becomes main
+          else if ((result.decision.source === 'rule' || result.decision.source === 'user') && !hasManualCategories) {
+            const currentMain = currentCategories.find((cat) => cat.isMain);
+            if (currentMain?.categoryId !== result.mainCategoryId) {
+              if (!mainCategoryAlreadyAttached) {
+                this.transactionCategoryRepository.attach(transaction.id, result.mainCategoryId, false, false);
+              }
+              this.transactionCategoryRepository.setAsMain(transaction.id, result.mainCategoryId);
+              this.transactionRepository.setMainCategoryId(transaction.id, result.mainCategoryId);
+              updated++;
+              this.logger?.debug('Re-categorized transaction (rule or learned match)', {
+                transactionId: transaction.id,
+                newCategory: result.mainCategoryId,
+                source: result.decision.source,
+                ruleId: result.decision.ruleId,
+              });
+            }
+          }
+          // Case 3: Transaction has other categories but new category matches - attach if not already attached
           else if (!mainCategoryAlreadyAttached && !hasManualCategories) {
             // Only update if there are no manual categories (respect user's manual assignments)
             // Attach the new category (but don't remove existing ones)
@@ -392,7 +467,7 @@ export class CategorizationService {
       }
     }
 
-    this.logger?.info('Re-categorization completed', { processed, updated });
+    this.logger?.info('Re-categorization completed', { userId, processed, updated });
     return { processed, updated };
   }
 }
@@ -1,7 +1,10 @@
+import { z } from 'zod';
 import { Logger } from '../utils/logger';
 import { DescriptionMatchResult, VendorMatchResult } from './fuzzy-matching.service';
+import { CategorizationRule } from '../types';
+import { LearnedMapping } from './override-learning.engine';
 
-export type CategorizationSource = 'description' | 'vendor' | 'user' | 'unknown';
+export type CategorizationSource = 'rule' | 'description' | 'vendor' | 'user' | 'unknown';
 export type ConfidenceLevel = 'high' | 'medium' | 'low';
 
 export interface CategorizationDecision {
@@ -16,6 +19,7 @@ export interface CategorizationDecision {
   reason: string;
   confidence: ConfidenceLevel;
   source: CategorizationSource;
+  ruleId?: string; // Set when a user-defined rule decided the category
 
   // Alternative options (for display)
   descriptionAlternatives?: DescriptionMatchResult[];
@@ -34,9 +38,20 @@ export interface DecisionEngineConfig {
   descriptionAdvantage: number;
 }
 
+/**
+ * Proposed thresholds; fields left out keep their current value.
+ */
+export const DecisionEngineConfigUpdateSchema = z
+  .object({
+    descriptionThreshold: z.number().min(0).max(100),
+    vendorThreshold: z.number().min(0).max(100),
+    descriptionAdvantage: z.number().min(1).max(3), // Multiplier the description score must beat the vendor score by
+  })
+  .partial();
+
 /**
  * Decision engine for determining main category using hierarchical logic.
- * Implements the prioritization: description > vendor > unknown
+ * Implements the prioritization: rule > learned from user > description > vendor > unknown
  */
 export class CategorizeDecisionEngine {
   private config: DecisionEngineConfig = {
@@ -128,6 +143,54 @@ export class CategorizeDecisionEngine {
     };
   }
 
+  /**
+   * Decision for a transaction matched by a user-defined rule. Rules are explicit, so they
+   * bypass fuzzy matching entirely and are always high confidence.
+   */
+  decideByRule(rule: CategorizationRule, categoryName?: string): CategorizationDecision {
+    this.logger.debug('Using categorization rule', { ruleId: rule.id, categoryId: rule.categoryId });
+
+    return {
+      mainCategoryId: rule.categoryId,
+      mainCategoryName: categoryName,
+      descriptionCandidates: [],
+      reason: `Matched rule "${rule.name}"`,
+      confidence: 'high',
+      source: 'rule',
+      ruleId: rule.id,
+      appliedThresholds: {
+        description: this.config.descriptionThreshold,
+        vendor: this.config.vendorThreshold,
+      },
+    };
+  }
+
+  /**
+   * Decision for a transaction matched by a mapping learned from the user's manual changes.
+   * Confidence reflects how many transactions the user confirmed the mapping on.
+   */
+  decideByLearnedMapping(mapping: LearnedMapping, categoryName?: string): CategorizationDecision {
+    this.logger.debug('Using learned mapping', {
+      matchType: mapping.matchType,
+      categoryId: mapping.categoryId,
+      confirmations: mapping.confirmations,
+    });
+
+    const subject = mapping.matchType === 'merchantId' ? `merchant ${mapping.key}` : 'this description';
+    return {
+      mainCategoryId: mapping.categoryId,
+      mainCategoryName: categoryName,
+      descriptionCandidates: [],
+      reason: `Learned from ${mapping.confirmations} manual change${mapping.confirmations === 1 ? '' : 's'} for ${subject}`,
+      confidence: mapping.confidence,
+      source: 'user',
+      appliedThresholds: {
+        description: this.config.descriptionThreshold,
+        vendor: this.config.vendorThreshold,
+      },
+    };
+  }
+
   /**
    * Handle case where only description matching is available.
    */
@@ -186,6 +249,10 @@ export class CategorizeDecisionEngine {
     return 'low';
   }
 
+  getConfig(): DecisionEngineConfig {
+    return { ...this.config };
+  }
+
   /**
    * Update configuration at runtime.
    */
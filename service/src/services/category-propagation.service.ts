@@ -0,0 +1,165 @@
+import { DatabaseService } from '../database/database.service';
+import { TransactionRepository } from '../repositories/transaction.repository';
+import { PROPAGATED_OVERRIDE_REASON } from '../repositories/category-score.repository';
+import { Transaction } from '../types';
+import { FuzzyMatchingService } from './fuzzy-matching.service';
+import { TransactionService } from './transaction.service';
+import { extractMerchantId } from './categorization-rules.engine';
+import { normalizeDescription } from './override-learning.engine';
+import { Logger } from '../utils/logger';
+
+export const DEFAULT_PROPAGATION_THRESHOLD = 85;
+
+/**
+ * How a transaction was found similar to the one the user fixed.
+ */
+export type SimilarityMatch = 'merchantId' | 'description' | 'fuzzy';
+
+export interface PropagationCandidate {
+  transactionId: string;
+  accountId: string;
+  date: Date;
+  description: string;
+  amount: number;
+  currency: string;
+  currentCategoryId: string | null;
+  currentCategoryName: string | null;
+  matchedBy: SimilarityMatch;
+  score: number; // 100 for merchant ID and description matches
+}
+
+export interface PropagationPreview {
+  sourceTransactionId: string;
+  categoryId: string;
+  threshold: number;
+  candidates: PropagationCandidate[];
+  skippedManual: number; // Similar transactions left alone because the user categorized them by hand
+}
+
+export interface PropagationOptions {
+  threshold?: number;
+  transactionIds?: string[]; // Limit applying to these candidates, e.g. the ones kept in the preview
+}
+
+/**
+ * Applies a category the user chose for one transaction to similar transactions:
+ * the same merchant ID, the same normalized description, or a fuzzy description match.
+ */
+export class CategoryPropagationService {
+  private fuzzyService = new FuzzyMatchingService();
+
+  constructor(
+    private dbService: DatabaseService,
+    private transactionRepository: TransactionRepository,
+    private transactionService: TransactionService,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Similar transactions whose main category would change, without changing anything.
+   */
+  preview(
+    userId: string,
+    sourceTransactionId: string,
+    categoryId: string,
+    threshold: number = DEFAULT_PROPAGATION_THRESHOLD
+  ): PropagationPreview {
+    const source = this.transactionRepository.findById(sourceTransactionId);
+    if (!source) {
+      throw new Error(`Transaction with ID ${sourceTransactionId} not found`);
+    }
+
+    const sourceMerchantId = extractMerchantId(source);
+    const sourceDescription = normalizeDescription(source.description);
+    const candidates: PropagationCandidate[] = [];
+    let skippedManual = 0;
+
+    for (const transaction of this.transactionRepository.findWithFilters({ userId })) {
+      if (transaction.id === source.id) continue;
+
+      const match = this.matchSimilar(transaction, sourceMerchantId, sourceDescription, threshold);
+      if (!match) continue;
+
+      const main = transaction.categories.find((c) => c.isMain);
+      if (main?.categoryId === categoryId) continue;
+      if (main?.isManual) {
+        skippedManual++;
+        continue;
+      }
+
+      candidates.push({
+        transactionId: transaction.id,
+        accountId: transaction.accountId,
+        date: transaction.date,
+        description: transaction.description,
+        amount: transaction.amount,
+        currency: transaction.currency,
+        currentCategoryId: main?.categoryId ?? null,
+        currentCategoryName: main?.categoryName ?? null,
+        ...match,
+      });
+    }
+
+    candidates.sort((a, b) => b.score - a.score || b.date.getTime() - a.date.getTime());
+
+    return { sourceTransactionId: source.id, categoryId, threshold, candidates, skippedManual };
+  }
+
+  /**
+   * Set the category on the previewed transactions in one database transaction. Candidates are
+   * found again, so transactions categorized by hand since the preview are still skipped. Their
+   * overrides are marked as propagated, so they do not count as confirmations for learning.
+   */
+  apply(
+    userId: string,
+    sourceTransactionId: string,
+    categoryId: string,
+    options: PropagationOptions = {}
+  ): PropagationPreview & { updated: number } {
+    return this.dbService.transaction(() => {
+      const preview = this.preview(userId, sourceTransactionId, categoryId, options.threshold);
+      const selected = options.transactionIds ? new Set(options.transactionIds) : null;
+      const candidates = selected
+        ? preview.candidates.filter((c) => selected.has(c.transactionId))
+        : preview.candidates;
+
+      for (const candidate of candidates) {
+        this.transactionService.setMainCategory(
+          userId,
+          candidate.transactionId,
+          categoryId,
+          true,
+          PROPAGATED_OVERRIDE_REASON
+        );
+      }
+
+      this.logger.info('Propagated category to similar transactions', {
+        sourceTransactionId,
+        categoryId,
+        updated: candidates.length,
+        skippedManual: preview.skippedManual,
+      });
+
+      return { ...preview, candidates, updated: candidates.length };
+    });
+  }
+
+  private matchSimilar(
+    transaction: Transaction,
+    sourceMerchantId: string | null,
+    sourceDescription: string,
+    threshold: number
+  ): { matchedBy: SimilarityMatch; score: number } | null {
+    if (sourceMerchantId && extractMerchantId(transaction) === sourceMerchantId) {
+      return { matchedBy: 'merchantId', score: 100 };
+    }
+
+    const description = normalizeDescription(transaction.description);
+    if (sourceDescription && description === sourceDescription) {
+      return { matchedBy: 'description', score: 100 };
+    }
+
+    const score = this.fuzzyService.scoreDescriptions(sourceDescription, description);
+    return score >= threshold ? { matchedBy: 'fuzzy', score } : null;
+  }
+}
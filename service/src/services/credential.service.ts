@@ -5,6 +5,8 @@ export interface UserCredentialInput {
   password: string;
   card6Digits?: string; // For Isracard/Amex
   id?: string; // For Isracard (user identification number)
+  phoneNumber?: string; // For One Zero (receives the SMS one-time password)
+  otpLongTermToken?: string; // For One Zero, kept while the login details are unchanged
 }
 
 export interface CredentialData {
@@ -14,6 +16,9 @@ export interface CredentialData {
   nationalId?: string;
   id?: string; // For Isracard
   card6Digits?: string; // For Isracard/Amex
+  email?: string; // For One Zero
+  phoneNumber?: string; // For One Zero
+  otpLongTermToken?: string; // For One Zero, saved after the first successful OTP login
   [key: string]: string | undefined;
 }
 
@@ -60,6 +65,14 @@ export class CredentialService {
       normalized.username = input.username;
       normalized.card6Digits = input.card6Digits;
       normalized.password = input.password;
+    } else if (companyId === 'oneZero') {
+      // One Zero requires: email, password, and a phone number for the SMS one-time password
+      normalized.email = input.username;
+      normalized.password = input.password;
+      normalized.phoneNumber = input.phoneNumber;
+      if (input.otpLongTermToken) {
+        normalized.otpLongTermToken = input.otpLongTermToken;
+      }
     } else {
       // Visa Cal, Max, and banks use username/password
       normalized.username = input.username;
@@ -112,6 +125,11 @@ export class CredentialService {
       return !!input.username && !!input.card6Digits && !!input.password;
     }
 
+    // One Zero requires: email (username), password, phoneNumber
+    if (companyId === 'oneZero') {
+      return !!input.username && !!input.phoneNumber && !!input.password;
+    }
+
     // Visa Cal, Max, and banks require: username, password
     return !!input.username && !!input.password;
   }
@@ -0,0 +1,305 @@
+import { BankTransaction } from './scraper.service';
+import { Account, Transaction } from '../types';
+
+export type FinancialFileFormat = 'ofx' | 'qif';
+
+const OFX_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+  '&nbsp;': ' ',
+};
+
+/**
+ * Reads and writes the OFX/QFX and QIF files used by desktop finance tools
+ * (Quicken, GnuCash, Moneydance, ...).
+ */
+export class FinancialFileService {
+  /**
+   * Format of a file by its extension, or null for anything else. QFX is Quicken's OFX.
+   */
+  detectFormat(fileName: string): FinancialFileFormat | null {
+    const lower = fileName.toLowerCase();
+    if (lower.endsWith('.ofx') || lower.endsWith('.qfx')) return 'ofx';
+    if (lower.endsWith('.qif')) return 'qif';
+    return null;
+  }
+
+  parse(text: string, format: FinancialFileFormat): BankTransaction[] {
+    return format === 'ofx' ? this.parseOfx(text) : this.parseQif(text);
+  }
+
+  /**
+   * Parse the statement transactions of an OFX file. Handles both OFX 1.x (SGML, leaf
+   * tags usually left unclosed) and OFX 2.x (XML), since only leaf values are read.
+   */
+  parseOfx(text: string): BankTransaction[] {
+    if (!/<OFX>/i.test(text)) {
+      throw new Error('Not an OFX file');
+    }
+
+    const defaultCurrency = this.readOfxTag(text, 'CURDEF') || 'ILS';
+    const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+    return blocks
+      .map((block) => {
+        const posted = this.parseOfxDate(this.readOfxTag(block, 'DTPOSTED'));
+        const amount = parseFloat((this.readOfxTag(block, 'TRNAMT') || '').replace(',', '.'));
+        if (!posted || isNaN(amount)) {
+          return null;
+        }
+
+        const date = this.parseOfxDate(this.readOfxTag(block, 'DTUSER')) || posted;
+        const name = this.readOfxTag(block, 'NAME') || this.readOfxTag(block, 'PAYEE');
+        const memo = this.readOfxTag(block, 'MEMO');
+        const currency = this.readOfxTag(block, 'CURSYM') || defaultCurrency;
+        const identifier = this.readOfxTag(block, 'FITID') || this.readOfxTag(block, 'CHECKNUM');
+
+        const txn: BankTransaction = {
+          type: 'normal',
+          date: date.toISOString(),
+          processedDate: posted.toISOString(),
+          originalAmount: amount,
+          originalCurrency: currency.toUpperCase(),
+          chargedAmount: amount,
+          // Some banks leave NAME empty and put the payee in MEMO
+          description: name || memo || '',
+          status: 'completed',
+        };
+        if (identifier) txn.identifier = identifier;
+        if (memo && name) txn.memo = memo;
+        return txn;
+      })
+      .filter((txn): txn is BankTransaction => txn !== null && txn.description !== '');
+  }
+
+  /**
+   * Parse the transactions of a QIF file. Dates are read month first, as Quicken writes
+   * them, unless the first part cannot be a month.
+   */
+  parseQif(text: string): BankTransaction[] {
+    const transactions: BankTransaction[] = [];
+    let record: Record<string, string> = {};
+    let inTransactions = false;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line) continue;
+
+      if (line.startsWith('!')) {
+        // Account and category lists share the record syntax but are not transactions
+        inTransactions = /^!Type:(Bank|Cash|CCard|Oth [AL])/i.test(line);
+        record = {};
+        continue;
+      }
+
+      if (line === '^') {
+        if (inTransactions) {
+          const txn = this.toQifTransaction(record);
+          if (txn) transactions.push(txn);
+        }
+        record = {};
+        continue;
+      }
+
+      const code = line[0];
+      // Split lines (S/E/$) repeat per split; the transaction total is what gets stored
+      if (!(code in record)) {
+        record[code] = line.slice(1).trim();
+      }
+    }
+
+    if (transactions.length === 0 && !/^!Type:/im.test(text)) {
+      throw new Error('Not a QIF file');
+    }
+
+    return transactions;
+  }
+
+  /**
+   * OFX 1.02 statement with one statement block per account. FITIDs are the transaction
+   * IDs, so exporting the same transactions twice does not duplicate them in the target tool.
+   */
+  toOfx(transactions: Transaction[], accounts: Account[], now: Date = new Date()): string {
+    const lines = [
+      'OFXHEADER:100',
+      'DATA:OFXSGML',
+      'VERSION:102',
+      'SECURITY:NONE',
+      'ENCODING:UTF-8',
+      'CHARSET:NONE',
+      'COMPRESSION:NONE',
+      'OLDFILEUID:NONE',
+      'NEWFILEUID:NONE',
+      '',
+      '<OFX>',
+      '<SIGNONMSGSRSV1><SONRS>',
+      '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+      `<DTSERVER>${this.formatOfxDate(now)}</DTSERVER>`,
+      '<LANGUAGE>ENG</LANGUAGE>',
+      '</SONRS></SIGNONMSGSRSV1>',
+    ];
+
+    const bankStatements: string[] = [];
+    const cardStatements: string[] = [];
+
+    for (const account of accounts) {
+      const accountTxns = transactions.filter((t) => t.accountId === account.id);
+      if (accountTxns.length === 0) continue;
+
+      const dates = accountTxns.map((t) => t.date.getTime());
+      const isCard = account.accountType === 'credit';
+      const statement = [
+        isCard ? '<CCSTMTTRNRS>' : '<STMTTRNRS>',
+        `<TRNUID>${this.escapeOfx(account.id)}</TRNUID>`,
+        '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+        isCard ? '<CCSTMTRS>' : '<STMTRS>',
+        `<CURDEF>${accountTxns[0].currency || 'ILS'}</CURDEF>`,
+        isCard
+          ? `<CCACCTFROM><ACCTID>${this.escapeOfx(account.accountNumber)}</ACCTID></CCACCTFROM>`
+          : `<BANKACCTFROM><BANKID>${this.escapeOfx(account.companyId)}</BANKID>` +
+            `<ACCTID>${this.escapeOfx(account.accountNumber)}</ACCTID>` +
+            '<ACCTTYPE>CHECKING</ACCTTYPE></BANKACCTFROM>',
+        '<BANKTRANLIST>',
+        `<DTSTART>${this.formatOfxDate(new Date(Math.min(...dates)))}</DTSTART>`,
+        `<DTEND>${this.formatOfxDate(new Date(Math.max(...dates)))}</DTEND>`,
+        ...accountTxns.map((t) =>
+          [
+            '<STMTTRN>',
+            `<TRNTYPE>${t.amount < 0 ? 'DEBIT' : 'CREDIT'}</TRNTYPE>`,
+            `<DTPOSTED>${this.formatOfxDate(t.processedDate)}</DTPOSTED>`,
+            `<DTUSER>${this.formatOfxDate(t.date)}</DTUSER>`,
+            `<TRNAMT>${t.amount.toFixed(2)}</TRNAMT>`,
+            `<FITID>${t.id}</FITID>`,
+            `<NAME>${this.escapeOfx(t.description.slice(0, 32))}</NAME>`,
+            t.description.length > 32 ? `<MEMO>${this.escapeOfx(t.description)}</MEMO>` : '',
+            '</STMTTRN>',
+          ]
+            .filter(Boolean)
+            .join('')
+        ),
+        '</BANKTRANLIST>',
+        isCard ? '</CCSTMTRS>' : '</STMTRS>',
+        isCard ? '</CCSTMTTRNRS>' : '</STMTTRNRS>',
+      ];
+      (isCard ? cardStatements : bankStatements).push(...statement);
+    }
+
+    if (bankStatements.length > 0) {
+      lines.push('<BANKMSGSRSV1>', ...bankStatements, '</BANKMSGSRSV1>');
+    }
+    if (cardStatements.length > 0) {
+      lines.push('<CREDITCARDMSGSRSV1>', ...cardStatements, '</CREDITCARDMSGSRSV1>');
+    }
+    lines.push('</OFX>', '');
+
+    return lines.join('\r\n');
+  }
+
+  /**
+   * QIF with an account header before each account's transactions, which Quicken and
+   * GnuCash use to import several accounts from one file. The main category becomes L.
+   */
+  toQif(transactions: Transaction[], accounts: Account[]): string {
+    const lines: string[] = [];
+
+    for (const account of accounts) {
+      const accountTxns = transactions.filter((t) => t.accountId === account.id);
+      if (accountTxns.length === 0) continue;
+
+      const type = account.accountType === 'credit' ? 'CCard' : account.accountType === 'manual' ? 'Cash' : 'Bank';
+      lines.push('!Account', `N${account.alias}`, `T${type}`, '^', `!Type:${type}`);
+
+      for (const t of accountTxns) {
+        const category = t.categories.find((c) => c.isMain);
+        lines.push(`D${this.formatQifDate(t.date)}`, `T${t.amount.toFixed(2)}`, `P${t.description}`);
+        if (category) lines.push(`L${category.categoryName}`);
+        if (t.installmentInfo) {
+          lines.push(`MInstallment ${t.installmentInfo.number}/${t.installmentInfo.total}`);
+        }
+        if (t.status === 'completed') lines.push('CX');
+        lines.push('^');
+      }
+    }
+
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  private toQifTransaction(record: Record<string, string>): BankTransaction | null {
+    const date = record.D ? this.parseQifDate(record.D) : null;
+    const amount = parseFloat((record.T ?? record.U ?? '').replace(/,/g, ''));
+    const description = record.P || record.M || '';
+    if (!date || isNaN(amount) || !description) {
+      return null;
+    }
+
+    const txn: BankTransaction = {
+      type: 'normal',
+      date: date.toISOString(),
+      processedDate: date.toISOString(),
+      originalAmount: amount,
+      originalCurrency: 'ILS',
+      chargedAmount: amount,
+      description,
+      status: 'completed',
+    };
+    if (record.N) txn.identifier = record.N;
+    if (record.M && record.P) txn.memo = record.M;
+    return txn;
+  }
+
+  private readOfxTag(text: string, tag: string): string | null {
+    const match = text.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    if (!match) return null;
+    const value = match[1].replace(/&[a-z]+;/gi, (entity) => OFX_ENTITIES[entity.toLowerCase()] ?? entity).trim();
+    return value || null;
+  }
+
+  /**
+   * OFX dates are YYYYMMDD[HHMMSS[.XXX][[TZ]]]. Only the day is kept, as local midnight,
+   * the same as scraped transactions, so both hash the same.
+   */
+  private parseOfxDate(value: string | null): Date | null {
+    const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!match) return null;
+    return this.validDate(parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10));
+  }
+
+  private parseQifDate(value: string): Date | null {
+    // Quicken writes years after 1999 as M/D'YY
+    const match = value.replace(/\s/g, '').match(/^(\d{1,2})[/.-](\d{1,2})[/.'-](\d{2}|\d{4})$/);
+    if (!match) return null;
+
+    let month = parseInt(match[1], 10);
+    let day = parseInt(match[2], 10);
+    if (month > 12) {
+      [month, day] = [day, month];
+    }
+    const year = match[3].length === 2 ? 2000 + parseInt(match[3], 10) : parseInt(match[3], 10);
+    return this.validDate(year, month, day);
+  }
+
+  private validDate(year: number, month: number, day: number): Date | null {
+    const date = new Date(year, month - 1, day);
+    return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+  }
+
+  private formatOfxDate(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return (
+      `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+      `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+    );
+  }
+
+  private formatQifDate(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${pad(date.getMonth() + 1)}/${pad(date.getDate())}/${date.getFullYear()}`;
+  }
+
+  private escapeOfx(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+}
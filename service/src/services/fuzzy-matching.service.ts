@@ -162,6 +162,19 @@ export class FuzzyMatchingService {
     };
   }
 
+  /**
+   * Weighted similarity (0-100) of two descriptions, using the same metrics as category matching.
+   */
+  scoreDescriptions(description1: string, description2: string): number {
+    if (!description1 || !description2) {
+      return 0;
+    }
+
+    return this.calculateCombinedScore(
+      this.calculateScores(this.normalizeText(description1), this.normalizeText(description2))
+    );
+  }
+
   /**
    * Calculate all fuzzy matching metrics for two strings.
    */
@@ -0,0 +1,110 @@
+import { Transaction } from '../types';
+import { OverrideSignal } from '../repositories/category-score.repository';
+import { ConfidenceLevel } from './categorize-decision.engine';
+import { extractMerchantId } from './categorization-rules.engine';
+
+/**
+ * A merchant→category mapping learned from the user's manual category changes.
+ */
+export interface LearnedMapping {
+  matchType: 'merchantId' | 'description';
+  key: string; // Merchant ID, or the normalized description
+  categoryId: string;
+  confirmations: number; // Transactions the user put in this category for this key
+  confidence: ConfidenceLevel;
+  lastConfirmedAt: Date;
+}
+
+export interface LearnedMappings {
+  byMerchantId: Map<string, LearnedMapping>;
+  byDescription: Map<string, LearnedMapping>;
+}
+
+/**
+ * Description key for learned mappings: case, punctuation and spacing are ignored.
+ */
+export function normalizeDescription(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Builds merchant→category mappings from manual overrides. Only the latest override of each
+ * transaction counts; for each merchant ID or description the most recent choice wins, and its
+ * confidence grows with the number of transactions the user put in that category.
+ */
+export class OverrideLearningEngine {
+  build(signals: OverrideSignal[]): LearnedMappings {
+    // Signals come oldest first, so later overrides of a transaction replace earlier ones
+    const latestByTransaction = new Map<string, OverrideSignal>();
+    for (const signal of signals) {
+      latestByTransaction.delete(signal.transactionId);
+      latestByTransaction.set(signal.transactionId, signal);
+    }
+
+    const byMerchantId = new Map<string, OverrideSignal[]>();
+    const byDescription = new Map<string, OverrideSignal[]>();
+    for (const signal of latestByTransaction.values()) {
+      const merchantId = extractMerchantId(signal);
+      if (merchantId) this.append(byMerchantId, merchantId, signal);
+
+      const description = normalizeDescription(signal.description);
+      if (description) this.append(byDescription, description, signal);
+    }
+
+    return {
+      byMerchantId: this.summarize('merchantId', byMerchantId),
+      byDescription: this.summarize('description', byDescription),
+    };
+  }
+
+  /**
+   * Merchant ID mappings are more specific, so they are tried before the description.
+   */
+  findMapping(mappings: LearnedMappings, transaction: Transaction): LearnedMapping | null {
+    const merchantId = extractMerchantId(transaction);
+    if (merchantId) {
+      const mapping = mappings.byMerchantId.get(merchantId);
+      if (mapping) return mapping;
+    }
+    return mappings.byDescription.get(normalizeDescription(transaction.description)) ?? null;
+  }
+
+  static confidenceFor(confirmations: number): ConfidenceLevel {
+    if (confirmations >= 3) return 'high';
+    if (confirmations === 2) return 'medium';
+    return 'low';
+  }
+
+  private append(groups: Map<string, OverrideSignal[]>, key: string, signal: OverrideSignal): void {
+    const group = groups.get(key);
+    if (group) {
+      group.push(signal);
+    } else {
+      groups.set(key, [signal]);
+    }
+  }
+
+  private summarize(
+    matchType: LearnedMapping['matchType'],
+    groups: Map<string, OverrideSignal[]>
+  ): Map<string, LearnedMapping> {
+    const mappings = new Map<string, LearnedMapping>();
+    for (const [key, signals] of groups) {
+      // Groups keep the order of the overrides, so the last signal is the latest
+      const latest = signals[signals.length - 1];
+      const confirmations = signals.filter((s) => s.categoryId === latest.categoryId).length;
+      mappings.set(key, {
+        matchType,
+        key,
+        categoryId: latest.categoryId,
+        confirmations,
+        confidence: OverrideLearningEngine.confidenceFor(confirmations),
+        lastConfirmedAt: latest.overriddenAt,
+      });
+    }
+    return mappings;
+  }
+}
@@ -1,26 +1,101 @@
-import { ScraperService, ScraperOptions } from './scraper.service';
+import {
+  ScraperService,
+  ScraperOptions,
+  ScraperResult,
+  ScrapedAccount,
+  BankTransaction,
+  OtpCodeRetriever,
+  ScrapeErrorClass,
+  ScrapeScreenshot,
+} from './scraper.service';
 import { CredentialService } from './credential.service';
 import { TransactionService } from './transaction.service';
 import { TransactionProcessorService } from './transaction-processor.service';
-import { CategorizationService } from './categorization.service';
+import { CategorizationService, CategorizationContext } from './categorization.service';
 import { Logger } from '../utils/logger';
 import { AccountRepository } from '../repositories/account.repository';
 import { CredentialRepository } from '../repositories/credential.repository';
 import { TransactionRepository } from '../repositories/transaction.repository';
-import { TransactionCategoryRepository } from '../repositories/transaction-category.repository';
-import { CategoryRepository } from '../repositories/category.repository';
-import { CategoryScoreRepository } from '../repositories/category-score.repository';
-import { randomUUID } from 'crypto';
+import { ScraperJobRepository } from '../repositories/scraper-job.repository';
+import { BalanceSnapshotRepository, toSnapshotDate } from '../repositories/balance-snapshot.repository';
+import { ScrapingOptions } from '../config/config.schema';
+import { Account } from '../types';
+import { EventEmitter } from 'events';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days re-fetched before the last successful scrape, per institution.
+ * Card issuers post charges days after the purchase, so they get a wider window.
+ * Isracard/Amex stay narrow since they rate limit large date ranges.
+ * Overridable per company through scraping.syncOverlapDays.
+ */
+const DEFAULT_SYNC_OVERLAP_DAYS: Record<string, number> = {
+  default: 3,
+  visaCal: 7,
+  max: 7,
+  isracard: 3,
+  amex: 3,
+};
+
+/**
+ * How often a failed account is scraped again, per error class. The wait before retry n
+ * is baseDelayMs * 2^(n-1). Failures that need the user (bad credentials, a required
+ * password change, a missing one-time password) are never retried.
+ * Overridable per class through scraping.retryPolicies.
+ */
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+}
+
+const DEFAULT_RETRY_POLICIES: Record<ScrapeErrorClass, RetryPolicy> = {
+  invalid_credentials: { maxRetries: 0, baseDelayMs: 0 },
+  change_password: { maxRetries: 0, baseDelayMs: 0 },
+  otp_required: { maxRetries: 0, baseDelayMs: 0 },
+  rate_limited: { maxRetries: 2, baseDelayMs: 60000 },
+  timeout: { maxRetries: 2, baseDelayMs: 10000 },
+  generic: { maxRetries: 1, baseDelayMs: 5000 },
+};
+
+/**
+ * Options for a job. Without a startDate the job runs in "since last sync" mode:
+ * each account starts from its last successful scrape minus the overlap window
+ * (overlapDays, or the institution default), and never-scraped accounts go back
+ * scraping.daysBack days.
+ * Interactive jobs pause in waiting_for_otp when an institution asks for a one-time
+ * password; non-interactive (scheduled) jobs fail those accounts instead.
+ */
+export type JobScraperOptions = Omit<ScraperOptions, 'startDate'> & {
+  startDate?: Date;
+  overlapDays?: number;
+  interactive?: boolean;
+};
 
 export interface ScraperJob {
   id: string;
   userId: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'waiting_for_otp' | 'completed' | 'failed';
   startedAt: Date | null;
   completedAt: Date | null;
   accountsToScrape: string[];
   results: JobResult[];
   error: string | null;
+  progress: AccountProgress[];
+  createdAt: Date;
+}
+
+/**
+ * Live stage of a single account within a running job.
+ * Stages are the scraper's own progress types (LOGGING_IN, LOGIN_SUCCESS, ...)
+ * plus the orchestrator's QUEUED, WAITING_FOR_OTP, SAVING, DONE and FAILED.
+ */
+export interface AccountProgress {
+  accountId: string;
+  accountName: string;
+  companyId: string;
+  stage: string;
+  updatedAt: Date;
 }
 
 export interface JobResult {
@@ -30,12 +105,61 @@ export interface JobResult {
   success: boolean;
   transactionsCount: number;
   error: string | null;
+  errorClass: ScrapeErrorClass | null;
+  attempts: number;
   duration: number;
+  screenshots: ScrapeScreenshot[];
 }
 
+/**
+ * Events published while a job runs, streamed to clients over SSE.
+ * - stage: an account moved to a new stage (see AccountProgress)
+ * - result: an account finished, with the number of new transactions saved
+ * - otp: an account is waiting for a one-time password (submit it with submitOtp)
+ * - job: the whole job reached a final status
+ */
+export type ScraperJobEvent =
+  | {
+      type: 'stage';
+      jobId: string;
+      accountId: string;
+      accountName: string;
+      companyId: string;
+      stage: string;
+      timestamp: Date;
+    }
+  | {
+      type: 'result';
+      jobId: string;
+      result: JobResult;
+      timestamp: Date;
+    }
+  | {
+      type: 'otp';
+      jobId: string;
+      accountId: string;
+      accountName: string;
+      otpType: 'SMS' | 'APP';
+      timestamp: Date;
+    }
+  | {
+      type: 'job';
+      jobId: string;
+      status: ScraperJob['status'];
+      error: string | null;
+      timestamp: Date;
+    };
+
 export class ScraperOrchestratorService {
   private transactionProcessor: TransactionProcessorService;
-  private categorizationService: CategorizationService;
+  // Jobs currently executing, kept in memory so polling sees live progress
+  private activeJobs = new Map<string, ScraperJob>();
+  private jobEvents = new EventEmitter();
+  // One-time password prompts awaiting a code, keyed by `${jobId}:${accountId}`
+  private pendingOtps = new Map<
+    string,
+    { resolve: (code: string) => void; reject: (error: Error) => void; timer: NodeJS.Timeout }
+  >();
 
   constructor(
     private scraperService: ScraperService,
@@ -44,32 +168,19 @@ export class ScraperOrchestratorService {
     private credentialRepository: CredentialRepository,
     private transactionRepository: TransactionRepository,
     private transactionService: TransactionService,
-    private categoryRepository: CategoryRepository,
-    private categoryScoreRepository: CategoryScoreRepository,
-    private transactionCategoryRepository: TransactionCategoryRepository,
+    private categorizationService: CategorizationService,
+    private scraperJobRepository: ScraperJobRepository,
+    private balanceSnapshotRepository: BalanceSnapshotRepository,
+    private scrapingOptions: ScrapingOptions,
     private logger: Logger
   ) {
     this.transactionProcessor = new TransactionProcessorService(this.logger);
-    this.categorizationService = new CategorizationService(
-      this.categoryRepository,
-      this.transactionRepository,
-      this.categoryScoreRepository,
-      this.transactionCategoryRepository,
-      this.logger
-    );
+    // Every open SSE connection adds a listener, so lift the default cap of 10
+    this.jobEvents.setMaxListeners(0);
   }
 
   async createJob(userId: string, accountIds: string[]): Promise<ScraperJob> {
-    const job: ScraperJob = {
-      id: randomUUID(),
-      userId,
-      status: 'pending',
-      startedAt: null,
-      completedAt: null,
-      accountsToScrape: accountIds,
-      results: [],
-      error: null,
-    };
+    const job = this.scraperJobRepository.create(userId, this.toLoginAccountIds(accountIds));
 
     this.logger.info(`Scraper job created`, {
       jobId: job.id,
@@ -82,11 +193,13 @@ export class ScraperOrchestratorService {
 
   async executeJob(
     job: ScraperJob,
-    options: ScraperOptions,
+    options: JobScraperOptions,
     maxParallel: number = 2
   ): Promise<ScraperJob> {
     job.status = 'running';
     job.startedAt = new Date();
+    this.activeJobs.set(job.id, job);
+    this.persistJob(job);
 
     this.logger.scraperLog(`Job execution started`, 'JOB', {
       jobId: job.id,
@@ -99,7 +212,9 @@ export class ScraperOrchestratorService {
         accountId: string;
         accountName: string;
         companyId: string;
+        credentialId: string;
         credentials: any;
+        startDate: Date;
       }> = [];
 
       for (const accountId of job.accountsToScrape) {
@@ -116,7 +231,10 @@ export class ScraperOrchestratorService {
             success: false,
             transactionsCount: 0,
             error: 'Account not found',
+            errorClass: null,
+            attempts: 0,
             duration: 0,
+            screenshots: [],
           });
           continue;
         }
@@ -133,7 +251,10 @@ export class ScraperOrchestratorService {
             success: false,
             transactionsCount: 0,
             error: 'Account is inactive',
+            errorClass: null,
+            attempts: 0,
             duration: 0,
+            screenshots: [],
           });
           continue;
         }
@@ -171,7 +292,10 @@ export class ScraperOrchestratorService {
             success: false,
             transactionsCount: 0,
             error: 'Credentials not found',
+            errorClass: null,
+            attempts: 0,
             duration: 0,
+            screenshots: [],
           });
           continue;
         }
@@ -190,31 +314,63 @@ export class ScraperOrchestratorService {
           hasUsername: !!decryptedCredentials.username,
         });
 
+        const startDate = options.startDate || this.getSyncStartDate(account, options.overlapDays);
+        if (!options.startDate) {
+          this.logger.scraperLog('Incremental scrape window', account.alias, {
+            jobId: job.id,
+            lastScrapedAt: account.lastScrapedAt?.toISOString() || null,
+            startDate: startDate.toISOString(),
+          });
+        }
+
         accountsToScrape.push({
           accountId,
           accountName: account.alias,
           companyId: account.companyId,
+          credentialId: credential.id,
           credentials: decryptedCredentials,
+          startDate,
         });
+        this.updateProgress(job, accountId, account.alias, account.companyId, 'QUEUED');
       }
 
       if (accountsToScrape.length === 0) {
         job.status = 'failed';
         job.error = 'No valid accounts to scrape';
         job.completedAt = new Date();
+        this.persistJob(job);
         this.logger.scraperLog(`Job failed: no valid accounts`, 'JOB', {
           jobId: job.id,
         });
         return job;
       }
 
-      const scraperResults = await this.scraperService.scrapeMultiple(
-        accountsToScrape.map((a) => ({
-          companyId: a.companyId,
-          accountName: a.accountName,
-          credentials: a.credentials,
-        })),
-        options,
+      const scrapeInputs = accountsToScrape.map((a) => ({
+        companyId: a.companyId,
+        accountName: a.accountName,
+        credentials: a.credentials,
+        startDate: a.startDate,
+        onProgress: (stage: string) =>
+          this.updateProgress(job, a.accountId, a.accountName, a.companyId, stage),
+        otpCodeRetriever: options.interactive
+          ? this.createOtpRetriever(job, a.accountId, a.accountName, a.companyId)
+          : undefined,
+      }));
+      // Per-account start dates above take precedence over this one
+      const batchOptions = {
+        ...options,
+        startDate: options.startDate || new Date(),
+        screenshotOnError: this.scrapingOptions.screenshotOnError,
+        screenshotOnProgress: this.scrapingOptions.screenshotOnProgress,
+      };
+
+      const scraperResults = await this.scraperService.scrapeMultiple(scrapeInputs, batchOptions, maxParallel);
+      const attempts = await this.retryFailedScrapes(
+        job,
+        accountsToScrape,
+        scrapeInputs,
+        scraperResults,
+        batchOptions,
         maxParallel
       );
 
@@ -224,102 +380,57 @@ export class ScraperOrchestratorService {
 
         let savedTransactionsCount = 0;
 
-        if (result.success && result.transactions.length > 0) {
-          this.logger.scraperLog('Processing scraped transactions', account.accountName, {
-            rawTransactionsCount: result.transactions.length,
-          });
-
-          const processedTransactions = this.transactionProcessor.processTransactions(
-            result.transactions,
-            account.accountId
-          );
+        if (result.success && result.otpLongTermToken) {
+          this.storeOtpToken(account.credentialId, account.credentials, result.otpLongTermToken, account.accountName);
+        }
 
-          this.logger.calculationLog('Processed transactions', {
-            accountName: account.accountName,
-            processedCount: processedTransactions.length,
-          });
+        if (result.success) {
+          const targets = this.resolveScrapedAccounts(account.accountId, account.accountName, result);
 
-          for (const txn of processedTransactions) {
-            const existingTxn = this.transactionRepository.findByHash(
-              account.accountId,
-              txn.txnHash
-            );
-            if (!existingTxn) {
-              // Create transaction with enrichment data if available
-              const createdTxn = this.transactionRepository.create(
-                account.accountId,
-                txn.txnHash,
-                txn.date,
-                txn.processedDate,
-                txn.amount,
-                txn.currency,
-                txn.description,
-                txn.status,
-                txn.installmentNumber !== null && txn.installmentTotal !== null
-                  ? { number: txn.installmentNumber, total: txn.installmentTotal }
-                  : null,
-                txn.rawJson,
-                undefined, // mainCategoryId - will be set after categorization
-                txn.enrichmentData // Pass enrichment data from scraper
+          for (const target of targets) {
+            if (target.transactions.length > 0) {
+              this.updateProgress(job, account.accountId, account.accountName, account.companyId, 'SAVING');
+              savedTransactionsCount += await this.saveTransactions(
+                job.userId,
+                target.accountId,
+                target.accountName,
+                target.transactions,
+                target.accountId !== account.accountId ? account.accountId : undefined
               );
+            }
 
-              // Categorize transaction using enrichment data if available
-              // The categorization service will extract vendor category from enrichment data
-              // and use it in the categorization hierarchy
-              const categorizationResult = await this.categorizationService.categorizeTransaction(createdTxn);
-              
-              // Handle both old (string[]) and new (CategorizationResult) return types
-              let categoryIds: string[];
-              if (Array.isArray(categorizationResult)) {
-                // Old API: simple string array
-                categoryIds = categorizationResult;
-              } else {
-                // New API: CategorizationResult with allCategoryIds
-                categoryIds = categorizationResult.allCategoryIds;
-              }
-
-              // Use TransactionService to attach categories and set main category
-              // The service handles all business logic: marking first as main,
-              // updating junction table, and syncing main_category_id column
-              this.transactionService.attachCategories(createdTxn.id, categoryIds, {
-                isManual: false,
-                markFirstAsMain: true,
-              });
-
-              savedTransactionsCount++;
+            if (target.accountId !== account.accountId) {
+              this.markScraped(target.accountId);
+              this.recordBalance(target.accountId, target.accountName, target.scraped);
             }
           }
 
-          // Update account's lastScrapedAt timestamp
-          this.accountRepository.updateLastScrapedAt(account.accountId);
-
-          this.logger.scraperLog('Saved transactions to database', account.accountName, {
-            totalTransactions: result.transactions.length,
-            newTransactions: savedTransactionsCount,
-            duplicatesSkipped: processedTransactions.length - savedTransactionsCount,
-          });
-        }
-
-        if (result.success) {
-          try {
-            this.accountRepository.updateLastScrapedAt(account.accountId);
-          } catch (err) {
-            this.logger.error('Failed to update lastScrapedAt', {
-              accountId: account.accountId,
-              error: err instanceof Error ? err.message : err,
-            });
-          }
+          this.markScraped(account.accountId);
+          // The login account keeps the combined balance so its history stays continuous
+          this.recordBalance(account.accountId, account.accountName, result.accounts || []);
         }
 
-        job.results.push({
+        const jobResult: JobResult = {
           accountId: account.accountId,
           accountName: account.accountName,
           companyId: account.companyId,
           success: result.success,
           transactionsCount: savedTransactionsCount,
           error: result.error || null,
+          errorClass: result.success ? null : result.errorClass || 'generic',
+          attempts: attempts[i],
           duration: result.duration,
-        });
+          screenshots: result.screenshots || [],
+        };
+        job.results.push(jobResult);
+        this.emitJobEvent({ type: 'result', jobId: job.id, result: jobResult, timestamp: new Date() });
+        this.updateProgress(
+          job,
+          account.accountId,
+          account.accountName,
+          account.companyId,
+          result.success ? 'DONE' : 'FAILED'
+        );
       }
 
       const allSuccessful = job.results.every((r) => r.success);
@@ -331,6 +442,8 @@ export class ScraperOrchestratorService {
         job.error = `Failed to scrape ${failedAccounts.length} account(s)`;
       }
 
+      this.persistJob(job);
+
       this.logger.scraperLog(`Job execution completed`, 'JOB', {
         jobId: job.id,
         status: job.status,
@@ -345,6 +458,7 @@ export class ScraperOrchestratorService {
       job.status = 'failed';
       job.error = error instanceof Error ? error.message : 'Unknown error';
       job.completedAt = new Date();
+      this.persistJob(job);
 
       this.logger.error(`Job execution failed with exception`, {
         jobId: job.id,
@@ -352,12 +466,80 @@ export class ScraperOrchestratorService {
       });
 
       return job;
+    } finally {
+      this.cancelPendingOtps(job.id);
+      this.activeJobs.delete(job.id);
+      this.emitJobEvent({
+        type: 'job',
+        jobId: job.id,
+        status: job.status,
+        error: job.error,
+        timestamp: new Date(),
+      });
+    }
+  }
+
+  /**
+   * Listen to events of a single job. Returns an unsubscribe function.
+   */
+  subscribeToJob(jobId: string, listener: (event: ScraperJobEvent) => void): () => void {
+    this.jobEvents.on(jobId, listener);
+    return () => {
+      this.jobEvents.off(jobId, listener);
+    };
+  }
+
+  /**
+   * Resume an interactive job waiting for a one-time password. Without an accountId the
+   * code goes to the only account waiting. Returns false when no matching prompt is pending.
+   */
+  submitOtp(userId: string, jobId: string, code: string, accountId?: string): boolean {
+    const job = this.activeJobs.get(jobId);
+    if (!job || job.userId !== userId) {
+      return false;
+    }
+
+    const keys = Array.from(this.pendingOtps.keys()).filter((key) =>
+      accountId ? key === `${jobId}:${accountId}` : key.startsWith(`${jobId}:`)
+    );
+    if (keys.length !== 1) {
+      return false;
     }
+
+    const pending = this.pendingOtps.get(keys[0])!;
+    clearTimeout(pending.timer);
+    this.pendingOtps.delete(keys[0]);
+
+    if (!this.hasPendingOtp(jobId)) {
+      job.status = 'running';
+      this.persistJob(job);
+    }
+
+    pending.resolve(code);
+    return true;
+  }
+
+  /**
+   * Run a job in the background and return immediately.
+   * Callers follow progress through getJob().
+   */
+  startJob(job: ScraperJob, options: JobScraperOptions, maxParallel: number = 2): void {
+    // Use setImmediate so the HTTP response is sent before scraping begins
+    setImmediate(async () => {
+      try {
+        await this.executeJob(job, options, maxParallel);
+      } catch (error) {
+        this.logger.error('Background scraper job error', {
+          jobId: job.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    });
   }
 
   async scrapeActiveAccounts(
     userId: string,
-    options: ScraperOptions,
+    options: JobScraperOptions,
     maxParallel: number = 2
   ): Promise<ScraperJob> {
     const activeAccounts = this.accountRepository.findActiveByUserId(userId);
@@ -367,9 +549,518 @@ export class ScraperOrchestratorService {
       throw new Error('No active accounts found');
     }
 
-    const accountIds = activeAccounts.map((a) => a.id);
+    const accountIds = activeAccounts.filter((a) => !a.parentAccountId && a.accountType !== 'manual').map((a) => a.id);
+    if (accountIds.length === 0) {
+      this.logger.warn(`No scrapable accounts found for user`, { userId });
+      throw new Error('No active accounts found');
+    }
+
     const job = await this.createJob(userId, accountIds);
 
     return this.executeJob(job, options, maxParallel);
   }
+
+  /**
+   * Create (but do not execute) a job covering all of a user's active accounts.
+   */
+  async createActiveAccountsJob(userId: string): Promise<ScraperJob> {
+    const activeAccounts = this.accountRepository.findActiveByUserId(userId);
+
+    if (activeAccounts.length === 0) {
+      this.logger.warn(`No active accounts found for user`, { userId });
+      throw new Error('No active accounts found');
+    }
+
+    const accountIds = activeAccounts.filter((a) => !a.parentAccountId && a.accountType !== 'manual').map((a) => a.id);
+    if (accountIds.length === 0) {
+      this.logger.warn(`No scrapable accounts found for user`, { userId });
+      throw new Error('No active accounts found');
+    }
+
+    return this.createJob(userId, accountIds);
+  }
+
+  /**
+   * Child accounts have no credentials of their own; they are scraped through their login account.
+   * Manual accounts have nothing to scrape and are left out.
+   */
+  private toLoginAccountIds(accountIds: string[]): string[] {
+    const loginIds = accountIds.flatMap((id) => {
+      const account = this.accountRepository.findById(id);
+      if (account?.accountType === 'manual') return [];
+      return [account?.parentAccountId || id];
+    });
+    return Array.from(new Set(loginIds));
+  }
+
+  /**
+   * Mark jobs left pending/running by a previous process as failed.
+   * Called once at startup, since background jobs do not survive a restart.
+   */
+  recoverInterruptedJobs(): void {
+    const count = this.scraperJobRepository.failUnfinished('Interrupted by server restart');
+    if (count > 0) {
+      this.logger.warn('Marked interrupted scraper jobs as failed', { count });
+    }
+  }
+
+  /**
+   * Get a single job by ID, or null if it does not exist or belongs to another user.
+   */
+  getJob(userId: string, jobId: string): ScraperJob | null {
+    const job = this.activeJobs.get(jobId) || this.scraperJobRepository.findById(jobId);
+    if (!job || job.userId !== userId) {
+      return null;
+    }
+    return job;
+  }
+
+  /**
+   * Screenshots captured during a job, per account, in the order they were taken.
+   * Returns null when the job does not exist or belongs to another user.
+   */
+  getJobScreenshots(
+    userId: string,
+    jobId: string
+  ): Array<ScrapeScreenshot & { accountId: string; accountName: string; companyId: string }> | null {
+    const job = this.getJob(userId, jobId);
+    if (!job) {
+      return null;
+    }
+
+    return job.results.flatMap((r) =>
+      r.screenshots.map((shot) => ({
+        ...shot,
+        accountId: r.accountId,
+        accountName: r.accountName,
+        companyId: r.companyId,
+      }))
+    );
+  }
+
+  /**
+   * Path of a screenshot file, only if it belongs to one of the user's jobs.
+   */
+  getJobScreenshotFile(userId: string, jobId: string, fileName: string): string | null {
+    const screenshots = this.getJobScreenshots(userId, jobId);
+    if (!screenshots || !screenshots.some((s) => s.fileName === fileName)) {
+      return null;
+    }
+    return this.scraperService.getScreenshotFile(fileName);
+  }
+
+  /**
+   * List a user's jobs, most recent first.
+   */
+  listJobs(userId: string, limit?: number, offset?: number): ScraperJob[] {
+    return this.scraperJobRepository.findByUserId(userId, limit, offset);
+  }
+
+  /**
+   * Store transactions imported from a statement file. They go through the same
+   * processing as scraped ones, so a later scrape of the same period does not duplicate them.
+   * The account's last sync time is left alone, since an import says nothing about what a scrape would return.
+   */
+  async importTransactions(
+    account: Account,
+    transactions: BankTransaction[]
+  ): Promise<{ total: number; imported: number }> {
+    const imported = await this.saveTransactions(
+      account.userId,
+      account.id,
+      account.alias,
+      transactions,
+      account.parentAccountId ?? undefined
+    );
+    return { total: transactions.length, imported };
+  }
+
+  /**
+   * Overlap window for an institution, in days.
+   */
+  getOverlapDays(companyId: string): number {
+    const overrides = this.scrapingOptions.syncOverlapDays;
+    return (
+      overrides[companyId] ??
+      DEFAULT_SYNC_OVERLAP_DAYS[companyId] ??
+      overrides.default ??
+      DEFAULT_SYNC_OVERLAP_DAYS.default
+    );
+  }
+
+  getRetryPolicy(errorClass: ScrapeErrorClass): RetryPolicy {
+    return this.scrapingOptions.retryPolicies[errorClass] ?? DEFAULT_RETRY_POLICIES[errorClass];
+  }
+
+  /**
+   * Wait before the given retry (1-based) of a failure of this class.
+   */
+  getRetryDelay(errorClass: ScrapeErrorClass, retry: number): number {
+    return this.getRetryPolicy(errorClass).baseDelayMs * 2 ** (retry - 1);
+  }
+
+  /**
+   * Scrape failed accounts again in rounds until each succeeds or its class's policy runs
+   * out. Each round waits for the longest backoff among the accounts in it. Results are
+   * replaced in place; returns the number of attempts made per account.
+   */
+  private async retryFailedScrapes(
+    job: ScraperJob,
+    accounts: Array<{ accountId: string; accountName: string; companyId: string }>,
+    inputs: Parameters<ScraperService['scrapeMultiple']>[0],
+    results: ScraperResult[],
+    options: ScraperOptions,
+    maxParallel: number
+  ): Promise<number[]> {
+    const attempts = results.map(() => 1);
+
+    for (;;) {
+      const retryable = results
+        .map((result, i) => ({ result, i }))
+        .filter(
+          ({ result, i }) =>
+            !result.success && attempts[i] <= this.getRetryPolicy(result.errorClass || 'generic').maxRetries
+        );
+      if (retryable.length === 0) {
+        return attempts;
+      }
+
+      const delayMs = Math.max(
+        ...retryable.map(({ result, i }) => this.getRetryDelay(result.errorClass || 'generic', attempts[i]))
+      );
+
+      for (const { result, i } of retryable) {
+        const account = accounts[i];
+        this.updateProgress(job, account.accountId, account.accountName, account.companyId, 'RETRY_WAIT');
+        this.logger.scraperLog('Retrying failed scrape', account.accountName, {
+          jobId: job.id,
+          errorClass: result.errorClass || 'generic',
+          error: result.error,
+          retry: attempts[i],
+          delayMs,
+        });
+      }
+
+      await this.wait(delayMs);
+
+      const retried = await this.scraperService.scrapeMultiple(
+        retryable.map(({ i }) => inputs[i]),
+        options,
+        maxParallel
+      );
+      retryable.forEach(({ i }, n) => {
+        // Keep the screenshots of earlier attempts alongside the new ones
+        const earlier = results[i].screenshots || [];
+        results[i] = { ...retried[n], screenshots: [...earlier, ...(retried[n].screenshots || [])] };
+        attempts[i]++;
+      });
+    }
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Start date for a "since last sync" scrape of an account.
+   */
+  getSyncStartDate(account: Account, overlapDays?: number, now: Date = new Date()): Date {
+    if (!account.lastScrapedAt) {
+      return new Date(now.getTime() - this.scrapingOptions.daysBack * DAY_MS);
+    }
+
+    const overlap = overlapDays ?? this.getOverlapDays(account.companyId);
+    return new Date(account.lastScrapedAt.getTime() - overlap * DAY_MS);
+  }
+
+  /**
+   * Retriever handed to the scraper for interactive jobs: pauses the job in
+   * waiting_for_otp until submitOtp() provides the code or scraping.otpTimeoutMs passes.
+   */
+  private createOtpRetriever(
+    job: ScraperJob,
+    accountId: string,
+    accountName: string,
+    companyId: string
+  ): OtpCodeRetriever {
+    return (otpType) =>
+      new Promise<string>((resolve, reject) => {
+        const key = `${job.id}:${accountId}`;
+        const timer = setTimeout(() => {
+          this.pendingOtps.delete(key);
+          if (!this.hasPendingOtp(job.id)) {
+            job.status = 'running';
+            this.persistJob(job);
+          }
+          reject(new Error('Timed out waiting for one-time password'));
+        }, this.scrapingOptions.otpTimeoutMs);
+        timer.unref();
+
+        this.pendingOtps.set(key, {
+          resolve: (code) => {
+            this.updateProgress(job, accountId, accountName, companyId, 'OTP_SUBMITTED');
+            resolve(code);
+          },
+          reject,
+          timer,
+        });
+
+        job.status = 'waiting_for_otp';
+        this.persistJob(job);
+        this.updateProgress(job, accountId, accountName, companyId, 'WAITING_FOR_OTP');
+        this.emitJobEvent({ type: 'otp', jobId: job.id, accountId, accountName, otpType, timestamp: new Date() });
+        this.logger.scraperLog('Waiting for one-time password', accountName, { jobId: job.id, otpType });
+      });
+  }
+
+  private hasPendingOtp(jobId: string): boolean {
+    return Array.from(this.pendingOtps.keys()).some((key) => key.startsWith(`${jobId}:`));
+  }
+
+  private cancelPendingOtps(jobId: string): void {
+    for (const [key, pending] of this.pendingOtps) {
+      if (key.startsWith(`${jobId}:`)) {
+        clearTimeout(pending.timer);
+        this.pendingOtps.delete(key);
+        pending.reject(new Error('Scraper job finished'));
+      }
+    }
+  }
+
+  /**
+   * Save the long-term OTP token with the account's encrypted credentials, so later
+   * scrapes (including scheduled ones) log in without a new one-time password.
+   */
+  private storeOtpToken(credentialId: string, credentials: any, token: string, accountName: string): void {
+    try {
+      const encrypted = this.credentialService.encryptCredentials({ ...credentials, otpLongTermToken: token });
+      this.credentialRepository.update(credentialId, encrypted.encryptedData, encrypted.iv, encrypted.salt);
+      this.logger.scraperLog('Stored long-term OTP token', accountName);
+    } catch (err) {
+      this.logger.error('Failed to store long-term OTP token', {
+        accountName,
+        error: err instanceof Error ? err.message : err,
+      });
+    }
+  }
+
+  private updateProgress(
+    job: ScraperJob,
+    accountId: string,
+    accountName: string,
+    companyId: string,
+    stage: string
+  ): void {
+    const now = new Date();
+    const existing = job.progress.find((p) => p.accountId === accountId);
+    if (existing) {
+      existing.stage = stage;
+      existing.updatedAt = now;
+    } else {
+      job.progress.push({ accountId, accountName, companyId, stage, updatedAt: now });
+    }
+
+    this.emitJobEvent({
+      type: 'stage',
+      jobId: job.id,
+      accountId,
+      accountName,
+      companyId,
+      stage,
+      timestamp: now,
+    });
+  }
+
+  /**
+   * Map the accounts returned by a scraper login to stored accounts. A login that returns
+   * a single account keeps everything on the login account. When it returns several
+   * (e.g. three cards under one Max login), each is matched to a child account by
+   * account number, creating the child on first sight.
+   */
+  private resolveScrapedAccounts(
+    accountId: string,
+    accountName: string,
+    result: ScraperResult
+  ): Array<{ accountId: string; accountName: string; transactions: BankTransaction[]; scraped: ScrapedAccount[] }> {
+    const scraped = result.accounts || [];
+    const parent = this.accountRepository.findById(accountId);
+
+    // A single account stays on the login account, unless it was split into children earlier
+    const keepOnLogin =
+      scraped.length === 0 ||
+      (scraped.length === 1 && !this.accountRepository.findChildByAccountNumber(accountId, scraped[0].accountNumber));
+
+    if (keepOnLogin || !parent) {
+      return [{ accountId, accountName, transactions: result.transactions, scraped }];
+    }
+
+    return scraped.map((s) => {
+      let child = this.accountRepository.findChildByAccountNumber(parent.id, s.accountNumber);
+      if (!child) {
+        child = this.accountRepository.create(
+          parent.userId,
+          s.accountNumber,
+          parent.companyId,
+          `${parent.alias} - ${s.accountNumber}`,
+          parent.active,
+          null,
+          parent.id
+        );
+        this.logger.scraperLog('Created child account', accountName, {
+          parentAccountId: parent.id,
+          childAccountId: child.id,
+          accountNumber: s.accountNumber,
+        });
+      }
+
+      return { accountId: child.id, accountName: child.alias, transactions: s.transactions, scraped: [s] };
+    });
+  }
+
+  /**
+   * Process, store and categorize scraped transactions, skipping ones already stored.
+   * For child accounts, transactions stored on the login account before it was split
+   * into children are treated as already stored, so they are not counted twice.
+   * The user's categorization context is loaded once, with the first new transaction.
+   */
+  private async saveTransactions(
+    userId: string,
+    accountId: string,
+    accountName: string,
+    transactions: BankTransaction[],
+    legacyAccountId?: string
+  ): Promise<number> {
+    let savedTransactionsCount = 0;
+    let categorizationContext: CategorizationContext | undefined;
+
+    this.logger.scraperLog('Processing scraped transactions', accountName, {
+      rawTransactionsCount: transactions.length,
+    });
+
+    const processedTransactions = this.transactionProcessor.processTransactions(transactions, accountId);
+
+    this.logger.calculationLog('Processed transactions', {
+      accountName,
+      processedCount: processedTransactions.length,
+    });
+
+    for (const txn of processedTransactions) {
+      const existingTxn =
+        this.transactionRepository.findByHash(accountId, txn.txnHash) ||
+        (legacyAccountId &&
+          this.transactionRepository.findByHash(
+            legacyAccountId,
+            this.transactionProcessor.getTransactionHash(txn, legacyAccountId)
+          ));
+      if (!existingTxn) {
+        // Create transaction with enrichment data if available
+        const createdTxn = this.transactionRepository.create(
+          accountId,
+          txn.txnHash,
+          txn.date,
+          txn.processedDate,
+          txn.amount,
+          txn.currency,
+          txn.description,
+          txn.status,
+          txn.installmentNumber !== null && txn.installmentTotal !== null
+            ? { number: txn.installmentNumber, total: txn.installmentTotal }
+            : null,
+          txn.rawJson,
+          undefined, // mainCategoryId - will be set after categorization
+          txn.enrichmentData // Pass enrichment data from scraper
+        );
+
+        // Categorize transaction using enrichment data if available
+        // The categorization service will extract vendor category from enrichment data
+        // and use it in the categorization hierarchy
+        categorizationContext ??= this.categorizationService.loadContext(userId);
+        const categorizationResult = await this.categorizationService.categorizeTransaction(
+          userId,
+          createdTxn,
+          categorizationContext
+        );
+
+        // Handle both old (string[]) and new (CategorizationResult) return types
+        let categoryIds: string[];
+        if (Array.isArray(categorizationResult)) {
+          // Old API: simple string array
+          categoryIds = categorizationResult;
+        } else {
+          // New API: CategorizationResult with allCategoryIds
+          categoryIds = categorizationResult.allCategoryIds;
+        }
+
+        // Use TransactionService to attach categories and set main category
+        // The service handles all business logic: marking first as main,
+        // updating junction table, and syncing main_category_id column
+        this.transactionService.attachCategories(userId, createdTxn.id, categoryIds, {
+          isManual: false,
+          markFirstAsMain: true,
+        });
+
+        savedTransactionsCount++;
+      }
+    }
+
+    this.logger.scraperLog('Saved transactions to database', accountName, {
+      totalTransactions: transactions.length,
+      newTransactions: savedTransactionsCount,
+      duplicatesSkipped: processedTransactions.length - savedTransactionsCount,
+    });
+
+    return savedTransactionsCount;
+  }
+
+  private markScraped(accountId: string): void {
+    try {
+      this.accountRepository.updateLastScrapedAt(accountId);
+    } catch (err) {
+      this.logger.error('Failed to update lastScrapedAt', {
+        accountId,
+        error: err instanceof Error ? err.message : err,
+      });
+    }
+  }
+
+  /**
+   * Store today's balance for an account. A login can return several accounts
+   * (e.g. multiple bank accounts), so their balances are summed.
+   * Scrapers that do not report a balance (most credit cards) are skipped.
+   */
+  private recordBalance(accountId: string, accountName: string, scraped: ScrapedAccount[]): void {
+    const balances = scraped
+      .map((a) => a.balance)
+      .filter((b): b is number => typeof b === 'number');
+    if (balances.length === 0) return;
+
+    const balance = balances.reduce((sum, b) => sum + b, 0);
+    try {
+      this.balanceSnapshotRepository.upsert(accountId, toSnapshotDate(new Date()), balance);
+      this.logger.scraperLog('Recorded balance snapshot', accountName, { accountId, balance });
+    } catch (err) {
+      this.logger.error('Failed to record balance snapshot', {
+        accountId,
+        error: err instanceof Error ? err.message : err,
+      });
+    }
+  }
+
+  private emitJobEvent(event: ScraperJobEvent): void {
+    this.jobEvents.emit(event.jobId, event);
+  }
+
+  /**
+   * Persist job state. Failures are logged but never abort the scrape itself.
+   */
+  private persistJob(job: ScraperJob): void {
+    try {
+      this.scraperJobRepository.update(job);
+    } catch (err) {
+      this.logger.error('Failed to persist scraper job', {
+        jobId: job.id,
+        error: err instanceof Error ? err.message : err,
+      });
+    }
+  }
 }
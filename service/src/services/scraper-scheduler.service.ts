@@ -0,0 +1,144 @@
+import { parseExpression } from 'cron-parser';
+import { ScraperOrchestratorService, JobScraperOptions } from './scraper-orchestrator.service';
+import { ScrapeScheduleRepository } from '../repositories/scrape-schedule.repository';
+import { AccountRepository } from '../repositories/account.repository';
+import { ScrapingOptions } from '../config/config.schema';
+import { Account, ScrapeSchedule } from '../types';
+import { Logger } from '../utils/logger';
+
+// Banks post daily; credit card statements change slowly enough for a weekly scrape
+const DEFAULT_CRON: Record<Exclude<Account['accountType'], 'manual'>, string> = {
+  bank: '0 6 * * *',
+  credit: '0 6 * * 0',
+};
+
+/**
+ * Runs per-account scrape schedules.
+ * Polls for due schedules on an interval and runs them one at a time through the orchestrator,
+ * so a slow scrape never overlaps the next tick or launches several browsers at once.
+ */
+export class ScraperSchedulerService {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(
+    private scheduleRepository: ScrapeScheduleRepository,
+    private accountRepository: AccountRepository,
+    private scraperOrchestrator: ScraperOrchestratorService,
+    private scrapingOptions: ScrapingOptions,
+    private logger: Logger
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => {
+        this.logger.error('Scheduler tick failed', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+    }, this.scrapingOptions.schedulerIntervalMs);
+    // Do not keep the process alive just for the scheduler
+    this.timer.unref();
+
+    this.logger.info('Scraper scheduler started', {
+      intervalMs: this.scrapingOptions.schedulerIntervalMs,
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getDefaultCron(accountType: keyof typeof DEFAULT_CRON): string {
+    return DEFAULT_CRON[accountType];
+  }
+
+  /**
+   * Next time a cron expression fires after `from`. Throws on an invalid expression.
+   */
+  computeNextRun(cronExpression: string, from: Date = new Date()): Date {
+    try {
+      return parseExpression(cronExpression, { currentDate: from }).next().toDate();
+    } catch (error) {
+      throw new Error(
+        `Invalid cron expression: ${error instanceof Error ? error.message : cronExpression}`
+      );
+    }
+  }
+
+  /**
+   * Run every schedule that is due. Skipped while a previous tick is still running.
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const due = this.scheduleRepository.findDue(now);
+      for (const schedule of due) {
+        await this.runSchedule(schedule, now);
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async runSchedule(schedule: ScrapeSchedule, now: Date): Promise<void> {
+    let nextRunAt: Date | null;
+    try {
+      nextRunAt = this.computeNextRun(schedule.cronExpression, now);
+    } catch (error) {
+      // Stored expressions are validated on write, so this only happens on hand-edited rows
+      this.logger.error('Disabling schedule with invalid cron expression', {
+        scheduleId: schedule.id,
+        cronExpression: schedule.cronExpression,
+      });
+      this.scheduleRepository.update(schedule.id, { enabled: false, nextRunAt: null });
+      return;
+    }
+
+    const account = this.accountRepository.findById(schedule.accountId);
+    if (!account || !account.active) {
+      this.logger.warn('Skipping scheduled scrape for inactive account', {
+        scheduleId: schedule.id,
+        accountId: schedule.accountId,
+      });
+      this.scheduleRepository.recordRun(schedule.id, now, nextRunAt, null);
+      return;
+    }
+
+    const job = await this.scraperOrchestrator.createJob(schedule.userId, [account.id]);
+    this.scheduleRepository.recordRun(schedule.id, now, nextRunAt, job.id);
+
+    this.logger.scraperLog('Scheduled scrape started', account.alias, {
+      scheduleId: schedule.id,
+      jobId: job.id,
+      nextRunAt: nextRunAt.toISOString(),
+    });
+
+    // No startDate: the orchestrator scrapes since the account's last sync
+    const options: JobScraperOptions = {
+      overlapDays: schedule.overlapDays ?? undefined,
+      endDate: now,
+      futureMonths: this.scrapingOptions.futureMonths,
+      combineInstallments: this.scrapingOptions.combineInstallments,
+      timeout: this.scrapingOptions.timeout,
+      showBrowser: this.scrapingOptions.showBrowser,
+    };
+
+    try {
+      await this.scraperOrchestrator.executeJob(job, options, 1);
+    } catch (error) {
+      this.logger.error('Scheduled scrape failed', {
+        scheduleId: schedule.id,
+        jobId: job.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { createScraper, CompanyTypes, ScraperScrapingResult } from 'israeli-bank-scrapers';
+import { ScraperErrorTypes } from 'israeli-bank-scrapers/lib/scrapers/errors';
 import { Logger } from '../utils/logger';
 import { CredentialData } from './credential.service';
 import fs from 'fs';
@@ -28,21 +29,80 @@ export interface ScraperOptions {
   combineInstallments?: boolean;
   timeout?: number;
   showBrowser?: boolean;
-  screenshotPath?: string;
+  screenshotOnError?: boolean; // Capture the browser page when a scrape fails
+  screenshotOnProgress?: boolean; // Also capture it at every progress stage
 }
 
+/**
+ * A screenshot of the scraper's browser page, stored under the service's screenshot directory.
+ * takenAt is epoch ms since results are persisted as JSON.
+ */
+export interface ScrapeScreenshot {
+  fileName: string;
+  stage: string;
+  takenAt: number;
+}
+
+// The part of puppeteer's Page used for screenshots (puppeteer is only a transitive dependency)
+interface ScreenshotPage {
+  screenshot(options: { path: string; fullPage?: boolean }): Promise<unknown>;
+  isClosed(): boolean;
+}
+
+// Stages where the page is already navigating away or closing
+const SKIPPED_SCREENSHOT_STAGES = ['END_SCRAPING', 'TERMINATING'];
+
+/**
+ * An account returned by a single scraper login.
+ * Bank logins usually return one, credit card logins may return several cards.
+ */
+export interface ScrapedAccount {
+  accountNumber: string;
+  balance?: number;
+  transactions: BankTransaction[];
+}
+
+/**
+ * Why a scrape failed. The orchestrator picks a retry policy per class and the UI
+ * shows a matching cause and suggested action.
+ */
+export type ScrapeErrorClass =
+  | 'invalid_credentials'
+  | 'change_password'
+  | 'rate_limited'
+  | 'timeout'
+  | 'otp_required'
+  | 'generic';
+
 export interface ScraperResult {
   success: boolean;
   accountNumber?: string;
+  accounts?: ScrapedAccount[];
   transactionsCount: number;
   transactions: BankTransaction[];
   error?: string;
+  errorClass?: ScrapeErrorClass;
   duration: number;
-  screenshotPath?: string;
+  screenshots?: ScrapeScreenshot[];
   waitingForOTP?: boolean;
   otpType?: 'SMS' | 'APP';
+  otpLongTermToken?: string; // Issued after a successful OTP login; store it to skip the OTP next time
 }
 
+/**
+ * Receives scraper stage changes (LOGGING_IN, LOGIN_SUCCESS, etc.) as they happen.
+ */
+export type ScraperProgressCallback = (stage: string) => void;
+
+/**
+ * Asks the user for a one-time password during an interactive scrape and resolves with the code.
+ */
+export type OtpCodeRetriever = (otpType: 'SMS' | 'APP') => Promise<string>;
+
+type OtpCredentialsResult =
+  | { success: true; credentials: Record<string, string>; newToken?: string }
+  | { success: false; error: string; waitingForOTP?: boolean };
+
 export class ScraperService {
   constructor(
     private logger: Logger,
@@ -61,9 +121,15 @@ export class ScraperService {
     companyId: string,
     accountName: string,
     credentials: CredentialData,
-    options: ScraperOptions
+    options: ScraperOptions,
+    onProgress?: ScraperProgressCallback,
+    otpCodeRetriever?: OtpCodeRetriever
   ): Promise<ScraperResult> {
     const startTime = Date.now();
+    const screenshots: ScrapeScreenshot[] = [];
+    const pendingCaptures: Promise<void>[] = [];
+    const screenshotPrefix = this.getScreenshotPrefix(companyId, accountName, startTime);
+    let page: ScreenshotPage | undefined;
 
     // For Isracard/Amex, limit date range to avoid rate limits (429 errors)
     // Isracard API blocks automation when too many requests are made
@@ -116,6 +182,15 @@ export class ScraperService {
         additionalTransactionInformation: ['isracard', 'amex'].includes(companyId),
       };
 
+      // Keep a handle on the browser page so screenshots can be taken of it
+      scraperOptions.preparePage = async (scraperPage: ScreenshotPage) => {
+        page = scraperPage;
+      };
+      if (options.screenshotOnError) {
+        // The scraper captures the page itself right before closing it after a failure
+        scraperOptions.storeFailureScreenShotPath = path.join(this.screenshotPath, `${screenshotPrefix}_FAILED.png`);
+      }
+
       // Add navigation timeout option for all scrapers (banks and credit cards)
       // This helps with slow-loading login pages and login wizards
       // Banks (like Hapoalim, Leumi) also need this timeout for their browser-based authentication
@@ -141,6 +216,15 @@ export class ScraperService {
           companyId,
           stage: payload.type,
         });
+        onProgress?.(payload.type);
+
+        if (options.screenshotOnProgress && page && !SKIPPED_SCREENSHOT_STAGES.includes(payload.type)) {
+          pendingCaptures.push(
+            this.captureScreenshot(page, screenshotPrefix, payload.type, accountName).then((shot) => {
+              if (shot) screenshots.push(shot);
+            })
+          );
+        }
       });
 
       // Log credential structure (without sensitive values) for debugging
@@ -167,11 +251,37 @@ export class ScraperService {
         hasUsername: !!credentials.username,
       });
 
-      const result: ScraperScrapingResult = await scraper.scrape(credentials as any);
+      let scrapeCredentials: any = credentials;
+      let otpLongTermToken: string | undefined;
+      if (this.requiresOtp(companyId)) {
+        const otp = await this.resolveOtpCredentials(scraper, accountName, credentials, otpCodeRetriever);
+        if (!otp.success) {
+          return {
+            success: false,
+            transactionsCount: 0,
+            transactions: [],
+            error: otp.error,
+            errorClass: otp.waitingForOTP ? 'otp_required' : this.classifyError(undefined, otp.error),
+            duration: Date.now() - startTime,
+            waitingForOTP: otp.waitingForOTP,
+            otpType: otp.waitingForOTP ? 'SMS' : undefined,
+          };
+        }
+        scrapeCredentials = otp.credentials;
+        otpLongTermToken = otp.newToken;
+      }
+
+      const result: ScraperScrapingResult = await scraper.scrape(scrapeCredentials);
+      await Promise.all(pendingCaptures);
 
       const duration = Date.now() - startTime;
 
       if (!result.success) {
+        const failureShot = scraperOptions.storeFailureScreenShotPath as string | undefined;
+        if (failureShot && fs.existsSync(failureShot)) {
+          screenshots.push({ fileName: path.basename(failureShot), stage: 'FAILED', takenAt: Date.now() });
+        }
+
         this.logger.scraperLog(`Scraping failed`, accountName, {
           companyId,
           errorType: result.errorType,
@@ -184,11 +294,14 @@ export class ScraperService {
           transactionsCount: 0,
           transactions: [],
           error: result.errorMessage || 'Unknown error',
+          errorClass: this.classifyError(result.errorType, result.errorMessage),
           duration,
+          screenshots,
         };
       }
 
       const allTransactions: BankTransaction[] = [];
+      const scrapedAccounts: ScrapedAccount[] = [];
       let primaryAccountNumber = '';
 
       if (result.accounts && result.accounts.length > 0) {
@@ -201,6 +314,12 @@ export class ScraperService {
             allTransactions.push(...account.txns);
           }
 
+          scrapedAccounts.push({
+            accountNumber: account.accountNumber,
+            balance: typeof account.balance === 'number' ? account.balance : undefined,
+            transactions: account.txns || [],
+          });
+
           this.logger.scraperLog(`Retrieved account data`, accountName, {
             companyId,
             accountNumber: account.accountNumber,
@@ -220,16 +339,20 @@ export class ScraperService {
       return {
         success: true,
         accountNumber: primaryAccountNumber,
+        accounts: scrapedAccounts,
         transactionsCount: allTransactions.length,
         transactions: allTransactions,
         duration,
+        screenshots,
+        otpLongTermToken,
       };
     } catch (error) {
       const duration = Date.now() - startTime;
       let errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const errorClass = this.classifyError(undefined, errorMessage);
 
-      // Check for rate limit errors (429) from Isracard API
-      if (errorMessage.includes('429') || errorMessage.includes('Block Automation') || errorMessage.toLowerCase().includes('rate limit')) {
+      // Rate limits come from the Isracard API blocking automation (429)
+      if (errorClass === 'rate_limited') {
         const isIsracardOrAmex = ['isracard', 'amex'].includes(companyId);
         if (isIsracardOrAmex) {
           errorMessage = `Isracard API rate limit exceeded. The API blocks automation when too many requests are made. Please try again later or reduce the date range (maximum 6 months recommended). Original error: ${errorMessage}`;
@@ -242,23 +365,13 @@ export class ScraperService {
         companyId,
         error: errorMessage,
         duration: `${duration}ms`,
-        isRateLimit: errorMessage.includes('rate limit') || errorMessage.includes('429'),
+        errorClass,
       });
 
-      let screenshotPath: string | undefined;
-      if (options.screenshotPath) {
-        try {
-          screenshotPath = path.join(
-            this.screenshotPath,
-            `${companyId}_${accountName}_${Date.now()}.png`
-          );
-          this.logger.scraperLog(`Screenshot saved`, accountName, {
-            companyId,
-            screenshotPath,
-          });
-        } catch (screenshotError) {
-          this.logger.error(`Failed to save screenshot: ${screenshotError}`);
-        }
+      await Promise.all(pendingCaptures);
+      if (options.screenshotOnError && page) {
+        const shot = await this.captureScreenshot(page, screenshotPrefix, 'FAILED', accountName);
+        if (shot) screenshots.push(shot);
       }
 
       return {
@@ -266,12 +379,95 @@ export class ScraperService {
         transactionsCount: 0,
         transactions: [],
         error: errorMessage,
+        errorClass,
         duration,
-        screenshotPath,
+        screenshots,
       };
     }
   }
 
+  /**
+   * Absolute path of a stored screenshot, or null if the name is not a plain file name
+   * inside the screenshot directory or the file is gone.
+   */
+  getScreenshotFile(fileName: string): string | null {
+    if (path.basename(fileName) !== fileName || !fileName.endsWith('.png')) {
+      return null;
+    }
+
+    const filePath = path.resolve(this.screenshotPath, fileName);
+    return fs.existsSync(filePath) ? filePath : null;
+  }
+
+  private getScreenshotPrefix(companyId: string, accountName: string, startTime: number): string {
+    const safeName = accountName.replace(/[^a-zA-Z0-9-]+/g, '_');
+    return `${companyId}_${safeName}_${startTime}`;
+  }
+
+  /**
+   * Save a screenshot of the page. Failures are logged and ignored, since the page
+   * may already be closed by the time a capture runs.
+   */
+  private async captureScreenshot(
+    page: ScreenshotPage,
+    prefix: string,
+    stage: string,
+    accountName: string
+  ): Promise<ScrapeScreenshot | null> {
+    if (page.isClosed()) {
+      return null;
+    }
+
+    const fileName = `${prefix}_${stage}.png`;
+    try {
+      await page.screenshot({ path: path.join(this.screenshotPath, fileName), fullPage: true });
+      this.logger.scraperLog(`Screenshot saved`, accountName, { stage, fileName });
+      return { fileName, stage, takenAt: Date.now() };
+    } catch (error) {
+      this.logger.scraperLog(`Failed to save screenshot`, accountName, {
+        stage,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Sort a failure into an error class, preferring the scraper's own error type and
+   * falling back to the message for exceptions thrown outside the scraper result.
+   */
+  classifyError(errorType?: string, message: string = ''): ScrapeErrorClass {
+    switch (errorType) {
+      case ScraperErrorTypes.InvalidPassword:
+      case ScraperErrorTypes.AccountBlocked:
+        return 'invalid_credentials';
+      case ScraperErrorTypes.ChangePassword:
+        return 'change_password';
+      case ScraperErrorTypes.Timeout:
+        return 'timeout';
+    }
+
+    const text = message.toLowerCase();
+    if (text.includes('429') || text.includes('block automation') || text.includes('rate limit') || text.includes('too many requests')) {
+      return 'rate_limited';
+    }
+    if (text.includes('timeout') || text.includes('timed out')) {
+      return 'timeout';
+    }
+    if (text.includes('change password') || text.includes('password expired')) {
+      return 'change_password';
+    }
+    if (
+      text.includes('invalid password') ||
+      text.includes('wrong password') ||
+      text.includes('invalid credentials') ||
+      text.includes('one-time password was rejected')
+    ) {
+      return 'invalid_credentials';
+    }
+    return 'generic';
+  }
+
   private getCompanyType(companyId: string): CompanyTypes {
     const mapping: Record<string, CompanyTypes> = {
       hapoalim: CompanyTypes.hapoalim,
@@ -284,11 +480,80 @@ export class ScraperService {
       max: CompanyTypes.max,
       isracard: CompanyTypes.isracard,
       amex: CompanyTypes.amex,
+      oneZero: CompanyTypes.oneZero,
     };
 
     return mapping[companyId] || CompanyTypes.leumi;
   }
 
+  private requiresOtp(companyId: string): boolean {
+    return companyId === 'oneZero';
+  }
+
+  /**
+   * Build login credentials for scrapers that require a one-time password.
+   * A stored long-term token skips the OTP entirely. Otherwise an SMS is triggered and the
+   * code is requested through the retriever, which only interactive scrapes provide.
+   */
+  private async resolveOtpCredentials(
+    scraper: ReturnType<typeof createScraper>,
+    accountName: string,
+    credentials: CredentialData,
+    otpCodeRetriever?: OtpCodeRetriever
+  ): Promise<OtpCredentialsResult> {
+    const loginCredentials = {
+      email: credentials.email || credentials.username || '',
+      password: credentials.password || '',
+    };
+
+    if (credentials.otpLongTermToken) {
+      return { success: true, credentials: { ...loginCredentials, otpLongTermToken: credentials.otpLongTermToken } };
+    }
+
+    if (!otpCodeRetriever) {
+      this.logger.scraperLog('One-time password required but scrape is not interactive', accountName);
+      return {
+        success: false,
+        waitingForOTP: true,
+        error: 'One-time password required. Start the scrape manually to enter the SMS code',
+      };
+    }
+
+    if (!credentials.phoneNumber) {
+      return { success: false, error: 'Phone number is required for one-time password login' };
+    }
+
+    const triggerResult = await scraper.triggerTwoFactorAuth(credentials.phoneNumber);
+    if (!triggerResult.success) {
+      return { success: false, error: triggerResult.errorMessage || 'Failed to send one-time password' };
+    }
+
+    this.logger.scraperLog('One-time password sent, waiting for code', accountName);
+    let otpCode: string;
+    try {
+      otpCode = await otpCodeRetriever('SMS');
+    } catch (error) {
+      // The code never arrived (timed out or the job ended), the same as not being asked at all
+      return {
+        success: false,
+        waitingForOTP: true,
+        error: error instanceof Error ? error.message : 'One-time password was not provided',
+      };
+    }
+
+    const tokenResult = await scraper.getLongTermTwoFactorToken(otpCode);
+    if (!tokenResult.success) {
+      return { success: false, error: tokenResult.errorMessage || 'One-time password was rejected' };
+    }
+
+    this.logger.scraperLog('One-time password accepted', accountName);
+    return {
+      success: true,
+      credentials: { ...loginCredentials, otpLongTermToken: tokenResult.longTermTwoFactorAuthToken },
+      newToken: tokenResult.longTermTwoFactorAuthToken,
+    };
+  }
+
   /**
    * Calculate the number of months between two dates
    */
@@ -304,6 +569,9 @@ export class ScraperService {
       companyId: string;
       accountName: string;
       credentials: CredentialData;
+      startDate?: Date; // Overrides options.startDate for this account
+      onProgress?: ScraperProgressCallback;
+      otpCodeRetriever?: OtpCodeRetriever;
     }>,
     options: ScraperOptions,
     maxParallel: number = 2
@@ -323,7 +591,14 @@ export class ScraperService {
     for (const chunk of chunks) {
       const chunkResults = await Promise.all(
         chunk.map((account) =>
-          this.scrape(account.companyId, account.accountName, account.credentials, options)
+          this.scrape(
+            account.companyId,
+            account.accountName,
+            account.credentials,
+            account.startDate ? { ...options, startDate: account.startDate } : options,
+            account.onProgress,
+            account.otpCodeRetriever
+          )
         )
       );
       results.push(...chunkResults);
@@ -0,0 +1,126 @@
+import { once } from 'events';
+import { Writable } from 'stream';
+import ExcelJS from 'exceljs';
+import { Account, Transaction } from '../types';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+type ExportCell = string | number | Date | null;
+
+interface ExportColumn {
+  header: string;
+  width: number;
+  value: (t: Transaction, account: Account | undefined) => ExportCell;
+}
+
+const enrichmentOf = (t: Transaction): Record<string, any> => (t as any).enrichmentData || {};
+
+const COLUMNS: ExportColumn[] = [
+  { header: 'Date', width: 12, value: (t) => t.date },
+  { header: 'Processed Date', width: 14, value: (t) => t.processedDate },
+  { header: 'Account', width: 20, value: (_t, account) => account?.alias ?? null },
+  { header: 'Description', width: 40, value: (t) => t.description },
+  {
+    header: 'Category',
+    width: 20,
+    value: (t) =>
+      (t.categories.find((c) => c.isMain) ?? t.categories.find((c) => c.categoryId === t.mainCategoryId))
+        ?.categoryName ?? null,
+  },
+  { header: 'Amount', width: 12, value: (t) => t.amount },
+  { header: 'Currency', width: 10, value: (t) => t.currency },
+  { header: 'Status', width: 11, value: (t) => t.status },
+  { header: 'Installment', width: 12, value: (t) => t.installmentInfo?.number ?? null },
+  { header: 'Installments Total', width: 18, value: (t) => t.installmentInfo?.total ?? null },
+  { header: 'Manual', width: 8, value: (t) => (t.isManual ? 'yes' : 'no') },
+  { header: 'Sector', width: 20, value: (t) => enrichmentOf(t).sector ?? null },
+  { header: 'Vendor Category ID', width: 18, value: (t) => enrichmentOf(t).maxCategoryId ?? null },
+  { header: 'Plan', width: 16, value: (t) => enrichmentOf(t).planName ?? null },
+  { header: 'Merchant ID', width: 14, value: (t) => enrichmentOf(t).merchantMetadata?.merchantID ?? null },
+  {
+    header: 'Merchant Address',
+    width: 30,
+    value: (t) => enrichmentOf(t).merchantMetadata?.merchantAddress ?? null,
+  },
+  { header: 'Merchant Phone', width: 14, value: (t) => enrichmentOf(t).merchantMetadata?.merchantPhoneNo ?? null },
+  { header: 'Branch', width: 20, value: (t) => enrichmentOf(t).merchantMetadata?.branchCodeDesc ?? null },
+  { header: 'Transaction Type Code', width: 20, value: (t) => enrichmentOf(t).trnTypeCode ?? null },
+  { header: 'ARN', width: 24, value: (t) => enrichmentOf(t).arn ?? null },
+];
+
+/**
+ * Writes transactions as CSV or XLSX spreadsheets, one row per transaction with the
+ * account alias, main category, installments and the vendor enrichment fields.
+ */
+export class SpreadsheetExportService {
+  get headers(): string[] {
+    return COLUMNS.map((c) => c.header);
+  }
+
+  toRows(transactions: Transaction[], accounts: Account[]): ExportCell[][] {
+    const accountsById = new Map(accounts.map((a) => [a.id, a]));
+    return transactions.map((t) => COLUMNS.map((c) => c.value(t, accountsById.get(t.accountId))));
+  }
+
+  /**
+   * Stream CSV rows into the output and end it. Starts with a byte order mark so that
+   * Excel opens Hebrew descriptions as UTF-8.
+   */
+  async writeCsv(output: Writable, transactions: Transaction[], accounts: Account[]): Promise<void> {
+    await this.write(output, '\uFEFF' + this.toCsvLine(this.headers));
+    for (const row of this.toRows(transactions, accounts)) {
+      await this.write(output, this.toCsvLine(row));
+    }
+    output.end();
+  }
+
+  /**
+   * Stream a single-sheet workbook into the output. The workbook writer ends the output.
+   */
+  async writeXlsx(output: Writable, transactions: Transaction[], accounts: Account[]): Promise<void> {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true });
+    const sheet = workbook.addWorksheet('Transactions', { views: [{ state: 'frozen', ySplit: 1 }] });
+    sheet.columns = COLUMNS.map((c) => ({ header: c.header, width: c.width }));
+    sheet.getRow(1).font = { bold: true };
+    sheet.getColumn(1).numFmt = 'yyyy-mm-dd';
+    sheet.getColumn(2).numFmt = 'yyyy-mm-dd';
+    sheet.getColumn(6).numFmt = '#,##0.00';
+
+    for (const row of this.toRows(transactions, accounts)) {
+      // Excel has no time zones, so keep the local calendar day rather than the UTC instant
+      sheet.addRow(row.map((cell) => (cell instanceof Date ? this.toExcelDate(cell) : cell))).commit();
+    }
+
+    sheet.commit();
+    await workbook.commit();
+  }
+
+  private toCsvLine(cells: ExportCell[]): string {
+    return cells.map((cell) => this.toCsvField(cell)).join(',') + '\r\n';
+  }
+
+  private toCsvField(cell: ExportCell): string {
+    if (cell === null) return '';
+    if (cell instanceof Date) return this.formatDate(cell);
+    if (typeof cell === 'number') return String(cell);
+
+    // Spreadsheet apps run cells starting with these characters as formulas
+    const text = /^[=+@\t\r]/.test(cell) ? `'${cell}` : cell;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private formatDate(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  private toExcelDate(date: Date): Date {
+    return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+  }
+
+  private async write(output: Writable, chunk: string): Promise<void> {
+    if (!output.write(chunk)) {
+      await once(output, 'drain');
+    }
+  }
+}
@@ -0,0 +1,458 @@
+import ExcelJS from 'exceljs';
+import { BankTransaction } from './scraper.service';
+import { FinancialFileService } from './financial-file.service';
+import { Logger } from '../utils/logger';
+
+/**
+ * Where each transaction field lives in a statement export. Every field lists candidate
+ * header names, matched exactly first and then as a prefix (exports append units such as ₪).
+ * Either amount or debit/credit must be mapped.
+ */
+export interface ImportColumnMapping {
+  date: string[];
+  description: string[];
+  amount?: string[];
+  debit?: string[];
+  credit?: string[];
+  processedDate?: string[];
+  currency?: string[];
+  identifier?: string[];
+  memo?: string[];
+  invertAmount?: boolean; // Card exports list charges as positive numbers
+}
+
+export interface ImportPreset {
+  label: string;
+  mapping: ImportColumnMapping;
+}
+
+/**
+ * Column layouts of the statement exports offered on each institution's website.
+ */
+export const IMPORT_PRESETS: Record<string, ImportPreset> = {
+  hapoalim: {
+    label: 'Bank Hapoalim',
+    mapping: {
+      date: ['תאריך'],
+      description: ['תיאור הפעולה', 'הפעולה'],
+      debit: ['בחובה'],
+      credit: ['בזכות'],
+      processedDate: ['תאריך ערך'],
+      identifier: ['אסמכתא'],
+      memo: ['פרטים'],
+    },
+  },
+  leumi: {
+    label: 'Bank Leumi',
+    mapping: {
+      date: ['תאריך'],
+      description: ['תיאור', 'תאור'],
+      debit: ['בחובה'],
+      credit: ['בזכות'],
+      processedDate: ['תאריך ערך'],
+      identifier: ['אסמכתא'],
+    },
+  },
+  max: {
+    label: 'Max',
+    mapping: {
+      date: ['תאריך עסקה'],
+      description: ['שם בית העסק', 'שם בית עסק'],
+      amount: ['סכום חיוב'],
+      processedDate: ['תאריך חיוב'],
+      currency: ['מטבע חיוב'],
+      memo: ['הערות'],
+      invertAmount: true,
+    },
+  },
+  visaCal: {
+    label: 'Cal',
+    mapping: {
+      date: ['תאריך עסקה'],
+      description: ['שם בית עסק', 'שם בית העסק'],
+      amount: ['סכום חיוב'],
+      processedDate: ['תאריך חיוב'],
+      memo: ['פירוט נוסף', 'הערות'],
+      invertAmount: true,
+    },
+  },
+  isracard: {
+    label: 'Isracard',
+    mapping: {
+      date: ['תאריך רכישה', 'תאריך עסקה'],
+      description: ['שם בית עסק', 'שם בית העסק'],
+      amount: ['סכום חיוב'],
+      currency: ['מטבע חיוב'],
+      identifier: ["מס' שובר", 'מספר שובר'],
+      memo: ['פירוט נוסף'],
+      invertAmount: true,
+    },
+  },
+};
+
+export interface StatementImportResult {
+  transactions: BankTransaction[];
+  skippedRows: number;
+}
+
+type CellValue = string | number | Date | null;
+
+// Statement exports put a few title lines above the column headers
+const MAX_HEADER_SEARCH_ROWS = 30;
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '₪': 'ILS',
+  'ש"ח': 'ILS',
+  "ש''ח": 'ILS',
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+};
+
+/**
+ * Parses CSV, XLSX, OFX/QFX and QIF statement files into the same transaction shape the
+ * scrapers return, so imported rows go through the regular processing, dedupe and categorization.
+ */
+export class StatementImportService {
+  constructor(
+    private financialFileService: FinancialFileService,
+    private logger: Logger
+  ) {}
+
+  getPresets(): Array<{ id: string; label: string }> {
+    return Object.entries(IMPORT_PRESETS).map(([id, preset]) => ({ id, label: preset.label }));
+  }
+
+  /**
+   * OFX/QFX and QIF files describe their own fields; spreadsheets need a column mapping.
+   */
+  requiresMapping(fileName: string): boolean {
+    return this.financialFileService.detectFormat(fileName) === null;
+  }
+
+  /**
+   * Parse a statement file. Spreadsheets use a preset's mapping or a custom one. Throws when
+   * the file cannot be read or the mapped headers are not found.
+   */
+  async parse(
+    buffer: Buffer,
+    fileName: string,
+    presetId?: string,
+    customMapping?: ImportColumnMapping
+  ): Promise<StatementImportResult> {
+    const format = this.financialFileService.detectFormat(fileName);
+    if (format) {
+      const transactions = this.financialFileService.parse(this.decodeText(buffer), format);
+      this.logger.info('Parsed statement file', { fileName, format, transactions: transactions.length });
+      return { transactions, skippedRows: 0 };
+    }
+
+    const mapping = customMapping || (presetId ? IMPORT_PRESETS[presetId]?.mapping : undefined);
+    if (!mapping) {
+      throw new Error(`Unknown import preset: ${presetId}`);
+    }
+
+    const rows = await this.readRows(buffer, fileName);
+    const header = this.findHeader(rows, mapping);
+    if (!header) {
+      throw new Error('Could not find the expected column headers in the file');
+    }
+
+    const transactions: BankTransaction[] = [];
+    let skippedRows = 0;
+
+    for (const row of rows.slice(header.rowIndex + 1)) {
+      if (row.every((cell) => cell === null || String(cell).trim() === '')) {
+        continue;
+      }
+
+      const txn = this.toTransaction(row, header.columns, mapping);
+      if (txn) {
+        transactions.push(txn);
+      } else {
+        // Totals, card sub-headers and footers have no date or amount
+        skippedRows++;
+      }
+    }
+
+    this.logger.info('Parsed statement file', {
+      fileName,
+      preset: customMapping ? 'custom' : presetId,
+      transactions: transactions.length,
+      skippedRows,
+    });
+
+    return { transactions, skippedRows };
+  }
+
+  private async readRows(buffer: Buffer, fileName: string): Promise<CellValue[][]> {
+    const lower = fileName.toLowerCase();
+    if (lower.endsWith('.xlsx')) {
+      return this.readXlsx(buffer);
+    }
+    if (lower.endsWith('.xls')) {
+      throw new Error('Legacy .xls files are not supported. Save the file as .xlsx or CSV');
+    }
+    return this.readCsv(this.decodeText(buffer));
+  }
+
+  private async readXlsx(buffer: Buffer): Promise<CellValue[][]> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer as any);
+
+    const sheet = workbook.worksheets[0];
+    if (!sheet) {
+      return [];
+    }
+
+    const rows: CellValue[][] = [];
+    sheet.eachRow({ includeEmpty: true }, (row) => {
+      const values: CellValue[] = [];
+      for (let col = 1; col <= row.cellCount; col++) {
+        values.push(this.toCellValue(row.getCell(col).value));
+      }
+      rows.push(values);
+    });
+    return rows;
+  }
+
+  private toCellValue(value: ExcelJS.CellValue): CellValue {
+    if (value === null || value === undefined) return null;
+    if (value instanceof Date || typeof value === 'number' || typeof value === 'string') return value;
+    if (typeof value === 'boolean') return String(value);
+    if ('result' in value) return this.toCellValue(value.result as ExcelJS.CellValue);
+    if ('richText' in value) return value.richText.map((part) => part.text).join('');
+    if ('text' in value) return String(value.text);
+    return null;
+  }
+
+  /**
+   * Israeli bank exports are often Windows-1255 rather than UTF-8.
+   */
+  private decodeText(buffer: Buffer): string {
+    let text: string;
+    try {
+      text = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    } catch {
+      text = new TextDecoder('windows-1255').decode(buffer);
+    }
+    return text.replace(/^\uFEFF/, '');
+  }
+
+  private readCsv(text: string): CellValue[][] {
+    // Title lines above the headers rarely contain delimiters, so look past them
+    const sample = text.split(/\r?\n/, MAX_HEADER_SEARCH_ROWS).join('\n');
+    const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+      sample.split(candidate).length > sample.split(best).length ? candidate : best
+    );
+
+    const rows: CellValue[][] = [];
+    let row: CellValue[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  private findHeader(
+    rows: CellValue[][],
+    mapping: ImportColumnMapping
+  ): { rowIndex: number; columns: Partial<Record<keyof ImportColumnMapping, number>> } | null {
+    const fields: Array<keyof ImportColumnMapping> = [
+      'date',
+      'description',
+      'amount',
+      'debit',
+      'credit',
+      'processedDate',
+      'currency',
+      'identifier',
+      'memo',
+    ];
+
+    for (let rowIndex = 0; rowIndex < Math.min(rows.length, MAX_HEADER_SEARCH_ROWS); rowIndex++) {
+      const headers = rows[rowIndex].map((cell) => this.normalizeHeader(cell));
+      const columns: Partial<Record<keyof ImportColumnMapping, number>> = {};
+
+      for (const field of fields) {
+        const candidates = mapping[field];
+        if (!Array.isArray(candidates)) continue;
+        const index = this.findColumn(headers, candidates);
+        if (index !== -1) columns[field] = index;
+      }
+
+      const hasAmount = columns.amount !== undefined || columns.debit !== undefined || columns.credit !== undefined;
+      if (columns.date !== undefined && columns.description !== undefined && hasAmount) {
+        return { rowIndex, columns };
+      }
+    }
+
+    return null;
+  }
+
+  private findColumn(headers: string[], candidates: string[]): number {
+    const normalized = candidates.map((c) => this.normalizeHeader(c));
+    for (const candidate of normalized) {
+      const index = headers.indexOf(candidate);
+      if (index !== -1) return index;
+    }
+    for (const candidate of normalized) {
+      const index = headers.findIndex((h) => h.startsWith(candidate));
+      if (index !== -1) return index;
+    }
+    return -1;
+  }
+
+  private normalizeHeader(cell: CellValue): string {
+    return String(cell ?? '')
+      .replace(/["'״׳]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private toTransaction(
+    row: CellValue[],
+    columns: Partial<Record<keyof ImportColumnMapping, number>>,
+    mapping: ImportColumnMapping
+  ): BankTransaction | null {
+    const cell = (field: keyof ImportColumnMapping) =>
+      columns[field] !== undefined ? (row[columns[field]!] ?? null) : null;
+
+    const date = this.parseDate(cell('date'));
+    const description = String(cell('description') ?? '').trim();
+    if (!date || !description) {
+      return null;
+    }
+
+    let amount: number | null;
+    if (columns.amount !== undefined) {
+      amount = this.parseAmount(cell('amount'));
+    } else {
+      const debit = this.parseAmount(cell('debit'));
+      const credit = this.parseAmount(cell('credit'));
+      amount = debit === null && credit === null ? null : (credit ?? 0) - Math.abs(debit ?? 0);
+    }
+    if (amount === null) {
+      return null;
+    }
+    if (mapping.invertAmount) {
+      amount = -amount;
+    }
+
+    const processedDate = this.parseDate(cell('processedDate')) || date;
+    const currency = this.parseCurrency(cell('currency'));
+    const identifier = String(cell('identifier') ?? '').trim();
+    const memo = String(cell('memo') ?? '').trim();
+
+    const txn: BankTransaction = {
+      type: 'normal',
+      date: date.toISOString(),
+      processedDate: processedDate.toISOString(),
+      originalAmount: amount,
+      originalCurrency: currency,
+      chargedAmount: amount,
+      description,
+      status: 'completed',
+    };
+
+    if (identifier) txn.identifier = identifier;
+    if (memo) txn.memo = memo;
+
+    // Card exports note installments as "תשלום 2 מתוך 12"
+    const installments = memo.match(/תשלום\s+(\d+)\s+מתוך\s+(\d+)/);
+    if (installments) {
+      txn.type = 'installments';
+      txn.installments = { number: parseInt(installments[1], 10), total: parseInt(installments[2], 10) };
+    }
+
+    return txn;
+  }
+
+  /**
+   * Dates become local midnight, the same as the scrapers produce, so imported and
+   * scraped copies of a transaction hash the same.
+   */
+  private parseDate(value: CellValue): Date | null {
+    if (value === null) return null;
+
+    if (value instanceof Date) {
+      // Excel dates carry no time zone and are read as UTC
+      return new Date(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate());
+    }
+
+    const text = String(value).trim();
+    let match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+    if (match) {
+      const year = match[3].length === 2 ? 2000 + parseInt(match[3], 10) : parseInt(match[3], 10);
+      return this.validDate(year, parseInt(match[2], 10), parseInt(match[1], 10));
+    }
+
+    match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (match) {
+      return this.validDate(parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10));
+    }
+
+    return null;
+  }
+
+  private validDate(year: number, month: number, day: number): Date | null {
+    const date = new Date(year, month - 1, day);
+    return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+  }
+
+  private parseAmount(value: CellValue): number | null {
+    if (value === null) return null;
+    if (typeof value === 'number') return value;
+
+    let text = String(value).trim();
+    if (!text) return null;
+
+    // Accounting style: (120.50) or a trailing minus sign
+    const negative = /^\(.*\)$/.test(text) || /-\s*$/.test(text) || text.startsWith('-');
+    text = text.replace(/[^\d.]/g, '');
+    if (!text) return null;
+
+    const amount = parseFloat(text);
+    if (isNaN(amount)) return null;
+    return negative ? -amount : amount;
+  }
+
+  private parseCurrency(value: CellValue): string {
+    const text = String(value ?? '').trim();
+    if (!text) return 'ILS';
+    return CURRENCY_SYMBOLS[text] || text.toUpperCase();
+  }
+}
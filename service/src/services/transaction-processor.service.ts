@@ -64,6 +64,13 @@ export class TransactionProcessorService {
     return processed;
   }
 
+  /**
+   * Hash of an already processed transaction as if it had been stored under another account.
+   */
+  getTransactionHash(txn: ProcessedTransaction, accountId: string): string {
+    return this.generateTransactionHash(accountId, txn.date, txn.amount, txn.description, txn.identifier);
+  }
+
   private processTransaction(txn: BankTransaction, accountId: string): ProcessedTransaction {
     const date = this.normalizeDate(txn.date);
     const processedDate = this.normalizeDate(txn.processedDate);
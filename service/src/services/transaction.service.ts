@@ -1,9 +1,23 @@
+import { randomUUID } from 'crypto';
 import { Transaction, InstallmentInfo } from '../types';
 import { TransactionRepository } from '../repositories/transaction.repository';
 import { TransactionCategoryRepository } from '../repositories/transaction-category.repository';
-import { CategoryRepository } from '../repositories/category.repository';
+import { CategoryRepository, UNKNOWN_CATEGORY_NAME } from '../repositories/category.repository';
+import { CategoryScoreRepository } from '../repositories/category-score.repository';
 import { Logger } from '../utils/logger';
 
+/**
+ * Fields of a transaction entered by hand.
+ */
+export interface ManualTransactionInput {
+  date: Date;
+  amount: number;
+  description: string;
+  currency?: string;
+  status?: 'completed' | 'pending';
+  memo?: string;
+}
+
 /**
  * TransactionService handles all business logic related to transactions,
  * serving as the single point of access for transaction data operations.
@@ -14,7 +28,8 @@ export class TransactionService {
     private logger: Logger,
     private transactionRepository: TransactionRepository,
     private transactionCategoryRepository: TransactionCategoryRepository,
-    private categoryRepository: CategoryRepository
+    private categoryRepository: CategoryRepository,
+    private categoryScoreRepository?: CategoryScoreRepository
   ) {}
 
   /**
@@ -48,6 +63,88 @@ export class TransactionService {
     );
   }
 
+  /**
+   * Create a transaction entered by hand. Its hash is random rather than derived from
+   * its fields, so two identical cash expenses on the same day are both kept.
+   */
+  createManualTransaction(accountId: string, input: ManualTransactionInput): Transaction {
+    const transaction = this.transactionRepository.create(
+      accountId,
+      `manual-${randomUUID()}`,
+      input.date,
+      input.date,
+      input.amount,
+      input.currency || 'ILS',
+      input.description,
+      input.status || 'completed',
+      null,
+      JSON.stringify({ source: 'manual', memo: input.memo ?? null }),
+      null,
+      undefined,
+      true
+    );
+
+    this.logger.info('Manual transaction created', { transactionId: transaction.id, accountId });
+    return transaction;
+  }
+
+  /**
+   * Update a transaction entered by hand. Scraped and imported transactions are left
+   * alone, since the next scrape would not match them anymore.
+   */
+  updateManualTransaction(id: string, updates: Partial<ManualTransactionInput>): Transaction {
+    const transaction = this.transactionRepository.findById(id);
+    if (!transaction) {
+      throw new Error(`Transaction with ID ${id} not found`);
+    }
+    if (!transaction.isManual) {
+      throw new Error('Only manual transactions can be edited');
+    }
+
+    this.transactionRepository.update(id, {
+      date: updates.date,
+      processedDate: updates.date,
+      amount: updates.amount,
+      currency: updates.currency,
+      description: updates.description,
+      status: updates.status,
+    });
+
+    return this.transactionRepository.findById(id)!;
+  }
+
+  /**
+   * Replace the automatic categories of a transaction with a fresh categorization result, as
+   * after its description changed. Categories the user chose by hand are kept as they are.
+   * Returns whether the categories were replaced.
+   */
+  replaceAutomaticCategories(userId: string, transactionId: string, categoryIds: string[]): boolean {
+    const current = this.transactionCategoryRepository.getByTransactionId(transactionId);
+    if (current.some((category) => category.isManual)) {
+      return false;
+    }
+
+    this.transactionCategoryRepository.removeAutomatic(transactionId);
+    this.attachCategories(userId, transactionId, categoryIds, { isManual: false, markFirstAsMain: true });
+    return true;
+  }
+
+  /**
+   * Delete a transaction entered by hand.
+   */
+  deleteManualTransaction(id: string): void {
+    const transaction = this.transactionRepository.findById(id);
+    if (!transaction) {
+      throw new Error(`Transaction with ID ${id} not found`);
+    }
+    if (!transaction.isManual) {
+      throw new Error('Only manual transactions can be deleted');
+    }
+
+    this.transactionRepository.delete(id);
+    this.logger.info('Manual transaction deleted', { transactionId: id });
+  }
+
   /**
    * Get a transaction by ID
    */
@@ -59,6 +156,7 @@ export class TransactionService {
    * Attach categories to a transaction and optionally set main category
    */
   attachCategories(
+    userId: string,
     transactionId: string,
     categoryIds: string[],
     options?: {
@@ -84,7 +182,7 @@ export class TransactionService {
 
     // If no categories matched, attach Unknown category as main
     if (categoryIds.length === 0) {
-      const unknownCategory = this.categoryRepository.findByName('Unknown');
+      const unknownCategory = this.categoryRepository.findByName(userId, UNKNOWN_CATEGORY_NAME);
       if (unknownCategory) {
         this.transactionCategoryRepository.attach(transactionId, unknownCategory.id, false, true);
         this.transactionRepository.setMainCategoryId(transactionId, unknownCategory.id);
@@ -96,10 +194,18 @@ export class TransactionService {
    * Set the main category for a transaction
    * If the category is not already attached, it will be attached first
    * Removes Unknown category if it exists (since Unknown is only a default)
+   * Manual changes are recorded as overrides, which categorization learns from; overrideReason is
+   * stored with the override
    */
-  setMainCategory(transactionId: string, categoryId: string, isManual: boolean = true): void {
-    // Verify category exists
-    const category = this.categoryRepository.findById(categoryId);
+  setMainCategory(
+    userId: string,
+    transactionId: string,
+    categoryId: string,
+    isManual: boolean = true,
+    overrideReason?: string
+  ): void {
+    // Verify the category exists and belongs to the user
+    const category = this.categoryRepository.findById(userId, categoryId);
     if (!category) {
       throw new Error(`Category with ID ${categoryId} not found`);
     }
@@ -107,9 +213,10 @@ export class TransactionService {
     // Get existing categories
     const existingCategories = this.transactionCategoryRepository.getByTransactionId(transactionId);
     const categoryAlreadyAttached = existingCategories.some(cat => cat.categoryId === categoryId);
+    const previousMainCategoryId = existingCategories.find(cat => cat.isMain)?.categoryId ?? null;
 
     // Find and remove Unknown category if it exists (Unknown is only a default placeholder)
-    const unknownCategory = this.categoryRepository.findByName('Unknown');
+    const unknownCategory = this.categoryRepository.findByName(userId, UNKNOWN_CATEGORY_NAME);
     if (unknownCategory) {
       const hasUnknown = existingCategories.some(cat => cat.categoryId === unknownCategory.id);
       if (hasUnknown) {
@@ -118,17 +225,28 @@ export class TransactionService {
       }
     }
 
-    // If not attached, attach it first
+    // If not attached, attach it first; setting it as main clears the previous main category
     if (!categoryAlreadyAttached) {
-      this.transactionCategoryRepository.attach(transactionId, categoryId, isManual, true);
-    } else {
-      // If already attached, just set it as main
-      this.transactionCategoryRepository.setAsMain(transactionId, categoryId);
+      this.transactionCategoryRepository.attach(transactionId, categoryId, isManual, false);
+    } else if (isManual) {
+      this.transactionCategoryRepository.markManual(transactionId, categoryId);
     }
+    this.transactionCategoryRepository.setAsMain(transactionId, categoryId);
 
     // Set main category ID in transactions table
     this.transactionRepository.setMainCategoryId(transactionId, categoryId);
 
+    if (isManual && previousMainCategoryId !== categoryId) {
+      this.categoryScoreRepository?.recordUserOverride({
+        transactionId,
+        previousMainCategoryId,
+        newMainCategoryId: categoryId,
+        userId,
+        reason: overrideReason,
+        timestamp: new Date(),
+      });
+    }
+
     this.logger.info(`Set main category for transaction ${transactionId} to ${category.name}`, {
       transactionId,
       categoryId,
@@ -137,6 +255,31 @@ export class TransactionService {
     });
   }
 
+  /**
+   * Put a transaction back in Unknown on the user's behalf, dropping its main category if it was
+   * assigned automatically. Categories the user assigned by hand are kept, just no longer main.
+   * Unknown is marked manual, so re-categorization does not bring the dropped category back.
+   */
+  clearMainCategory(userId: string, transactionId: string): void {
+    const unknownCategory = this.categoryRepository.findByName(userId, UNKNOWN_CATEGORY_NAME);
+    if (!unknownCategory) {
+      throw new Error(`${UNKNOWN_CATEGORY_NAME} category not found`);
+    }
+
+    const main = this.transactionCategoryRepository.getMainCategory(transactionId);
+    if (main && main.categoryId !== unknownCategory.id && !main.isManual) {
+      this.transactionCategoryRepository.detach(transactionId, main.categoryId);
+    }
+
+    if (this.transactionCategoryRepository.hasCategory(transactionId, unknownCategory.id)) {
+      this.transactionCategoryRepository.markManual(transactionId, unknownCategory.id);
+    } else {
+      this.transactionCategoryRepository.attach(transactionId, unknownCategory.id, true, false);
+    }
+    this.transactionCategoryRepository.setAsMain(transactionId, unknownCategory.id);
+    this.transactionRepository.setMainCategoryId(transactionId, unknownCategory.id);
+  }
+
   /**
    * Get all transactions with their descriptions (for re-categorization)
    */
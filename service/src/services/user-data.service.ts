@@ -0,0 +1,351 @@
+import JSZip from 'jszip';
+import { z } from 'zod';
+import { DatabaseService } from '../database/database.service';
+import { AccountRepository } from '../repositories/account.repository';
+import { TransactionRepository } from '../repositories/transaction.repository';
+import { TransactionCategoryRepository } from '../repositories/transaction-category.repository';
+import { CategoryRepository } from '../repositories/category.repository';
+import { CategoryScoreRepository } from '../repositories/category-score.repository';
+import { Logger } from '../utils/logger';
+
+export const USER_DATA_BUNDLE_VERSION = 1;
+
+/**
+ * Name of the JSON document inside a ZIP bundle.
+ */
+export const BUNDLE_ZIP_ENTRY = 'bundle.json';
+
+const BundleAccountSchema = z.object({
+  id: z.string().min(1),
+  companyId: z.string().min(1),
+  accountNumber: z.string(),
+  alias: z.string().min(1),
+  active: z.boolean(),
+  card6Digits: z.string().nullable(),
+  parentAccountId: z.string().nullable(),
+});
+
+const BundleCategorySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  parentCategory: z.string().nullable(),
+  keywords: z.array(z.string()),
+});
+
+const BundleTransactionSchema = z.object({
+  accountId: z.string().min(1),
+  txnHash: z.string().min(1),
+  date: z.iso.datetime(),
+  processedDate: z.iso.datetime(),
+  amount: z.number(),
+  currency: z.string().min(1),
+  description: z.string(),
+  status: z.enum(['completed', 'pending']),
+  installmentInfo: z.object({ number: z.number().int(), total: z.number().int() }).nullable(),
+  rawJson: z.string(),
+  enrichmentData: z.record(z.string(), z.any()).nullable(),
+  isManual: z.boolean(),
+  mainCategoryId: z.string().nullable(),
+  categories: z.array(z.object({ categoryId: z.string(), isManual: z.boolean(), isMain: z.boolean() })),
+});
+
+const BundleCategoryOverrideSchema = z.object({
+  accountId: z.string().min(1),
+  txnHash: z.string().min(1),
+  previousMainCategoryId: z.string().nullable(),
+  newMainCategoryId: z.string().min(1),
+  reason: z.string().nullable(),
+  overriddenAt: z.iso.datetime(),
+});
+
+export const UserDataBundleSchema = z.object({
+  version: z.literal(USER_DATA_BUNDLE_VERSION),
+  exportedAt: z.iso.datetime(),
+  accounts: z.array(BundleAccountSchema),
+  categories: z.array(BundleCategorySchema),
+  transactions: z.array(BundleTransactionSchema),
+  categoryOverrides: z.array(BundleCategoryOverrideSchema),
+});
+
+export type UserDataBundle = z.infer<typeof UserDataBundleSchema>;
+
+export interface UserDataImportResult {
+  accountsCreated: number;
+  accountsMatched: number;
+  categoriesCreated: number;
+  transactionsImported: number;
+  transactionsSkipped: number;
+  overridesImported: number;
+}
+
+/**
+ * Builds and restores portable per-user bundles: accounts (never credentials), transactions
+ * with their categories, the categories they use and the user's category overrides.
+ */
+export class UserDataService {
+  constructor(
+    private dbService: DatabaseService,
+    private accountRepository: AccountRepository,
+    private transactionRepository: TransactionRepository,
+    private transactionCategoryRepository: TransactionCategoryRepository,
+    private categoryRepository: CategoryRepository,
+    private categoryScoreRepository: CategoryScoreRepository,
+    private logger: Logger
+  ) {}
+
+  exportBundle(userId: string, now: Date = new Date()): UserDataBundle {
+    const accounts = this.accountRepository.findByUserId(userId);
+    // An empty account filter would match every user's transactions
+    const transactions =
+      accounts.length > 0 ? this.transactionRepository.findWithFilters({ accountIds: accounts.map((a) => a.id) }) : [];
+    const transactionsById = new Map(transactions.map((t) => [t.id, t]));
+
+    return {
+      version: USER_DATA_BUNDLE_VERSION,
+      exportedAt: now.toISOString(),
+      accounts: accounts.map((a) => ({
+        id: a.id,
+        companyId: a.companyId,
+        accountNumber: a.accountNumber,
+        alias: a.alias,
+        active: a.active,
+        card6Digits: a.card6Digits ?? null,
+        parentAccountId: a.parentAccountId ?? null,
+      })),
+      categories: this.categoryRepository.list(userId).map((c) => ({
+        id: c.id,
+        name: c.name,
+        parentCategory: c.parentCategory,
+        keywords: c.keywords,
+      })),
+      transactions: transactions.map((t) => ({
+        accountId: t.accountId,
+        txnHash: t.txnHash,
+        date: t.date.toISOString(),
+        processedDate: t.processedDate.toISOString(),
+        amount: t.amount,
+        currency: t.currency,
+        description: t.description,
+        status: t.status,
+        installmentInfo: t.installmentInfo,
+        rawJson: t.rawJson,
+        enrichmentData: (t as any).enrichmentData ?? null,
+        isManual: t.isManual,
+        mainCategoryId: t.mainCategoryId,
+        categories: t.categories.map((c) => ({ categoryId: c.categoryId, isManual: c.isManual, isMain: c.isMain })),
+      })),
+      categoryOverrides: this.categoryScoreRepository
+        .findOverridesByUserId(userId)
+        .filter((o) => transactionsById.has(o.transactionId))
+        .map((o) => {
+          const transaction = transactionsById.get(o.transactionId)!;
+          return {
+            accountId: transaction.accountId,
+            txnHash: transaction.txnHash,
+            previousMainCategoryId: o.previousMainCategoryId,
+            newMainCategoryId: o.newMainCategoryId,
+            reason: o.reason ?? null,
+            overriddenAt: o.timestamp.toISOString(),
+          };
+        }),
+    };
+  }
+
+  async exportZip(userId: string): Promise<Buffer> {
+    const zip = new JSZip();
+    zip.file(BUNDLE_ZIP_ENTRY, JSON.stringify(this.exportBundle(userId), null, 2));
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+
+  /**
+   * Read a bundle from an uploaded JSON or ZIP file. Throws when the content is not a valid bundle.
+   */
+  async readBundle(buffer: Buffer): Promise<UserDataBundle> {
+    let text: string;
+    // ZIP files start with the local file header signature "PK\x03\x04"
+    if (buffer.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))) {
+      const entry = (await JSZip.loadAsync(buffer)).file(BUNDLE_ZIP_ENTRY);
+      if (!entry) {
+        throw new Error(`ZIP bundle does not contain ${BUNDLE_ZIP_ENTRY}`);
+      }
+      text = await entry.async('string');
+    } else {
+      text = buffer.toString('utf8');
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(text.replace(/^\uFEFF/, ''));
+    } catch {
+      throw new Error('Bundle is not valid JSON');
+    }
+
+    const version = (data as { version?: unknown })?.version;
+    if (typeof version === 'number' && version > USER_DATA_BUNDLE_VERSION) {
+      throw new Error(`Bundle version ${version} is newer than this server supports`);
+    }
+
+    const parsed = UserDataBundleSchema.safeParse(data);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(`Invalid bundle: ${issue.path.join('.')} ${issue.message}`);
+    }
+    return parsed.data;
+  }
+
+  /**
+   * Restore a bundle into the user's data. Accounts are matched by ID, then by institution and
+   * account number; transactions already stored under the same txn_hash are skipped, so importing
+   * the same bundle twice changes nothing.
+   */
+  importBundle(userId: string, bundle: UserDataBundle): UserDataImportResult {
+    const result: UserDataImportResult = {
+      accountsCreated: 0,
+      accountsMatched: 0,
+      categoriesCreated: 0,
+      transactionsImported: 0,
+      transactionsSkipped: 0,
+      overridesImported: 0,
+    };
+
+    this.dbService.transaction(() => {
+      const accountIds = this.importAccounts(userId, bundle, result);
+      const categoryIds = this.importCategories(userId, bundle, result);
+      const importedTransactionIds = new Map<string, string>();
+
+      for (const t of bundle.transactions) {
+        const accountId = accountIds.get(t.accountId);
+        if (!accountId) {
+          throw new Error(`Transaction ${t.txnHash} references an account missing from the bundle`);
+        }
+
+        if (this.transactionRepository.findByHash(accountId, t.txnHash)) {
+          result.transactionsSkipped++;
+          continue;
+        }
+
+        const mainCategoryId = t.mainCategoryId ? categoryIds.get(t.mainCategoryId) ?? null : null;
+        const created = this.transactionRepository.create(
+          accountId,
+          t.txnHash,
+          new Date(t.date),
+          new Date(t.processedDate),
+          t.amount,
+          t.currency,
+          t.description,
+          t.status,
+          t.installmentInfo,
+          t.rawJson,
+          mainCategoryId,
+          t.enrichmentData ?? undefined,
+          t.isManual
+        );
+
+        for (const c of t.categories) {
+          const categoryId = categoryIds.get(c.categoryId);
+          if (categoryId && !this.transactionCategoryRepository.hasCategory(created.id, categoryId)) {
+            this.transactionCategoryRepository.attach(created.id, categoryId, c.isManual, c.isMain);
+          }
+        }
+
+        importedTransactionIds.set(`${t.accountId}|${t.txnHash}`, created.id);
+        result.transactionsImported++;
+      }
+
+      // Overrides of transactions that were already stored were restored along with them
+      for (const o of bundle.categoryOverrides) {
+        const transactionId = importedTransactionIds.get(`${o.accountId}|${o.txnHash}`);
+        const newMainCategoryId = categoryIds.get(o.newMainCategoryId);
+        if (!transactionId || !newMainCategoryId) continue;
+
+        this.categoryScoreRepository.recordUserOverride({
+          transactionId,
+          previousMainCategoryId: o.previousMainCategoryId ? categoryIds.get(o.previousMainCategoryId) ?? null : null,
+          newMainCategoryId,
+          userId,
+          reason: o.reason ?? undefined,
+          timestamp: new Date(o.overriddenAt),
+        });
+        result.overridesImported++;
+      }
+    });
+
+    this.logger.info('User data bundle imported', { userId, ...result });
+    return result;
+  }
+
+  /**
+   * Map bundle account IDs to the user's accounts, creating the missing ones. New accounts keep
+   * their bundle ID when it is free, so later scrapes produce the same transaction hashes.
+   */
+  private importAccounts(userId: string, bundle: UserDataBundle, result: UserDataImportResult): Map<string, string> {
+    const accountIds = new Map<string, string>();
+    const existing = this.accountRepository.findByUserId(userId);
+    // Login accounts first, so that cards can be attached to them
+    const ordered = [...bundle.accounts].sort((a, b) => Number(!!a.parentAccountId) - Number(!!b.parentAccountId));
+
+    for (const a of ordered) {
+      const parentAccountId = a.parentAccountId ? accountIds.get(a.parentAccountId) ?? null : null;
+      const match =
+        existing.find((e) => e.id === a.id) ||
+        existing.find(
+          (e) =>
+            e.companyId === a.companyId &&
+            e.accountNumber === a.accountNumber &&
+            (e.parentAccountId ?? null) === parentAccountId
+        );
+
+      if (match) {
+        accountIds.set(a.id, match.id);
+        result.accountsMatched++;
+        continue;
+      }
+
+      const freeId = this.accountRepository.findById(a.id) ? undefined : a.id;
+      const account = this.accountRepository.create(
+        userId,
+        a.accountNumber,
+        a.companyId,
+        a.alias,
+        a.active,
+        a.card6Digits,
+        parentAccountId,
+        freeId
+      );
+      accountIds.set(a.id, account.id);
+      result.accountsCreated++;
+    }
+
+    return accountIds;
+  }
+
+  private importCategories(
+    userId: string,
+    bundle: UserDataBundle,
+    result: UserDataImportResult
+  ): Map<string, string> {
+    const categoryIds = new Map<string, string>();
+    const created: Array<{ id: string; parentCategory: string }> = [];
+
+    for (const c of bundle.categories) {
+      let category = this.categoryRepository.findByName(userId, c.name);
+      if (!category) {
+        category = this.categoryRepository.create(userId, c.name, null, c.keywords);
+        result.categoriesCreated++;
+        if (c.parentCategory) created.push({ id: category.id, parentCategory: c.parentCategory });
+      }
+      categoryIds.set(c.id, category.id);
+    }
+
+    // Parents are linked once every category exists; bundles from before category trees hold the parent's name
+    for (const c of created) {
+      const parentId =
+        categoryIds.get(c.parentCategory) ?? this.categoryRepository.findByName(userId, c.parentCategory)?.id ?? null;
+      if (parentId && parentId !== c.id && !this.categoryRepository.getAncestorIds(userId, parentId).includes(c.id)) {
+        this.categoryRepository.update(userId, c.id, { parentCategory: parentId });
+      }
+    }
+
+    return categoryIds;
+  }
+}
@@ -0,0 +1,159 @@
+import { z } from 'zod';
+
+/**
+ * Card companies whose transactions carry their own category code. Amex runs on Isracard's
+ * systems and reports the same sectors, so its codes count as Isracard's.
+ */
+export const VENDOR_CODE_SOURCES = ['isracard', 'max', 'visaCal'] as const;
+export type VendorCodeSource = (typeof VENDOR_CODE_SOURCES)[number];
+
+export const VendorCategoryMappingSchema = z.object({
+  vendor: z.enum(VENDOR_CODE_SOURCES),
+  code: z.string().trim().min(1).max(100),
+  categoryId: z.string().min(1),
+});
+
+/**
+ * A card company's own category for a transaction: Isracard's sector text, Max's numeric
+ * category ID, or Cal's branch code.
+ */
+export interface VendorCode {
+  vendor: VendorCodeSource;
+  code: string;
+}
+
+/**
+ * Codes known to mean one of the default categories, used when the user has not mapped the
+ * code themselves. They apply only while the user has a category of that name. Codes whose
+ * documented meaning has no default category (Max 4 travel, Isracard insurance) are left out.
+ */
+export const DEFAULT_VENDOR_CATEGORY_CODES: Array<VendorCode & { categoryName: string }> = [
+  // Max category IDs: MAX_CATEGORY_ID_MAPPING in
+  // artifacts/transactions_new_arch/TRANSACTION_ENRICHMENT_ARCHITECTURE.md
+  { vendor: 'max', code: '1', categoryName: 'Shopping' },
+  { vendor: 'max', code: '2', categoryName: 'Food & Dining' },
+  { vendor: 'max', code: '3', categoryName: 'Entertainment' },
+  { vendor: 'max', code: '5', categoryName: 'Healthcare' },
+  { vendor: 'max', code: '6', categoryName: 'Transportation' },
+  { vendor: 'max', code: '7', categoryName: 'Bills & Utilities' },
+  { vendor: 'max', code: '8', categoryName: 'Bills & Utilities' },
+  // Isracard sectors: IsracardCategoryMapper.SECTOR_MAPPING in
+  // artifacts/transactions_new_arch/TRANSACTION_ENRICHMENT_CODE_TEMPLATES.md
+  { vendor: 'isracard', code: 'דלק ותחבורה', categoryName: 'Transportation' },
+  { vendor: 'isracard', code: 'מסעדות ובר', categoryName: 'Food & Dining' },
+  { vendor: 'isracard', code: 'בריאות ותזונה', categoryName: 'Healthcare' },
+  { vendor: 'isracard', code: 'קניות', categoryName: 'Shopping' },
+  { vendor: 'isracard', code: 'אופנה', categoryName: 'Shopping' },
+  { vendor: 'isracard', code: 'ילדים ותינוקות', categoryName: 'Shopping' },
+  { vendor: 'isracard', code: 'תרבות וקולנוע', categoryName: 'Entertainment' },
+  { vendor: 'isracard', code: 'טלקום ומדיה', categoryName: 'Bills & Utilities' },
+  { vendor: 'isracard', code: 'גז וחשמל', categoryName: 'Bills & Utilities' },
+  // Cal branch codes: the only documented one is the Visa Cal example in
+  // artifacts/transactions_new_arch/TRANSACTION_ENRICHMENT_SUMMARY.md; users map the others
+  { vendor: 'visaCal', code: 'RETAIL_CLOTHING', categoryName: 'Shopping' },
+];
+
+/**
+ * Codes are compared trimmed and case-insensitively.
+ */
+export function normalizeVendorCode(code: string): string {
+  return code.trim().toLowerCase();
+}
+
+export function vendorCodeKey(vendor: VendorCodeSource, code: string): string {
+  return `${vendor}:${normalizeVendorCode(code)}`;
+}
+
+/**
+ * The card company's category code of a transaction, read from its enrichment data, or from
+ * `rawJson.enrichmentData` for transactions loaded without it.
+ */
+export function extractVendorCode(transaction: {
+  rawJson: string;
+  enrichmentData?: Record<string, any>;
+}): VendorCode | null {
+  let enrichmentData: Record<string, any> | null = null;
+
+  if (transaction.enrichmentData) {
+    try {
+      enrichmentData =
+        typeof transaction.enrichmentData === 'string'
+          ? JSON.parse(transaction.enrichmentData)
+          : transaction.enrichmentData;
+    } catch {
+      // Ignore parse errors
+    }
+  }
+
+  if (!enrichmentData) {
+    try {
+      enrichmentData = JSON.parse(transaction.rawJson).enrichmentData ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  if (!enrichmentData) return null;
+
+  // Isracard/Amex sector (from the library's additionalTransactionInformation)
+  if (enrichmentData.sector) {
+    return { vendor: 'isracard', code: String(enrichmentData.sector) };
+  }
+
+  if (enrichmentData.maxCategoryId) {
+    return { vendor: 'max', code: String(enrichmentData.maxCategoryId) };
+  }
+
+  // Scraped Cal transactions carry the branch description, enriched ones the branch code
+  const branch = enrichmentData.merchantMetadata?.branchCode || enrichmentData.merchantMetadata?.branchCodeDesc;
+  if (branch) {
+    return { vendor: 'visaCal', code: String(branch) };
+  }
+
+  return null;
+}
+
+/**
+ * A code mapping in effect for a user: their own, or a default. Null category IDs mark defaults
+ * whose category the user does not have, so they do not apply.
+ */
+export interface EffectiveVendorMapping extends VendorCode {
+  categoryId: string | null;
+  source: 'user' | 'default';
+  mappingId: string | null; // Set for the user's own mappings
+}
+
+/**
+ * The user's own mappings, plus the defaults for codes they have not mapped, resolved against
+ * their categories by name.
+ */
+export function resolveVendorMappings(
+  own: Array<VendorCode & { id: string; categoryId: string }>,
+  categories: Array<{ id: string; name: string }>
+): EffectiveVendorMapping[] {
+  const mapped = new Set(own.map((m) => vendorCodeKey(m.vendor, m.code)));
+  const byName = new Map(categories.map((c) => [c.name.toLowerCase(), c.id]));
+
+  const defaults = DEFAULT_VENDOR_CATEGORY_CODES.filter((d) => !mapped.has(vendorCodeKey(d.vendor, d.code))).map(
+    (d): EffectiveVendorMapping => ({
+      vendor: d.vendor,
+      code: normalizeVendorCode(d.code),
+      categoryId: byName.get(d.categoryName.toLowerCase()) ?? null,
+      source: 'default',
+      mappingId: null,
+    })
+  );
+
+  return [
+    ...own.map(
+      (m): EffectiveVendorMapping => ({
+        vendor: m.vendor,
+        code: m.code,
+        categoryId: m.categoryId,
+        source: 'user',
+        mappingId: m.id,
+      })
+    ),
+    ...defaults,
+  ];
+}
@@ -25,13 +25,38 @@ export interface Account {
   companyId: string;
   alias: string;
   active: boolean;
-  accountType: 'bank' | 'credit';
+  accountType: 'bank' | 'credit' | 'manual'; // Manual accounts have no credentials and are never scraped
   card6Digits?: string | null;
+  parentAccountId?: string | null; // Set for sub-accounts / cards discovered under a scraper login
   createdAt: Date;
   updatedAt: Date;
   lastScrapedAt?: Date;
 }
 
+export interface BalanceSnapshot {
+  id: string;
+  accountId: string;
+  date: string; // YYYY-MM-DD, one snapshot per account per day (the latest scrape wins)
+  balance: number;
+  currency: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ScrapeSchedule {
+  id: string;
+  userId: string;
+  accountId: string;
+  cronExpression: string;
+  enabled: boolean;
+  overlapDays: number | null; // Overrides the institution's sync overlap when set
+  lastRunAt: Date | null;
+  nextRunAt: Date | null;
+  lastJobId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface Transaction {
   id: string;
   accountId: string;
@@ -46,6 +71,7 @@ export interface Transaction {
   status: 'completed' | 'pending';
   installmentInfo: InstallmentInfo | null;
   rawJson: string;
+  isManual: boolean; // Entered by hand rather than scraped or imported
   createdAt: Date;
 }
 
@@ -63,10 +89,32 @@ export interface InstallmentInfo {
   total: number;
 }
 
+/**
+ * One test in a categorization rule; a rule matches when all of its conditions do.
+ */
+export type CategorizationRuleCondition =
+  | { field: 'description'; operator: 'contains' | 'equals' | 'regex'; value: string }
+  | { field: 'amount'; min?: number; max?: number } // Compared with the absolute amount
+  | { field: 'account'; accountIds: string[] }
+  | { field: 'merchantId'; value: string };
+
+export interface CategorizationRule {
+  id: string;
+  userId: string;
+  name: string;
+  categoryId: string;
+  conditions: CategorizationRuleCondition[];
+  priority: number; // Higher priorities are evaluated first
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface Category {
   id: string;
+  userId: string;
   name: string;
-  parentCategory: string | null;
+  parentCategory: string | null; // ID of the parent category; null for top-level categories
   keywords: string[];
   createdAt: Date;
   updatedAt: Date;
@@ -75,7 +123,7 @@ export interface Category {
 export interface ScraperJob {
   id: string;
   userId: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'waiting_for_otp' | 'completed' | 'failed';
   startedAt: Date | null;
   completedAt: Date | null;
   accountsToScrape: string[];
@@ -89,7 +137,10 @@ export interface ScraperJobResult {
   success: boolean;
   transactionsCount: number;
   error: string | null;
+  errorClass: 'invalid_credentials' | 'change_password' | 'rate_limited' | 'timeout' | 'otp_required' | 'generic' | null;
+  attempts: number;
   duration: number;
+  screenshots: Array<{ fileName: string; stage: string; takenAt: number }>;
 }
 
 export interface AnalyticsSummary {
@@ -126,10 +177,12 @@ export interface ExpenseTrend {
 }
 
 export interface CategoryDistribution {
+  categoryId: string;
   category: string;
   totalAmount: number;
   percentage: number;
   transactionCount: number;
+  hasChildren: boolean;
 }
 
 export interface JWTPayload {